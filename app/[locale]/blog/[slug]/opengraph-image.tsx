@@ -0,0 +1,19 @@
+import { getPost } from "@/lib/blog/posts"
+import type { Locale } from "@/lib/i18n/config"
+import { getMessages } from "@/lib/i18n/messages"
+import { OG_IMAGE_ALT, OG_IMAGE_SIZE, renderOgImage } from "@/lib/seo/og-image"
+
+export const alt = OG_IMAGE_ALT
+export const size = OG_IMAGE_SIZE
+export const contentType = "image/png"
+
+/**
+ * Social preview card for an article
+ */
+export default async function Image({ params }: { params: { locale: Locale; slug: string } }) {
+  const messages = getMessages(params.locale)
+  const post = await getPost(params.slug)
+  if (!post) return renderOgImage({ title: messages.blog.title })
+
+  return renderOgImage({ eyebrow: messages.nav.blog, title: post.title, description: post.description })
+}
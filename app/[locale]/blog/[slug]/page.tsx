@@ -0,0 +1,124 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+
+import { PostCard } from "@/components/blog/post-card"
+import { getPost, getPosts, relatedPosts } from "@/lib/blog/posts"
+import { LOCALE_FORMATS, type Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import { getMessages } from "@/lib/i18n/messages"
+import { formatMessage } from "@/lib/i18n/translate"
+import { pageMetadata } from "@/lib/seo/metadata"
+import { getService } from "@/lib/services/catalog"
+
+interface ArticlePageProps {
+  params: { locale: Locale; slug: string }
+}
+
+// Only articles in content/blog exist; anything else is a 404
+export const dynamicParams = false
+
+/**
+ * Pre-render every article (once per locale) at build time
+ */
+export async function generateStaticParams() {
+  return (await getPosts()).map((post) => ({ slug: post.slug }))
+}
+
+export async function generateMetadata({ params }: ArticlePageProps): Promise<Metadata> {
+  const post = await getPost(params.slug)
+  if (!post) return {}
+  return pageMetadata({
+    locale: params.locale,
+    path: `/blog/${post.slug}`,
+    title: `${post.title} | TorestTech`,
+    description: post.description,
+    article: { publishedTime: post.date, modifiedTime: post.updated, authors: [post.author], tags: post.tags },
+  })
+}
+
+/**
+ * Article Page
+ *
+ * One MDX article with its metadata, a link to the related service and
+ * further reading.
+ */
+export default async function ArticlePage({ params }: ArticlePageProps) {
+  const post = await getPost(params.slug)
+  if (!post) notFound()
+
+  const messages = getMessages(params.locale)
+  const copy = messages.blog
+  const related = relatedPosts(await getPosts(), post)
+  const catalogService = post.service && getService(post.service)
+  const service = catalogService ? localizeService(catalogService, messages) : undefined
+  const formatDay = (day: string) =>
+    new Date(`${day}T00:00:00Z`).toLocaleDateString(LOCALE_FORMATS[params.locale], { dateStyle: "long", timeZone: "UTC" })
+
+  return (
+    <main id="main-content" tabIndex={-1} className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <Link
+        href={`/${params.locale}/blog`}
+        className="mb-8 inline-flex items-center gap-2 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        {copy.allArticles}
+      </Link>
+
+      <article lang={post.lang}>
+        <header className="mb-10">
+          <h1 className="text-4xl md:text-5xl font-bold text-slate-900 dark:text-white mb-4">{post.title}</h1>
+          <p lang={params.locale} className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-slate-500 dark:text-slate-400">
+            <span>{post.author}</span>
+            <time dateTime={post.date}>{formatMessage(copy.published, { date: formatDay(post.date) })}</time>
+            {post.updated && (
+              <time dateTime={post.updated}>{formatMessage(copy.updated, { date: formatDay(post.updated) })}</time>
+            )}
+            <span>{formatMessage(copy.readingTime, { minutes: post.readingMinutes })}</span>
+          </p>
+        </header>
+
+        {/* Rendered MDX body */}
+        <div className="text-lg text-slate-700 dark:text-slate-300">{post.content}</div>
+
+        <ul lang={params.locale} className="mt-10 flex flex-wrap gap-2">
+          {post.tags.map((tag) => (
+            <li key={tag}>
+              <Link
+                href={`/${params.locale}/blog?tag=${tag}`}
+                className="rounded bg-slate-100 dark:bg-slate-800 px-2 py-0.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-indigo-100 dark:hover:bg-indigo-900"
+              >
+                #{tag}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </article>
+
+      {/* The service this article supports */}
+      {service && (
+        <Link
+          href={`/${params.locale}/services/${service.slug}`}
+          className="mt-10 flex items-center gap-4 rounded-lg border border-indigo-200 dark:border-indigo-900 bg-indigo-50 dark:bg-indigo-950 p-6 hover:shadow-lg transition-shadow"
+        >
+          <service.icon className="h-8 w-8 shrink-0 text-indigo-600 dark:text-indigo-400" />
+          <span className="font-medium text-slate-900 dark:text-white">
+            {formatMessage(copy.serviceCta, { service: service.title })}
+          </span>
+        </Link>
+      )}
+
+      {related.length > 0 && (
+        <section className="mt-16">
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-6">{copy.related}</h2>
+          <div className="grid gap-6">
+            {related.map((other) => (
+              <PostCard key={other.slug} post={other} locale={params.locale} messages={messages} />
+            ))}
+          </div>
+        </section>
+      )}
+    </main>
+  )
+}
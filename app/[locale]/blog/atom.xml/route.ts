@@ -0,0 +1,28 @@
+import { renderAtomFeed } from "@/lib/blog/feed"
+import { getPosts } from "@/lib/blog/posts"
+import { LOCALES, type Locale } from "@/lib/i18n/config"
+import { getMessages } from "@/lib/i18n/messages"
+
+// Unsupported locales are a 404
+export const dynamicParams = false
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }))
+}
+
+/**
+ * Blog Atom 1.0 Feed
+ *
+ * GET /:locale/blog/atom.xml, generated at build time from content/blog
+ */
+export async function GET(_request: Request, { params }: { params: { locale: Locale } }) {
+  const copy = getMessages(params.locale).blog
+  const feed = renderAtomFeed(await getPosts(), {
+    title: copy.metaTitle,
+    description: copy.description,
+    path: `/${params.locale}/blog`,
+    feedPath: `/${params.locale}/blog/atom.xml`,
+    language: params.locale,
+  })
+  return new Response(feed, { headers: { "Content-Type": "application/atom+xml; charset=utf-8" } })
+}
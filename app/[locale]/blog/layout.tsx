@@ -0,0 +1,64 @@
+import type React from "react"
+import type { Metadata } from "next"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+
+import { LanguageSwitcher } from "@/components/language-switcher"
+import type { Locale } from "@/lib/i18n/config"
+import { getMessages } from "@/lib/i18n/messages"
+
+interface BlogLayoutProps {
+  children: React.ReactNode
+  params: { locale: Locale }
+}
+
+/**
+ * Feed discovery links for every blog page
+ */
+export function generateMetadata({ params }: { params: { locale: Locale } }): Metadata {
+  return {
+    alternates: {
+      types: {
+        "application/rss+xml": `/${params.locale}/blog/rss.xml`,
+        "application/atom+xml": `/${params.locale}/blog/atom.xml`,
+      },
+    },
+  }
+}
+
+/**
+ * Blog Layout
+ *
+ * Simple header linking back to the landing page, like the service pages.
+ */
+export default function BlogLayout({ children, params }: BlogLayoutProps) {
+  const messages = getMessages(params.locale)
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100">
+      <header className="border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href={`/${params.locale}`}>
+              <img src="/torestech-logo.jpeg" alt={messages.nav.logoAlt} className="h-10 w-auto" />
+            </Link>
+            <Link href={`/${params.locale}/blog`} className="font-semibold text-slate-900 dark:text-white">
+              {messages.nav.blog}
+            </Link>
+          </div>
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/${params.locale}`}
+              className="hidden sm:flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 hover:text-indigo-600 dark:hover:text-indigo-400"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              {messages.blog.backToSite}
+            </Link>
+            <LanguageSwitcher />
+          </div>
+        </div>
+      </header>
+      {children}
+    </div>
+  )
+}
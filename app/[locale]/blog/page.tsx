@@ -0,0 +1,123 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { Rss } from "lucide-react"
+
+import { PostCard } from "@/components/blog/post-card"
+import { filterPosts, getPosts } from "@/lib/blog/posts"
+import type { Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import { getMessages } from "@/lib/i18n/messages"
+import { pageMetadata } from "@/lib/seo/metadata"
+import { SERVICES } from "@/lib/services/catalog"
+
+interface BlogPageProps {
+  params: { locale: Locale }
+  searchParams: { tag?: string; service?: string }
+}
+
+export function generateMetadata({ params }: BlogPageProps): Metadata {
+  const messages = getMessages(params.locale)
+  return pageMetadata({
+    locale: params.locale,
+    path: "/blog",
+    title: messages.blog.metaTitle,
+    description: messages.blog.description,
+  })
+}
+
+/**
+ * Blog Listing
+ *
+ * Every article, newest first, filterable by tag and by related service
+ * through the `tag` and `service` query parameters.
+ */
+export default async function BlogPage({ params, searchParams }: BlogPageProps) {
+  const messages = getMessages(params.locale)
+  const copy = messages.blog
+  const allPosts = await getPosts()
+  const filters = { tag: searchParams.tag, service: searchParams.service }
+  const posts = filterPosts(allPosts, filters)
+
+  // Only offer filters that match at least one article
+  const tags = [...new Set(allPosts.flatMap((post) => post.tags))].sort()
+  const services = SERVICES.filter((service) => allPosts.some((post) => post.service === service.slug)).map(
+    (service) => localizeService(service, messages),
+  )
+
+  const filterHref = (changes: { tag?: string; service?: string }) => {
+    const query = new URLSearchParams(
+      Object.entries({ ...filters, ...changes }).filter((entry): entry is [string, string] => Boolean(entry[1])),
+    ).toString()
+    return `/${params.locale}/blog${query ? `?${query}` : ""}`
+  }
+  const chipClass = (active: boolean) =>
+    `rounded-full border px-3 py-1 text-sm transition-colors ${
+      active
+        ? "border-indigo-600 bg-indigo-600 text-white"
+        : "border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:border-indigo-600"
+    }`
+
+  return (
+    <main id="main-content" tabIndex={-1} className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 space-y-10">
+      <div>
+        <h1 className="text-4xl md:text-5xl font-bold text-slate-900 dark:text-white mb-4">{copy.title}</h1>
+        <p className="text-lg text-slate-600 dark:text-slate-300 max-w-3xl">{copy.description}</p>
+        <p className="mt-4 flex items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+          <Rss className="h-4 w-4 text-orange-500" />
+          {copy.subscribe}
+          <a href={`/${params.locale}/blog/rss.xml`} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+            {copy.rss}
+          </a>
+          <a href={`/${params.locale}/blog/atom.xml`} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+            {copy.atom}
+          </a>
+        </p>
+      </div>
+
+      {/* Filters; choosing the active one again clears it */}
+      <nav aria-label={copy.topics} className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="mr-1 text-sm font-medium text-slate-700 dark:text-slate-300">{copy.topics}</span>
+          {tags.map((tag) => (
+            <Link
+              key={tag}
+              href={filterHref({ tag: filters.tag === tag ? undefined : tag })}
+              aria-current={filters.tag === tag ? "true" : undefined}
+              className={chipClass(filters.tag === tag)}
+            >
+              #{tag}
+            </Link>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="mr-1 text-sm font-medium text-slate-700 dark:text-slate-300">{copy.services}</span>
+          {services.map((service) => (
+            <Link
+              key={service.slug}
+              href={filterHref({ service: filters.service === service.slug ? undefined : service.slug })}
+              aria-current={filters.service === service.slug ? "true" : undefined}
+              className={chipClass(filters.service === service.slug)}
+            >
+              {service.title}
+            </Link>
+          ))}
+        </div>
+        {(filters.tag || filters.service) && (
+          <Link href={`/${params.locale}/blog`} className="inline-block text-sm text-indigo-600 dark:text-indigo-400 hover:underline">
+            {copy.clearFilters}
+          </Link>
+        )}
+      </nav>
+
+      {posts.length ? (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {posts.map((post) => (
+            <PostCard key={post.slug} post={post} locale={params.locale} messages={messages} />
+          ))}
+        </div>
+      ) : (
+        <p className="py-12 text-center text-slate-500 dark:text-slate-400">{copy.empty}</p>
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,28 @@
+import { renderRssFeed } from "@/lib/blog/feed"
+import { getPosts } from "@/lib/blog/posts"
+import { LOCALES, type Locale } from "@/lib/i18n/config"
+import { getMessages } from "@/lib/i18n/messages"
+
+// Unsupported locales are a 404
+export const dynamicParams = false
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }))
+}
+
+/**
+ * Blog RSS 2.0 Feed
+ *
+ * GET /:locale/blog/rss.xml, generated at build time from content/blog
+ */
+export async function GET(_request: Request, { params }: { params: { locale: Locale } }) {
+  const copy = getMessages(params.locale).blog
+  const feed = renderRssFeed(await getPosts(), {
+    title: copy.metaTitle,
+    description: copy.description,
+    path: `/${params.locale}/blog`,
+    feedPath: `/${params.locale}/blog/rss.xml`,
+    language: params.locale,
+  })
+  return new Response(feed, { headers: { "Content-Type": "application/rss+xml; charset=utf-8" } })
+}
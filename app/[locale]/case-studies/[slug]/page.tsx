@@ -0,0 +1,147 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft, Quote } from "lucide-react"
+
+import { getCaseStudies, getCaseStudy } from "@/lib/case-studies/case-studies"
+import type { Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import { getMessages } from "@/lib/i18n/messages"
+import { pageMetadata } from "@/lib/seo/metadata"
+import { getService } from "@/lib/services/catalog"
+
+interface CaseStudyPageProps {
+  params: { locale: Locale; slug: string }
+}
+
+// Only case studies in content/case-studies exist; anything else is a 404
+export const dynamicParams = false
+
+/**
+ * Pre-render every case study (once per locale) at build time
+ */
+export async function generateStaticParams() {
+  return (await getCaseStudies()).map((caseStudy) => ({ slug: caseStudy.slug }))
+}
+
+export async function generateMetadata({ params }: CaseStudyPageProps): Promise<Metadata> {
+  const caseStudy = await getCaseStudy(params.slug)
+  if (!caseStudy) return {}
+  return pageMetadata({
+    locale: params.locale,
+    path: `/case-studies/${caseStudy.slug}`,
+    title: `${caseStudy.title} | TorestTech`,
+    description: caseStudy.summary,
+  })
+}
+
+/**
+ * Case Study Page
+ *
+ * The client's problem and outcome, headline results and quote, followed by
+ * the full story and links to the services that were used.
+ */
+export default async function CaseStudyPage({ params }: CaseStudyPageProps) {
+  const caseStudy = await getCaseStudy(params.slug)
+  if (!caseStudy) notFound()
+
+  const messages = getMessages(params.locale)
+  const copy = messages.caseStudies
+  const services = caseStudy.services.flatMap((slug) => {
+    const service = getService(slug)
+    return service ? [localizeService(service, messages)] : []
+  })
+
+  return (
+    <main id="main-content" tabIndex={-1} className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <Link
+        href={`/${params.locale}/case-studies`}
+        className="mb-8 inline-flex items-center gap-2 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        {copy.allCaseStudies}
+      </Link>
+
+      <article lang={caseStudy.lang}>
+        <header className="mb-10">
+          <div className="mb-6 flex items-center gap-4">
+            {caseStudy.logo && (
+              <img src={caseStudy.logo.src} alt={caseStudy.logo.alt} className="h-14 w-14 rounded object-contain bg-white p-1" />
+            )}
+            <div>
+              <p className="font-semibold text-slate-900 dark:text-white">{caseStudy.client}</p>
+              <Link
+                lang={params.locale}
+                href={`/${params.locale}/case-studies?industry=${caseStudy.industry}`}
+                className="text-sm text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+              >
+                {copy.industryLabels[caseStudy.industry]}
+              </Link>
+            </div>
+          </div>
+          <h1 className="text-4xl md:text-5xl font-bold text-slate-900 dark:text-white mb-4">{caseStudy.title}</h1>
+          <p className="text-lg text-slate-600 dark:text-slate-300">{caseStudy.summary}</p>
+        </header>
+
+        {caseStudy.results.length > 0 && (
+          <section className="mb-10">
+            <h2 lang={params.locale} className="sr-only">
+              {copy.results}
+            </h2>
+            <dl className="grid grid-cols-2 gap-6 rounded-lg bg-indigo-50 dark:bg-indigo-950 p-6">
+              {caseStudy.results.map((result) => (
+                <div key={result.label} className="flex flex-col-reverse">
+                  <dt className="text-sm text-slate-600 dark:text-slate-300">{result.label}</dt>
+                  <dd className="text-2xl font-bold text-indigo-600 dark:text-indigo-400">{result.value}</dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        )}
+
+        <section className="mb-8">
+          <h2 lang={params.locale} className="text-2xl font-bold text-slate-900 dark:text-white mb-3">
+            {copy.problem}
+          </h2>
+          <p className="text-lg text-slate-700 dark:text-slate-300">{caseStudy.problem}</p>
+        </section>
+        <section className="mb-8">
+          <h2 lang={params.locale} className="text-2xl font-bold text-slate-900 dark:text-white mb-3">
+            {copy.outcome}
+          </h2>
+          <p className="text-lg text-slate-700 dark:text-slate-300">{caseStudy.outcome}</p>
+        </section>
+
+        {caseStudy.quote && (
+          <figure className="my-10 border-l-4 border-indigo-600 pl-6">
+            <Quote className="mb-3 h-6 w-6 text-indigo-600 dark:text-indigo-400" aria-hidden="true" />
+            <blockquote className="text-xl italic text-slate-800 dark:text-slate-200">{caseStudy.quote.text}</blockquote>
+            <figcaption className="mt-3 text-sm text-slate-500 dark:text-slate-400">
+              {[caseStudy.quote.author, caseStudy.quote.role].filter(Boolean).join(", ")}
+            </figcaption>
+          </figure>
+        )}
+
+        {/* Rendered Markdown body */}
+        <div className="text-lg text-slate-700 dark:text-slate-300">{caseStudy.content}</div>
+      </article>
+
+      {/* The services behind the project */}
+      <section lang={params.locale} className="mt-16">
+        <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-6">{copy.servicesUsed}</h2>
+        <div className="grid sm:grid-cols-2 gap-4">
+          {services.map((service) => (
+            <Link
+              key={service.slug}
+              href={`/${params.locale}/services/${service.slug}`}
+              className="flex items-center gap-4 rounded-lg border border-indigo-200 dark:border-indigo-900 bg-indigo-50 dark:bg-indigo-950 p-4 hover:shadow-lg transition-shadow"
+            >
+              <service.icon className="h-8 w-8 shrink-0 text-indigo-600 dark:text-indigo-400" />
+              <span className="font-medium text-slate-900 dark:text-white">{service.title}</span>
+            </Link>
+          ))}
+        </div>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,119 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+
+import { CaseStudyCard } from "@/components/case-studies/case-study-card"
+import { filterCaseStudies, getCaseStudies, INDUSTRIES } from "@/lib/case-studies/case-studies"
+import type { Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import { getMessages } from "@/lib/i18n/messages"
+import { pageMetadata } from "@/lib/seo/metadata"
+import { SERVICES } from "@/lib/services/catalog"
+
+interface CaseStudiesPageProps {
+  params: { locale: Locale }
+  searchParams: { industry?: string; service?: string }
+}
+
+export function generateMetadata({ params }: CaseStudiesPageProps): Metadata {
+  const messages = getMessages(params.locale)
+  return pageMetadata({
+    locale: params.locale,
+    path: "/case-studies",
+    title: messages.caseStudies.metaTitle,
+    description: messages.caseStudies.description,
+  })
+}
+
+/**
+ * Case Studies Index
+ *
+ * Every published case study, newest first, filterable by the client's
+ * industry and by the services used through the `industry` and `service`
+ * query parameters. Service cards on the landing page link here filtered.
+ * Until a case study is published the page doesn't exist.
+ */
+export default async function CaseStudiesPage({ params, searchParams }: CaseStudiesPageProps) {
+  const messages = getMessages(params.locale)
+  const copy = messages.caseStudies
+  const allCaseStudies = await getCaseStudies()
+  if (!allCaseStudies.length) notFound()
+  const filters = { industry: searchParams.industry, service: searchParams.service }
+  const caseStudies = filterCaseStudies(allCaseStudies, filters)
+
+  // Only offer filters that match at least one case study
+  const industries = INDUSTRIES.filter((industry) => allCaseStudies.some((caseStudy) => caseStudy.industry === industry))
+  const services = SERVICES.filter((service) =>
+    allCaseStudies.some((caseStudy) => caseStudy.services.includes(service.slug)),
+  ).map((service) => localizeService(service, messages))
+
+  const filterHref = (changes: { industry?: string; service?: string }) => {
+    const query = new URLSearchParams(
+      Object.entries({ ...filters, ...changes }).filter((entry): entry is [string, string] => Boolean(entry[1])),
+    ).toString()
+    return `/${params.locale}/case-studies${query ? `?${query}` : ""}`
+  }
+  const chipClass = (active: boolean) =>
+    `rounded-full border px-3 py-1 text-sm transition-colors ${
+      active
+        ? "border-indigo-600 bg-indigo-600 text-white"
+        : "border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:border-indigo-600"
+    }`
+
+  return (
+    <main id="main-content" tabIndex={-1} className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 space-y-10">
+      <div>
+        <h1 className="text-4xl md:text-5xl font-bold text-slate-900 dark:text-white mb-4">{copy.title}</h1>
+        <p className="text-lg text-slate-600 dark:text-slate-300 max-w-3xl">{copy.description}</p>
+      </div>
+
+      {/* Filters; choosing the active one again clears it */}
+      <nav aria-label={copy.title} className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="mr-1 text-sm font-medium text-slate-700 dark:text-slate-300">{copy.industries}</span>
+          {industries.map((industry) => (
+            <Link
+              key={industry}
+              href={filterHref({ industry: filters.industry === industry ? undefined : industry })}
+              aria-current={filters.industry === industry ? "true" : undefined}
+              className={chipClass(filters.industry === industry)}
+            >
+              {copy.industryLabels[industry]}
+            </Link>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="mr-1 text-sm font-medium text-slate-700 dark:text-slate-300">{copy.services}</span>
+          {services.map((service) => (
+            <Link
+              key={service.slug}
+              href={filterHref({ service: filters.service === service.slug ? undefined : service.slug })}
+              aria-current={filters.service === service.slug ? "true" : undefined}
+              className={chipClass(filters.service === service.slug)}
+            >
+              {service.title}
+            </Link>
+          ))}
+        </div>
+        {(filters.industry || filters.service) && (
+          <Link
+            href={`/${params.locale}/case-studies`}
+            className="inline-block text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            {copy.clearFilters}
+          </Link>
+        )}
+      </nav>
+
+      {caseStudies.length ? (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {caseStudies.map((caseStudy) => (
+            <CaseStudyCard key={caseStudy.slug} caseStudy={caseStudy} locale={params.locale} messages={messages} />
+          ))}
+        </div>
+      ) : (
+        <p className="py-12 text-center text-slate-500 dark:text-slate-400">{copy.empty}</p>
+      )}
+    </main>
+  )
+}
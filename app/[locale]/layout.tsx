@@ -0,0 +1,94 @@
+import type React from "react"
+import type { Metadata } from "next"
+import "../globals.css"
+import { inter, poppins } from "@/app/fonts"
+import { ThemeProvider } from "@/components/theme-provider"
+import { I18nProvider } from "@/components/i18n-provider"
+import { AnalyticsScripts } from "@/components/analytics-scripts"
+import { ConsentBanner } from "@/components/consent-banner"
+import { LOCALES, type Locale } from "@/lib/i18n/config"
+import { getMessages } from "@/lib/i18n/messages"
+import { pageMetadata } from "@/lib/seo/metadata"
+import { COMPANY, SITE_URL } from "@/lib/site"
+
+interface LocaleLayoutProps {
+  children: React.ReactNode
+  params: { locale: Locale }
+}
+
+// Only supported locales exist; the middleware redirects everything else
+export const dynamicParams = false
+
+/**
+ * Pre-render every page once per supported locale
+ */
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }))
+}
+
+/**
+ * SEO Metadata Configuration
+ * Site-wide defaults for search engines and social media sharing; each page
+ * adds its own canonical URL and hreflang alternates (see lib/seo/metadata.ts)
+ */
+export function generateMetadata({ params }: { params: { locale: Locale } }): Metadata {
+  const messages = getMessages(params.locale)
+  const { alternates: _alternates, ...defaults } = pageMetadata({
+    locale: params.locale,
+    path: "",
+    title: messages.metadata.title,
+    description: messages.metadata.description,
+  })
+  return {
+    ...defaults,
+    metadataBase: new URL(SITE_URL),
+    applicationName: COMPANY.name,
+    keywords: messages.metadata.keywords,
+  }
+}
+
+/**
+ * Root Layout Component
+ *
+ * Provides the base HTML structure and global providers for every page of a locale.
+ * Includes:
+ * - Font loading and CSS variables
+ * - Document language and the locale's message catalog for client islands
+ * - Theme provider for dark/light mode functionality
+ * - Analytics consent banner; analytics scripts load only after consent
+ * - Skip-to-content link, global styling and accessibility features
+ */
+export default function RootLayout({ children, params }: LocaleLayoutProps) {
+  const messages = getMessages(params.locale)
+
+  return (
+    <html
+      lang={params.locale}
+      className={`${inter.variable} ${poppins.variable} antialiased`}
+      suppressHydrationWarning // Prevents hydration warnings from theme provider
+    >
+      <body className="font-sans">
+        {/* Theme Provider enables dark/light mode switching with system preference detection */}
+        <ThemeProvider
+          attribute="class" // Uses CSS classes for theme switching
+          defaultTheme="system" // Respects user's system preference
+          enableSystem // Allows automatic theme detection
+          disableTransitionOnChange // Prevents flash during theme changes
+        >
+          <I18nProvider locale={params.locale} messages={messages}>
+            {/* First stop for keyboard users; every page's <main> has id="main-content" */}
+            <a
+              href="#main-content"
+              className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-[100] focus:rounded-md focus:bg-white focus:px-4 focus:py-2 focus:font-medium focus:text-indigo-700 focus:shadow-lg"
+            >
+              {messages.nav.skipToContent}
+            </a>
+            {children}
+            <ConsentBanner />
+            <AnalyticsScripts />
+          </I18nProvider>
+        </ThemeProvider>
+      </body>
+    </html>
+  )
+}
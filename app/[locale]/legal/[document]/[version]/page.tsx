@@ -0,0 +1,55 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+
+import { LegalDocument } from "@/components/legal/legal-document"
+import type { Locale } from "@/lib/i18n/config"
+import { getMessages } from "@/lib/i18n/messages"
+import { LEGAL_DOCUMENTS, getLegalDocument, getLegalVersions, isLegalDocument } from "@/lib/legal/documents"
+
+interface LegalVersionPageProps {
+  params: { locale: Locale; document: string; version: string }
+}
+
+// Versions that take effect after the build render on first request; unpublished ones are a 404
+export const dynamicParams = true
+
+// Re-render hourly so the version list picks up a scheduled version on its date
+export const revalidate = 3600
+
+export async function generateStaticParams() {
+  const versions = await Promise.all(LEGAL_DOCUMENTS.map(getLegalVersions))
+  return versions.flat().map(({ document, version }) => ({ document, version }))
+}
+
+export async function generateMetadata({ params }: LegalVersionPageProps): Promise<Metadata> {
+  const document = isLegalDocument(params.document) ? await getLegalDocument(params.document, params.version) : undefined
+  if (!document) return {}
+  return {
+    title: `${getMessages(params.locale).legal.documents[document.document]} (${document.version}) | TorestTech`,
+    description: document.description,
+    // Search engines should only show the version in force
+    robots: { index: false },
+    alternates: { canonical: `/${params.locale}/legal/${document.document}` },
+  }
+}
+
+/**
+ * Legal Version Page
+ *
+ * A dated version of a legal document, kept online so anyone can read the
+ * policy that applied when they contacted us.
+ */
+export default async function LegalVersionPage({ params }: LegalVersionPageProps) {
+  if (!isLegalDocument(params.document)) notFound()
+  const document = await getLegalDocument(params.document, params.version)
+  if (!document) notFound()
+
+  return (
+    <LegalDocument
+      document={document}
+      versions={await getLegalVersions(params.document)}
+      locale={params.locale}
+      messages={getMessages(params.locale)}
+    />
+  )
+}
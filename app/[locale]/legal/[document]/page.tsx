@@ -0,0 +1,53 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+
+import { LegalDocument } from "@/components/legal/legal-document"
+import type { Locale } from "@/lib/i18n/config"
+import { getMessages } from "@/lib/i18n/messages"
+import { LEGAL_DOCUMENTS, getLegalDocument, getLegalVersions, isLegalDocument } from "@/lib/legal/documents"
+import { pageMetadata } from "@/lib/seo/metadata"
+
+interface LegalPageProps {
+  params: { locale: Locale; document: string }
+}
+
+// Only the documents in content/legal exist; anything else is a 404
+export const dynamicParams = false
+
+// Re-render hourly so a scheduled version takes over on its date
+export const revalidate = 3600
+
+export function generateStaticParams() {
+  return LEGAL_DOCUMENTS.map((document) => ({ document }))
+}
+
+export async function generateMetadata({ params }: LegalPageProps): Promise<Metadata> {
+  const document = isLegalDocument(params.document) ? await getLegalDocument(params.document) : undefined
+  if (!document) return {}
+  return pageMetadata({
+    locale: params.locale,
+    path: `/legal/${document.document}`,
+    title: `${getMessages(params.locale).legal.documents[document.document]} | TorestTech`,
+    description: document.description,
+  })
+}
+
+/**
+ * Legal Page
+ *
+ * The version of a legal document in force today, with its changelog.
+ */
+export default async function LegalPage({ params }: LegalPageProps) {
+  if (!isLegalDocument(params.document)) notFound()
+  const document = await getLegalDocument(params.document)
+  if (!document) notFound()
+
+  return (
+    <LegalDocument
+      document={document}
+      versions={await getLegalVersions(params.document)}
+      locale={params.locale}
+      messages={getMessages(params.locale)}
+    />
+  )
+}
@@ -0,0 +1,16 @@
+import { getSiteContent } from "@/lib/cms/content"
+import type { Locale } from "@/lib/i18n/config"
+import { OG_IMAGE_ALT, OG_IMAGE_SIZE, renderOgImage } from "@/lib/seo/og-image"
+
+export const alt = OG_IMAGE_ALT
+export const size = OG_IMAGE_SIZE
+export const contentType = "image/png"
+
+/**
+ * Social preview card for the landing page and any page without its own,
+ * titled with the published hero and footer copy in the page's language
+ */
+export default async function Image({ params }: { params: { locale: Locale } }) {
+  const content = await getSiteContent(params.locale)
+  return renderOgImage({ title: content.hero.title, description: content.footer.tagline })
+}
@@ -0,0 +1,108 @@
+// Import page sections; static sections render on the server, interactive parts are client islands
+import { SiteNav } from "@/components/sections/site-nav"
+import { HeroSection } from "@/components/sections/hero-section"
+import { StatsSection } from "@/components/sections/stats-section"
+import { ValuePropSection } from "@/components/sections/value-prop-section"
+import { ServicesSection } from "@/components/sections/services-section"
+import { PricingSection } from "@/components/sections/pricing-section"
+import { TestimonialsSection } from "@/components/sections/testimonials-section"
+import { AboutSection } from "@/components/sections/about-section"
+import { ContactSection } from "@/components/sections/contact-section"
+import { SiteFooter } from "@/components/sections/site-footer"
+import { WhatsAppButton } from "@/components/sections/whatsapp-button"
+import type { Metadata } from "next"
+import { draftMode } from "next/headers"
+
+import { JsonLd } from "@/components/json-ld"
+import { PreviewBanner } from "@/components/preview-banner"
+import { getPosts } from "@/lib/blog/posts"
+import { getCaseStudies, testimonials } from "@/lib/case-studies/case-studies"
+import { getSiteContent } from "@/lib/cms/content"
+import type { Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import { getMessages } from "@/lib/i18n/messages"
+import { localBusinessJsonLd } from "@/lib/seo/json-ld"
+import { pageMetadata } from "@/lib/seo/metadata"
+import { SERVICES } from "@/lib/services/catalog"
+import { getSiteStats } from "@/lib/stats/source"
+
+// Re-read the stats source at most once an hour; publishing content revalidates immediately
+export const revalidate = 3600
+
+/**
+ * Landing page metadata, with hreflang alternates pointing at every translation
+ */
+export function generateMetadata({ params }: { params: { locale: Locale } }): Metadata {
+  const messages = getMessages(params.locale)
+  return pageMetadata({
+    locale: params.locale,
+    path: "",
+    title: messages.metadata.title,
+    description: messages.metadata.description,
+  })
+}
+
+/**
+ * Main Torestech Website Component
+ *
+ * This is the primary landing page, rendered on the server once per locale. It includes:
+ * - Responsive navigation with dark/light mode toggle (client island)
+ * - Hero section with CTA
+ * - Animated statistics counter (client island)
+ * - Services showcase with AI-powered modals (dialogs are client islands), related blog articles and case studies
+ * - Client testimonials carousel drawn from the case studies (client island)
+ * - Plan comparison table and quote estimator (client island) feeding the consultation form
+ * - About section with company story
+ * - Contact forms (AI troubleshooting + consultation, client islands)
+ * - Footer with company information and social links
+ * - Floating WhatsApp button for community engagement (client island)
+ * - LocalBusiness structured data listing the services
+ * Hero, value proposition, about and footer copy come from the site content,
+ * edited in the admin dashboard; in draft mode the page shows the draft.
+ */
+export default async function TorestechWebsite({ params }: { params: { locale: Locale } }) {
+  const preview = draftMode().isEnabled
+  const [siteStats, posts, caseStudies, content] = await Promise.all([
+    getSiteStats(),
+    getPosts(),
+    getCaseStudies(),
+    getSiteContent(params.locale, { draft: preview }),
+  ])
+  const messages = getMessages(params.locale)
+
+  return (
+    <div className="min-h-screen">
+      {preview && <PreviewBanner locale={params.locale} />}
+      <JsonLd
+        data={localBusinessJsonLd(
+          params.locale,
+          messages,
+          SERVICES.map((service) => localizeService(service, messages)),
+        )}
+      />
+      <SiteNav hasCaseStudies={caseStudies.length > 0} />
+
+      {/* Main Website Content */}
+      <main id="main-content" tabIndex={-1} className="bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100">
+        <HeroSection content={content.hero} />
+        <StatsSection siteStats={siteStats} locale={params.locale} messages={messages} />
+        <ValuePropSection content={content.valueProp} />
+        <ServicesSection locale={params.locale} messages={messages} posts={posts} caseStudies={caseStudies} />
+        <TestimonialsSection testimonials={testimonials(caseStudies)} locale={params.locale} messages={messages} />
+        <PricingSection locale={params.locale} messages={messages} />
+        <AboutSection content={content.about} />
+        <ContactSection messages={messages} />
+      </main>
+
+      <SiteFooter
+        messages={messages}
+        locale={params.locale}
+        tagline={content.footer.tagline}
+        hasCaseStudies={caseStudies.length > 0}
+      />
+
+      {/* Floating WhatsApp Community Button - Appears after scrolling */}
+      <WhatsAppButton />
+    </div>
+  )
+}
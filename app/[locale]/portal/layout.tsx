@@ -0,0 +1,55 @@
+import type React from "react"
+import type { Metadata } from "next"
+import Link from "next/link"
+
+import { LanguageSwitcher } from "@/components/language-switcher"
+import { PortalSignOutButton } from "@/components/portal/portal-sign-out-button"
+import type { Locale } from "@/lib/i18n/config"
+import { getMessages } from "@/lib/i18n/messages"
+import { getPortalUser } from "@/lib/portal/session"
+
+interface PortalLayoutProps {
+  children: React.ReactNode
+  params: { locale: Locale }
+}
+
+export function generateMetadata({ params }: { params: { locale: Locale } }): Metadata {
+  return {
+    title: getMessages(params.locale).portal.metaTitle,
+    // Private client area
+    robots: { index: false, follow: false },
+  }
+}
+
+/**
+ * Client Portal Layout
+ *
+ * Slim header with the portal title, language switcher and, once signed in,
+ * a sign-out button.
+ */
+export default async function PortalLayout({ children, params }: PortalLayoutProps) {
+  const messages = getMessages(params.locale)
+  const user = await getPortalUser()
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100">
+      <header className="border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Link href={`/${params.locale}`} aria-label={messages.portal.backToSite}>
+              <img src="/torestech-logo.jpeg" alt={messages.nav.logoAlt} className="h-10 w-auto" />
+            </Link>
+            <Link href={`/${params.locale}/portal`} className="font-semibold text-slate-900 dark:text-white">
+              {messages.portal.title}
+            </Link>
+          </div>
+          <div className="flex items-center gap-2">
+            <LanguageSwitcher />
+            {user && <PortalSignOutButton />}
+          </div>
+        </div>
+      </header>
+      <main id="main-content" tabIndex={-1} className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">{children}</main>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import Link from "next/link"
+import { Plus } from "lucide-react"
+
+import { Card, CardContent } from "@/components/ui/card"
+import { TicketStatusBadge } from "@/components/portal/ticket-status-badge"
+import { LOCALE_FORMATS, type Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import { getMessages } from "@/lib/i18n/messages"
+import { formatMessage } from "@/lib/i18n/translate"
+import { hasUnreadReply } from "@/lib/portal/schema"
+import { requirePortalUser } from "@/lib/portal/session"
+import { getTicketStore } from "@/lib/portal/tickets"
+import { getService } from "@/lib/services/catalog"
+
+// Always read the latest tickets and the session cookie
+export const dynamic = "force-dynamic"
+
+/**
+ * Client Portal Home
+ *
+ * The signed-in client's tickets, most recently active first, with unread
+ * technician replies flagged.
+ */
+export default async function PortalPage({ params }: { params: { locale: Locale } }) {
+  const user = await requirePortalUser(params.locale)
+  const messages = getMessages(params.locale)
+  const copy = messages.portal.tickets
+  const tickets = await getTicketStore().listForUser(user.id)
+
+  const categoryLabel = (slug: string) => {
+    const service = getService(slug)
+    return service ? localizeService(service, messages).title : slug
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 dark:text-white">{copy.title}</h1>
+          <p className="text-slate-600 dark:text-slate-300">{formatMessage(copy.welcome, { name: user.name })}</p>
+        </div>
+        <Link href={`/${params.locale}/portal/tickets/new`} className="cta-button-primary inline-flex items-center">
+          <Plus className="w-4 h-4 mr-2" />
+          {copy.new}
+        </Link>
+      </div>
+
+      <Card className="border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+        <CardContent className="overflow-x-auto">
+          {tickets.length ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                  <th className="py-2 pr-4 font-medium">{copy.subject}</th>
+                  <th className="py-2 pr-4 font-medium">{copy.category}</th>
+                  <th className="py-2 pr-4 font-medium">{copy.status}</th>
+                  <th className="py-2 font-medium">{copy.updated}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tickets.map((ticket) => (
+                  <tr key={ticket.id} className="border-b border-slate-100 dark:border-slate-700 align-top">
+                    <td className="py-3 pr-4">
+                      <Link
+                        href={`/${params.locale}/portal/tickets/${ticket.id}`}
+                        className="font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                      >
+                        {ticket.subject}
+                      </Link>
+                      {hasUnreadReply(ticket) && (
+                        <span className="ml-2 rounded bg-indigo-600 px-1.5 py-0.5 text-xs text-white">{copy.newReply}</span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4">{categoryLabel(ticket.category)}</td>
+                    <td className="py-3 pr-4">
+                      <TicketStatusBadge status={ticket.status} label={messages.portal.statuses[ticket.status]} />
+                    </td>
+                    <td className="py-3 whitespace-nowrap">
+                      <time dateTime={ticket.updatedAt}>
+                        {new Date(ticket.updatedAt).toLocaleDateString(LOCALE_FORMATS[params.locale])}
+                      </time>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="py-8 text-center text-slate-500 dark:text-slate-400">{copy.empty}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
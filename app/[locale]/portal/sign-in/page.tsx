@@ -0,0 +1,40 @@
+import Link from "next/link"
+import { redirect } from "next/navigation"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { MagicLinkForm } from "@/components/portal/magic-link-form"
+import type { Locale } from "@/lib/i18n/config"
+import { getMessages } from "@/lib/i18n/messages"
+import { getPortalUser, isPortalConfigured } from "@/lib/portal/session"
+
+// Session state is read from the request cookies
+export const dynamic = "force-dynamic"
+
+/**
+ * Portal Sign-in Page
+ */
+export default async function PortalSignInPage({ params }: { params: { locale: Locale } }) {
+  if (await getPortalUser()) redirect(`/${params.locale}/portal`)
+  const copy = getMessages(params.locale).portal.signIn
+
+  return (
+    <Card className="max-w-md mx-auto border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl text-slate-900 dark:text-white">{copy.title}</CardTitle>
+        <CardDescription className="text-slate-600 dark:text-slate-300">{copy.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isPortalConfigured() ? (
+          <MagicLinkForm />
+        ) : (
+          <p className="text-sm text-slate-600 dark:text-slate-300">{copy.notConfigured}</p>
+        )}
+        <p className="text-center text-sm">
+          <Link href={`/${params.locale}#contact`} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+            {copy.notClient}
+          </Link>
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
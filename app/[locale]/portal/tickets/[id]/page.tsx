@@ -0,0 +1,76 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+
+import { Card, CardContent } from "@/components/ui/card"
+import { TicketReplyForm } from "@/components/portal/ticket-reply-form"
+import { TicketStatusBadge } from "@/components/portal/ticket-status-badge"
+import { TicketThread } from "@/components/portal/ticket-thread"
+import { LOCALE_FORMATS, type Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import { getMessages } from "@/lib/i18n/messages"
+import { formatMessage } from "@/lib/i18n/translate"
+import { requirePortalUser } from "@/lib/portal/session"
+import { getTicketStore } from "@/lib/portal/tickets"
+import { getService } from "@/lib/services/catalog"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Ticket Detail Page
+ *
+ * The full thread with technician replies; viewing it clears the "new reply"
+ * flag on the ticket list.
+ */
+export default async function TicketPage({ params }: { params: { locale: Locale; id: string } }) {
+  const user = await requirePortalUser(params.locale)
+  const store = getTicketStore()
+  const ticket = await store.get(params.id)
+  // Other clients' tickets are indistinguishable from missing ones
+  if (!ticket || ticket.userId !== user.id) notFound()
+  await store.markSeen(ticket.id)
+
+  const messages = getMessages(params.locale)
+  const copy = messages.portal
+  const dateLocale = LOCALE_FORMATS[params.locale]
+  const service = getService(ticket.category)
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Link
+        href={`/${params.locale}/portal`}
+        className="inline-flex items-center text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+      >
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        {copy.tickets.allTickets}
+      </Link>
+
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold text-slate-900 dark:text-white">{ticket.subject}</h1>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+          <TicketStatusBadge status={ticket.status} label={copy.statuses[ticket.status]} />
+          <span>{service ? localizeService(service, messages).title : ticket.category}</span>
+          <span>
+            {formatMessage(copy.thread.opened, {
+              date: new Date(ticket.createdAt).toLocaleDateString(dateLocale, { dateStyle: "medium" }),
+            })}
+          </span>
+        </div>
+      </div>
+
+      <TicketThread
+        ticket={ticket}
+        authorLabel={(message) =>
+          message.author === "client" ? copy.thread.you : formatMessage(copy.thread.technician, { name: message.authorName })
+        }
+        dateLocale={dateLocale}
+      />
+
+      <Card className="border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+        <CardContent className="pt-6">
+          <TicketReplyForm ticketId={ticket.id} reopens={ticket.status !== "open"} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
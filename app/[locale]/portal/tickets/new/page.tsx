@@ -0,0 +1,48 @@
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { NewTicketForm } from "@/components/portal/new-ticket-form"
+import type { Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import { getMessages } from "@/lib/i18n/messages"
+import { requirePortalUser } from "@/lib/portal/session"
+import { SERVICES } from "@/lib/services/catalog"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * New Ticket Page
+ *
+ * Ticket categories are the services in the catalog.
+ */
+export default async function NewTicketPage({ params }: { params: { locale: Locale } }) {
+  await requirePortalUser(params.locale)
+  const messages = getMessages(params.locale)
+  const copy = messages.portal.newTicket
+  const categories = SERVICES.map((service) => ({
+    value: service.slug,
+    label: localizeService(service, messages).title,
+  }))
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <Link
+        href={`/${params.locale}/portal`}
+        className="inline-flex items-center text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+      >
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        {messages.portal.tickets.allTickets}
+      </Link>
+      <Card className="border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+        <CardHeader>
+          <CardTitle className="text-2xl text-slate-900 dark:text-white">{copy.title}</CardTitle>
+          <CardDescription className="text-slate-600 dark:text-slate-300">{copy.description}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <NewTicketForm categories={categories} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
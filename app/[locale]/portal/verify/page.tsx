@@ -0,0 +1,31 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { VerifySignIn } from "@/components/portal/verify-sign-in"
+import type { Locale } from "@/lib/i18n/config"
+import { getMessages } from "@/lib/i18n/messages"
+
+interface VerifyPageProps {
+  params: { locale: Locale }
+  searchParams: { token?: string }
+}
+
+// The token comes from the query string of each magic link
+export const dynamic = "force-dynamic"
+
+/**
+ * Magic Link Landing Page
+ */
+export default function PortalVerifyPage({ params, searchParams }: VerifyPageProps) {
+  const copy = getMessages(params.locale).portal.verify
+
+  return (
+    <Card className="max-w-md mx-auto border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl text-slate-900 dark:text-white">{copy.title}</CardTitle>
+        <CardDescription className="text-slate-600 dark:text-slate-300">{copy.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <VerifySignIn token={searchParams.token ?? ""} />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,21 @@
+import type { Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import { getMessages } from "@/lib/i18n/messages"
+import { getService } from "@/lib/services/catalog"
+import { OG_IMAGE_ALT, OG_IMAGE_SIZE, renderOgImage } from "@/lib/seo/og-image"
+
+export const alt = OG_IMAGE_ALT
+export const size = OG_IMAGE_SIZE
+export const contentType = "image/png"
+
+/**
+ * Social preview card for a service page
+ */
+export default function Image({ params }: { params: { locale: Locale; slug: string } }) {
+  const messages = getMessages(params.locale)
+  const catalogService = getService(params.slug)
+  if (!catalogService) return renderOgImage({ title: messages.metadata.title })
+
+  const service = localizeService(catalogService, messages)
+  return renderOgImage({ eyebrow: messages.nav.services, title: service.title, description: service.description })
+}
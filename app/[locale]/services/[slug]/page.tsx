@@ -0,0 +1,176 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft, Check } from "lucide-react"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { PostCard } from "@/components/blog/post-card"
+import { JsonLd } from "@/components/json-ld"
+import { ServiceExplainerDialog } from "@/components/service-explainer-dialog"
+import { LanguageSwitcher } from "@/components/language-switcher"
+import { getPosts, postsForService } from "@/lib/blog/posts"
+import { LOCALE_FORMATS, type Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import { getMessages } from "@/lib/i18n/messages"
+import { formatMessage } from "@/lib/i18n/translate"
+import { faqPageJsonLd, serviceJsonLd } from "@/lib/seo/json-ld"
+import { pageMetadata } from "@/lib/seo/metadata"
+import { SERVICES, formatCatalogPrice, getService } from "@/lib/services/catalog"
+
+interface ServicePageProps {
+  params: { locale: Locale; slug: string }
+}
+
+// Only catalog slugs exist; anything else is a 404
+export const dynamicParams = false
+
+/**
+ * Pre-render one page per catalog service (and per locale) at build time
+ */
+export function generateStaticParams() {
+  return SERVICES.map((service) => ({ slug: service.slug }))
+}
+
+/**
+ * Per-service title, description and hreflang alternates for search engines
+ */
+export function generateMetadata({ params }: ServicePageProps): Metadata {
+  const catalogService = getService(params.slug)
+  if (!catalogService) return {}
+  const service = localizeService(catalogService, getMessages(params.locale))
+  return pageMetadata({
+    locale: params.locale,
+    path: `/services/${service.slug}`,
+    title: `${service.title} | TorestTech`,
+    description: service.description,
+  })
+}
+
+/**
+ * Service Detail Page
+ *
+ * Static page rendered from the service catalog: overview, pricing tiers and
+ * FAQs, with the same "Explain for my business" dialog as the services grid
+ * and the blog's articles about the service. Service and FAQ structured data
+ * describe the same content to search engines.
+ */
+export default async function ServicePage({ params }: ServicePageProps) {
+  const catalogService = getService(params.slug)
+  if (!catalogService) notFound()
+
+  const messages = getMessages(params.locale)
+  const copy = messages.servicePage
+  const service = localizeService(catalogService, messages)
+  const Icon = service.icon
+  const articles = postsForService(await getPosts(), service.slug, 3)
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100">
+      <JsonLd data={serviceJsonLd(params.locale, service)} />
+      <JsonLd data={faqPageJsonLd(service.faqs)} />
+      {/* Simple header linking back to the landing page */}
+      <header className="border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+          <Link href={`/${params.locale}`}>
+            <img src="/torestech-logo.jpeg" alt={messages.nav.logoAlt} className="h-10 w-auto" />
+          </Link>
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/${params.locale}#services`}
+              className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 hover:text-indigo-600 dark:hover:text-indigo-400"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              {copy.allServices}
+            </Link>
+            <LanguageSwitcher />
+          </div>
+        </div>
+      </header>
+
+      <main id="main-content" tabIndex={-1} className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-16 space-y-16">
+        {/* Service overview */}
+        <section>
+          <Icon className="h-12 w-12 text-indigo-600 dark:text-indigo-400 mb-4" />
+          <h1 className="text-4xl md:text-5xl font-bold text-slate-900 dark:text-white mb-6">{service.title}</h1>
+          <p className="text-lg text-slate-600 dark:text-slate-300 leading-relaxed mb-8">{service.overview}</p>
+          <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+            <Link href={`/${params.locale}#contact`} className="cta-button-primary">
+              {copy.talkToExpert}
+            </Link>
+            <div className="sm:w-64">
+              <ServiceExplainerDialog serviceSlug={service.slug} serviceTitle={service.title} />
+            </div>
+          </div>
+          {/* Existing helpdesk clients raise tickets in the portal */}
+          {service.slug === "helpdesk" && (
+            <Link
+              href={`/${params.locale}/portal`}
+              className="inline-block mt-6 text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {copy.portalCta}
+            </Link>
+          )}
+        </section>
+
+        {/* Pricing tiers; the landing page's pricing table links here */}
+        <section id="plans" className="scroll-mt-20">
+          <h2 className="text-3xl font-bold text-slate-900 dark:text-white mb-8">{copy.plans}</h2>
+          <div className="grid md:grid-cols-3 gap-6">
+            {service.pricingTiers.map((tier) => (
+              <Card key={tier.name} className="border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+                <CardHeader>
+                  <CardTitle className="text-slate-900 dark:text-white">{tier.name}</CardTitle>
+                  <CardDescription className="text-slate-600 dark:text-slate-300">{tier.description}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-2xl font-bold text-indigo-600">
+                    {formatMessage(copy.priceFrom, {
+                      price: formatCatalogPrice(tier.monthlyPrice, LOCALE_FORMATS[params.locale]),
+                    })}
+                    <span className="text-sm font-normal text-slate-500 dark:text-slate-400">{copy.perMonth}</span>
+                  </p>
+                  <ul className="space-y-2 text-sm text-slate-600 dark:text-slate-300">
+                    {tier.features.map((feature) => (
+                      <li key={feature} className="flex gap-2">
+                        <Check className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                        {feature}
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </section>
+
+        {/* Frequently asked questions */}
+        <section>
+          <h2 className="text-3xl font-bold text-slate-900 dark:text-white mb-8">{copy.faqTitle}</h2>
+          <div className="space-y-4">
+            {service.faqs.map((faq) => (
+              <details
+                key={faq.question}
+                className="group rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4"
+              >
+                <summary className="cursor-pointer font-medium text-slate-900 dark:text-white">{faq.question}</summary>
+                <p className="mt-3 text-slate-600 dark:text-slate-300">{faq.answer}</p>
+              </details>
+            ))}
+          </div>
+        </section>
+
+        {/* Articles about this service */}
+        {articles.length > 0 && (
+          <section>
+            <h2 className="text-3xl font-bold text-slate-900 dark:text-white mb-8">{messages.services.relatedArticles}</h2>
+            <div className="grid md:grid-cols-3 gap-6">
+              {articles.map((post) => (
+                <PostCard key={post.slug} post={post} locale={params.locale} messages={messages} />
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AdminHeader } from "@/components/admin/admin-header"
+import { AvailabilityForm } from "@/components/admin/availability-form"
+import { requireAdmin } from "@/lib/admin/session"
+import { getAvailabilityStore } from "@/lib/booking/availability"
+import { getBookingStore } from "@/lib/booking/store"
+import { SERVICE_OPTIONS } from "@/lib/leads/schema"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Bookings Dashboard
+ *
+ * Upcoming consultation calls and the availability visitors can book from.
+ */
+export default async function AdminBookingsPage() {
+  requireAdmin()
+
+  const [availability, bookings] = await Promise.all([getAvailabilityStore().get(), getBookingStore().list()])
+  const now = new Date().toISOString()
+  const upcoming = bookings.filter((booking) => booking.end > now)
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+      <AdminHeader title="Bookings" />
+
+      <Card className="bg-white border-slate-200">
+        <CardHeader>
+          <CardTitle className="text-base">Upcoming calls ({availability.timeZone})</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {upcoming.length ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-4 font-medium">When</th>
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 pr-4 font-medium">Service</th>
+                  <th className="py-2 font-medium">Message</th>
+                </tr>
+              </thead>
+              <tbody>
+                {upcoming.map((booking) => (
+                  <tr key={booking.id} className="border-b border-slate-100 align-top">
+                    <td className="py-3 pr-4 whitespace-nowrap">
+                      <time dateTime={booking.start}>
+                        {new Date(booking.start).toLocaleString("en-GB", {
+                          timeZone: availability.timeZone,
+                          dateStyle: "medium",
+                          timeStyle: "short",
+                        })}
+                      </time>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <p className="font-medium">{booking.fullName}</p>
+                      <a href={`mailto:${booking.email}`} className="text-indigo-600 hover:underline">
+                        {booking.email}
+                      </a>
+                    </td>
+                    <td className="py-3 pr-4">
+                      {SERVICE_OPTIONS.find((option) => option.value === booking.service)?.label ?? booking.service}
+                    </td>
+                    <td className="py-3 whitespace-pre-wrap">{booking.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="py-8 text-center text-slate-500">No upcoming calls.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white border-slate-200">
+        <CardHeader>
+          <CardTitle className="text-base">Availability</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AvailabilityForm availability={availability} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
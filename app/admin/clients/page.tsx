@@ -0,0 +1,76 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AddClientForm } from "@/components/admin/add-client-form"
+import { AdminHeader } from "@/components/admin/admin-header"
+import { requireAdmin } from "@/lib/admin/session"
+import { LOCALE_LABELS } from "@/lib/i18n/config"
+import { getTicketStore } from "@/lib/portal/tickets"
+import { getPortalUserStore } from "@/lib/portal/users"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Portal Clients Page
+ *
+ * Clients who can sign in to the support portal. Only addresses added here
+ * receive sign-in links.
+ */
+export default async function AdminClientsPage() {
+  requireAdmin()
+
+  const [users, tickets] = await Promise.all([getPortalUserStore().list(), getTicketStore().list()])
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+      <AdminHeader title="Clients" />
+
+      <Card className="bg-white border-slate-200">
+        <CardHeader>
+          <CardTitle className="text-base">Add a client</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AddClientForm />
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white border-slate-200">
+        <CardContent className="overflow-x-auto">
+          {users.length ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-4 font-medium">Client</th>
+                  <th className="py-2 pr-4 font-medium">Company</th>
+                  <th className="py-2 pr-4 font-medium">Language</th>
+                  <th className="py-2 pr-4 font-medium">Tickets</th>
+                  <th className="py-2 font-medium">Last sign-in</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => (
+                  <tr key={user.id} className="border-b border-slate-100 align-top">
+                    <td className="py-3 pr-4">
+                      <p className="font-medium">{user.name}</p>
+                      <p className="text-slate-500">{user.email}</p>
+                    </td>
+                    <td className="py-3 pr-4">{user.company ?? <span className="text-slate-400">-</span>}</td>
+                    <td className="py-3 pr-4">{LOCALE_LABELS[user.locale]}</td>
+                    <td className="py-3 pr-4">{tickets.filter((ticket) => ticket.userId === user.id).length}</td>
+                    <td className="py-3 whitespace-nowrap">
+                      {user.lastSignInAt ? (
+                        <time dateTime={user.lastSignInAt}>{new Date(user.lastSignInAt).toLocaleString("en-GB")}</time>
+                      ) : (
+                        <span className="text-slate-400">Never</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="py-8 text-center text-slate-500">No portal clients yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
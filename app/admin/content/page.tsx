@@ -0,0 +1,63 @@
+import Link from "next/link"
+
+import { Card, CardContent } from "@/components/ui/card"
+import { AdminHeader } from "@/components/admin/admin-header"
+import { ContentEditor } from "@/components/admin/content-editor"
+import { requireAdmin } from "@/lib/admin/session"
+import { getSiteContent } from "@/lib/cms/content"
+import { getContentStore } from "@/lib/cms/store"
+import { DEFAULT_LOCALE, LOCALES, LOCALE_LABELS, isLocale } from "@/lib/i18n/config"
+
+export const dynamic = "force-dynamic"
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" })
+
+/**
+ * Site Content Page
+ *
+ * Landing page copy for one language at a time (`?locale=fr`): the hero, the
+ * "why partner with us" cards, the about story and the footer tagline.
+ */
+export default async function AdminContentPage({ searchParams }: { searchParams: { locale?: string } }) {
+  requireAdmin()
+
+  const locale = isLocale(searchParams.locale) ? searchParams.locale : DEFAULT_LOCALE
+  const [entry, published] = await Promise.all([getContentStore().get(locale), getSiteContent(locale)])
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+      <AdminHeader title="Content" />
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <nav aria-label="Content language" className="flex gap-1 text-sm">
+          {LOCALES.map((option) => (
+            <Link
+              key={option}
+              href={`/admin/content?locale=${option}`}
+              aria-current={option === locale ? "page" : undefined}
+              className="rounded-md px-3 py-1.5 font-medium text-slate-600 hover:bg-slate-100 aria-[current=page]:bg-slate-200 aria-[current=page]:text-slate-900"
+            >
+              {LOCALE_LABELS[option]}
+            </Link>
+          ))}
+        </nav>
+        <p className="text-sm text-slate-500">
+          {entry.published ? `Published ${formatTime(entry.published.publishedAt)}` : "Showing the default content"}
+          {entry.draft && ` · Unpublished draft saved ${formatTime(entry.draft.updatedAt)}`}
+        </p>
+      </div>
+
+      <Card className="bg-white border-slate-200">
+        <CardContent className="pt-6">
+          <ContentEditor
+            // Start again from the stored version after every save, publish or discard
+            key={`${locale}:${entry.draft?.updatedAt ?? entry.published?.publishedAt ?? "default"}`}
+            locale={locale}
+            initialContent={entry.draft?.content ?? published}
+            hasDraft={Boolean(entry.draft)}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import type React from "react"
+import type { Metadata } from "next"
+import "../globals.css"
+import { inter, poppins } from "@/app/fonts"
+
+export const metadata: Metadata = {
+  title: "Admin | TorestTech",
+  // Keep the dashboard out of search results
+  robots: { index: false, follow: false },
+}
+
+/**
+ * Admin Root Layout
+ *
+ * Internal team area, outside the localized site: English only, no theme
+ * toggle and no marketing chrome.
+ */
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang="en" className={`${inter.variable} ${poppins.variable} antialiased`}>
+      <body className="font-sans bg-slate-50 text-slate-900 min-h-screen">{children}</body>
+    </html>
+  )
+}
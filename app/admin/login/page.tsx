@@ -0,0 +1,36 @@
+import { redirect } from "next/navigation"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { AdminLoginForm } from "@/components/admin/admin-login-form"
+import { isAdminConfigured, isAdminRequest } from "@/lib/admin/session"
+
+// Session state is read from the request cookies
+export const dynamic = "force-dynamic"
+
+/**
+ * Admin Sign-in Page
+ */
+export default function AdminLoginPage() {
+  if (isAdminRequest()) redirect("/admin")
+
+  return (
+    <main className="min-h-screen flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm bg-white border-slate-200">
+        <CardHeader className="text-center">
+          <img src="/torestech-logo.jpeg" alt="Torestech" className="h-10 w-auto mx-auto mb-2" />
+          <CardTitle>Team sign-in</CardTitle>
+          <CardDescription>Review and manage incoming leads.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isAdminConfigured() ? (
+            <AdminLoginForm />
+          ) : (
+            <p className="text-sm text-slate-600">
+              Admin access is not configured. Set <code>ADMIN_PASSWORD</code> on the server to enable it.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
@@ -0,0 +1,132 @@
+import { Download } from "lucide-react"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AdminHeader } from "@/components/admin/admin-header"
+import { LeadDialog } from "@/components/admin/lead-dialog"
+import { LeadFilters } from "@/components/admin/lead-filters"
+import { LeadStatusBadge } from "@/components/admin/lead-status-badge"
+import { filterLeads, parseLeadFilters } from "@/lib/admin/lead-filters"
+import { requireAdmin } from "@/lib/admin/session"
+import { getTeamMembers } from "@/lib/admin/team"
+import { LEAD_SOURCE_LABELS, LEAD_STATUSES, SERVICE_OPTIONS } from "@/lib/leads/schema"
+import { getLeadStore } from "@/lib/leads/store"
+
+// Always read the latest leads and the session cookie
+export const dynamic = "force-dynamic"
+
+interface AdminPageProps {
+  searchParams: Record<string, string | string[] | undefined>
+}
+
+/**
+ * Leads Dashboard
+ *
+ * Lists consultation and health-check leads from the lead store, filtered by
+ * the URL query. Each row opens a dialog to update status, assignee and tags;
+ * the export link downloads the current view as CSV.
+ */
+export default async function AdminPage({ searchParams }: AdminPageProps) {
+  requireAdmin()
+
+  const allLeads = await getLeadStore().list()
+  const filters = parseLeadFilters(searchParams)
+  const leads = filterLeads(allLeads, filters)
+  const team = getTeamMembers()
+
+  // Export exactly what is on screen
+  const exportQuery = new URLSearchParams(
+    Object.entries({ service: filters.service, status: filters.status, q: filters.query }).filter(
+      (entry): entry is [string, string] => Boolean(entry[1]),
+    ),
+  ).toString()
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+      <AdminHeader title="Leads">
+        <a
+          href={`/api/admin/leads/export${exportQuery ? `?${exportQuery}` : ""}`}
+          className="inline-flex items-center rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium hover:bg-slate-100"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </a>
+      </AdminHeader>
+
+      {/* Pipeline overview across all leads */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {LEAD_STATUSES.map((status) => (
+          <Card key={status.value} className="bg-white border-slate-200 py-4 gap-1">
+            <CardHeader className="px-4">
+              <CardTitle className="text-sm font-medium text-slate-600">{status.label}</CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 text-2xl font-bold">
+              {allLeads.filter((lead) => lead.status === status.value).length}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <LeadFilters />
+
+      <Card className="bg-white border-slate-200">
+        <CardContent className="overflow-x-auto">
+          {leads.length ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-4 font-medium">Received</th>
+                  <th className="py-2 pr-4 font-medium">Contact</th>
+                  <th className="py-2 pr-4 font-medium">Service</th>
+                  <th className="py-2 pr-4 font-medium">Source</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Assigned to</th>
+                  <th className="py-2 pr-4 font-medium">Tags</th>
+                  <th className="py-2">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {leads.map((lead) => (
+                  <tr key={lead.id} className="border-b border-slate-100 align-top">
+                    <td className="py-3 pr-4 whitespace-nowrap">
+                      <time dateTime={lead.createdAt}>{new Date(lead.createdAt).toLocaleDateString("en-GB")}</time>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <p className="font-medium">{lead.fullName}</p>
+                      <p className="text-slate-500">{lead.email}</p>
+                    </td>
+                    <td className="py-3 pr-4">
+                      {SERVICE_OPTIONS.find((option) => option.value === lead.service)?.label ?? lead.service}
+                    </td>
+                    <td className="py-3 pr-4">{LEAD_SOURCE_LABELS[lead.source]}</td>
+                    <td className="py-3 pr-4">
+                      <LeadStatusBadge status={lead.status} />
+                    </td>
+                    <td className="py-3 pr-4">{lead.assignee ?? <span className="text-slate-400">-</span>}</td>
+                    <td className="py-3 pr-4">
+                      <div className="flex flex-wrap gap-1">
+                        {lead.tags.map((tag) => (
+                          <span key={tag} className="rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-600">
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-3 text-right">
+                      <LeadDialog lead={lead} team={team} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="py-8 text-center text-slate-500">
+              {allLeads.length ? "No leads match these filters." : "No leads yet."}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AdminHeader } from "@/components/admin/admin-header"
+import { TicketUpdateForm } from "@/components/admin/ticket-update-form"
+import { TicketStatusBadge } from "@/components/portal/ticket-status-badge"
+import { TicketThread } from "@/components/portal/ticket-thread"
+import { requireAdmin } from "@/lib/admin/session"
+import { getTeamMembers } from "@/lib/admin/team"
+import { TICKET_STATUSES } from "@/lib/portal/schema"
+import { getTicketStore } from "@/lib/portal/tickets"
+import { getPortalUserStore } from "@/lib/portal/users"
+import { getService } from "@/lib/services/catalog"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Admin Ticket Page
+ *
+ * A portal ticket's thread with the technician reply and status controls.
+ */
+export default async function AdminTicketPage({ params }: { params: { id: string } }) {
+  requireAdmin()
+
+  const ticket = await getTicketStore().get(params.id)
+  if (!ticket) notFound()
+  const client = await getPortalUserStore().get(ticket.userId)
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+      <AdminHeader title="Tickets" />
+
+      <div className="space-y-2">
+        <Link href="/admin/tickets" className="inline-flex items-center text-sm text-indigo-600 hover:underline">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          All tickets
+        </Link>
+        <h2 className="text-xl font-semibold">{ticket.subject}</h2>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+          <TicketStatusBadge
+            status={ticket.status}
+            label={TICKET_STATUSES.find((option) => option.value === ticket.status)?.label ?? ticket.status}
+          />
+          <span>{getService(ticket.category)?.title ?? ticket.category}</span>
+          {client && (
+            <a href={`mailto:${client.email}`} className="text-indigo-600 hover:underline">
+              {client.name} &lt;{client.email}&gt;
+            </a>
+          )}
+        </div>
+      </div>
+
+      <TicketThread
+        ticket={ticket}
+        authorLabel={(message) => (message.author === "client" ? (client?.name ?? "Client") : message.authorName)}
+        dateLocale="en-GB"
+      />
+
+      <Card className="bg-white border-slate-200">
+        <CardHeader>
+          <CardTitle className="text-base">Update ticket</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <TicketUpdateForm ticket={ticket} team={getTeamMembers()} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import Link from "next/link"
+
+import { Card, CardContent } from "@/components/ui/card"
+import { AdminHeader } from "@/components/admin/admin-header"
+import { TicketStatusBadge } from "@/components/portal/ticket-status-badge"
+import { requireAdmin } from "@/lib/admin/session"
+import { TICKET_STATUSES } from "@/lib/portal/schema"
+import { getTicketStore } from "@/lib/portal/tickets"
+import { getPortalUserStore } from "@/lib/portal/users"
+import { getService } from "@/lib/services/catalog"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Portal Tickets Dashboard
+ *
+ * Every client portal ticket, most recently active first. Tickets whose last
+ * message is from the client are waiting for a technician.
+ */
+export default async function AdminTicketsPage() {
+  requireAdmin()
+
+  const [tickets, users] = await Promise.all([getTicketStore().list(), getPortalUserStore().list()])
+  const clientNames = new Map(users.map((user) => [user.id, user.company ? `${user.name} (${user.company})` : user.name]))
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+      <AdminHeader title="Tickets" />
+
+      <Card className="bg-white border-slate-200">
+        <CardContent className="overflow-x-auto">
+          {tickets.length ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-4 font-medium">Updated</th>
+                  <th className="py-2 pr-4 font-medium">Subject</th>
+                  <th className="py-2 pr-4 font-medium">Client</th>
+                  <th className="py-2 pr-4 font-medium">Category</th>
+                  <th className="py-2 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tickets.map((ticket) => {
+                  const awaitingTeam = ticket.messages[ticket.messages.length - 1]?.author === "client"
+                  return (
+                    <tr key={ticket.id} className="border-b border-slate-100 align-top">
+                      <td className="py-3 pr-4 whitespace-nowrap">
+                        <time dateTime={ticket.updatedAt}>{new Date(ticket.updatedAt).toLocaleString("en-GB")}</time>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <Link href={`/admin/tickets/${ticket.id}`} className="font-medium text-indigo-600 hover:underline">
+                          {ticket.subject}
+                        </Link>
+                        {awaitingTeam && ticket.status !== "resolved" && (
+                          <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-700">
+                            Awaiting reply
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4">{clientNames.get(ticket.userId) ?? "Removed client"}</td>
+                      <td className="py-3 pr-4">{getService(ticket.category)?.title ?? ticket.category}</td>
+                      <td className="py-3">
+                        <TicketStatusBadge
+                          status={ticket.status}
+                          label={TICKET_STATUSES.find((option) => option.value === ticket.status)?.label ?? ticket.status}
+                        />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="py-8 text-center text-slate-500">No tickets yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+
+import { isAdminRequest } from "@/lib/admin/session"
+import { getAvailabilityStore } from "@/lib/booking/availability"
+import { availabilitySchema } from "@/lib/booking/schema"
+
+/**
+ * Admin Availability Endpoint
+ *
+ * PUT /api/admin/availability { timeZone, slotMinutes, minNoticeHours, horizonDays, windows, blockedDates }
+ * Replaces the booking rules; existing bookings are kept.
+ * - 200 { availability }
+ * - 400 { errors } for invalid rules, 401 without an admin session
+ */
+export async function PUT(request: Request) {
+  if (!isAdminRequest()) {
+    return NextResponse.json({ error: "Please sign in again." }, { status: 401 })
+  }
+
+  const parsed = availabilitySchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  const availability = await getAvailabilityStore().save(parsed.data)
+  return NextResponse.json({ availability })
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+
+import { isAdminRequest } from "@/lib/admin/session"
+import { portalClientSchema } from "@/lib/portal/schema"
+import { DuplicateUserError, getPortalUserStore } from "@/lib/portal/users"
+
+/**
+ * Admin Portal Client Endpoint
+ *
+ * POST /api/admin/clients { email, name, company?, locale? }
+ * Gives a client access to the support portal; they sign in with a magic link.
+ * - 201 { user }
+ * - 400 { errors } for invalid input, 401 without an admin session, 409 { error } for a known email
+ */
+export async function POST(request: Request) {
+  if (!isAdminRequest()) {
+    return NextResponse.json({ error: "Please sign in again." }, { status: 401 })
+  }
+
+  const parsed = portalClientSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  try {
+    const user = await getPortalUserStore().create(parsed.data)
+    return NextResponse.json({ user }, { status: 201 })
+  } catch (error) {
+    if (error instanceof DuplicateUserError) {
+      return NextResponse.json({ error: "A client with this email already exists." }, { status: 409 })
+    }
+    throw error
+  }
+}
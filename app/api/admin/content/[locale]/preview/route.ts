@@ -0,0 +1,32 @@
+import { draftMode } from "next/headers"
+import { NextResponse, type NextRequest } from "next/server"
+
+import { isAdminRequest } from "@/lib/admin/session"
+import { isLocale } from "@/lib/i18n/config"
+
+/**
+ * Admin Content Preview Endpoint
+ *
+ * GET /api/admin/content/:locale/preview
+ * Turns on Next.js draft mode for this browser and opens the landing page,
+ * which then renders the draft instead of the published content.
+ * - 302 to /:locale, or to /admin/login without an admin session
+ *
+ * GET /api/admin/content/:locale/preview?exit=1
+ * Leaves draft mode; needs no session, so an expired one can't trap the browser in preview.
+ * - 302 to /:locale
+ */
+export function GET(request: NextRequest, { params }: { params: { locale: string } }) {
+  if (!isLocale(params.locale)) {
+    return NextResponse.json({ error: "Unknown language." }, { status: 404 })
+  }
+
+  if (request.nextUrl.searchParams.has("exit")) {
+    draftMode().disable()
+  } else if (isAdminRequest()) {
+    draftMode().enable()
+  } else {
+    return NextResponse.redirect(new URL("/admin/login", request.url))
+  }
+  return NextResponse.redirect(new URL(`/${params.locale}`, request.url))
+}
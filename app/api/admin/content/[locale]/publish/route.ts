@@ -0,0 +1,38 @@
+import { revalidatePath } from "next/cache"
+import { NextResponse } from "next/server"
+
+import { isAdminRequest } from "@/lib/admin/session"
+import { getContentStore } from "@/lib/cms/store"
+import { isLocale } from "@/lib/i18n/config"
+import { invalidateSearchIndex } from "@/lib/retrieval/search-index"
+
+/**
+ * Admin Content Publish Endpoint
+ *
+ * POST /api/admin/content/:locale/publish
+ * Makes the draft the published version and regenerates the landing page
+ * and its social preview, so visitors see the change on their next visit
+ * instead of when the hourly revalidation comes round. The assistants'
+ * search index is reloaded along with them.
+ * - 200 { entry }
+ * - 401 without an admin session, 404 for an unknown locale, 409 { error } without a draft
+ */
+export async function POST(_request: Request, { params }: { params: { locale: string } }) {
+  if (!isAdminRequest()) {
+    return NextResponse.json({ error: "Please sign in again." }, { status: 401 })
+  }
+  if (!isLocale(params.locale)) {
+    return NextResponse.json({ error: "Unknown language." }, { status: 404 })
+  }
+
+  const store = getContentStore()
+  if (!(await store.get(params.locale)).draft) {
+    return NextResponse.json({ error: "There is no draft to publish." }, { status: 409 })
+  }
+
+  const entry = await store.publish(params.locale)
+  revalidatePath(`/${params.locale}`)
+  revalidatePath(`/${params.locale}/opengraph-image`)
+  invalidateSearchIndex()
+  return NextResponse.json({ entry })
+}
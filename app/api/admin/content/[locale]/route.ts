@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+
+import { isAdminRequest } from "@/lib/admin/session"
+import { contentFieldErrors, siteContentSchema } from "@/lib/cms/schema"
+import { getContentStore } from "@/lib/cms/store"
+import { isLocale } from "@/lib/i18n/config"
+
+/**
+ * Admin Content Draft Endpoint
+ *
+ * PUT /api/admin/content/:locale { hero, valueProp, about, footer }
+ * Saves the draft for a locale; visitors keep seeing the published version.
+ * - 200 { entry }
+ * - 400 { errors } keyed by field path, 401 without an admin session, 404 for an unknown locale
+ *
+ * DELETE /api/admin/content/:locale
+ * Throws the draft away.
+ * - 200 { entry }
+ */
+export async function PUT(request: Request, { params }: { params: { locale: string } }) {
+  if (!isAdminRequest()) {
+    return NextResponse.json({ error: "Please sign in again." }, { status: 401 })
+  }
+  if (!isLocale(params.locale)) {
+    return NextResponse.json({ error: "Unknown language." }, { status: 404 })
+  }
+
+  const parsed = siteContentSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ errors: contentFieldErrors(parsed.error) }, { status: 400 })
+  }
+
+  const entry = await getContentStore().saveDraft(params.locale, parsed.data)
+  return NextResponse.json({ entry })
+}
+
+export async function DELETE(_request: Request, { params }: { params: { locale: string } }) {
+  if (!isAdminRequest()) {
+    return NextResponse.json({ error: "Please sign in again." }, { status: 401 })
+  }
+  if (!isLocale(params.locale)) {
+    return NextResponse.json({ error: "Unknown language." }, { status: 404 })
+  }
+
+  const entry = await getContentStore().discardDraft(params.locale)
+  return NextResponse.json({ entry })
+}
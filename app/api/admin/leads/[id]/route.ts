@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+
+import { isAdminRequest } from "@/lib/admin/session"
+import { leadUpdateSchema } from "@/lib/leads/schema"
+import { getLeadStore } from "@/lib/leads/store"
+
+/**
+ * Admin Lead Update Endpoint
+ *
+ * PATCH /api/admin/leads/:id { status?, tags?, assignee? }
+ * - 200 { lead } with the updated lead
+ * - 400 { errors } for invalid changes, 401 without an admin session, 404 for an unknown lead
+ */
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  if (!isAdminRequest()) {
+    return NextResponse.json({ error: "Please sign in again." }, { status: 401 })
+  }
+
+  const parsed = leadUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  const lead = await getLeadStore().update(params.id, parsed.data)
+  if (!lead) {
+    return NextResponse.json({ error: "Lead not found." }, { status: 404 })
+  }
+  return NextResponse.json({ lead })
+}
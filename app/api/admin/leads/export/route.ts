@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+
+import { leadsToCsv } from "@/lib/admin/csv"
+import { filterLeads, parseLeadFilters } from "@/lib/admin/lead-filters"
+import { isAdminRequest } from "@/lib/admin/session"
+import { getLeadStore } from "@/lib/leads/store"
+
+/**
+ * Lead CSV Export
+ *
+ * GET /api/admin/leads/export?service=&status=&q=
+ * Downloads the leads matching the dashboard's current filters.
+ */
+export async function GET(request: Request) {
+  if (!isAdminRequest()) {
+    return NextResponse.json({ error: "Please sign in again." }, { status: 401 })
+  }
+
+  const filters = parseLeadFilters(new URL(request.url).searchParams)
+  const leads = filterLeads(await getLeadStore().list(), filters)
+  const date = new Date().toISOString().slice(0, 10)
+
+  return new Response(leadsToCsv(leads), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="leads-${date}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  })
+}
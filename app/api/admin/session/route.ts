@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+
+import { clientIp } from "@/lib/abuse/guard"
+import { hitRateLimit } from "@/lib/abuse/rate-limit"
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_SECONDS,
+  checkAdminPassword,
+  createSessionToken,
+  isAdminConfigured,
+} from "@/lib/admin/session"
+
+const signInSchema = z.object({ password: z.string().min(1).max(200) })
+
+// Sign-in attempts allowed per client IP, right or wrong
+const SIGN_IN_LIMIT = { limit: 10, windowMs: 15 * 60 * 1000 }
+
+// Every wrong password waits this long before the answer, to slow down guessing
+const FAILURE_DELAY_MS = 1000
+
+/**
+ * Admin Sign-in Endpoint
+ *
+ * POST /api/admin/session { password }
+ * - 204 with the session cookie set
+ * - 401 { error } for a wrong password, 503 { error } when no password is configured
+ * - 429 { error } after too many attempts from the same IP
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminConfigured()) {
+    return NextResponse.json({ error: "Admin access is not configured." }, { status: 503 })
+  }
+
+  const hit = hitRateLimit(`admin-sign-in:ip:${clientIp(request)}`, SIGN_IN_LIMIT)
+  if (!hit.allowed) {
+    return NextResponse.json(
+      { error: "Too many sign-in attempts. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(hit.retryAfter) } },
+    )
+  }
+
+  const parsed = signInSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success || !checkAdminPassword(parsed.data.password)) {
+    await new Promise((resolve) => setTimeout(resolve, FAILURE_DELAY_MS))
+    return NextResponse.json({ error: "Incorrect password." }, { status: 401 })
+  }
+
+  const response = new NextResponse(null, { status: 204 })
+  response.cookies.set(ADMIN_SESSION_COOKIE, createSessionToken(), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: ADMIN_SESSION_TTL_SECONDS,
+  })
+  return response
+}
+
+/**
+ * DELETE /api/admin/session - sign out
+ */
+export async function DELETE() {
+  const response = new NextResponse(null, { status: 204 })
+  response.cookies.delete(ADMIN_SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+
+import { isAdminRequest } from "@/lib/admin/session"
+import { notifyClientOfTicket } from "@/lib/mail/portal-notifications"
+import { ticketUpdateSchema } from "@/lib/portal/schema"
+import { buildTicketMessage, getTicketStore } from "@/lib/portal/tickets"
+import { getPortalUserStore } from "@/lib/portal/users"
+
+/**
+ * Admin Ticket Update Endpoint
+ *
+ * PATCH /api/admin/tickets/:id { reply?, status?, technician? }
+ * Posts a technician reply and/or changes the status, then emails the client.
+ * - 200 { ticket } with the updated ticket
+ * - 400 { errors } for invalid changes, 401 without an admin session, 404 for an unknown ticket
+ */
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  if (!isAdminRequest()) {
+    return NextResponse.json({ error: "Please sign in again." }, { status: 401 })
+  }
+
+  const parsed = ticketUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  const { reply, status, technician } = parsed.data
+  const store = getTicketStore()
+  const message = reply
+    ? buildTicketMessage({ author: "technician", authorName: technician ?? "Torestech support", body: reply })
+    : undefined
+  // The schema guarantees a reply, a status, or both
+  const ticket = message
+    ? await store.addMessage(params.id, message, status)
+    : status && (await store.setStatus(params.id, status))
+  if (!ticket) {
+    return NextResponse.json({ error: "Ticket not found." }, { status: 404 })
+  }
+
+  const user = await getPortalUserStore().get(ticket.userId)
+  if (user) await notifyClientOfTicket(user, ticket, message)
+  return NextResponse.json({ ticket })
+}
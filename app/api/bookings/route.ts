@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { ABUSE_POLICIES, guardRequest } from "@/lib/abuse/guard"
+import { getAvailabilityStore } from "@/lib/booking/availability"
+import { bookingRequestSchema, type Booking } from "@/lib/booking/schema"
+import { SlotUnavailableError, getBookingStore } from "@/lib/booking/store"
+import { currentLegalVersion } from "@/lib/legal/documents"
+import { getLeadStore } from "@/lib/leads/store"
+import { sendBookingEmails } from "@/lib/mail/booking-notifications"
+
+/**
+ * Consultation Booking Endpoint
+ *
+ * POST /api/bookings
+ * - 201 { id, start, end } when the slot was booked; the team and the visitor
+ *   both get a calendar invite
+ * - 400 { errors } with field-level error keys for the booking form
+ * - 400/403/429 { error } when the abuse guard refuses the request
+ * - 409 { error } when the slot was taken in the meantime or is no longer offered
+ * - 500 { error } when the booking could not be stored
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const refusal = guardRequest(request, body, ABUSE_POLICIES.bookings)
+  if (refusal) return refusal
+
+  const parsed = bookingRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  const { start: requestedStart, timeZone, ...contact } = parsed.data
+  const availability = await getAvailabilityStore().get()
+  const start = new Date(requestedStart)
+  const end = new Date(start.getTime() + availability.slotMinutes * 60 * 1000)
+
+  let booking: Booking
+  try {
+    booking = await getBookingStore().create(
+      { ...contact, timeZone, start: start.toISOString(), end: end.toISOString() },
+      availability,
+    )
+  } catch (error) {
+    if (error instanceof SlotUnavailableError) {
+      return NextResponse.json({ error: "slotUnavailable" }, { status: 409 })
+    }
+    console.error("Failed to store booking", error)
+    return NextResponse.json({ error: "bookingStoreFailed" }, { status: 500 })
+  }
+
+  // The call also enters the team's lead pipeline; the booking stands even if this fails
+  await currentLegalVersion("privacy")
+    .then((privacyPolicyVersion) =>
+      getLeadStore().create({
+        ...contact,
+        source: "booking",
+        appointment: { start: booking.start, end: booking.end },
+        privacyPolicyVersion,
+      }),
+    )
+    .catch((error) => console.error(`Failed to record lead for booking ${booking.id}`, error))
+
+  await sendBookingEmails(booking, availability.timeZone)
+  return NextResponse.json({ id: booking.id, start: booking.start, end: booking.end }, { status: 201 })
+}
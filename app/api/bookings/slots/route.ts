@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+
+import { getAvailabilityStore } from "@/lib/booking/availability"
+import { availableSlots } from "@/lib/booking/slots"
+import { getBookingStore } from "@/lib/booking/store"
+
+// Slots change with every booking and with the clock
+export const dynamic = "force-dynamic"
+
+// Widest range a single request may ask for
+const MAX_RANGE_DAYS = 62
+
+/**
+ * Booking Slots Endpoint
+ *
+ * GET /api/bookings/slots?from=<ISO>&to=<ISO>
+ * - 200 { slots, slotMinutes } with the free slot start times (UTC ISO strings)
+ * - 400 { error } for a missing, invalid or too wide range
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const from = new Date(searchParams.get("from") ?? "")
+  const to = new Date(searchParams.get("to") ?? "")
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to < from) {
+    return NextResponse.json({ error: "Pass a valid from/to range." }, { status: 400 })
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    return NextResponse.json({ error: `Ask for at most ${MAX_RANGE_DAYS} days at a time.` }, { status: 400 })
+  }
+
+  const [availability, bookings] = await Promise.all([getAvailabilityStore().get(), getBookingStore().list()])
+  return NextResponse.json({
+    slots: availableSlots(availability, bookings, { from, to }),
+    slotMinutes: availability.slotMinutes,
+  })
+}
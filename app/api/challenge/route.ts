@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { issueChallenge, issueSession, verifySession } from "@/lib/abuse/challenge"
+import { SESSION_COOKIE } from "@/lib/abuse/guard"
+
+// Every request needs a fresh, single-use token
+export const dynamic = "force-dynamic"
+
+/**
+ * Request Challenge Endpoint
+ *
+ * GET /api/challenge[?replaces=<spent token>]
+ * - 200 { token, difficulty } for the next protected request
+ * Also starts the browser session used for per-session rate limits, or
+ * replaces a session cookie that does not carry our signature.
+ */
+export function GET(request: NextRequest) {
+  const challenge = issueChallenge(Date.now(), request.nextUrl.searchParams.get("replaces") ?? undefined)
+  const response = NextResponse.json(challenge, { headers: { "Cache-Control": "no-store" } })
+  if (!verifySession(request.cookies.get(SESSION_COOKIE)?.value)) {
+    response.cookies.set(SESSION_COOKIE, issueSession(), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+    })
+  }
+  return response
+}
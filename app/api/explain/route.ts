@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { ABUSE_POLICIES, guardRequest } from "@/lib/abuse/guard"
+import { explanationCacheKey, getCachedExplanation, setCachedExplanation } from "@/lib/explain/cache"
+import { UnknownServiceError, getExplanationProvider } from "@/lib/explain/provider"
+import { explainRequestSchema } from "@/lib/explain/schema"
+
+/**
+ * Business Explanation Endpoint
+ *
+ * POST /api/explain { service, businessType, locale }
+ * - 200 { explanation, cached } with the structured explanation
+ * - 400 { errors } for invalid input, 404 { error } for an unknown service
+ * - 400/403/429 { error } when the abuse guard refuses the request
+ * - 502 { error } when the provider failed; the dialog offers a retry
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  const refusal = guardRequest(request, body, ABUSE_POLICIES.explain)
+  if (refusal) return refusal
+
+  const parsed = explainRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  const { service, businessType, locale } = parsed.data
+  const provider = getExplanationProvider()
+  const cacheKey = explanationCacheKey(provider.name, locale, service, businessType)
+
+  const cached = await getCachedExplanation(cacheKey)
+  if (cached) {
+    return NextResponse.json({ explanation: cached, cached: true })
+  }
+
+  try {
+    const explanation = await provider.explain(service, businessType, locale)
+    await setCachedExplanation(cacheKey, explanation)
+    return NextResponse.json({ explanation, cached: false })
+  } catch (error) {
+    if (error instanceof UnknownServiceError) {
+      return NextResponse.json({ error: "unknownService" }, { status: 404 })
+    }
+    console.error("Failed to generate business explanation", error)
+    return NextResponse.json({ error: "explainFailed" }, { status: 502 })
+  }
+}
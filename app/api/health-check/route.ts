@@ -0,0 +1,61 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { ABUSE_POLICIES, guardRequest } from "@/lib/abuse/guard"
+import { healthCheckSubmissionSchema, scoreHealthCheck, summarizeHealthCheck } from "@/lib/health-check/assessment"
+import { currentLegalVersion } from "@/lib/legal/documents"
+import { DuplicateLeadError, getLeadStore } from "@/lib/leads/store"
+import { sendLeadEmails } from "@/lib/mail/lead-notifications"
+
+/**
+ * Free IT Health Check Endpoint
+ *
+ * POST /api/health-check { fullName, email, locale, answers }
+ * Re-scores the answers on the server and stores the assessment as a
+ * qualified lead, filed under the most urgent service area, then emails the
+ * responsible team and the visitor.
+ * - 201 { id, result } when stored
+ * - 400 { errors } with field-level error keys
+ * - 400/403/429 { error } when the abuse guard refuses the request
+ * - 409 { error } when the same assessment was already submitted today
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  const refusal = guardRequest(request, body, ABUSE_POLICIES.healthCheck)
+  if (refusal) return refusal
+
+  const parsed = healthCheckSubmissionSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  const { fullName, email, locale, answers } = parsed.data
+  const result = scoreHealthCheck(answers)
+
+  const message = summarizeHealthCheck(result)
+  const store = getLeadStore()
+  let lead
+  try {
+    lead = await store.create(
+      {
+        fullName,
+        email,
+        locale,
+        service: result.areas[0].service,
+        message,
+        source: "health-check",
+        assessment: result,
+        privacyPolicyVersion: await currentLegalVersion("privacy"),
+      },
+      { rejectDuplicates: true },
+    )
+  } catch (error) {
+    if (error instanceof DuplicateLeadError) {
+      return NextResponse.json({ error: "duplicateSubmission" }, { status: 409 })
+    }
+    console.error("Failed to store health check lead", error)
+    return NextResponse.json({ error: "assessmentStoreFailed" }, { status: 500 })
+  }
+
+  await sendLeadEmails(lead)
+  return NextResponse.json({ id: lead.id, result }, { status: 201 })
+}
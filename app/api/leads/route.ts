@@ -0,0 +1,57 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { ABUSE_POLICIES, guardRequest } from "@/lib/abuse/guard"
+import { currentLegalVersion } from "@/lib/legal/documents"
+import { consultationSchema } from "@/lib/leads/schema"
+import { DuplicateLeadError, getLeadStore } from "@/lib/leads/store"
+import { sendLeadEmails } from "@/lib/mail/lead-notifications"
+
+/**
+ * Consultation Lead Endpoint
+ *
+ * POST /api/leads
+ * - 201 { id } when the lead was validated and stored; the team is notified
+ *   and the visitor gets an auto-reply
+ * - 400 { errors } with field-level error keys for the consultation form
+ * - 400/403/429 { error } when the abuse guard refuses the request
+ * - 409 { error } when the same visitor already sent the same message today
+ * - 500 { error } when the lead store could not be written
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const refusal = guardRequest(request, body, ABUSE_POLICIES.leads)
+  if (refusal) return refusal
+
+  const parsed = consultationSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  const store = getLeadStore()
+  let lead
+  try {
+    lead = await store.create(
+      {
+        ...parsed.data,
+        source: "consultation",
+        privacyPolicyVersion: await currentLegalVersion("privacy"),
+      },
+      { rejectDuplicates: true },
+    )
+  } catch (error) {
+    if (error instanceof DuplicateLeadError) {
+      return NextResponse.json({ error: "duplicateSubmission" }, { status: 409 })
+    }
+    console.error("Failed to store consultation lead", error)
+    return NextResponse.json({ error: "leadStoreFailed" }, { status: 500 })
+  }
+
+  await sendLeadEmails(lead)
+  return NextResponse.json({ id: lead.id }, { status: 201 })
+}
@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { ABUSE_POLICIES, guardRequest } from "@/lib/abuse/guard"
+import { magicLinkEmail } from "@/lib/mail/portal-templates"
+import { sendMail } from "@/lib/mail/transport"
+import { createMagicLink } from "@/lib/portal/magic-link"
+import { magicLinkRequestSchema } from "@/lib/portal/schema"
+import { isPortalConfigured } from "@/lib/portal/session"
+import { getPortalUserStore } from "@/lib/portal/users"
+
+/**
+ * Portal Sign-in Link Endpoint
+ *
+ * POST /api/portal/magic-link { email, locale }
+ * - 202 whether or not the email belongs to a client, so the form can't be
+ *   used to find out who our clients are; clients get a sign-in link
+ * - 400 { errors } for an invalid email
+ * - 400/403/429 { error } when the abuse guard refuses the request
+ * - 503 { error } when the portal is not configured
+ */
+export async function POST(request: NextRequest) {
+  if (!isPortalConfigured()) {
+    return NextResponse.json({ error: "portalUnavailable" }, { status: 503 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const refusal = guardRequest(request, body, ABUSE_POLICIES.portalSignIn)
+  if (refusal) return refusal
+
+  const parsed = magicLinkRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  const user = await getPortalUserStore().findByEmail(parsed.data.email)
+  if (user) {
+    try {
+      const link = await createMagicLink(user, parsed.data.locale)
+      await sendMail(magicLinkEmail({ ...user, locale: parsed.data.locale }, link))
+    } catch (error) {
+      console.error(`Failed to send portal sign-in link to user ${user.id}`, error)
+    }
+  }
+  return new NextResponse(null, { status: 202 })
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+
+import { consumeMagicLink } from "@/lib/portal/magic-link"
+import {
+  PORTAL_SESSION_COOKIE,
+  PORTAL_SESSION_TTL_SECONDS,
+  createPortalSessionToken,
+  isPortalConfigured,
+} from "@/lib/portal/session"
+
+const verifySchema = z.object({ token: z.string().min(1).max(200) })
+
+/**
+ * Portal Sign-in Endpoint
+ *
+ * POST /api/portal/session { token }
+ * Exchanges a magic-link token for a session. The link opens a page that
+ * posts here, so email scanners that prefetch links don't spend the token.
+ * - 200 { locale } with the session cookie set
+ * - 401 { error } for an unknown, used or expired token, 503 { error } when not configured
+ */
+export async function POST(request: Request) {
+  if (!isPortalConfigured()) {
+    return NextResponse.json({ error: "portalUnavailable" }, { status: 503 })
+  }
+
+  const parsed = verifySchema.safeParse(await request.json().catch(() => null))
+  const user = parsed.success ? await consumeMagicLink(parsed.data.token) : undefined
+  if (!user) {
+    return NextResponse.json({ error: "signInLinkInvalid" }, { status: 401 })
+  }
+
+  const response = NextResponse.json({ locale: user.locale })
+  response.cookies.set(PORTAL_SESSION_COOKIE, createPortalSessionToken(user.id), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: PORTAL_SESSION_TTL_SECONDS,
+  })
+  return response
+}
+
+/**
+ * DELETE /api/portal/session - sign out
+ */
+export async function DELETE() {
+  const response = new NextResponse(null, { status: 204 })
+  response.cookies.delete(PORTAL_SESSION_COOKIE)
+  return response
+}
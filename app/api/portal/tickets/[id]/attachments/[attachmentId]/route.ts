@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+
+import { isAdminRequest } from "@/lib/admin/session"
+import { readAttachment } from "@/lib/portal/attachments"
+import { getPortalUser } from "@/lib/portal/session"
+import { getTicketStore } from "@/lib/portal/tickets"
+
+/**
+ * Ticket Attachment Download
+ *
+ * GET /api/portal/tickets/:id/attachments/:attachmentId
+ * Serves a screenshot to the client who owns the ticket or to the team.
+ * - 200 with the image
+ * - 404 for unknown files and for anyone else, so ticket ids can't be probed
+ */
+export async function GET(_request: Request, { params }: { params: { id: string; attachmentId: string } }) {
+  const ticket = await getTicketStore().get(params.id)
+  const canView = ticket && (isAdminRequest() || (await getPortalUser())?.id === ticket.userId)
+  const attachment = canView
+    ? ticket.messages.flatMap((message) => message.attachments).find((candidate) => candidate.id === params.attachmentId)
+    : undefined
+  if (!attachment) {
+    return NextResponse.json({ error: "Not found." }, { status: 404 })
+  }
+
+  const contents = await readAttachment(attachment)
+  return new Response(contents, {
+    headers: {
+      "Content-Type": attachment.contentType,
+      "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+      "Cache-Control": "private, max-age=3600",
+      "X-Content-Type-Options": "nosniff",
+    },
+  })
+}
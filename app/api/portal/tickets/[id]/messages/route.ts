@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+
+import { notifyTeamOfTicket } from "@/lib/mail/portal-notifications"
+import { AttachmentError, formFiles, saveAttachments } from "@/lib/portal/attachments"
+import { ticketReplySchema } from "@/lib/portal/schema"
+import { getPortalUser } from "@/lib/portal/session"
+import { buildTicketMessage, getTicketStore } from "@/lib/portal/tickets"
+
+/**
+ * Portal Ticket Reply Endpoint
+ *
+ * POST /api/portal/tickets/:id/messages (multipart: message, attachments[])
+ * A reply on a resolved or waiting ticket reopens it.
+ * - 201 { id } with the new message id; the responsible team is notified
+ * - 400 { errors } with field-level error keys, including `attachments`
+ * - 401 { error } without a portal session, 404 { error } for someone else's or an unknown ticket
+ */
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const user = await getPortalUser()
+  if (!user) {
+    return NextResponse.json({ error: "signInRequired" }, { status: 401 })
+  }
+
+  const store = getTicketStore()
+  const existing = await store.get(params.id)
+  if (!existing || existing.userId !== user.id) {
+    return NextResponse.json({ error: "ticketNotFound" }, { status: 404 })
+  }
+
+  const form = await request.formData().catch(() => null)
+  const parsed = ticketReplySchema.safeParse({ message: form?.get("message") })
+  if (!form || !parsed.success) {
+    return NextResponse.json({ errors: parsed.success ? {} : parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  let attachments
+  try {
+    attachments = await saveAttachments(formFiles(form, "attachments"))
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ errors: { attachments: [error.key] } }, { status: 400 })
+    }
+    throw error
+  }
+
+  const message = buildTicketMessage({ author: "client", authorName: user.name, body: parsed.data.message }, attachments)
+  const ticket = await store.addMessage(params.id, message)
+  if (!ticket) {
+    return NextResponse.json({ error: "ticketNotFound" }, { status: 404 })
+  }
+
+  await notifyTeamOfTicket(user, ticket, message)
+  return NextResponse.json({ id: message.id }, { status: 201 })
+}
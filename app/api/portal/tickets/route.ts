@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+
+import { notifyTeamOfTicket } from "@/lib/mail/portal-notifications"
+import { AttachmentError, formFiles, saveAttachments } from "@/lib/portal/attachments"
+import { newTicketSchema } from "@/lib/portal/schema"
+import { getPortalUser } from "@/lib/portal/session"
+import { buildTicketMessage, getTicketStore } from "@/lib/portal/tickets"
+
+/**
+ * Portal Ticket Endpoint
+ *
+ * POST /api/portal/tickets (multipart: category, subject, message, attachments[])
+ * - 201 { id } when the ticket was opened; the responsible team is notified
+ * - 400 { errors } with field-level error keys, including `attachments`
+ * - 401 { error } without a portal session
+ */
+export async function POST(request: Request) {
+  const user = await getPortalUser()
+  if (!user) {
+    return NextResponse.json({ error: "signInRequired" }, { status: 401 })
+  }
+
+  const form = await request.formData().catch(() => null)
+  const parsed = newTicketSchema.safeParse({
+    category: form?.get("category"),
+    subject: form?.get("subject"),
+    message: form?.get("message"),
+  })
+  if (!form || !parsed.success) {
+    return NextResponse.json({ errors: parsed.success ? {} : parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  let attachments
+  try {
+    attachments = await saveAttachments(formFiles(form, "attachments"))
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ errors: { attachments: [error.key] } }, { status: 400 })
+    }
+    throw error
+  }
+
+  const message = buildTicketMessage({ author: "client", authorName: user.name, body: parsed.data.message }, attachments)
+  const ticket = await getTicketStore().create(user.id, parsed.data, message)
+
+  await notifyTeamOfTicket(user, ticket, message)
+  return NextResponse.json({ id: ticket.id }, { status: 201 })
+}
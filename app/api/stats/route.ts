@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+
+import { getSiteStats } from "@/lib/stats/source"
+
+/**
+ * Site Statistics Endpoint
+ *
+ * GET /api/stats
+ * - 200 with the figures and their "as of" date
+ * - 503 { error } when the stats source is missing or invalid
+ */
+export async function GET() {
+  const stats = await getSiteStats()
+  if (!stats) {
+    return NextResponse.json({ error: "Statistics are currently unavailable" }, { status: 503 })
+  }
+  return NextResponse.json(stats)
+}
@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { ABUSE_POLICIES, guardRequest } from "@/lib/abuse/guard"
+import { currentLegalVersion } from "@/lib/legal/documents"
+import { DuplicateLeadError, getLeadStore } from "@/lib/leads/store"
+import { sendLeadEmails } from "@/lib/mail/lead-notifications"
+import { transcriptToText } from "@/lib/troubleshoot/schema"
+import { supportTicketSchema } from "@/lib/troubleshoot/ticket"
+
+/**
+ * Support Ticket Endpoint
+ *
+ * POST /api/tickets { fullName, email, locale, transcript }
+ * Files the support chat as a troubleshooting lead with the full transcript,
+ * so the technician picking it up sees everything the visitor already tried.
+ * - 201 { id } when stored; the team is notified and the visitor gets an auto-reply
+ * - 400 { errors } with field-level error keys
+ * - 400/403/429 { error } when the abuse guard refuses the request
+ * - 409 { error } when the same conversation was already filed today
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  const refusal = guardRequest(request, body, ABUSE_POLICIES.tickets)
+  if (refusal) return refusal
+
+  const parsed = supportTicketSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  const { fullName, email, locale, transcript } = parsed.data
+  const message = transcriptToText(transcript)
+  const store = getLeadStore()
+  let lead
+  try {
+    lead = await store.create(
+      {
+        fullName,
+        email,
+        locale,
+        service: "troubleshooting",
+        message,
+        source: "support-chat",
+        transcript,
+        privacyPolicyVersion: await currentLegalVersion("privacy"),
+      },
+      { rejectDuplicates: true },
+    )
+  } catch (error) {
+    if (error instanceof DuplicateLeadError) {
+      return NextResponse.json({ error: "duplicateSubmission" }, { status: 409 })
+    }
+    console.error("Failed to store support ticket", error)
+    return NextResponse.json({ error: "ticketStoreFailed" }, { status: 500 })
+  }
+
+  await sendLeadEmails(lead)
+  return NextResponse.json({ id: lead.id }, { status: 201 })
+}
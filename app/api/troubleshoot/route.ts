@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { ABUSE_POLICIES, guardRequest } from "@/lib/abuse/guard"
+import { toTextStream } from "@/lib/ai/stream"
+import { getMessages } from "@/lib/i18n/messages"
+import { getTroubleshootProvider } from "@/lib/troubleshoot/provider"
+import { filterUnsafeLines, isDestructive } from "@/lib/troubleshoot/safety"
+import { troubleshootRequestSchema } from "@/lib/troubleshoot/schema"
+
+/**
+ * AI Support Chat Endpoint
+ *
+ * POST /api/troubleshoot { messages, locale }
+ * Streams the assistant's next turn as plain text: suggestion lines or a
+ * clarifying question. Requests for destructive actions are refused up front,
+ * and every provider's output passes through the safety filter.
+ * The `X-Troubleshoot-Escalate` header tells the card to push the human handoff.
+ * Refused requests (rate limit, expired challenge) get a JSON { error } key.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  const refusal = guardRequest(request, body, ABUSE_POLICIES.troubleshoot)
+  if (refusal) return refusal
+
+  const parsed = troubleshootRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten().fieldErrors }, { status: 400 })
+  }
+
+  const { messages, locale } = parsed.data
+  const copy = getMessages(locale).troubleshoot
+  const headers = {
+    "Content-Type": "text/plain; charset=utf-8",
+    "Cache-Control": "no-store",
+  }
+
+  if (isDestructive(messages[messages.length - 1].content)) {
+    return new Response(copy.refusal, {
+      headers: { ...headers, "X-Troubleshoot-Escalate": "1" },
+    })
+  }
+
+  const provider = getTroubleshootProvider()
+  const suggestions = filterUnsafeLines(provider.reply(messages, { signal: request.signal, locale }), copy.removedStep)
+
+  return new Response(toTextStream(suggestions, copy.stopped), {
+    headers: { ...headers, "X-Troubleshoot-Provider": provider.name },
+  })
+}
@@ -0,0 +1,21 @@
+import { Inter, Poppins } from "next/font/google"
+
+/**
+ * Font Configuration
+ * Using Google Fonts for professional typography
+ */
+
+// Inter font for body text - clean, readable sans-serif
+export const inter = Inter({
+  subsets: ["latin"],
+  display: "swap", // Improves loading performance
+  variable: "--font-inter",
+})
+
+// Poppins font for headings - modern, friendly sans-serif
+export const poppins = Poppins({
+  subsets: ["latin"],
+  display: "swap",
+  variable: "--font-poppins",
+  weight: ["400", "500", "600", "700"], // Multiple weights for design flexibility
+})
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next"
+
+import { SITE_URL } from "@/lib/site"
+
+/**
+ * robots.txt
+ *
+ * Keeps crawlers out of the API, the admin dashboard and the client portal,
+ * and points them at the sitemap.
+ */
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      disallow: ["/api/", "/admin", "/*/portal"],
+    },
+    sitemap: `${SITE_URL}/sitemap.xml`,
+    host: SITE_URL,
+  }
+}
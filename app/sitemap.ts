@@ -0,0 +1,80 @@
+import type { MetadataRoute } from "next"
+
+import { getPosts } from "@/lib/blog/posts"
+import { getCaseStudies } from "@/lib/case-studies/case-studies"
+import { LOCALES } from "@/lib/i18n/config"
+import { LEGAL_DOCUMENTS, getLegalVersions } from "@/lib/legal/documents"
+import { SERVICES } from "@/lib/services/catalog"
+import { SITE_URL } from "@/lib/site"
+
+type SitemapPage = Omit<MetadataRoute.Sitemap[number], "url"> & {
+  // Path after the locale prefix
+  path: string
+}
+
+/**
+ * sitemap.xml
+ *
+ * Every public page in every locale, each listing its translations. The
+ * client portal and the admin area are private and left out.
+ */
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const posts = await getPosts()
+  const caseStudies = await getCaseStudies()
+  const legal = await Promise.all(LEGAL_DOCUMENTS.map(getLegalVersions))
+  const pages: SitemapPage[] = [
+    { path: "", changeFrequency: "weekly", priority: 1 },
+    ...SERVICES.map((service): SitemapPage => ({
+      path: `/services/${service.slug}`,
+      changeFrequency: "monthly",
+      priority: 0.8,
+    })),
+    {
+      path: "/blog",
+      lastModified: posts[0] ? (posts[0].updated ?? posts[0].date) : undefined,
+      changeFrequency: "weekly",
+      priority: 0.6,
+    },
+    ...posts.map(
+      (post): SitemapPage => ({
+        path: `/blog/${post.slug}`,
+        lastModified: post.updated ?? post.date,
+        changeFrequency: "yearly",
+        priority: 0.5,
+      }),
+    ),
+    // The index only exists once a case study is published
+    ...(caseStudies.length
+      ? [
+          {
+            path: "/case-studies",
+            lastModified: caseStudies[0].date,
+            changeFrequency: "monthly",
+            priority: 0.6,
+          } satisfies SitemapPage,
+        ]
+      : []),
+    ...caseStudies.map(
+      (caseStudy): SitemapPage => ({
+        path: `/case-studies/${caseStudy.slug}`,
+        lastModified: caseStudy.date,
+        changeFrequency: "yearly",
+        priority: 0.5,
+      }),
+    ),
+    // Legal documents in force; archived versions are not indexed
+    ...legal.flatMap(([current]): SitemapPage[] =>
+      current ? [{ path: `/legal/${current.document}`, lastModified: current.version, changeFrequency: "yearly", priority: 0.2 }] : [],
+    ),
+  ]
+
+  return pages.flatMap(({ path, ...page }) =>
+    LOCALES.map((locale) => ({
+      ...page,
+      url: `${SITE_URL}/${locale}${path}`,
+      alternates: {
+        languages: Object.fromEntries(LOCALES.map((candidate) => [candidate, `${SITE_URL}/${candidate}${path}`])),
+      },
+    })),
+  )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { useRouter } from "next/navigation"
+import { UserPlus } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DEFAULT_LOCALE, LOCALE_LABELS, LOCALES, type Locale } from "@/lib/i18n/config"
+
+/**
+ * Add Client Form
+ *
+ * Registers a client for the support portal. They sign in with a magic link
+ * sent to this email address.
+ */
+export function AddClientForm() {
+  const router = useRouter()
+  const [name, setName] = useState("")
+  const [email, setEmail] = useState("")
+  const [company, setCompany] = useState("")
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setError(null)
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/admin/clients", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, email, company: company.trim() || undefined, locale }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError(result.error ?? "Enter the client's name and a valid email address.")
+        return
+      }
+      setName("")
+      setEmail("")
+      setCompany("")
+      router.refresh()
+    } catch {
+      setError("We couldn't reach the server. Please check your connection and try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 items-end">
+      <div>
+        <Label htmlFor="client-name" className="mb-2">
+          Name
+        </Label>
+        <Input id="client-name" required value={name} onChange={(event) => setName(event.target.value)} />
+      </div>
+      <div>
+        <Label htmlFor="client-email" className="mb-2">
+          Email
+        </Label>
+        <Input id="client-email" type="email" required value={email} onChange={(event) => setEmail(event.target.value)} />
+      </div>
+      <div>
+        <Label htmlFor="client-company" className="mb-2">
+          Company
+        </Label>
+        <Input id="client-company" value={company} onChange={(event) => setCompany(event.target.value)} />
+      </div>
+      <div>
+        <Label htmlFor="client-locale" className="mb-2">
+          Email language
+        </Label>
+        <Select value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+          <SelectTrigger id="client-locale" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LOCALES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {LOCALE_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Button type="submit" disabled={isSaving} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+        <UserPlus className="w-4 h-4 mr-2" />
+        {isSaving ? "Adding..." : "Add client"}
+      </Button>
+      {error && (
+        <p role="alert" className="text-sm text-red-600 sm:col-span-2 lg:col-span-5">
+          {error}
+        </p>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,50 @@
+import type React from "react"
+import Link from "next/link"
+
+import { SignOutButton } from "@/components/admin/sign-out-button"
+
+const ADMIN_SECTIONS = [
+  { href: "/admin", label: "Leads" },
+  { href: "/admin/bookings", label: "Bookings" },
+  { href: "/admin/tickets", label: "Tickets" },
+  { href: "/admin/clients", label: "Clients" },
+  { href: "/admin/content", label: "Content" },
+]
+
+interface AdminHeaderProps {
+  title: string
+  // Page-specific actions shown before the sign-out button
+  children?: React.ReactNode
+}
+
+/**
+ * Admin Header
+ *
+ * Logo, page title and navigation between the dashboard sections.
+ */
+export function AdminHeader({ title, children }: AdminHeaderProps) {
+  return (
+    <header className="flex flex-wrap items-center justify-between gap-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <img src="/torestech-logo.jpeg" alt="Torestech" className="h-10 w-auto" />
+        <h1 className="text-2xl font-bold">{title}</h1>
+        <nav aria-label="Admin sections" className="flex gap-1 text-sm">
+          {ADMIN_SECTIONS.map((section) => (
+            <Link
+              key={section.href}
+              href={section.href}
+              aria-current={section.label === title ? "page" : undefined}
+              className="rounded-md px-3 py-1.5 font-medium text-slate-600 hover:bg-slate-100 aria-[current=page]:bg-slate-200 aria-[current=page]:text-slate-900"
+            >
+              {section.label}
+            </Link>
+          ))}
+        </nav>
+      </div>
+      <div className="flex gap-2">
+        {children}
+        <SignOutButton />
+      </div>
+    </header>
+  )
+}
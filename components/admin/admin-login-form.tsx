@@ -0,0 +1,74 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { useRouter } from "next/navigation"
+import { LogIn } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+/**
+ * Admin Sign-in Form
+ *
+ * Posts the shared admin password to /api/admin/session and opens the
+ * dashboard once the session cookie is set.
+ */
+export function AdminLoginForm() {
+  const router = useRouter()
+  const [password, setPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setError(null)
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/admin/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      })
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        setError(result.error ?? "Sign-in failed. Please try again.")
+        return
+      }
+      router.replace("/admin")
+      router.refresh()
+    } catch {
+      setError("We couldn't reach the server. Please check your connection and try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="admin-password" className="mb-2">
+          Password
+        </Label>
+        <Input
+          id="admin-password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          aria-invalid={!!error}
+          required
+        />
+      </div>
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+      <Button type="submit" disabled={isSubmitting} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white">
+        <LogIn className="w-4 h-4 mr-2" />
+        {isSubmitting ? "Signing in..." : "Sign in"}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,199 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { useRouter } from "next/navigation"
+import { Plus, Save, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { WEEKDAYS, type Availability, type AvailabilityWindow } from "@/lib/booking/schema"
+
+/**
+ * Availability Form
+ *
+ * Edits the booking rules: weekly windows in the business time zone, slot
+ * length, notice period, horizon and days off. Saving replaces the rules and
+ * refreshes the page; existing bookings are not affected.
+ */
+export function AvailabilityForm({ availability }: { availability: Availability }) {
+  const router = useRouter()
+  const [timeZone, setTimeZone] = useState(availability.timeZone)
+  const [slotMinutes, setSlotMinutes] = useState(String(availability.slotMinutes))
+  const [minNoticeHours, setMinNoticeHours] = useState(String(availability.minNoticeHours))
+  const [horizonDays, setHorizonDays] = useState(String(availability.horizonDays))
+  const [windows, setWindows] = useState<AvailabilityWindow[]>(availability.windows)
+  const [blockedDates, setBlockedDates] = useState(availability.blockedDates.join("\n"))
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    setWindows((prev) => prev.map((window, i) => (i === index ? { ...window, ...changes } : window)))
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setError(null)
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/admin/availability", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          timeZone: timeZone.trim(),
+          slotMinutes: Number(slotMinutes),
+          minNoticeHours: Number(minNoticeHours),
+          horizonDays: Number(horizonDays),
+          windows: [...windows].sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start)),
+          blockedDates: blockedDates
+            .split(/[\s,]+/)
+            .map((date) => date.trim())
+            .filter(Boolean),
+        }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        const fieldErrors: string[] = Object.values(result.errors ?? {}).flat() as string[]
+        setError(result.error ?? fieldErrors[0] ?? "Saving failed.")
+        return
+      }
+      router.refresh()
+    } catch {
+      setError("We couldn't reach the server. Please check your connection and try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <Label htmlFor="availability-zone" className="mb-2">
+            Time zone
+          </Label>
+          <Input id="availability-zone" value={timeZone} onChange={(event) => setTimeZone(event.target.value)} />
+        </div>
+        <div>
+          <Label htmlFor="availability-slot" className="mb-2">
+            Call length (minutes)
+          </Label>
+          <Input
+            id="availability-slot"
+            type="number"
+            min={15}
+            max={240}
+            step={15}
+            value={slotMinutes}
+            onChange={(event) => setSlotMinutes(event.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="availability-notice" className="mb-2">
+            Minimum notice (hours)
+          </Label>
+          <Input
+            id="availability-notice"
+            type="number"
+            min={0}
+            value={minNoticeHours}
+            onChange={(event) => setMinNoticeHours(event.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="availability-horizon" className="mb-2">
+            Bookable up to (days ahead)
+          </Label>
+          <Input
+            id="availability-horizon"
+            type="number"
+            min={1}
+            max={120}
+            value={horizonDays}
+            onChange={(event) => setHorizonDays(event.target.value)}
+          />
+        </div>
+      </div>
+
+      {/* Weekly windows; add two for a day with a lunch break */}
+      <fieldset className="space-y-2">
+        <legend className="mb-2 text-sm font-medium">Weekly availability</legend>
+        {windows.map((window, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Select value={String(window.weekday)} onValueChange={(value) => updateWindow(index, { weekday: Number(value) })}>
+              <SelectTrigger aria-label="Day" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKDAYS.map((name, weekday) => (
+                  <SelectItem key={name} value={String(weekday)}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="time"
+              aria-label="From"
+              className="w-32"
+              value={window.start}
+              onChange={(event) => updateWindow(index, { start: event.target.value })}
+            />
+            <span className="text-slate-500">to</span>
+            <Input
+              type="time"
+              aria-label="Until"
+              className="w-32"
+              value={window.end}
+              onChange={(event) => updateWindow(index, { end: event.target.value })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Remove ${WEEKDAYS[window.weekday]} ${window.start}-${window.end}`}
+              onClick={() => setWindows((prev) => prev.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setWindows((prev) => [...prev, { weekday: 1, start: "09:00", end: "17:00" }])}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add window
+        </Button>
+      </fieldset>
+
+      <div>
+        <Label htmlFor="availability-blocked" className="mb-2">
+          Days off
+        </Label>
+        <Textarea
+          id="availability-blocked"
+          rows={3}
+          value={blockedDates}
+          onChange={(event) => setBlockedDates(event.target.value)}
+          placeholder="2026-12-25"
+        />
+        <p className="mt-1 text-xs text-slate-500">One yyyy-MM-dd date per line, e.g. public holidays.</p>
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+      <Button type="submit" disabled={isSaving} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+        <Save className="w-4 h-4 mr-2" />
+        {isSaving ? "Saving..." : "Save availability"}
+      </Button>
+    </form>
+  )
+}
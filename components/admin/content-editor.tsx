@@ -0,0 +1,419 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowDown, ArrowUp, Eye, Plus, Save, Send, Trash2, Undo2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  CARD_ICONS,
+  contentFieldErrors,
+  siteContentSchema,
+  type ContentFieldErrors,
+  type SiteContent,
+} from "@/lib/cms/schema"
+import type { Locale } from "@/lib/i18n/config"
+
+interface ContentEditorProps {
+  locale: Locale
+  // The draft if there is one, otherwise the published content
+  initialContent: SiteContent
+  hasDraft: boolean
+}
+
+interface FieldProps {
+  id: string
+  label: string
+  value: string
+  onChange: (value: string) => void
+  errors?: string[]
+  multiline?: boolean
+  hint?: string
+}
+
+/**
+ * One labelled text field with its validation message
+ */
+function Field({ id, label, value, onChange, errors, multiline, hint }: FieldProps) {
+  const Control = multiline ? Textarea : Input
+  return (
+    <div>
+      <Label htmlFor={id} className="mb-2">
+        {label}
+      </Label>
+      <Control
+        id={id}
+        value={value}
+        rows={multiline ? 4 : undefined}
+        aria-invalid={errors ? true : undefined}
+        aria-describedby={errors ? `${id}-error` : undefined}
+        onChange={(event) => onChange(event.target.value)}
+      />
+      {hint && <p className="mt-1 text-xs text-slate-500">{hint}</p>}
+      {errors && (
+        <p id={`${id}-error`} className="mt-1 text-sm text-red-600">
+          {errors[0]}
+        </p>
+      )}
+    </div>
+  )
+}
+
+// Swap an item with its neighbour; out-of-range moves leave the list as it is
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset
+  if (target < 0 || target >= items.length) return items
+  const moved = [...items]
+  ;[moved[index], moved[target]] = [moved[target], moved[index]]
+  return moved
+}
+
+/**
+ * Content Editor
+ *
+ * Edits one locale's landing page copy. Saving stores a draft; "Preview"
+ * opens the site with the draft, and "Publish" makes it live and regenerates
+ * the page. Validation runs here first, with the same schema as the API.
+ */
+export function ContentEditor({ locale, initialContent, hasDraft }: ContentEditorProps) {
+  const router = useRouter()
+  const [content, setContent] = useState(initialContent)
+  const [errors, setErrors] = useState<ContentFieldErrors>({})
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const update = <K extends keyof SiteContent>(section: K, changes: Partial<SiteContent[K]>) => {
+    setContent((prev) => ({ ...prev, [section]: { ...prev[section], ...changes } }))
+  }
+  const { hero, valueProp, about, footer } = content
+  const endpoint = `/api/admin/content/${locale}`
+
+  // Run one request; resolves to whether it succeeded
+  const request = async (input: string, init: RequestInit, success: string): Promise<boolean> => {
+    setError(null)
+    setNotice(null)
+    setIsBusy(true)
+    try {
+      const response = await fetch(input, init)
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        if (result.errors) setErrors(result.errors)
+        setError(result.error ?? "Some fields need attention.")
+        return false
+      }
+      setNotice(success)
+      router.refresh()
+      return true
+    } catch {
+      setError("We couldn't reach the server. Please check your connection and try again.")
+      return false
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const saveDraft = async (): Promise<boolean> => {
+    const parsed = siteContentSchema.safeParse(content)
+    if (!parsed.success) {
+      setErrors(contentFieldErrors(parsed.error))
+      setError("Some fields need attention.")
+      return false
+    }
+    setErrors({})
+    return request(
+      endpoint,
+      { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify(parsed.data) },
+      "Draft saved.",
+    )
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    await saveDraft()
+  }
+
+  const handlePreview = async () => {
+    if (await saveDraft()) window.open(`${endpoint}/preview`, "_blank", "noopener")
+  }
+
+  const handlePublish = async () => {
+    if (await saveDraft()) await request(`${endpoint}/publish`, { method: "POST" }, "Published. The site now shows these changes.")
+  }
+
+  const handleDiscard = async () => {
+    if (!window.confirm("Discard the draft and go back to the published content?")) return
+    await request(endpoint, { method: "DELETE" }, "Draft discarded.")
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-8">
+      <fieldset className="space-y-4">
+        <legend className="mb-2 text-lg font-semibold">Hero</legend>
+        <Field id="hero-title" label="Headline" value={hero.title} errors={errors["hero.title"]} onChange={(title) => update("hero", { title })} />
+        <Field
+          id="hero-subtitle"
+          label="Introduction"
+          multiline
+          value={hero.subtitle}
+          errors={errors["hero.subtitle"]}
+          onChange={(subtitle) => update("hero", { subtitle })}
+        />
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Field
+            id="hero-image"
+            label="Image"
+            hint="A file in public/, e.g. /team.jpg, or an https:// URL."
+            value={hero.image.src}
+            errors={errors["hero.image.src"]}
+            onChange={(src) => update("hero", { image: { ...hero.image, src } })}
+          />
+          <Field
+            id="hero-image-alt"
+            label="Image description"
+            hint="Read aloud by screen readers."
+            value={hero.image.alt}
+            errors={errors["hero.image.alt"]}
+            onChange={(alt) => update("hero", { image: { ...hero.image, alt } })}
+          />
+        </div>
+        <Field
+          id="hero-cta"
+          label="Health check button"
+          value={hero.primaryCta.label}
+          errors={errors["hero.primaryCta.label"]}
+          onChange={(label) => update("hero", { primaryCta: { label } })}
+        />
+        {hero.secondaryCta ? (
+          <div className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] items-start">
+            <Field
+              id="hero-link-label"
+              label="Second link text"
+              value={hero.secondaryCta.label}
+              errors={errors["hero.secondaryCta.label"]}
+              onChange={(label) => update("hero", { secondaryCta: { href: hero.secondaryCta?.href ?? "", label } })}
+            />
+            <Field
+              id="hero-link-href"
+              label="Second link target"
+              hint="A page path, a #section such as #services, or an https:// URL."
+              value={hero.secondaryCta.href}
+              errors={errors["hero.secondaryCta.href"]}
+              onChange={(href) => update("hero", { secondaryCta: { label: hero.secondaryCta?.label ?? "", href } })}
+            />
+            <Button type="button" variant="ghost" className="sm:mt-6" onClick={() => update("hero", { secondaryCta: undefined })}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Remove link
+            </Button>
+          </div>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => update("hero", { secondaryCta: { label: "", href: "#services" } })}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add a second link
+          </Button>
+        )}
+      </fieldset>
+
+      <fieldset className="space-y-4">
+        <legend className="mb-2 text-lg font-semibold">Why partner with us</legend>
+        <Field
+          id="value-title"
+          label="Heading"
+          value={valueProp.title}
+          errors={errors["valueProp.title"]}
+          onChange={(title) => update("valueProp", { title })}
+        />
+        {valueProp.cards.map((card, index) => {
+          const setCard = (changes: Partial<typeof card>) =>
+            update("valueProp", { cards: valueProp.cards.map((other, i) => (i === index ? { ...other, ...changes } : other)) })
+          return (
+            <div key={index} className="space-y-4 rounded-md border border-slate-200 p-4">
+              <div className="flex flex-wrap items-end gap-2">
+                <div>
+                  <Label htmlFor={`card-${index}-icon`} className="mb-2">
+                    Icon
+                  </Label>
+                  <Select
+                    value={card.icon ?? "none"}
+                    onValueChange={(value) => setCard({ icon: value === "none" ? undefined : (value as typeof card.icon) })}
+                  >
+                    <SelectTrigger id={`card-${index}-icon`} className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {CARD_ICONS.map((icon) => (
+                        <SelectItem key={icon} value={icon}>
+                          {icon}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="ml-auto flex gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Move card ${index + 1} up`}
+                    disabled={index === 0}
+                    onClick={() => update("valueProp", { cards: move(valueProp.cards, index, -1) })}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Move card ${index + 1} down`}
+                    disabled={index === valueProp.cards.length - 1}
+                    onClick={() => update("valueProp", { cards: move(valueProp.cards, index, 1) })}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove card ${index + 1}`}
+                    onClick={() => update("valueProp", { cards: valueProp.cards.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <Field
+                id={`card-${index}-title`}
+                label={`Card ${index + 1} title`}
+                value={card.title}
+                errors={errors[`valueProp.cards.${index}.title`]}
+                onChange={(title) => setCard({ title })}
+              />
+              <Field
+                id={`card-${index}-text`}
+                label={`Card ${index + 1} text`}
+                multiline
+                value={card.text}
+                errors={errors[`valueProp.cards.${index}.text`]}
+                onChange={(text) => setCard({ text })}
+              />
+            </div>
+          )
+        })}
+        {errors["valueProp.cards"] && <p className="text-sm text-red-600">{errors["valueProp.cards"][0]}</p>}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update("valueProp", { cards: [...valueProp.cards, { title: "", text: "" }] })}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add card
+        </Button>
+      </fieldset>
+
+      <fieldset className="space-y-4">
+        <legend className="mb-2 text-lg font-semibold">About</legend>
+        <Field id="about-title" label="Heading" value={about.title} errors={errors["about.title"]} onChange={(title) => update("about", { title })} />
+        {about.paragraphs.map((paragraph, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <div className="flex-1">
+              <Field
+                id={`about-paragraph-${index}`}
+                label={`Paragraph ${index + 1}`}
+                multiline
+                value={paragraph}
+                errors={errors[`about.paragraphs.${index}`]}
+                onChange={(value) => update("about", { paragraphs: about.paragraphs.map((other, i) => (i === index ? value : other)) })}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="mt-6"
+              aria-label={`Remove paragraph ${index + 1}`}
+              onClick={() => update("about", { paragraphs: about.paragraphs.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        {errors["about.paragraphs"] && <p className="text-sm text-red-600">{errors["about.paragraphs"][0]}</p>}
+        <Button type="button" variant="outline" size="sm" onClick={() => update("about", { paragraphs: [...about.paragraphs, ""] })}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add paragraph
+        </Button>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Field
+            id="about-image"
+            label="Image"
+            hint="A file in public/, e.g. /team.jpg, or an https:// URL."
+            value={about.image.src}
+            errors={errors["about.image.src"]}
+            onChange={(src) => update("about", { image: { ...about.image, src } })}
+          />
+          <Field
+            id="about-image-alt"
+            label="Image description"
+            hint="Read aloud by screen readers."
+            value={about.image.alt}
+            errors={errors["about.image.alt"]}
+            onChange={(alt) => update("about", { image: { ...about.image, alt } })}
+          />
+        </div>
+      </fieldset>
+
+      <fieldset className="space-y-4">
+        <legend className="mb-2 text-lg font-semibold">Footer</legend>
+        <Field
+          id="footer-tagline"
+          label="Tagline"
+          value={footer.tagline}
+          errors={errors["footer.tagline"]}
+          onChange={(tagline) => update("footer", { tagline })}
+        />
+      </fieldset>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+      {notice && (
+        <p role="status" className="text-sm text-green-700">
+          {notice}
+        </p>
+      )}
+      <div className="sticky bottom-0 flex flex-wrap gap-2 border-t border-slate-200 bg-slate-50 py-4">
+        <Button type="submit" variant="outline" disabled={isBusy}>
+          <Save className="w-4 h-4 mr-2" />
+          Save draft
+        </Button>
+        <Button type="button" variant="outline" disabled={isBusy} onClick={handlePreview}>
+          <Eye className="w-4 h-4 mr-2" />
+          Save and preview
+        </Button>
+        <Button type="button" disabled={isBusy} onClick={handlePublish} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+          <Send className="w-4 h-4 mr-2" />
+          Publish
+        </Button>
+        {hasDraft && (
+          <Button type="button" variant="ghost" disabled={isBusy} onClick={handleDiscard} className="ml-auto">
+            <Undo2 className="w-4 h-4 mr-2" />
+            Discard draft
+          </Button>
+        )}
+      </div>
+    </form>
+  )
+}
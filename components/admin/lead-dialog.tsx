@@ -0,0 +1,224 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Save } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { LEAD_STATUSES, SERVICE_OPTIONS, type Lead, type LeadStatus } from "@/lib/leads/schema"
+import { describeEstimate } from "@/lib/pricing/estimate"
+import { formatCatalogPrice, getService } from "@/lib/services/catalog"
+
+// Select value for "nobody" (Radix Select items can't use an empty string)
+const UNASSIGNED = "unassigned"
+
+interface LeadDialogProps {
+  lead: Lead
+  team: string[]
+}
+
+/**
+ * Lead Dialog
+ *
+ * Full lead details (including health-check scores) with controls to change
+ * the status, assignee and tags. Saving patches the lead and refreshes the list.
+ */
+export function LeadDialog({ lead, team }: LeadDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [status, setStatus] = useState<LeadStatus>(lead.status)
+  const [assignee, setAssignee] = useState(lead.assignee ?? UNASSIGNED)
+  const [tags, setTags] = useState(lead.tags.join(", "))
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const serviceLabel = SERVICE_OPTIONS.find((option) => option.value === lead.service)?.label ?? lead.service
+  // Keep a previous assignee selectable even if they have left the team list
+  const assignees = lead.assignee && !team.includes(lead.assignee) ? [...team, lead.assignee] : team
+
+  const save = async () => {
+    setError(null)
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/admin/leads/${lead.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          status,
+          assignee: assignee === UNASSIGNED ? null : assignee,
+          tags: tags
+            .split(",")
+            .map((tag) => tag.trim())
+            .filter(Boolean),
+        }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError(result.error ?? (result.errors?.tags ? "Tags must be under 40 characters each (20 max)." : "Saving failed."))
+        return
+      }
+      setIsOpen(false)
+      router.refresh()
+    } catch {
+      setError("We couldn't reach the server. Please check your connection and try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          Manage
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{lead.fullName}</DialogTitle>
+          <DialogDescription>
+            <a href={`mailto:${lead.email}`} className="text-indigo-600 hover:underline">
+              {lead.email}
+            </a>{" "}
+            &middot; {serviceLabel} &middot; {new Date(lead.createdAt).toLocaleString("en-GB")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {lead.appointment && (
+          <p className="text-sm font-medium">
+            Call booked for {new Date(lead.appointment.start).toLocaleString("en-GB", { dateStyle: "full", timeStyle: "short" })}
+          </p>
+        )}
+
+        {/* Support tickets show the chat as it happened; other leads their message */}
+        {lead.transcript ? (
+          <ol className="space-y-2 rounded-md border border-slate-200 bg-slate-50 p-3 text-sm">
+            {lead.transcript.map((turn, index) => (
+              <li key={index} className="whitespace-pre-wrap">
+                <span className="font-semibold">{turn.role === "user" ? "Visitor" : "Assistant"}:</span> {turn.content}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="whitespace-pre-wrap rounded-md border border-slate-200 bg-slate-50 p-3 text-sm">{lead.message}</p>
+        )}
+
+        {lead.privacyPolicyVersion && (
+          <p className="text-sm text-slate-600">
+            Agreed to the{" "}
+            <a
+              href={`/en/legal/privacy/${lead.privacyPolicyVersion}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-indigo-600 hover:underline"
+            >
+              privacy policy of {lead.privacyPolicyVersion}
+            </a>
+          </p>
+        )}
+
+        {/* Price estimate the prospect configured, per service */}
+        {lead.estimate && (
+          <div className="text-sm">
+            <p className="font-semibold mb-2">Estimate: {describeEstimate(lead.estimate)}</p>
+            <ul className="space-y-1">
+              {lead.estimate.lines.map((line) => (
+                <li key={line.service}>
+                  {getService(line.service)?.title ?? line.service}: {formatCatalogPrice(line.monthly)}/month
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Health-check scores, most urgent first */}
+        {lead.assessment && (
+          <div className="text-sm">
+            <p className="font-semibold mb-2">
+              Health check: {lead.assessment.overallScore}/100 ({lead.assessment.answers.deviceCount} devices)
+            </p>
+            <ul className="space-y-1">
+              {lead.assessment.areas.map((area) => (
+                <li key={area.service}>
+                  {area.area}: {area.score}/100 &middot; {area.priority} priority
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <Label htmlFor={`status-${lead.id}`} className="mb-2">
+              Status
+            </Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as LeadStatus)}>
+              <SelectTrigger id={`status-${lead.id}`} className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LEAD_STATUSES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor={`assignee-${lead.id}`} className="mb-2">
+              Assigned to
+            </Label>
+            <Select value={assignee} onValueChange={setAssignee}>
+              <SelectTrigger id={`assignee-${lead.id}`} className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {assignees.map((member) => (
+                  <SelectItem key={member} value={member}>
+                    {member}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!team.length && <p className="mt-1 text-xs text-slate-500">Set ADMIN_TEAM to list team members.</p>}
+          </div>
+        </div>
+        <div>
+          <Label htmlFor={`tags-${lead.id}`} className="mb-2">
+            Tags
+          </Label>
+          <Input
+            id={`tags-${lead.id}`}
+            value={tags}
+            onChange={(event) => setTags(event.target.value)}
+            placeholder="e.g. urgent, follow-up, referral"
+          />
+          <p className="mt-1 text-xs text-slate-500">Separate tags with commas.</p>
+        </div>
+
+        {error && (
+          <p role="alert" className="text-sm text-red-600">
+            {error}
+          </p>
+        )}
+        <Button onClick={save} disabled={isSaving} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? "Saving..." : "Save changes"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  )
+}
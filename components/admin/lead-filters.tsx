@@ -0,0 +1,106 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { Search } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { LEAD_STATUSES, SERVICE_OPTIONS } from "@/lib/leads/schema"
+
+// Select value standing for "no filter" (Radix Select items can't use an empty string)
+const ALL = "all"
+
+/**
+ * Lead Filters
+ *
+ * Service, status and search controls for the dashboard. Every change is
+ * written to the URL query, which the server page reads to filter the list.
+ */
+export function LeadFilters() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const [query, setQuery] = useState(searchParams.get("q") ?? "")
+
+  /**
+   * Replace one query parameter, dropping it when cleared
+   */
+  const setParam = (key: string, value: string) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (value && value !== ALL) {
+      params.set(key, value)
+    } else {
+      params.delete(key)
+    }
+    const search = params.toString()
+    router.replace(search ? `${pathname}?${search}` : pathname)
+  }
+
+  const handleSearch = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setParam("q", query.trim())
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[1fr_1fr_2fr] md:items-end">
+      <div>
+        <Label htmlFor="filter-service" className="mb-2">
+          Service of Interest
+        </Label>
+        <Select value={searchParams.get("service") ?? ALL} onValueChange={(value) => setParam("service", value)}>
+          <SelectTrigger id="filter-service" className="w-full bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All services</SelectItem>
+            {SERVICE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor="filter-status" className="mb-2">
+          Status
+        </Label>
+        <Select value={searchParams.get("status") ?? ALL} onValueChange={(value) => setParam("status", value)}>
+          <SelectTrigger id="filter-status" className="w-full bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All statuses</SelectItem>
+            {LEAD_STATUSES.map((status) => (
+              <SelectItem key={status.value} value={status.value}>
+                {status.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <form onSubmit={handleSearch} role="search">
+        <Label htmlFor="filter-query" className="mb-2">
+          Search
+        </Label>
+        <div className="flex gap-2">
+          <Input
+            id="filter-query"
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Name, email, message, tag or assignee"
+            className="bg-white"
+          />
+          <Button type="submit" variant="outline">
+            <Search className="w-4 h-4" />
+            <span className="sr-only">Search</span>
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { LEAD_STATUSES, type LeadStatus } from "@/lib/leads/schema"
+
+const STATUS_STYLES: Record<LeadStatus, string> = {
+  new: "bg-indigo-100 text-indigo-700",
+  contacted: "bg-sky-100 text-sky-700",
+  qualified: "bg-amber-100 text-amber-700",
+  won: "bg-green-100 text-green-700",
+  lost: "bg-slate-200 text-slate-600",
+}
+
+/**
+ * Coloured pill showing a lead's pipeline status
+ */
+export function LeadStatusBadge({ status }: { status: LeadStatus }) {
+  const label = LEAD_STATUSES.find((option) => option.value === status)?.label ?? status
+  return (
+    <span className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[status]}`}>{label}</span>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { LogOut } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+
+/**
+ * Ends the admin session and returns to the sign-in page
+ */
+export function SignOutButton() {
+  const router = useRouter()
+
+  const signOut = async () => {
+    await fetch("/api/admin/session", { method: "DELETE" }).catch(() => undefined)
+    router.replace("/admin/login")
+    router.refresh()
+  }
+
+  return (
+    <Button variant="outline" onClick={signOut}>
+      <LogOut className="w-4 h-4 mr-2" />
+      Sign out
+    </Button>
+  )
+}
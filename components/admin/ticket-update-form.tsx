@@ -0,0 +1,122 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Send } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { TICKET_STATUSES, type Ticket, type TicketStatus } from "@/lib/portal/schema"
+
+// Select value for replies signed by the team as a whole
+const TEAM = "team"
+
+interface TicketUpdateFormProps {
+  ticket: Ticket
+  team: string[]
+}
+
+/**
+ * Ticket Update Form
+ *
+ * Technician reply and status change for a portal ticket. Saving patches the
+ * ticket, which emails the client, and refreshes the thread.
+ */
+export function TicketUpdateForm({ ticket, team }: TicketUpdateFormProps) {
+  const router = useRouter()
+  // Default to "Waiting on client" when replying to an open ticket
+  const [status, setStatus] = useState<TicketStatus>(ticket.status === "open" ? "waiting" : ticket.status)
+  const [technician, setTechnician] = useState(TEAM)
+  const [reply, setReply] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const save = async () => {
+    setError(null)
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/admin/tickets/${ticket.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          status: status === ticket.status ? undefined : status,
+          reply: reply.trim() || undefined,
+          technician: technician === TEAM ? undefined : technician,
+        }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError(result.error ?? (result.errors?.reply ? "Replies must be under 5000 characters." : "Add a reply or change the status."))
+        return
+      }
+      setReply("")
+      router.refresh()
+    } catch {
+      setError("We couldn't reach the server. Please check your connection and try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="ticket-reply" className="mb-2">
+          Reply to the client
+        </Label>
+        <Textarea id="ticket-reply" rows={5} value={reply} onChange={(event) => setReply(event.target.value)} />
+        <p className="mt-1 text-xs text-slate-500">The client is emailed about replies and status changes.</p>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="ticket-status" className="mb-2">
+            Status
+          </Label>
+          <Select value={status} onValueChange={(value) => setStatus(value as TicketStatus)}>
+            <SelectTrigger id="ticket-status" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TICKET_STATUSES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="ticket-technician" className="mb-2">
+            Sign as
+          </Label>
+          <Select value={technician} onValueChange={setTechnician}>
+            <SelectTrigger id="ticket-technician" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TEAM}>Torestech support</SelectItem>
+              {team.map((member) => (
+                <SelectItem key={member} value={member}>
+                  {member}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!team.length && <p className="mt-1 text-xs text-slate-500">Set ADMIN_TEAM to list team members.</p>}
+        </div>
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+      <Button onClick={save} disabled={isSaving} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+        <Send className="w-4 h-4 mr-2" />
+        {isSaving ? "Saving..." : "Update ticket"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Analytics } from "@vercel/analytics/next"
+
+import { useConsent } from "@/hooks/use-consent"
+import { getAnalyticsProvider } from "@/lib/analytics/providers"
+
+/**
+ * Analytics Scripts
+ *
+ * Loads the analytics provider's page-view script only after the visitor
+ * accepts analytics; declining or never deciding loads nothing. A loaded
+ * script keeps running after it is unmounted, so withdrawing consent
+ * reloads the page to turn the tracker off.
+ */
+export function AnalyticsScripts() {
+  const { record } = useConsent()
+  const enabled = record?.analytics === "granted" && getAnalyticsProvider().hasScript
+  const wasEnabled = useRef(false)
+
+  useEffect(() => {
+    if (wasEnabled.current && !enabled) window.location.reload()
+    wasEnabled.current = enabled
+  }, [enabled])
+
+  return enabled ? <Analytics /> : null
+}
@@ -0,0 +1,42 @@
+import type React from "react"
+import Link from "next/link"
+
+/**
+ * MDX Components
+ *
+ * Element styles for article bodies, so authors write plain Markdown and get
+ * the site's typography.
+ */
+export const mdxComponents = {
+  h2: (props: React.ComponentProps<"h2">) => (
+    <h2 className="mt-10 mb-4 text-2xl font-bold text-slate-900 dark:text-white" {...props} />
+  ),
+  h3: (props: React.ComponentProps<"h3">) => (
+    <h3 className="mt-8 mb-3 text-xl font-semibold text-slate-900 dark:text-white" {...props} />
+  ),
+  p: (props: React.ComponentProps<"p">) => <p className="mb-4 leading-relaxed" {...props} />,
+  ul: (props: React.ComponentProps<"ul">) => <ul className="mb-4 list-disc space-y-2 pl-6" {...props} />,
+  ol: (props: React.ComponentProps<"ol">) => <ol className="mb-4 list-decimal space-y-2 pl-6" {...props} />,
+  blockquote: (props: React.ComponentProps<"blockquote">) => (
+    <blockquote className="mb-4 border-l-4 border-indigo-600 pl-4 italic text-slate-600 dark:text-slate-400" {...props} />
+  ),
+  code: (props: React.ComponentProps<"code">) => (
+    <code className="rounded bg-slate-100 px-1.5 py-0.5 font-mono text-sm dark:bg-slate-800" {...props} />
+  ),
+  pre: (props: React.ComponentProps<"pre">) => (
+    <pre className="mb-4 overflow-x-auto rounded-lg bg-slate-900 p-4 text-sm text-slate-100 [&>code]:bg-transparent [&>code]:p-0" {...props} />
+  ),
+  // Internal links stay client-side; external ones open in a new tab
+  a: ({ href = "", ref: _ref, ...props }: React.ComponentProps<"a">) =>
+    href.startsWith("/") || href.startsWith("#") ? (
+      <Link href={href} className="text-indigo-600 dark:text-indigo-400 hover:underline" {...props} />
+    ) : (
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-indigo-600 dark:text-indigo-400 hover:underline"
+        {...props}
+      />
+    ),
+}
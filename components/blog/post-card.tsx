@@ -0,0 +1,53 @@
+import Link from "next/link"
+
+import type { PostSummary } from "@/lib/blog/posts"
+import { LOCALE_FORMATS, type Locale } from "@/lib/i18n/config"
+import type { Messages } from "@/lib/i18n/messages"
+import { formatMessage } from "@/lib/i18n/translate"
+
+interface PostCardProps {
+  post: PostSummary
+  locale: Locale
+  messages: Messages
+}
+
+/**
+ * Article teaser for the blog listing and related-article lists
+ */
+export function PostCard({ post, locale, messages }: PostCardProps) {
+  const copy = messages.blog
+  return (
+    <article
+      lang={post.lang}
+      className="flex flex-col rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-6 hover:shadow-lg transition-shadow"
+    >
+      <p className="mb-2 flex flex-wrap gap-x-3 text-sm text-slate-500 dark:text-slate-400">
+        <time dateTime={post.date}>
+          {new Date(`${post.date}T00:00:00Z`).toLocaleDateString(LOCALE_FORMATS[locale], { dateStyle: "medium", timeZone: "UTC" })}
+        </time>
+        <span>{formatMessage(copy.readingTime, { minutes: post.readingMinutes })}</span>
+        {post.lang !== locale && (
+          <span lang={locale}>{formatMessage(copy.writtenIn, { language: copy.languages[post.lang] })}</span>
+        )}
+      </p>
+      <h3 className="mb-2 text-xl font-semibold text-slate-900 dark:text-white">
+        <Link href={`/${locale}/blog/${post.slug}`} className="hover:text-indigo-600 dark:hover:text-indigo-400">
+          {post.title}
+        </Link>
+      </h3>
+      <p className="mb-4 flex-1 text-slate-600 dark:text-slate-300">{post.description}</p>
+      <ul className="flex flex-wrap gap-2">
+        {post.tags.map((tag) => (
+          <li key={tag}>
+            <Link
+              href={`/${locale}/blog?tag=${tag}`}
+              className="rounded bg-slate-100 dark:bg-slate-700 px-2 py-0.5 text-xs text-slate-600 dark:text-slate-300 hover:bg-indigo-100 dark:hover:bg-indigo-900"
+            >
+              #{tag}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </article>
+  )
+}
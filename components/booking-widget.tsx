@@ -0,0 +1,352 @@
+"use client"
+
+import { useEffect, useMemo, useState, type FormEvent } from "react"
+import { DayPicker } from "react-day-picker"
+import { enGB, fr } from "react-day-picker/locale"
+import { addMonths, endOfMonth, format, max as latestOf, startOfMonth } from "date-fns"
+import { ArrowLeft, CalendarCheck } from "lucide-react"
+import "react-day-picker/style.css"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { HoneypotField } from "@/components/honeypot-field"
+import { useI18n } from "@/components/i18n-provider"
+import { PolicyNotice } from "@/components/legal/policy-notice"
+import { useRequestProtection } from "@/hooks/use-request-protection"
+import { trackEvent } from "@/lib/analytics/events"
+import { bookingRequestSchema, type BookingRequest } from "@/lib/booking/schema"
+import { LOCALE_FORMATS, type Locale } from "@/lib/i18n/config"
+import { formatMessage, translateError } from "@/lib/i18n/translate"
+import { SERVICE_OPTIONS, type ServiceValue } from "@/lib/leads/schema"
+
+// Calendar language for each site locale
+const CALENDAR_LOCALES = { en: enGB, fr } satisfies Record<Locale, unknown>
+
+// How far ahead the calendar lets visitors browse
+const MONTHS_AHEAD = 3
+
+type BookingErrors = Partial<Record<keyof BookingRequest, string[]>>
+
+const initialValues = { fullName: "", email: "", service: "general" as ServiceValue, message: "" }
+
+/**
+ * Booking Widget
+ *
+ * Calendar of free consultation slots in the visitor's own time zone. Picking
+ * a day lists its times; picking a time opens the contact fields. The server
+ * re-checks the slot when booking, so a slot taken in the meantime comes back
+ * as an error and the calendar reloads.
+ */
+export function BookingWidget() {
+  const { locale, messages } = useI18n()
+  const copy = messages.booking
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+  const [slots, setSlots] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadError, setLoadError] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [day, setDay] = useState<Date>()
+  const [slot, setSlot] = useState<string>()
+  // Resolved after mount so the server render doesn't guess the visitor's zone
+  const [timeZone, setTimeZone] = useState<string>()
+  const [values, setValues] = useState(initialValues)
+  const [errors, setErrors] = useState<BookingErrors>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [booked, setBooked] = useState<{ when: string; email: string } | null>(null)
+  const { protect, honeypot, setHoneypot } = useRequestProtection({ prefetch: Boolean(slot) })
+
+  /**
+   * Effect: Read the visitor's time zone from the browser
+   */
+  useEffect(() => {
+    setTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone)
+  }, [])
+
+  /**
+   * Effect: Load the free slots of the displayed month
+   */
+  useEffect(() => {
+    const controller = new AbortController()
+    const from = latestOf([month, new Date()])
+    const query = new URLSearchParams({ from: from.toISOString(), to: endOfMonth(month).toISOString() })
+    setIsLoading(true)
+    setLoadError(false)
+    fetch(`/api/bookings/slots?${query}`, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`))))
+      .then((result: { slots: string[] }) => setSlots(result.slots))
+      .catch(() => {
+        if (controller.signal.aborted) return
+        setSlots([])
+        setLoadError(true)
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false)
+      })
+    return () => controller.abort()
+  }, [month, reloadKey])
+
+  // Slots grouped by the visitor's local calendar day
+  const slotsByDay = useMemo(() => {
+    const groups = new Map<string, string[]>()
+    for (const start of slots) {
+      const key = format(new Date(start), "yyyy-MM-dd")
+      groups.set(key, [...(groups.get(key) ?? []), start])
+    }
+    return groups
+  }, [slots])
+
+  const daySlots = day ? (slotsByDay.get(format(day, "yyyy-MM-dd")) ?? []) : []
+  const dateLocale = LOCALE_FORMATS[locale]
+  const formatWhen = (start: string) =>
+    new Date(start).toLocaleString(dateLocale, { dateStyle: "full", timeStyle: "short" })
+
+  const updateField = <K extends keyof typeof initialValues>(field: K, value: (typeof initialValues)[K]) => {
+    setValues((prev) => ({ ...prev, [field]: value }))
+    setErrors((prev) => ({ ...prev, [field]: undefined }))
+  }
+
+  /**
+   * Validate, book and map the API response back onto the form
+   */
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setFormError(null)
+
+    const parsed = bookingRequestSchema.safeParse({ ...values, start: slot, timeZone, locale })
+    if (!parsed.success) {
+      setErrors(parsed.error.flatten().fieldErrors)
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/bookings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...parsed.data, protection: await protect() }),
+      })
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        if (result.errors) setErrors(result.errors)
+        setFormError(translateError(messages, result.error) ?? messages.errors.checkFields)
+        // Someone else got there first: offer the remaining times
+        if (response.status === 409) {
+          setSlot(undefined)
+          setReloadKey((key) => key + 1)
+        }
+        return
+      }
+
+      setBooked({ when: formatWhen(result.start), email: parsed.data.email })
+      trackEvent("form_submit", { form: "booking" })
+      setValues(initialValues)
+      setErrors({})
+      setSlot(undefined)
+      setDay(undefined)
+      setReloadKey((key) => key + 1)
+    } catch {
+      setFormError(messages.errors.network)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Confirmation replaces the widget once the call is booked
+  if (booked) {
+    return (
+      <div role="status" className="text-center space-y-4 py-8">
+        <CalendarCheck className="w-10 h-10 mx-auto text-indigo-600 dark:text-indigo-400" />
+        <p className="text-lg font-semibold text-slate-900 dark:text-white">{copy.successTitle}</p>
+        <p className="text-slate-600 dark:text-slate-300">{formatMessage(copy.successText, booked)}</p>
+        <Button variant="outline" onClick={() => setBooked(null)}>
+          {copy.bookAnother}
+        </Button>
+      </div>
+    )
+  }
+
+  // Contact details once a time is chosen
+  if (slot) {
+    return (
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        <HoneypotField value={honeypot} onChange={setHoneypot} />
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-indigo-50 dark:bg-indigo-950 px-4 py-3">
+          <p className="font-medium text-slate-900 dark:text-white">
+            {formatMessage(copy.selected, { when: formatWhen(slot) })}
+          </p>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setSlot(undefined)}>
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            {copy.change}
+          </Button>
+        </div>
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="booking-name" className="text-slate-700 dark:text-slate-300">
+              {messages.consultation.fullName}
+            </Label>
+            <Input
+              id="booking-name"
+              autoComplete="name"
+              value={values.fullName}
+              onChange={(event) => updateField("fullName", event.target.value)}
+              aria-invalid={!!errors.fullName}
+              aria-describedby={errors.fullName ? "booking-name-error" : undefined}
+              className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+            />
+            {errors.fullName && (
+              <p id="booking-name-error" className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {translateError(messages, errors.fullName[0])}
+              </p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="booking-email" className="text-slate-700 dark:text-slate-300">
+              {messages.consultation.email}
+            </Label>
+            <Input
+              id="booking-email"
+              type="email"
+              autoComplete="email"
+              value={values.email}
+              onChange={(event) => updateField("email", event.target.value)}
+              aria-invalid={!!errors.email}
+              aria-describedby={errors.email ? "booking-email-error" : undefined}
+              className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+            />
+            {errors.email && (
+              <p id="booking-email-error" className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {translateError(messages, errors.email[0])}
+              </p>
+            )}
+          </div>
+        </div>
+        <div>
+          <Label id="booking-service-label" htmlFor="booking-service" className="text-slate-700 dark:text-slate-300">
+            {messages.consultation.service}
+          </Label>
+          <Select value={values.service} onValueChange={(value) => updateField("service", value as ServiceValue)}>
+            <SelectTrigger
+              id="booking-service"
+              aria-labelledby="booking-service-label booking-service"
+              className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+            >
+              <SelectValue placeholder={messages.consultation.generalInquiry} />
+            </SelectTrigger>
+            <SelectContent className="bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700">
+              {SERVICE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.value === "general"
+                    ? messages.consultation.generalInquiry
+                    : (messages.services.catalog[option.value]?.title ?? option.label)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="booking-message" className="text-slate-700 dark:text-slate-300">
+            {copy.message}
+          </Label>
+          <Textarea
+            id="booking-message"
+            value={values.message}
+            onChange={(event) => updateField("message", event.target.value)}
+            aria-invalid={!!errors.message}
+            aria-describedby={errors.message ? "booking-message-error" : undefined}
+            className="min-h-24 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+          />
+          {errors.message && (
+            <p id="booking-message-error" className="mt-1 text-sm text-red-600 dark:text-red-400">
+              {translateError(messages, errors.message[0])}
+            </p>
+          )}
+        </div>
+        {formError && (
+          <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+            {formError}
+          </p>
+        )}
+        <Button type="submit" disabled={isSubmitting} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white">
+          {isSubmitting ? copy.submitting : copy.submit}
+        </Button>
+        <PolicyNotice className="text-center" />
+      </form>
+    )
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      {/* Days with at least one free slot are selectable */}
+      <div>
+        <h3 className="mb-2 font-medium text-slate-900 dark:text-white">{copy.pickDay}</h3>
+        <DayPicker
+          mode="single"
+          locale={CALENDAR_LOCALES[locale]}
+          month={month}
+          onMonthChange={(next) => {
+            setMonth(next)
+            setDay(undefined)
+          }}
+          startMonth={startOfMonth(new Date())}
+          endMonth={addMonths(startOfMonth(new Date()), MONTHS_AHEAD - 1)}
+          selected={day}
+          onSelect={setDay}
+          disabled={(date) => !slotsByDay.has(format(date, "yyyy-MM-dd"))}
+          className="text-slate-900 dark:text-slate-100 [--rdp-accent-color:var(--color-indigo-600)] [--rdp-accent-background-color:var(--color-indigo-50)]"
+        />
+      </div>
+
+      <div aria-live="polite">
+        <h3 className="mb-2 font-medium text-slate-900 dark:text-white">{copy.pickTime}</h3>
+        {isLoading ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">{copy.loading}</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+              {messages.errors.slotsUnavailable}
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setReloadKey((key) => key + 1)}>
+              {copy.retry}
+            </Button>
+          </div>
+        ) : daySlots.length ? (
+          <ul className="grid grid-cols-3 gap-2">
+            {daySlots.map((start) => (
+              <li key={start}>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => {
+                    setSlot(start)
+                    setFormError(null)
+                  }}
+                >
+                  {new Date(start).toLocaleTimeString(dateLocale, { timeStyle: "short" })}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {slots.length ? copy.chooseDayFirst : copy.noSlotsThisMonth}
+          </p>
+        )}
+        {formError && (
+          <p role="alert" className="mt-4 text-sm text-red-600 dark:text-red-400">
+            {formError}
+          </p>
+        )}
+        {timeZone && (
+          <p className="mt-4 text-xs text-slate-500 dark:text-slate-400">
+            {formatMessage(copy.timeZoneNote, { timeZone })}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
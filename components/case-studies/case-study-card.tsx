@@ -0,0 +1,61 @@
+import Link from "next/link"
+
+import type { CaseStudySummary } from "@/lib/case-studies/case-studies"
+import type { Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import type { Messages } from "@/lib/i18n/messages"
+import { getService } from "@/lib/services/catalog"
+
+interface CaseStudyCardProps {
+  caseStudy: CaseStudySummary
+  locale: Locale
+  messages: Messages
+}
+
+/**
+ * Case study teaser for the index and service pages
+ */
+export function CaseStudyCard({ caseStudy, locale, messages }: CaseStudyCardProps) {
+  const copy = messages.caseStudies
+  const services = caseStudy.services.flatMap((slug) => {
+    const service = getService(slug)
+    return service ? [localizeService(service, messages)] : []
+  })
+
+  return (
+    <article
+      lang={caseStudy.lang}
+      className="flex flex-col rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-6 hover:shadow-lg transition-shadow"
+    >
+      <div className="mb-4 flex items-center gap-3">
+        {caseStudy.logo && (
+          <img src={caseStudy.logo.src} alt={caseStudy.logo.alt} className="h-10 w-10 rounded object-contain bg-slate-50 p-1" />
+        )}
+        <div>
+          <p className="font-semibold text-slate-900 dark:text-white">{caseStudy.client}</p>
+          <p lang={locale} className="text-sm text-slate-500 dark:text-slate-400">
+            {copy.industryLabels[caseStudy.industry]}
+          </p>
+        </div>
+      </div>
+      <h3 className="mb-2 text-xl font-semibold text-slate-900 dark:text-white">
+        <Link href={`/${locale}/case-studies/${caseStudy.slug}`} className="hover:text-indigo-600 dark:hover:text-indigo-400">
+          {caseStudy.title}
+        </Link>
+      </h3>
+      <p className="mb-4 flex-1 text-slate-600 dark:text-slate-300">{caseStudy.summary}</p>
+      <ul lang={locale} aria-label={copy.servicesUsed} className="flex flex-wrap gap-2">
+        {services.map((service) => (
+          <li key={service.slug}>
+            <Link
+              href={`/${locale}/case-studies?service=${service.slug}`}
+              className="rounded bg-slate-100 dark:bg-slate-700 px-2 py-0.5 text-xs text-slate-600 dark:text-slate-300 hover:bg-indigo-100 dark:hover:bg-indigo-900"
+            >
+              {service.title}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </article>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import useEmblaCarousel from "embla-carousel-react"
+import { ChevronLeft, ChevronRight, Quote } from "lucide-react"
+
+import { useI18n } from "@/components/i18n-provider"
+import type { Testimonial } from "@/lib/case-studies/case-studies"
+import { formatMessage } from "@/lib/i18n/translate"
+
+/**
+ * Testimonials Carousel
+ *
+ * Client quotes from the case studies, one per view on phones and two side
+ * by side on larger screens. Swipe, the arrow buttons or the dots move it;
+ * it never advances on its own, so nobody has to chase a moving quote.
+ */
+export function TestimonialsCarousel({ testimonials }: { testimonials: Testimonial[] }) {
+  const { locale, messages } = useI18n()
+  const copy = messages.caseStudies.testimonials
+  const [emblaRef, emblaApi] = useEmblaCarousel({ align: "start", loop: testimonials.length > 2 })
+  const [selected, setSelected] = useState(0)
+  const [snaps, setSnaps] = useState<number[]>([])
+
+  const onSelect = useCallback(() => {
+    if (!emblaApi) return
+    setSelected(emblaApi.selectedScrollSnap())
+    setSnaps(emblaApi.scrollSnapList())
+  }, [emblaApi])
+
+  // Effect: follow the carousel position, including after a resize changes the number of snaps
+  useEffect(() => {
+    if (!emblaApi) return
+    onSelect()
+    emblaApi.on("select", onSelect).on("reInit", onSelect)
+    return () => {
+      emblaApi.off("select", onSelect).off("reInit", onSelect)
+    }
+  }, [emblaApi, onSelect])
+
+  return (
+    <div role="region" aria-roledescription="carousel" aria-label={copy.label} className="relative">
+      <div ref={emblaRef} className="overflow-hidden">
+        <div className="flex -ml-6">
+          {testimonials.map((testimonial, index) => (
+            <div
+              key={testimonial.slug}
+              role="group"
+              aria-roledescription="slide"
+              aria-label={formatMessage(copy.slide, { index: index + 1, total: testimonials.length })}
+              className="min-w-0 shrink-0 grow-0 basis-full md:basis-1/2 pl-6"
+            >
+              <figure className="flex h-full flex-col rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-8">
+                <Quote className="mb-4 h-8 w-8 text-indigo-600 dark:text-indigo-400" aria-hidden="true" />
+                <blockquote lang={testimonial.lang} className="flex-1 text-lg text-slate-700 dark:text-slate-300 leading-relaxed">
+                  {testimonial.text}
+                </blockquote>
+                <figcaption className="mt-6 flex flex-wrap items-end justify-between gap-2">
+                  <span>
+                    <span className="block font-semibold text-slate-900 dark:text-white">{testimonial.author}</span>
+                    <span className="block text-sm text-slate-500 dark:text-slate-400">
+                      {[testimonial.role, testimonial.client].filter(Boolean).join(", ")}
+                    </span>
+                  </span>
+                  <Link
+                    href={`/${locale}/case-studies/${testimonial.slug}`}
+                    className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                  >
+                    {messages.caseStudies.readCaseStudy}
+                  </Link>
+                </figcaption>
+              </figure>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {snaps.length > 1 && (
+        <div className="mt-6 flex items-center justify-center gap-4">
+          <button
+            type="button"
+            onClick={() => emblaApi?.scrollPrev()}
+            aria-label={copy.previous}
+            className="rounded-full border border-slate-300 dark:border-slate-600 p-2 text-slate-700 dark:text-slate-300 hover:border-indigo-600"
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <div className="flex gap-2">
+            {snaps.map((_, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => emblaApi?.scrollTo(index)}
+                aria-label={formatMessage(copy.goTo, { index: index + 1 })}
+                aria-current={index === selected ? "true" : undefined}
+                className={`h-2.5 w-2.5 rounded-full transition-colors ${
+                  index === selected ? "bg-indigo-600" : "bg-slate-300 dark:bg-slate-600 hover:bg-indigo-400"
+                }`}
+              />
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => emblaApi?.scrollNext()}
+            aria-label={copy.next}
+            className="rounded-full border border-slate-300 dark:border-slate-600 p-2 text-slate-700 dark:text-slate-300 hover:border-indigo-600"
+          >
+            <ChevronRight className="h-5 w-5" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import Link from "next/link"
+
+import { Button } from "@/components/ui/button"
+import { useI18n } from "@/components/i18n-provider"
+import { useConsent } from "@/hooks/use-consent"
+import { saveConsent } from "@/lib/analytics/consent"
+
+/**
+ * Consent Banner
+ *
+ * Asks once whether we may run analytics, with both choices equally easy.
+ * Shown until the visitor decides, and again from the footer's
+ * "Cookie settings" link.
+ */
+export function ConsentBanner() {
+  const { locale, messages } = useI18n()
+  const copy = messages.consent
+  const { record, settingsOpen } = useConsent()
+
+  if (record && !settingsOpen) return null
+
+  return (
+    <section
+      aria-label={copy.label}
+      className="fixed inset-x-0 bottom-0 z-[60] border-t border-slate-200 dark:border-slate-700 bg-white/95 dark:bg-slate-900/95 backdrop-blur px-4 py-4 shadow-lg"
+    >
+      <div className="max-w-7xl mx-auto flex flex-col md:flex-row md:items-center gap-4">
+        <p className="flex-1 text-sm text-slate-700 dark:text-slate-300">
+          {copy.text}{" "}
+          <Link href={`/${locale}/legal/cookies`} className="underline hover:text-indigo-600 dark:hover:text-indigo-400">
+            {messages.legal.documents.cookies}
+          </Link>
+        </p>
+        <div className="flex gap-2 shrink-0">
+          <Button variant="outline" onClick={() => saveConsent("denied")}>
+            {copy.decline}
+          </Button>
+          <Button onClick={() => saveConsent("granted")} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+            {copy.accept}
+          </Button>
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,269 @@
+"use client"
+
+import { useEffect, useState, type FormEvent } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { HoneypotField } from "@/components/honeypot-field"
+import { useI18n } from "@/components/i18n-provider"
+import { PolicyNotice } from "@/components/legal/policy-notice"
+import { useRequestProtection } from "@/hooks/use-request-protection"
+import { trackEvent } from "@/lib/analytics/events"
+import { LOCALE_FORMATS } from "@/lib/i18n/config"
+import { formatMessage, translateError } from "@/lib/i18n/translate"
+import {
+  SERVICE_OPTIONS,
+  consultationSchema,
+  type ConsultationInput,
+  type LeadFieldErrors,
+  type ServiceValue,
+} from "@/lib/leads/schema"
+import { formatCatalogPrice } from "@/lib/services/catalog"
+
+// Fields the visitor fills in; the locale comes from the page
+type FormValues = Omit<ConsultationInput, "locale">
+
+// Empty form state used on first render and after a successful submission
+const initialValues: FormValues = {
+  fullName: "",
+  email: "",
+  service: "general",
+  message: "",
+}
+
+// Browser event used by other widgets to hand a visitor over to the form
+const PREFILL_EVENT = "consultation:prefill"
+
+/**
+ * Hand the visitor over to the consultation form
+ *
+ * Used by the "talk to a human" escalations and the quote estimator: fills in
+ * whatever context we already have and scrolls the contact section into view.
+ */
+export function requestConsultation(prefill: Partial<FormValues>) {
+  window.dispatchEvent(new CustomEvent<Partial<FormValues>>(PREFILL_EVENT, { detail: prefill }))
+  document.getElementById("contact")?.scrollIntoView({ behavior: "smooth" })
+}
+
+/**
+ * Field error message rendered under a Label/input pair, translated from its error key
+ */
+function FieldError({ id, errors }: { id: string; errors?: string[] }) {
+  const { messages } = useI18n()
+  if (!errors?.length) return null
+  return (
+    <p id={id} className="mt-1 text-sm text-red-600 dark:text-red-400">
+      {translateError(messages, errors[0])}
+    </p>
+  )
+}
+
+/**
+ * Consultation Form
+ *
+ * Controlled "Let's Solve It Together" form. Validates locally with the shared
+ * zod schema for instant feedback, then posts to /api/leads which validates
+ * again and stores the lead. Server-side field errors are rendered under each Label;
+ * anti-abuse refusals (rate limits, duplicates) appear as the form-level error.
+ * A price estimate handed over by the quote estimator is shown and sent along.
+ */
+export function ConsultationForm() {
+  const { locale, messages } = useI18n()
+  const [values, setValues] = useState<FormValues>(initialValues)
+  const [errors, setErrors] = useState<LeadFieldErrors>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isSubmitted, setIsSubmitted] = useState(false)
+  const { protect, honeypot, setHoneypot } = useRequestProtection({ prefetch: true })
+
+  /**
+   * Effect: Accept prefilled values from escalations elsewhere on the page
+   */
+  useEffect(() => {
+    const handlePrefill = (event: Event) => {
+      const prefill = (event as CustomEvent<Partial<FormValues>>).detail
+      setValues((prev) => ({ ...prev, ...prefill }))
+      setErrors({})
+      setIsSubmitted(false)
+    }
+    window.addEventListener(PREFILL_EVENT, handlePrefill)
+    return () => window.removeEventListener(PREFILL_EVENT, handlePrefill)
+  }, [])
+
+  /**
+   * Update a single field and clear its stale error
+   */
+  const updateField = <K extends keyof FormValues>(field: K, value: FormValues[K]) => {
+    setValues((prev) => ({ ...prev, [field]: value }))
+    setErrors((prev) => ({ ...prev, [field]: undefined }))
+  }
+
+  /**
+   * Validate, submit and map the API response back onto the form
+   */
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setFormError(null)
+
+    const parsed = consultationSchema.safeParse({ ...values, locale })
+    if (!parsed.success) {
+      setErrors(parsed.error.flatten().fieldErrors)
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/leads", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...parsed.data, protection: await protect() }),
+      })
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        if (result.errors) setErrors(result.errors)
+        setFormError(translateError(messages, result.error) ?? messages.errors.checkFields)
+        return
+      }
+
+      setValues(initialValues)
+      setErrors({})
+      setIsSubmitted(true)
+      trackEvent("form_submit", { form: "consultation" })
+    } catch {
+      setFormError(messages.errors.network)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Confirmation replaces the form once the lead is stored
+  if (isSubmitted) {
+    return (
+      <div role="status" className="text-center space-y-4 py-8">
+        <p className="text-lg font-semibold text-slate-900 dark:text-white">{messages.consultation.successTitle}</p>
+        <p className="text-slate-600 dark:text-slate-300">{messages.consultation.successText}</p>
+        <Button variant="outline" onClick={() => setIsSubmitted(false)}>
+          {messages.consultation.sendAnother}
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <HoneypotField value={honeypot} onChange={setHoneypot} />
+      {/* Contact form fields */}
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="full-name" className="text-slate-700 dark:text-slate-300">
+            {messages.consultation.fullName}
+          </Label>
+          <Input
+            id="full-name"
+            name="fullName"
+            autoComplete="name"
+            value={values.fullName}
+            onChange={(event) => updateField("fullName", event.target.value)}
+            aria-invalid={!!errors.fullName}
+            aria-describedby={errors.fullName ? "full-name-error" : undefined}
+            className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+          />
+          <FieldError id="full-name-error" errors={errors.fullName} />
+        </div>
+        <div>
+          <Label htmlFor="email" className="text-slate-700 dark:text-slate-300">
+            {messages.consultation.email}
+          </Label>
+          <Input
+            id="email"
+            name="email"
+            type="email"
+            autoComplete="email"
+            value={values.email}
+            onChange={(event) => updateField("email", event.target.value)}
+            aria-invalid={!!errors.email}
+            aria-describedby={errors.email ? "email-error" : undefined}
+            className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+          />
+          <FieldError id="email-error" errors={errors.email} />
+        </div>
+      </div>
+      {/* Service selection dropdown */}
+      <div>
+        <Label id="service-label" htmlFor="service" className="text-slate-700 dark:text-slate-300">
+          {messages.consultation.service}
+        </Label>
+        <Select value={values.service} onValueChange={(value) => updateField("service", value as ServiceValue)}>
+          <SelectTrigger
+            id="service"
+            aria-labelledby="service-label service"
+            aria-invalid={!!errors.service}
+            aria-describedby={errors.service ? "service-error" : undefined}
+            className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+          >
+            <SelectValue placeholder={messages.consultation.generalInquiry} />
+          </SelectTrigger>
+          <SelectContent className="bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700">
+            {SERVICE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.value === "general"
+                  ? messages.consultation.generalInquiry
+                  : (messages.services.catalog[option.value]?.title ?? option.label)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <FieldError id="service-error" errors={errors.service} />
+      </div>
+      {/* Message textarea */}
+      <div>
+        <Label htmlFor="message" className="text-slate-700 dark:text-slate-300">
+          {messages.consultation.message}
+        </Label>
+        <Textarea
+          id="message"
+          name="message"
+          value={values.message}
+          onChange={(event) => updateField("message", event.target.value)}
+          aria-invalid={!!errors.message}
+          aria-describedby={errors.message ? "message-error" : undefined}
+          className="min-h-32 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+        />
+        <FieldError id="message-error" errors={errors.message} />
+      </div>
+      {/* Estimate from the pricing section, sent with the message */}
+      {values.estimate && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-indigo-200 dark:border-indigo-900 bg-indigo-50 dark:bg-indigo-950 p-3 text-sm text-slate-700 dark:text-slate-300">
+          <p>
+            {formatMessage(messages.consultation.estimateAttached, {
+              low: formatCatalogPrice(values.estimate.low, LOCALE_FORMATS[locale]),
+              high: formatCatalogPrice(values.estimate.high, LOCALE_FORMATS[locale]),
+              tier: values.estimate.tier,
+            })}
+          </p>
+          <Button type="button" variant="ghost" size="sm" onClick={() => updateField("estimate", undefined)}>
+            {messages.consultation.removeEstimate}
+          </Button>
+        </div>
+      )}
+      {/* Form-level error (network or server failure) */}
+      {formError && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {formError}
+        </p>
+      )}
+      <Button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-indigo-600 hover:bg-indigo-700 text-white"
+      >
+        {isSubmitting ? messages.consultation.submitting : messages.consultation.submit}
+      </Button>
+      <PolicyNotice className="text-center" />
+    </form>
+  )
+}
@@ -0,0 +1,16 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { openConsentSettings } from "@/lib/analytics/consent"
+
+/**
+ * Footer link reopening the consent banner, so a choice can be changed at any time
+ */
+export function CookieSettingsButton({ className }: { className?: string }) {
+  const { messages } = useI18n()
+  return (
+    <button type="button" onClick={openConsentSettings} className={className}>
+      {messages.consent.settings}
+    </button>
+  )
+}
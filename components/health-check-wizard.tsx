@@ -0,0 +1,354 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { ClipboardCheck } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  BACKUP_OPTIONS,
+  HELPDESK_OPTIONS,
+  MFA_OPTIONS,
+  NETWORK_OPTIONS,
+  healthCheckAnswersSchema,
+  healthCheckSubmissionSchema,
+  scoreHealthCheck,
+  type HealthCheckAnswers,
+  type HealthCheckResult,
+  type Priority,
+} from "@/lib/health-check/assessment"
+import { HoneypotField } from "@/components/honeypot-field"
+import { useI18n } from "@/components/i18n-provider"
+import { PolicyNotice } from "@/components/legal/policy-notice"
+import { useRequestProtection } from "@/hooks/use-request-protection"
+import { trackEvent } from "@/lib/analytics/events"
+import { formatMessage, translateError } from "@/lib/i18n/translate"
+
+type AnswerField = keyof HealthCheckAnswers
+
+// Multiple-choice questions; their labels come from the message catalog
+type OptionField = Exclude<AnswerField, "deviceCount">
+
+interface Question {
+  field: AnswerField
+  options?: readonly { value: string }[]
+}
+
+// One wizard step per question, in order
+const QUESTIONS: Question[] = [
+  { field: "deviceCount" },
+  { field: "backups", options: BACKUP_OPTIONS },
+  { field: "mfa", options: MFA_OPTIONS },
+  { field: "network", options: NETWORK_OPTIONS },
+  { field: "helpdesk", options: HELPDESK_OPTIONS },
+]
+
+const PRIORITY_STYLES: Record<Priority, string> = {
+  high: "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300",
+  medium: "bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-300",
+  low: "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300",
+}
+
+/**
+ * Free IT Health Check Wizard
+ *
+ * Hero call-to-action that opens a step-by-step self-assessment. Answers are
+ * scored per service area in the browser for an instant results page, and the
+ * visitor can submit the whole assessment as a qualified lead. The button's
+ * wording comes from the site content.
+ */
+export function HealthCheckWizard({ label }: { label: string }) {
+  const { locale, messages } = useI18n()
+  const copy = messages.healthCheck
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [step, setStep] = useState(0)
+  const [answers, setAnswers] = useState<Partial<Record<AnswerField, string>>>({})
+  const [stepError, setStepError] = useState<string | null>(null)
+  const [result, setResult] = useState<HealthCheckResult | null>(null)
+
+  // Contact step state
+  const [contact, setContact] = useState({ fullName: "", email: "" })
+  const [contactErrors, setContactErrors] = useState<Partial<Record<"fullName" | "email", string[]>>>({})
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isSubmitted, setIsSubmitted] = useState(false)
+  // The form timer starts when the wizard is opened
+  const { protect, honeypot, setHoneypot } = useRequestProtection({ prefetch: isOpen })
+
+  const question = QUESTIONS[step]
+  const questionCopy = copy.questions[question.field]
+
+  /**
+   * Visitor-facing label for a multiple-choice answer
+   */
+  const optionLabel = (field: OptionField, value: string) =>
+    (copy.options[field] as Record<string, string>)[value] ?? value
+
+  /**
+   * Start over whenever the dialog is reopened after a submission
+   */
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    if (open) trackEvent("hero_cta_click", {})
+    if (open && isSubmitted) {
+      setStep(0)
+      setAnswers({})
+      setResult(null)
+      setIsSubmitted(false)
+    }
+  }
+
+  /**
+   * Validate the current answer, then advance or score the assessment
+   */
+  const goNext = () => {
+    const check = healthCheckAnswersSchema.shape[question.field].safeParse(answers[question.field])
+    if (!check.success) {
+      setStepError(translateError(messages, check.error.issues[0]?.message) ?? messages.errors.answerRequired)
+      return
+    }
+    setStepError(null)
+
+    if (step < QUESTIONS.length - 1) {
+      setStep(step + 1)
+      return
+    }
+
+    const parsed = healthCheckAnswersSchema.safeParse(answers)
+    if (parsed.success) {
+      setResult(scoreHealthCheck(parsed.data))
+    }
+  }
+
+  const goBack = () => {
+    setStepError(null)
+    if (result) {
+      setResult(null)
+    } else {
+      setStep(Math.max(0, step - 1))
+    }
+  }
+
+  /**
+   * Submit the assessment and contact details as a lead
+   */
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setSubmitError(null)
+
+    const parsed = healthCheckSubmissionSchema.safeParse({ ...contact, locale, answers })
+    if (!parsed.success) {
+      setContactErrors(parsed.error.flatten().fieldErrors)
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/health-check", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...parsed.data, protection: await protect() }),
+      })
+      const body = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        if (body.errors) setContactErrors(body.errors)
+        setSubmitError(translateError(messages, body.error) ?? messages.errors.checkFields)
+        return
+      }
+      setIsSubmitted(true)
+      trackEvent("form_submit", { form: "health_check" })
+    } catch {
+      setSubmitError(messages.errors.network)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {/* Primary Call-to-Action Button with custom styling for accessibility */}
+        <button className="cta-button-primary">{label}</button>
+      </DialogTrigger>
+      <DialogContent className="bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 dark:text-white">{copy.title}</DialogTitle>
+          <DialogDescription className="text-slate-600 dark:text-slate-300">
+            {result
+              ? copy.resultsDescription
+              : formatMessage(copy.step, { step: step + 1, total: QUESTIONS.length, title: questionCopy.title })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Question steps */}
+        {!result && (
+          <div className="space-y-4">
+            <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700">
+              <div
+                className="h-2 rounded-full bg-indigo-600 transition-all"
+                style={{ width: `${((step + 1) / QUESTIONS.length) * 100}%` }}
+              />
+            </div>
+            <div>
+              <Label
+                id={`health-check-${question.field}-label`}
+                htmlFor={`health-check-${question.field}`}
+                className="text-slate-700 dark:text-slate-300 mb-2"
+              >
+                {questionCopy.label}
+              </Label>
+              {question.options ? (
+                <Select
+                  value={answers[question.field] ?? ""}
+                  onValueChange={(value) => setAnswers((prev) => ({ ...prev, [question.field]: value }))}
+                >
+                  <SelectTrigger
+                    id={`health-check-${question.field}`}
+                    aria-labelledby={`health-check-${question.field}-label health-check-${question.field}`}
+                    aria-invalid={!!stepError}
+                    aria-describedby={stepError ? "health-check-step-error" : undefined}
+                    className="w-full border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900"
+                  >
+                    <SelectValue placeholder={copy.chooseAnswer} />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700">
+                    {question.options.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {optionLabel(question.field as OptionField, option.value)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id={`health-check-${question.field}`}
+                  type="number"
+                  min={1}
+                  inputMode="numeric"
+                  value={answers[question.field] ?? ""}
+                  onChange={(event) => setAnswers((prev) => ({ ...prev, [question.field]: event.target.value }))}
+                  aria-invalid={!!stepError}
+                  aria-describedby={stepError ? "health-check-step-error" : undefined}
+                  className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900"
+                />
+              )}
+              {stepError && (
+                <p id="health-check-step-error" role="alert" className="mt-1 text-sm text-red-600 dark:text-red-400">
+                  {stepError}
+                </p>
+              )}
+            </div>
+            <div className="flex justify-between gap-4">
+              <Button variant="outline" onClick={goBack} disabled={step === 0}>
+                {copy.back}
+              </Button>
+              <Button onClick={goNext} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+                {step === QUESTIONS.length - 1 ? copy.seeResults : copy.next}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Results page */}
+        {result && (
+          <div className="space-y-6">
+            <div className="text-center">
+              <p className="text-5xl font-bold text-indigo-600">{result.overallScore}</p>
+              <p className="text-sm text-slate-600 dark:text-slate-300">{copy.overallScore}</p>
+            </div>
+            <ol className="space-y-3">
+              {result.areas.map((area) => (
+                <li key={area.service} className="rounded-md border border-slate-200 dark:border-slate-700 p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold text-slate-900 dark:text-white">
+                      {copy.areas[area.service as keyof typeof copy.areas] ?? area.area}
+                    </span>
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${PRIORITY_STYLES[area.priority]}`}>
+                      {area.score}/100 &middot; {copy.priority[area.priority]}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">
+                    {copy.recommendations[area.service as keyof typeof copy.recommendations]?.[area.priority] ??
+                      area.recommendation}
+                  </p>
+                </li>
+              ))}
+            </ol>
+
+            {isSubmitted ? (
+              <p role="status" className="text-center font-medium text-slate-900 dark:text-white">
+                {copy.submitted}
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit} noValidate className="space-y-4">
+                <HoneypotField value={honeypot} onChange={setHoneypot} />
+                <p className="text-sm text-slate-600 dark:text-slate-300">
+                  {copy.contactIntro}
+                </p>
+                <div>
+                  <Label htmlFor="health-check-name" className="text-slate-700 dark:text-slate-300">
+                    {messages.consultation.fullName}
+                  </Label>
+                  <Input
+                    id="health-check-name"
+                    autoComplete="name"
+                    value={contact.fullName}
+                    onChange={(event) => setContact((prev) => ({ ...prev, fullName: event.target.value }))}
+                    aria-invalid={!!contactErrors.fullName}
+                    className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900"
+                  />
+                  {contactErrors.fullName && (
+                    <p className="mt-1 text-sm text-red-600 dark:text-red-400">{translateError(messages, contactErrors.fullName[0])}</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="health-check-email" className="text-slate-700 dark:text-slate-300">
+                    {messages.consultation.email}
+                  </Label>
+                  <Input
+                    id="health-check-email"
+                    type="email"
+                    autoComplete="email"
+                    value={contact.email}
+                    onChange={(event) => setContact((prev) => ({ ...prev, email: event.target.value }))}
+                    aria-invalid={!!contactErrors.email}
+                    className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900"
+                  />
+                  {contactErrors.email && (
+                    <p className="mt-1 text-sm text-red-600 dark:text-red-400">{translateError(messages, contactErrors.email[0])}</p>
+                  )}
+                </div>
+                {submitError && (
+                  <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+                    {submitError}
+                  </p>
+                )}
+                <PolicyNotice />
+                <div className="flex justify-between gap-4">
+                  <Button type="button" variant="outline" onClick={goBack}>
+                    {copy.back}
+                  </Button>
+                  <Button type="submit" disabled={isSubmitting} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+                    <ClipboardCheck className="w-4 h-4 mr-2" />
+                    {isSubmitting ? copy.sending : copy.submit}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,26 @@
+import { useId } from "react"
+
+/**
+ * Honeypot Field
+ *
+ * A text input moved off-screen and hidden from assistive technology. People
+ * never see it; form-filling bots usually do fill it in, and the server then
+ * refuses the submission.
+ */
+export function HoneypotField({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const id = useId()
+  return (
+    <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+      <label htmlFor={id}>Website</label>
+      <input
+        id={id}
+        name="website"
+        type="text"
+        tabIndex={-1}
+        autoComplete="off"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+      />
+    </div>
+  )
+}
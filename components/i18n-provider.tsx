@@ -0,0 +1,34 @@
+"use client"
+
+import { createContext, useContext, type ReactNode } from "react"
+
+import type { Locale } from "@/lib/i18n/config"
+import type { Messages } from "@/lib/i18n/messages/en"
+
+interface I18nContextValue {
+  locale: Locale
+  messages: Messages
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null)
+
+/**
+ * I18n Provider
+ *
+ * Hands the active locale and its message catalog, loaded by the locale
+ * layout on the server, down to client islands.
+ */
+export function I18nProvider({ locale, messages, children }: I18nContextValue & { children: ReactNode }) {
+  return <I18nContext.Provider value={{ locale, messages }}>{children}</I18nContext.Provider>
+}
+
+/**
+ * Active locale and messages inside a client island
+ */
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext)
+  if (!context) {
+    throw new Error("useI18n must be used inside <I18nProvider>")
+  }
+  return context
+}
@@ -0,0 +1,11 @@
+import type { JsonLdObject } from "@/lib/seo/json-ld"
+
+/**
+ * JSON-LD Script
+ *
+ * Embeds structured data in the page. `<` is escaped so text from the
+ * catalog can never close the script element.
+ */
+export function JsonLd({ data }: { data: JsonLdObject }) {
+  return <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, "\\u003c") }} />
+}
@@ -0,0 +1,37 @@
+import Link from "next/link"
+import { BookOpen } from "lucide-react"
+
+import type { Citation } from "@/lib/retrieval/citations"
+
+/**
+ * Knowledge Sources
+ *
+ * Numbered list of the knowledge-base documents an assistant answer cites,
+ * matching the [n] markers in the answer. Articles link to their page.
+ */
+export function KnowledgeSources({ sources, label }: { sources: Citation[]; label: string }) {
+  if (!sources.length) return null
+
+  return (
+    <div className="mt-3 border-t border-slate-200 dark:border-slate-700 pt-2 text-xs whitespace-normal">
+      <p className="mb-1 flex items-center gap-1 font-semibold text-slate-500 dark:text-slate-400">
+        <BookOpen className="w-3.5 h-3.5" aria-hidden="true" />
+        {label}
+      </p>
+      <ol className="space-y-0.5">
+        {sources.map((source) => (
+          <li key={source.index} className="flex gap-1">
+            <span className="text-slate-500 dark:text-slate-400">[{source.index}]</span>
+            {source.url ? (
+              <Link href={source.url} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                {source.title}
+              </Link>
+            ) : (
+              <span>{source.title}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { usePathname, useRouter } from "next/navigation"
+import { Languages } from "lucide-react"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useI18n } from "@/components/i18n-provider"
+import { LOCALES, LOCALE_COOKIE, LOCALE_LABELS, localizePath, type Locale } from "@/lib/i18n/config"
+
+// Remember an explicit choice for a year so the middleware honours it on later visits
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365
+
+/**
+ * Language Switcher
+ *
+ * Moves the visitor to the same page in another locale and stores the
+ * choice in a cookie for the locale middleware.
+ */
+export function LanguageSwitcher({ className }: { className?: string }) {
+  const { locale, messages } = useI18n()
+  const pathname = usePathname()
+  const router = useRouter()
+
+  const switchLocale = (next: string) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${COOKIE_MAX_AGE}; samesite=lax`
+    router.push(`${localizePath(pathname, next as Locale)}${window.location.hash}`)
+  }
+
+  return (
+    <Select value={locale} onValueChange={switchLocale}>
+      <SelectTrigger
+        aria-label={messages.nav.language}
+        className={`w-auto gap-2 border-slate-300 dark:border-slate-600 bg-transparent text-slate-700 dark:text-slate-300 ${className ?? ""}`}
+      >
+        <Languages className="h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700">
+        {LOCALES.map((option) => (
+          <SelectItem key={option} value={option} lang={option}>
+            {LOCALE_LABELS[option]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
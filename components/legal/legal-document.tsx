@@ -0,0 +1,103 @@
+import Link from "next/link"
+
+import { LOCALE_FORMATS, type Locale } from "@/lib/i18n/config"
+import type { Messages } from "@/lib/i18n/messages"
+import { formatMessage } from "@/lib/i18n/translate"
+import { LEGAL_DOCUMENTS, type LegalVersion, type LegalVersionSummary } from "@/lib/legal/documents"
+
+interface LegalDocumentProps {
+  document: LegalVersion
+  // Every version of the document, newest first
+  versions: LegalVersionSummary[]
+  locale: Locale
+  messages: Messages
+}
+
+/**
+ * Legal Document
+ *
+ * One version of a legal document with its date, a notice when it is no
+ * longer in force, and the changelog of every published version.
+ */
+export function LegalDocument({ document, versions, locale, messages }: LegalDocumentProps) {
+  const copy = messages.legal
+  const isCurrent = versions[0]?.version === document.version
+  const documentPath = `/${locale}/legal/${document.document}`
+  const formatDay = (day: string) =>
+    new Date(`${day}T00:00:00Z`).toLocaleDateString(LOCALE_FORMATS[locale], { dateStyle: "long", timeZone: "UTC" })
+
+  return (
+    <main id="main-content" tabIndex={-1} className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      {/* The other legal documents */}
+      <nav aria-label={copy.navLabel} className="mb-10 flex flex-wrap gap-x-6 gap-y-2 text-sm">
+        {LEGAL_DOCUMENTS.map((slug) => (
+          <Link
+            key={slug}
+            href={`/${locale}/legal/${slug}`}
+            aria-current={slug === document.document ? "page" : undefined}
+            className={
+              slug === document.document
+                ? "font-semibold text-slate-900 dark:text-white"
+                : "text-indigo-600 dark:text-indigo-400 hover:underline"
+            }
+          >
+            {copy.documents[slug]}
+          </Link>
+        ))}
+      </nav>
+
+      {!isCurrent && (
+        <p role="status" className="mb-8 rounded-lg border border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950 p-4 text-sm">
+          {formatMessage(copy.archived, { date: formatDay(document.version) })}{" "}
+          <Link href={documentPath} className="font-medium text-indigo-600 dark:text-indigo-400 hover:underline">
+            {copy.readCurrent}
+          </Link>
+        </p>
+      )}
+
+      <article lang={document.lang}>
+        <header className="mb-10">
+          <h1 className="text-4xl md:text-5xl font-bold text-slate-900 dark:text-white mb-4">{document.title}</h1>
+          <p lang={locale} className="text-sm text-slate-500 dark:text-slate-400">
+            <time dateTime={document.version}>{formatMessage(copy.lastUpdated, { date: formatDay(document.version) })}</time>
+            {document.lang !== locale && (
+              <> &middot; {formatMessage(copy.writtenIn, { language: messages.blog.languages[document.lang] })}</>
+            )}
+          </p>
+        </header>
+
+        {/* Rendered Markdown body */}
+        <div className="text-lg text-slate-700 dark:text-slate-300">{document.content}</div>
+      </article>
+
+      <section lang={locale} className="mt-16 border-t border-slate-200 dark:border-slate-700 pt-10">
+        <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{copy.changelog}</h2>
+        <p className="mb-6 text-slate-600 dark:text-slate-400">{copy.changelogIntro}</p>
+        <ol className="space-y-6">
+          {versions.map((version, index) => (
+            <li key={version.version}>
+              <h3 className="font-semibold text-slate-900 dark:text-white">
+                {version.version === document.version ? (
+                  formatMessage(copy.versionOf, { date: formatDay(version.version) })
+                ) : (
+                  <Link
+                    href={index === 0 ? documentPath : `${documentPath}/${version.version}`}
+                    className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                  >
+                    {formatMessage(copy.versionOf, { date: formatDay(version.version) })}
+                  </Link>
+                )}
+                {index === 0 && <span className="ml-2 text-sm font-normal text-slate-500 dark:text-slate-400">({copy.current})</span>}
+              </h3>
+              <ul lang={version.lang} className="mt-2 list-disc space-y-1 pl-6 text-slate-700 dark:text-slate-300">
+                {version.changes.map((change) => (
+                  <li key={change}>{change}</li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import Link from "next/link"
+
+import { useI18n } from "@/components/i18n-provider"
+
+/**
+ * Policy Notice
+ *
+ * One line under forms that send personal details, linking to the privacy
+ * policy. The API records the policy version in force with each lead.
+ */
+export function PolicyNotice({ className = "" }: { className?: string }) {
+  const { locale, messages } = useI18n()
+  const [before, after = ""] = messages.legal.formNotice.split("{policy}")
+
+  return (
+    <p className={`text-xs text-slate-500 dark:text-slate-400 ${className}`}>
+      {before}
+      <Link
+        href={`/${locale}/legal/privacy`}
+        target="_blank"
+        className="underline hover:text-indigo-600 dark:hover:text-indigo-400"
+      >
+        {messages.legal.documents.privacy}
+      </Link>
+      {after}
+    </p>
+  )
+}
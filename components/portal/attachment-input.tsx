@@ -0,0 +1,55 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useI18n } from "@/components/i18n-provider"
+import { translateError } from "@/lib/i18n/translate"
+import { ATTACHMENT_TYPES, MAX_ATTACHMENTS, MAX_ATTACHMENT_BYTES } from "@/lib/portal/schema"
+
+/**
+ * Error key for a chosen set of screenshots, checked before uploading
+ */
+export function checkAttachments(files: File[]): string | undefined {
+  if (files.length > MAX_ATTACHMENTS) return "tooManyAttachments"
+  if (files.some((file) => file.size > MAX_ATTACHMENT_BYTES)) return "attachmentTooLarge"
+  if (files.some((file) => !(ATTACHMENT_TYPES as readonly string[]).includes(file.type))) return "attachmentType"
+  return undefined
+}
+
+interface AttachmentInputProps {
+  id: string
+  // Increment to clear the input after a successful submission
+  resetKey: number
+  error?: string
+  onChange: (files: File[]) => void
+}
+
+/**
+ * Screenshot picker used by the ticket and reply forms
+ */
+export function AttachmentInput({ id, resetKey, error, onChange }: AttachmentInputProps) {
+  const { messages } = useI18n()
+  const copy = messages.portal.newTicket
+  return (
+    <div>
+      <Label htmlFor={id} className="text-slate-700 dark:text-slate-300">
+        {copy.attachments}
+      </Label>
+      <Input
+        key={resetKey}
+        id={id}
+        type="file"
+        multiple
+        accept={ATTACHMENT_TYPES.join(",")}
+        onChange={(event) => onChange(Array.from(event.target.files ?? []))}
+        aria-invalid={!!error}
+        aria-describedby={`${id}-hint`}
+        className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+      />
+      <p id={`${id}-hint`} className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+        {copy.attachmentsHint}
+      </p>
+      {error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{translateError(messages, error)}</p>}
+    </div>
+  )
+}
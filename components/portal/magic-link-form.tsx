@@ -0,0 +1,97 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { Mail } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { HoneypotField } from "@/components/honeypot-field"
+import { useI18n } from "@/components/i18n-provider"
+import { useRequestProtection } from "@/hooks/use-request-protection"
+import { translateError } from "@/lib/i18n/translate"
+import { magicLinkRequestSchema } from "@/lib/portal/schema"
+
+/**
+ * Portal Sign-in Form
+ *
+ * Asks /api/portal/magic-link to email a sign-in link. The confirmation is
+ * the same whether or not the address belongs to a client.
+ */
+export function MagicLinkForm() {
+  const { locale, messages } = useI18n()
+  const copy = messages.portal.signIn
+  const [email, setEmail] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isSent, setIsSent] = useState(false)
+  const { protect, honeypot, setHoneypot } = useRequestProtection({ prefetch: true })
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setError(null)
+
+    const parsed = magicLinkRequestSchema.safeParse({ email, locale })
+    if (!parsed.success) {
+      setError(translateError(messages, parsed.error.flatten().fieldErrors.email?.[0]) ?? messages.errors.emailInvalid)
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/portal/magic-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...parsed.data, protection: await protect() }),
+      })
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        setError(translateError(messages, result.errors?.email?.[0] ?? result.error) ?? messages.errors.generic)
+        return
+      }
+      setIsSent(true)
+    } catch {
+      setError(messages.errors.network)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isSent) {
+    return (
+      <p role="status" className="text-center text-slate-700 dark:text-slate-200">
+        {copy.sent}
+      </p>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <HoneypotField value={honeypot} onChange={setHoneypot} />
+      <div>
+        <Label htmlFor="portal-email" className="text-slate-700 dark:text-slate-300">
+          {copy.email}
+        </Label>
+        <Input
+          id="portal-email"
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          aria-invalid={!!error}
+          aria-describedby={error ? "portal-email-error" : undefined}
+          className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+        />
+      </div>
+      {error && (
+        <p id="portal-email-error" role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+      <Button type="submit" disabled={isSubmitting} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white">
+        <Mail className="w-4 h-4 mr-2" />
+        {isSubmitting ? copy.submitting : copy.submit}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,154 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { useRouter } from "next/navigation"
+import { Send } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useI18n } from "@/components/i18n-provider"
+import { AttachmentInput, checkAttachments } from "@/components/portal/attachment-input"
+import { translateError } from "@/lib/i18n/translate"
+import { newTicketSchema } from "@/lib/portal/schema"
+
+type TicketErrors = Partial<Record<"category" | "subject" | "message" | "attachments", string[]>>
+
+/**
+ * New Ticket Form
+ *
+ * Category (from the service catalog), subject, description and optional
+ * screenshots, posted as multipart form data to /api/portal/tickets. Opens
+ * the new ticket once it is saved.
+ */
+export function NewTicketForm({ categories }: { categories: { value: string; label: string }[] }) {
+  const { locale, messages } = useI18n()
+  const copy = messages.portal.newTicket
+  const router = useRouter()
+  const [values, setValues] = useState({ category: "helpdesk", subject: "", message: "" })
+  const [files, setFiles] = useState<File[]>([])
+  const [errors, setErrors] = useState<TicketErrors>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const updateField = (field: keyof typeof values, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }))
+    setErrors((prev) => ({ ...prev, [field]: undefined }))
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setFormError(null)
+
+    const parsed = newTicketSchema.safeParse(values)
+    const attachmentError = checkAttachments(files)
+    if (!parsed.success || attachmentError) {
+      setErrors({
+        ...(parsed.success ? {} : parsed.error.flatten().fieldErrors),
+        attachments: attachmentError ? [attachmentError] : undefined,
+      })
+      return
+    }
+
+    const body = new FormData()
+    Object.entries(parsed.data).forEach(([field, value]) => body.append(field, value))
+    files.forEach((file) => body.append("attachments", file))
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/portal/tickets", { method: "POST", body })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        if (result.errors) setErrors(result.errors)
+        setFormError(translateError(messages, result.error) ?? messages.errors.checkFields)
+        return
+      }
+      router.push(`/${locale}/portal/tickets/${result.id}`)
+      router.refresh()
+    } catch {
+      setFormError(messages.errors.network)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div>
+        <Label id="ticket-category-label" htmlFor="ticket-category" className="text-slate-700 dark:text-slate-300">
+          {copy.category}
+        </Label>
+        <Select value={values.category} onValueChange={(value) => updateField("category", value)}>
+          <SelectTrigger
+            id="ticket-category"
+            aria-labelledby="ticket-category-label ticket-category"
+            aria-invalid={!!errors.category}
+            className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700">
+            {categories.map((category) => (
+              <SelectItem key={category.value} value={category.value}>
+                {category.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {errors.category && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">{translateError(messages, errors.category[0])}</p>
+        )}
+      </div>
+      <div>
+        <Label htmlFor="ticket-subject" className="text-slate-700 dark:text-slate-300">
+          {copy.subject}
+        </Label>
+        <Input
+          id="ticket-subject"
+          value={values.subject}
+          onChange={(event) => updateField("subject", event.target.value)}
+          aria-invalid={!!errors.subject}
+          className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+        />
+        {errors.subject && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">{translateError(messages, errors.subject[0])}</p>
+        )}
+      </div>
+      <div>
+        <Label htmlFor="ticket-message" className="text-slate-700 dark:text-slate-300">
+          {copy.message}
+        </Label>
+        <Textarea
+          id="ticket-message"
+          value={values.message}
+          onChange={(event) => updateField("message", event.target.value)}
+          aria-invalid={!!errors.message}
+          className="min-h-40 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+        />
+        {errors.message && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">{translateError(messages, errors.message[0])}</p>
+        )}
+      </div>
+      <AttachmentInput
+        id="ticket-attachments"
+        resetKey={0}
+        error={errors.attachments?.[0]}
+        onChange={(chosen) => {
+          setFiles(chosen)
+          setErrors((prev) => ({ ...prev, attachments: undefined }))
+        }}
+      />
+      {formError && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {formError}
+        </p>
+      )}
+      <Button type="submit" disabled={isSubmitting} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white">
+        <Send className="w-4 h-4 mr-2" />
+        {isSubmitting ? copy.submitting : copy.submit}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,28 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { LogOut } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { useI18n } from "@/components/i18n-provider"
+
+/**
+ * Ends the portal session and returns to the portal sign-in page
+ */
+export function PortalSignOutButton() {
+  const { locale, messages } = useI18n()
+  const router = useRouter()
+
+  const signOut = async () => {
+    await fetch("/api/portal/session", { method: "DELETE" }).catch(() => undefined)
+    router.replace(`/${locale}/portal/sign-in`)
+    router.refresh()
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={signOut} className="bg-transparent">
+      <LogOut className="w-4 h-4 mr-2" />
+      {messages.portal.signOut}
+    </Button>
+  )
+}
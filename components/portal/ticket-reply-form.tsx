@@ -0,0 +1,107 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { useRouter } from "next/navigation"
+import { Reply } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useI18n } from "@/components/i18n-provider"
+import { AttachmentInput, checkAttachments } from "@/components/portal/attachment-input"
+import { translateError } from "@/lib/i18n/translate"
+import { ticketReplySchema } from "@/lib/portal/schema"
+
+/**
+ * Client Reply Form
+ *
+ * Posts a reply with optional screenshots to /api/portal/tickets/:id/messages
+ * and refreshes the thread.
+ */
+export function TicketReplyForm({ ticketId, reopens }: { ticketId: string; reopens: boolean }) {
+  const { messages } = useI18n()
+  const copy = messages.portal.reply
+  const router = useRouter()
+  const [message, setMessage] = useState("")
+  const [files, setFiles] = useState<File[]>([])
+  // Bumped after a successful reply to clear the file input
+  const [resetKey, setResetKey] = useState(0)
+  const [messageError, setMessageError] = useState<string | undefined>()
+  const [attachmentError, setAttachmentError] = useState<string | undefined>()
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setFormError(null)
+
+    const parsed = ticketReplySchema.safeParse({ message })
+    const filesError = checkAttachments(files)
+    setMessageError(parsed.success ? undefined : parsed.error.issues[0]?.message)
+    setAttachmentError(filesError)
+    if (!parsed.success || filesError) return
+
+    const body = new FormData()
+    body.append("message", parsed.data.message)
+    files.forEach((file) => body.append("attachments", file))
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/portal/tickets/${ticketId}/messages`, { method: "POST", body })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setMessageError(result.errors?.message?.[0])
+        setAttachmentError(result.errors?.attachments?.[0])
+        setFormError(translateError(messages, result.error) ?? messages.errors.checkFields)
+        return
+      }
+      setMessage("")
+      setFiles([])
+      setResetKey((key) => key + 1)
+      router.refresh()
+    } catch {
+      setFormError(messages.errors.network)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div>
+        <Label htmlFor="reply-message" className="text-slate-700 dark:text-slate-300">
+          {copy.label}
+        </Label>
+        <Textarea
+          id="reply-message"
+          value={message}
+          onChange={(event) => setMessage(event.target.value)}
+          aria-invalid={!!messageError}
+          className="min-h-28 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+        />
+        {messageError && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">{translateError(messages, messageError)}</p>
+        )}
+        {reopens && <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{copy.reopens}</p>}
+      </div>
+      <AttachmentInput
+        id="reply-attachments"
+        resetKey={resetKey}
+        error={attachmentError}
+        onChange={(chosen) => {
+          setFiles(chosen)
+          setAttachmentError(undefined)
+        }}
+      />
+      {formError && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {formError}
+        </p>
+      )}
+      <Button type="submit" disabled={isSubmitting} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+        <Reply className="w-4 h-4 mr-2" />
+        {isSubmitting ? copy.submitting : copy.submit}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,17 @@
+import type { TicketStatus } from "@/lib/portal/schema"
+
+const STATUS_STYLES: Record<TicketStatus, string> = {
+  open: "bg-indigo-100 text-indigo-700 dark:bg-indigo-950 dark:text-indigo-300",
+  "in-progress": "bg-sky-100 text-sky-700 dark:bg-sky-950 dark:text-sky-300",
+  waiting: "bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-300",
+  resolved: "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300",
+}
+
+/**
+ * Coloured pill showing a ticket's status; the label comes from the caller's language
+ */
+export function TicketStatusBadge({ status, label }: { status: TicketStatus; label: string }) {
+  return (
+    <span className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[status]}`}>{label}</span>
+  )
+}
@@ -0,0 +1,58 @@
+import type { Ticket, TicketMessage } from "@/lib/portal/schema"
+
+interface TicketThreadProps {
+  ticket: Ticket
+  // Display name for each message's author, in the reader's language
+  authorLabel: (message: TicketMessage) => string
+  // BCP 47 locale for timestamps
+  dateLocale: string
+}
+
+/**
+ * Ticket Thread
+ *
+ * A ticket's messages, oldest first, with screenshot thumbnails linking to the
+ * full image. Shared by the client portal and the admin ticket view.
+ */
+export function TicketThread({ ticket, authorLabel, dateLocale }: TicketThreadProps) {
+  return (
+    <ol className="space-y-4">
+      {ticket.messages.map((message) => (
+        <li
+          key={message.id}
+          className={`rounded-lg border p-4 ${
+            message.author === "technician"
+              ? "border-indigo-200 bg-indigo-50 dark:border-indigo-900 dark:bg-indigo-950"
+              : "border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-800"
+          }`}
+        >
+          <p className="mb-2 flex flex-wrap justify-between gap-2 text-sm">
+            <span className="font-semibold text-slate-900 dark:text-white">{authorLabel(message)}</span>
+            <time dateTime={message.createdAt} className="text-slate-500 dark:text-slate-400">
+              {new Date(message.createdAt).toLocaleString(dateLocale, { dateStyle: "medium", timeStyle: "short" })}
+            </time>
+          </p>
+          <p className="whitespace-pre-wrap text-slate-700 dark:text-slate-200">{message.body}</p>
+          {message.attachments.length > 0 && (
+            <ul className="mt-3 flex flex-wrap gap-3">
+              {message.attachments.map((attachment) => {
+                const href = `/api/portal/tickets/${ticket.id}/attachments/${attachment.id}`
+                return (
+                  <li key={attachment.id}>
+                    <a href={href} target="_blank" rel="noopener noreferrer" className="block">
+                      <img
+                        src={href}
+                        alt={attachment.fileName}
+                        className="h-24 w-auto rounded border border-slate-200 dark:border-slate-700 object-cover"
+                      />
+                    </a>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
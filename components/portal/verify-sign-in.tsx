@@ -0,0 +1,67 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { LogIn } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { useI18n } from "@/components/i18n-provider"
+import { translateError } from "@/lib/i18n/translate"
+
+/**
+ * Magic Link Confirmation
+ *
+ * Spends the emailed token only when the client presses the button, so mail
+ * scanners that open links don't sign them in (or use up the link).
+ */
+export function VerifySignIn({ token }: { token: string }) {
+  const { locale, messages } = useI18n()
+  const copy = messages.portal.verify
+  const router = useRouter()
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const signIn = async () => {
+    setError(null)
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/portal/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError(translateError(messages, result.error) ?? messages.errors.signInLinkInvalid)
+        return
+      }
+      router.replace(`/${result.locale ?? locale}/portal`)
+      router.refresh()
+    } catch {
+      setError(messages.errors.network)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 text-center">
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+      {error ? (
+        <Link href={`/${locale}/portal/sign-in`} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+          {copy.requestNew}
+        </Link>
+      ) : (
+        <Button onClick={signIn} disabled={isSubmitting} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white">
+          <LogIn className="w-4 h-4 mr-2" />
+          {isSubmitting ? copy.submitting : copy.submit}
+        </Button>
+      )}
+    </div>
+  )
+}
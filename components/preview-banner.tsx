@@ -0,0 +1,22 @@
+import type { Locale } from "@/lib/i18n/config"
+
+/**
+ * Preview Banner
+ *
+ * Shown above the landing page while an admin previews draft content, so a
+ * draft is never mistaken for the live site. Team-facing, so English only.
+ */
+export function PreviewBanner({ locale }: { locale: Locale }) {
+  return (
+    <div role="status" className="sticky top-0 z-[70] bg-amber-400 px-4 py-2 text-center text-sm font-medium text-slate-900">
+      You&apos;re previewing draft content. Visitors still see the published version.{" "}
+      <a href="/admin/content" className="underline">
+        Back to the editor
+      </a>{" "}
+      &middot;{" "}
+      <a href={`/api/admin/content/${locale}/preview?exit=1`} className="underline">
+        Exit preview
+      </a>
+    </div>
+  )
+}
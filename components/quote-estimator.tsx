@@ -0,0 +1,177 @@
+"use client"
+
+import { useState } from "react"
+import { Calculator } from "lucide-react"
+
+import { requestConsultation } from "@/components/consultation-form"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { trackEvent } from "@/lib/analytics/events"
+import { LOCALE_FORMATS } from "@/lib/i18n/config"
+import { formatMessage, translateError } from "@/lib/i18n/translate"
+import { SUPPORT_HOURS, quoteEstimateSchema, type SupportHours } from "@/lib/pricing/estimate"
+import { SERVICES, formatCatalogPrice, getService, type ServiceSlug } from "@/lib/services/catalog"
+
+// Raw input state; numbers stay strings while the visitor types
+interface EstimatorValues {
+  services: ServiceSlug[]
+  seats: string
+  devices: string
+  locations: string
+  supportHours: SupportHours
+}
+
+const initialValues: EstimatorValues = {
+  services: [],
+  seats: "10",
+  devices: "10",
+  locations: "1",
+  supportHours: "business",
+}
+
+const NUMBER_FIELDS = ["seats", "devices", "locations"] as const
+
+/**
+ * Quote Estimator
+ *
+ * Recomputes the monthly range on every change with the shared estimate
+ * schema. "Request a quote" hands the estimate to the consultation form, which
+ * sends it with the visitor's message; the server recomputes it from the inputs.
+ */
+export function QuoteEstimator() {
+  const { locale, messages } = useI18n()
+  const copy = messages.pricing.estimator
+  const [values, setValues] = useState<EstimatorValues>(initialValues)
+  const parsed = quoteEstimateSchema.safeParse(values)
+  const errors = parsed.success ? {} : parsed.error.flatten().fieldErrors
+  const price = (amount: number) => formatCatalogPrice(amount, LOCALE_FORMATS[locale])
+
+  const toggleService = (slug: ServiceSlug, checked: boolean) =>
+    setValues((prev) => ({
+      ...prev,
+      services: checked ? [...prev.services, slug] : prev.services.filter((service) => service !== slug),
+    }))
+
+  const attach = () => {
+    if (!parsed.success) return
+    const estimate = parsed.data
+    requestConsultation({ estimate, ...(estimate.services.length === 1 && { service: estimate.services[0] }) })
+    trackEvent("estimate_attach", { tier: estimate.tier, services: estimate.services.length })
+  }
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-8 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-6 md:p-8">
+      <div className="space-y-6">
+        <div>
+          <h3 className="flex items-center gap-2 text-2xl font-bold text-slate-900 dark:text-white">
+            <Calculator className="h-6 w-6 text-indigo-600 dark:text-indigo-400" aria-hidden="true" />
+            {copy.title}
+          </h3>
+          <p className="mt-2 text-slate-600 dark:text-slate-300">{copy.description}</p>
+        </div>
+
+        <fieldset>
+          <legend className="mb-2 text-sm font-medium text-slate-700 dark:text-slate-300">{copy.services}</legend>
+          <div className="grid sm:grid-cols-2 gap-2">
+            {SERVICES.map((service) => (
+              <label key={service.slug} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={values.services.includes(service.slug)}
+                  onChange={(event) => toggleService(service.slug, event.target.checked)}
+                  className="h-4 w-4 accent-indigo-600"
+                />
+                {messages.services.catalog[service.slug]?.title ?? service.title}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="grid sm:grid-cols-3 gap-4">
+          {NUMBER_FIELDS.map((field) => (
+            <div key={field}>
+              <Label htmlFor={`estimate-${field}`} className="text-slate-700 dark:text-slate-300">
+                {copy[field]}
+              </Label>
+              <Input
+                id={`estimate-${field}`}
+                type="number"
+                min={field === "devices" ? 0 : 1}
+                inputMode="numeric"
+                value={values[field]}
+                onChange={(event) => setValues((prev) => ({ ...prev, [field]: event.target.value }))}
+                aria-invalid={!!errors[field]}
+                aria-describedby={errors[field] ? `estimate-${field}-error` : undefined}
+                className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900"
+              />
+              {errors[field] && (
+                <p id={`estimate-${field}-error`} className="mt-1 text-sm text-red-600 dark:text-red-400">
+                  {translateError(messages, errors[field]?.[0])}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <Label id="estimate-support-hours-label" htmlFor="estimate-support-hours" className="text-slate-700 dark:text-slate-300">
+            {copy.supportHours}
+          </Label>
+          <Select
+            value={values.supportHours}
+            onValueChange={(value) => setValues((prev) => ({ ...prev, supportHours: value as SupportHours }))}
+          >
+            <SelectTrigger
+              id="estimate-support-hours"
+              aria-labelledby="estimate-support-hours-label estimate-support-hours"
+              className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700">
+              {SUPPORT_HOURS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {copy.supportHoursOptions[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Live result */}
+      <div aria-live="polite" className="flex flex-col justify-center rounded-lg bg-indigo-50 dark:bg-indigo-950 p-6">
+        {parsed.success ? (
+          <>
+            <p className="text-3xl font-bold text-indigo-600 dark:text-indigo-400">
+              {formatMessage(copy.result, { low: price(parsed.data.low), high: price(parsed.data.high) })}
+            </p>
+            <p className="mt-2 font-medium text-slate-900 dark:text-white">
+              {formatMessage(copy.tier, { tier: parsed.data.tier })}
+            </p>
+            <h4 className="mt-6 mb-2 text-sm font-semibold text-slate-700 dark:text-slate-300">{copy.breakdown}</h4>
+            <ul className="space-y-1 text-sm text-slate-700 dark:text-slate-300">
+              {parsed.data.lines.map((line) => (
+                <li key={line.service} className="flex justify-between gap-4">
+                  <span>{messages.services.catalog[line.service]?.title ?? getService(line.service)?.title}</span>
+                  <span>{formatMessage(copy.line, { price: price(line.monthly) })}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="mt-6 text-xs text-slate-500 dark:text-slate-400">{copy.disclaimer}</p>
+            <Button onClick={attach} className="mt-4 bg-indigo-600 hover:bg-indigo-700 text-white">
+              {copy.attach}
+            </Button>
+          </>
+        ) : (
+          <p className="text-center text-slate-600 dark:text-slate-300">
+            {errors.services ? copy.empty : messages.errors.checkFields}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import type { SiteContent } from "@/lib/cms/schema"
+
+/**
+ * About Section - Company story and team image
+ */
+export function AboutSection({ content }: { content: SiteContent["about"] }) {
+  return (
+    <section id="about" className="py-16 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="grid lg:grid-cols-2 gap-12 items-center">
+          {/* Company story and values */}
+          <div>
+            <h2 className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white mb-6">
+              {content.title}
+            </h2>
+            {content.paragraphs.map((paragraph) => (
+              <p key={paragraph} className="text-lg text-slate-600 dark:text-slate-300 mb-6 last:mb-0 leading-relaxed">
+                {paragraph}
+              </p>
+            ))}
+          </div>
+          {/* Team collaboration image */}
+          <div>
+            <img src={content.image.src} alt={content.image.alt} className="w-full h-auto rounded-lg shadow-2xl" />
+          </div>
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,63 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { BookingWidget } from "@/components/booking-widget"
+import { ConsultationForm } from "@/components/consultation-form"
+import { SupportChat } from "@/components/support-chat"
+import type { Messages } from "@/lib/i18n/messages"
+
+/**
+ * Contact Section - Dual contact forms for different user needs
+ *
+ * The card chrome renders on the server; the support chat, the
+ * consultation form and the booking calendar are client islands.
+ */
+export function ContactSection({ messages }: { messages: Messages }) {
+  return (
+    <section id="contact" className="py-16 px-4 sm:px-6 lg:px-8 bg-white dark:bg-slate-800">
+      <div className="max-w-7xl mx-auto">
+        <div className="grid lg:grid-cols-2 gap-12">
+          {/* AI Support Chat - Immediate help for tech issues, with ticket handoff */}
+          <Card className="border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900">
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl text-slate-900 dark:text-white">{messages.troubleshoot.title}</CardTitle>
+              <CardDescription className="text-slate-600 dark:text-slate-300">
+                {messages.troubleshoot.description}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {/* Streaming chat backed by /api/troubleshoot and /api/tickets */}
+              <SupportChat />
+            </CardContent>
+          </Card>
+
+          {/* Consultation Form - For partnerships and complex needs */}
+          <Card className="border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900">
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl text-slate-900 dark:text-white">{messages.consultation.title}</CardTitle>
+              <CardDescription className="text-slate-600 dark:text-slate-300">
+                {messages.consultation.description}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {/* Controlled consultation form backed by /api/leads */}
+              <ConsultationForm />
+            </CardContent>
+          </Card>
+
+          {/* Booking - Pick a consultation call slot instead of emailing back and forth */}
+          <Card id="booking" className="lg:col-span-2 border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900">
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl text-slate-900 dark:text-white">{messages.booking.title}</CardTitle>
+              <CardDescription className="text-slate-600 dark:text-slate-300">
+                {messages.booking.description}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {/* Free slots from /api/bookings/slots, booked through /api/bookings */}
+              <BookingWidget />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,41 @@
+import { HealthCheckWizard } from "@/components/health-check-wizard"
+import type { SiteContent } from "@/lib/cms/schema"
+
+/**
+ * Hero Section - Primary value proposition and CTA
+ */
+export function HeroSection({ content }: { content: SiteContent["hero"] }) {
+  return (
+    <section id="hero" className="pt-20 pb-16 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="grid lg:grid-cols-2 gap-12 items-center">
+          {/* Hero Text Content */}
+          <div className="order-2 lg:order-1">
+            <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold text-slate-900 dark:text-white mb-6 font-sans leading-tight">
+              {content.title}
+            </h1>
+            <p className="text-lg text-slate-600 dark:text-slate-300 mb-8 leading-relaxed">
+              {content.subtitle}
+            </p>
+            <div className="flex flex-wrap items-center gap-4">
+              {/* Primary Call-to-Action: opens the self-assessment wizard */}
+              <HealthCheckWizard label={content.primaryCta.label} />
+              {content.secondaryCta && (
+                <a
+                  href={content.secondaryCta.href}
+                  className="font-semibold text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  {content.secondaryCta.label}
+                </a>
+              )}
+            </div>
+          </div>
+          {/* Hero Image */}
+          <div className="order-1 lg:order-2">
+            <img src={content.image.src} alt={content.image.alt} className="w-full h-auto rounded-lg shadow-2xl" />
+          </div>
+        </div>
+      </div>
+    </section>
+  )
+}
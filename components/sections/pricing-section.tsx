@@ -0,0 +1,78 @@
+import Link from "next/link"
+
+import { QuoteEstimator } from "@/components/quote-estimator"
+import { LOCALE_FORMATS, type Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import type { Messages } from "@/lib/i18n/messages"
+import { formatMessage } from "@/lib/i18n/translate"
+import { SERVICES, formatCatalogPrice } from "@/lib/services/catalog"
+
+/**
+ * Pricing Section - Starting prices per service and plan, and the quote estimator
+ *
+ * The comparison table is rendered on the server from the catalog's plan
+ * tiers; each service links to its plans with their features. Only the
+ * estimator hydrates on the client.
+ */
+export function PricingSection({ locale, messages }: { locale: Locale; messages: Messages }) {
+  const copy = messages.pricing
+  const services = SERVICES.map((service) => localizeService(service, messages))
+  const tiers = services[0].pricingTiers.map((tier) => tier.name)
+
+  return (
+    <section id="pricing" className="py-16 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto space-y-12">
+        <div className="text-center">
+          <h2 className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white mb-4">{copy.title}</h2>
+          <p className="text-lg text-slate-600 dark:text-slate-300 max-w-3xl mx-auto">{copy.description}</p>
+        </div>
+
+        {/* Comparison table; scrolls sideways on small screens */}
+        <div className="overflow-x-auto rounded-lg border border-slate-200 dark:border-slate-700">
+          <table className="w-full min-w-[36rem] text-left text-sm bg-white dark:bg-slate-800">
+            <caption className="sr-only">{copy.tableCaption}</caption>
+            <thead className="bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-white">
+              <tr>
+                <th scope="col" className="px-4 py-3 font-semibold">
+                  {copy.service}
+                </th>
+                {tiers.map((tier) => (
+                  <th key={tier} scope="col" className="px-4 py-3 font-semibold">
+                    {tier}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {services.map((service) => (
+                <tr key={service.slug}>
+                  <th scope="row" className="px-4 py-3 font-medium">
+                    <Link
+                      href={`/${locale}/services/${service.slug}#plans`}
+                      className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                    >
+                      {service.title}
+                    </Link>
+                  </th>
+                  {service.pricingTiers.map((tier) => (
+                    <td key={tier.name} className="px-4 py-3 align-top text-slate-700 dark:text-slate-300">
+                      <span className="block font-semibold text-slate-900 dark:text-white">
+                        {formatMessage(copy.from, {
+                          price: formatCatalogPrice(tier.monthlyPrice, LOCALE_FORMATS[locale]),
+                        })}
+                      </span>
+                      <span className="text-slate-500 dark:text-slate-400">{tier.features.join(" · ")}</span>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Client island: the estimator hands its result to the consultation form */}
+        <QuoteEstimator />
+      </div>
+    </section>
+  )
+}
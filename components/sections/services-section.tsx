@@ -0,0 +1,102 @@
+import Link from "next/link"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ServiceExplainerDialog } from "@/components/service-explainer-dialog"
+import { postsForService, type PostSummary } from "@/lib/blog/posts"
+import { filterCaseStudies, type CaseStudySummary } from "@/lib/case-studies/case-studies"
+import type { Locale } from "@/lib/i18n/config"
+import { localizeService } from "@/lib/i18n/localize-service"
+import type { Messages } from "@/lib/i18n/messages"
+import { formatMessage } from "@/lib/i18n/translate"
+import { SERVICES } from "@/lib/services/catalog"
+
+/**
+ * Services Section - Core service offerings with AI-powered explanations
+ *
+ * Rendered on the server from the service catalog; only the explanation
+ * dialogs hydrate on the client. Each card links to the newest blog articles
+ * about its service and to the case studies where it was used.
+ */
+export function ServicesSection({
+  locale,
+  messages,
+  posts,
+  caseStudies,
+}: {
+  locale: Locale
+  messages: Messages
+  posts: PostSummary[]
+  caseStudies: CaseStudySummary[]
+}) {
+  const services = SERVICES.map((service) => localizeService(service, messages))
+
+  return (
+    <section id="services" className="py-16 px-4 sm:px-6 lg:px-8 bg-white dark:bg-slate-800">
+      <div className="max-w-7xl mx-auto">
+        <h2 className="text-3xl md:text-4xl font-bold text-center text-slate-900 dark:text-white mb-16">
+          {messages.services.title}
+        </h2>
+        {/* Services grid with interactive modal dialogs */}
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {services.map((service) => (
+            <Card
+              key={service.slug}
+              className="border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 hover:shadow-lg transition-shadow"
+            >
+              <CardHeader>
+                <service.icon className="w-8 h-8 text-indigo-600 dark:text-indigo-400 mb-2" />
+                <CardTitle className="text-slate-900 dark:text-white">{service.title}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CardDescription className="text-slate-600 dark:text-slate-300 mb-4">
+                  {service.description}
+                </CardDescription>
+                {/* AI-powered business explanation modal */}
+                <ServiceExplainerDialog serviceSlug={service.slug} serviceTitle={service.title} />
+                {/* Link to the service detail page with FAQs and pricing */}
+                <Link
+                  href={`/${locale}/services/${service.slug}`}
+                  className="mt-3 block text-center text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  {formatMessage(messages.services.learnMore, { title: service.title })}
+                </Link>
+                {/* Client projects that used this service */}
+                {filterCaseStudies(caseStudies, { service: service.slug }).length > 0 && (
+                  <Link
+                    href={`/${locale}/case-studies?service=${service.slug}`}
+                    className="mt-2 block text-center text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                  >
+                    {formatMessage(messages.caseStudies.serviceLink, {
+                      count: filterCaseStudies(caseStudies, { service: service.slug }).length,
+                    })}
+                  </Link>
+                )}
+                {/* Related articles from the blog */}
+                {postsForService(posts, service.slug).length > 0 && (
+                  <div className="mt-4 border-t border-slate-200 dark:border-slate-700 pt-3">
+                    <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                      {messages.services.relatedArticles}
+                    </p>
+                    <ul className="space-y-1 text-sm">
+                      {postsForService(posts, service.slug).map((post) => (
+                        <li key={post.slug}>
+                          <Link
+                            href={`/${locale}/blog/${post.slug}`}
+                            lang={post.lang}
+                            className="text-slate-700 dark:text-slate-300 hover:text-indigo-600 dark:hover:text-indigo-400 hover:underline"
+                          >
+                            {post.title}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    </section>
+  )
+}
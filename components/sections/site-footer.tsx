@@ -0,0 +1,143 @@
+import { Phone, Mail, MapPin } from "lucide-react"
+
+import { CookieSettingsButton } from "@/components/cookie-settings-button"
+import type { Locale } from "@/lib/i18n/config"
+import type { Messages } from "@/lib/i18n/messages"
+import { LEGAL_DOCUMENTS } from "@/lib/legal/documents"
+import { navItems } from "@/lib/navigation"
+import { COMPANY } from "@/lib/site"
+
+interface SiteFooterProps {
+  messages: Messages
+  locale: Locale
+  // Editable copy from the site content
+  tagline: string
+  // Whether any case study is published, for the case studies link
+  hasCaseStudies: boolean
+}
+
+/**
+ * Site Footer - Company information, links, and social media
+ *
+ * Quick links are the header's menu items; section links are plain hash
+ * links, picked up by the header's scroll spy.
+ */
+export function SiteFooter({ messages, locale, tagline, hasCaseStudies }: SiteFooterProps) {
+  return (
+    <footer className="bg-slate-900 dark:bg-slate-950 text-slate-300">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-8">
+          {/* Company branding and tagline */}
+          <div>
+            <img
+              src="/torestech-logo.jpeg"
+              alt={messages.nav.logoAlt}
+              className="h-8 w-auto mb-4 brightness-0 invert"
+            />
+            <p className="text-slate-400 leading-relaxed">
+              {tagline}
+            </p>
+          </div>
+
+          {/* Quick navigation links */}
+          <div>
+            <h3 className="text-white font-semibold mb-4">{messages.footer.quickLinks}</h3>
+            <div className="space-y-2">
+              {navItems({ hasCaseStudies }).map((item) => (
+                <a
+                  key={item.type === "section" ? item.id : item.path}
+                  href={item.type === "section" ? `#${item.id}` : `/${locale}${item.path}`}
+                  className="block text-slate-400 hover:text-white transition-colors"
+                >
+                  {messages.nav[item.label]}
+                </a>
+              ))}
+              <a href={`/${locale}/portal`} className="block text-slate-400 hover:text-white transition-colors">
+                {messages.footer.clientPortal}
+              </a>
+            </div>
+          </div>
+
+          {/* Contact information */}
+          <div>
+            <h3 className="text-white font-semibold mb-4">{messages.footer.contactUs}</h3>
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <MapPin className="h-4 w-4 text-slate-400" aria-hidden="true" />
+                <span className="text-slate-400">{messages.footer.location}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Mail className="h-4 w-4 text-slate-400" aria-hidden="true" />
+                <span className="text-slate-400">{COMPANY.email}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Phone className="h-4 w-4 text-slate-400" aria-hidden="true" />
+                <span className="text-slate-400">{COMPANY.phoneDisplay}</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Social media links */}
+          <div>
+            <h3 className="text-white font-semibold mb-4">{messages.footer.followUs}</h3>
+            <div className="flex space-x-4">
+              {/* Twitter/X link */}
+              <a
+                href={COMPANY.social.x}
+                target="_blank"
+                rel="noopener noreferrer"
+                aria-label={messages.footer.social.x}
+                className="text-slate-400 hover:text-white transition-colors"
+              >
+                <svg className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                  <path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z" />
+                </svg>
+              </a>
+              {/* LinkedIn link */}
+              <a
+                href={COMPANY.social.linkedin}
+                target="_blank"
+                rel="noopener noreferrer"
+                aria-label={messages.footer.social.linkedin}
+                className="text-slate-400 hover:text-white transition-colors"
+              >
+                <svg className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                  <path d="M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.414v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433c-1.144 0-2.063-.926-2.063-2.065 0-1.138.92-2.063 2.063-2.063 1.14 0 2.064.925 2.064 2.063 0 1.139-.925 2.065-2.064 2.065zm1.782 13.019H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z" />
+                </svg>
+              </a>
+              {/* Instagram link */}
+              <a
+                href={COMPANY.social.instagram}
+                target="_blank"
+                rel="noopener noreferrer"
+                aria-label={messages.footer.social.instagram}
+                className="text-slate-400 hover:text-white transition-colors"
+              >
+                <svg className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                  <path d="M12.017 0C5.396 0 .029 5.367.029 11.987c0 6.62 5.367 11.987 11.988 11.987s11.987-5.367 11.987-11.987C24.014 5.367 18.647.001 12.017.001zM8.449 16.988c-1.297 0-2.448-.49-3.323-1.297C4.198 14.895 3.708 13.744 3.708 12.447s.49-2.448 1.297-3.323C5.902 8.198 7.053 7.708 8.35 7.708s2.448.49 3.323 1.297c.897.875 1.387 2.026 1.387 3.323s-.49 2.448-1.297 3.323c-.875.897-2.026 1.387-3.323 1.387zm7.718 0c-1.297 0-2.448-.49-3.323-1.297-.897-.875-1.387-2.026-1.387-3.323s.49-2.448 1.297-3.323c.875-.897 2.026-1.387 3.323-1.387s2.448.49 3.323 1.297c.897.875 1.387 2.026 1.387 3.323s-.49 2.448-1.297 3.323c-.875.897-2.026 1.387-3.323 1.387z" />
+                </svg>
+              </a>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer bottom section with copyright and legal links */}
+        <div className="border-t border-slate-800 mt-8 pt-8 flex flex-col md:flex-row justify-between items-center">
+          <p className="text-slate-400 text-sm">{messages.footer.copyright}</p>
+          <div className="flex flex-wrap justify-center gap-x-6 gap-y-2">
+            {LEGAL_DOCUMENTS.map((document) => (
+              <a
+                key={document}
+                href={`/${locale}/legal/${document}`}
+                className="text-slate-400 hover:text-white text-sm transition-colors"
+              >
+                {messages.legal.documents[document]}
+              </a>
+            ))}
+            <CookieSettingsButton className="text-slate-400 hover:text-white text-sm transition-colors" />
+          </div>
+        </div>
+      </div>
+    </footer>
+  )
+}
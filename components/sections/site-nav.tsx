@@ -0,0 +1,156 @@
+"use client"
+
+import { useTheme } from "next-themes"
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { Moon, Sun, Menu, X } from "lucide-react"
+
+import { LanguageSwitcher } from "@/components/language-switcher"
+import { useI18n } from "@/components/i18n-provider"
+import { useSectionNavigation } from "@/hooks/use-section-navigation"
+import { NAV_SECTION_IDS, navItems } from "@/lib/navigation"
+
+/**
+ * Site Navigation
+ *
+ * Client island for the fixed header with logo, menu items, language switcher
+ * and theme toggle, including the collapsible mobile menu. Opening the mobile
+ * menu moves focus into it; Escape closes it and returns focus to its button.
+ * Menu items come from the shared nav config; the section in view is
+ * highlighted and kept in the URL hash.
+ */
+export function SiteNav({ hasCaseStudies }: { hasCaseStudies: boolean }) {
+  const { locale, messages } = useI18n()
+
+  // Theme management using next-themes for dark/light mode switching
+  const { theme, setTheme } = useTheme()
+
+  // Section under the header, kept in the URL hash
+  const { activeId, goTo } = useSectionNavigation(NAV_SECTION_IDS)
+
+  // Mobile navigation state for responsive hamburger menu
+  const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
+  const menuButtonRef = useRef<HTMLButtonElement>(null)
+  const mobileMenuRef = useRef<HTMLDivElement>(null)
+
+  /**
+   * Effect: Focus the first menu item on open and close the menu with Escape
+   */
+  useEffect(() => {
+    if (!isMobileMenuOpen) return
+    mobileMenuRef.current?.querySelector<HTMLElement>("button, a")?.focus()
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== "Escape") return
+      setIsMobileMenuOpen(false)
+      menuButtonRef.current?.focus()
+    }
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [isMobileMenuOpen])
+
+  /**
+   * Toggle between dark and light themes
+   * Uses next-themes setTheme function for proper persistence
+   */
+  const toggleDarkMode = () => {
+    setTheme(theme === "dark" ? "light" : "dark")
+  }
+
+  // Menu item colours; the section in view is highlighted
+  const itemColor = (active: boolean) =>
+    active
+      ? "text-indigo-600 dark:text-indigo-400 font-medium"
+      : "text-slate-700 dark:text-slate-300 hover:text-indigo-600 dark:hover:text-indigo-400"
+
+  /**
+   * Section links: scroll to the section and record it in the URL; pages are plain links
+   */
+  const renderItems = (className: string) =>
+    navItems({ hasCaseStudies }).map((item) =>
+      item.type === "section" ? (
+        <a
+          key={item.id}
+          href={`#${item.id}`}
+          onClick={(event) => {
+            event.preventDefault()
+            goTo(item.id)
+            setIsMobileMenuOpen(false) // Close mobile menu after navigation
+          }}
+          aria-current={activeId === item.id ? "location" : undefined}
+          className={`${className} ${itemColor(activeId === item.id)}`}
+        >
+          {messages.nav[item.label]}
+        </a>
+      ) : (
+        <Link key={item.path} href={`/${locale}${item.path}`} className={`${className} ${itemColor(false)}`}>
+          {messages.nav[item.label]}
+        </Link>
+      ),
+    )
+
+  return (
+    <nav aria-label={messages.nav.mainMenu} className="fixed top-0 w-full z-50 bg-white/80 dark:bg-slate-900/80 backdrop-blur-md border-b border-slate-200 dark:border-slate-700">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center h-16">
+          {/* Company Logo */}
+          <div className="flex-shrink-0">
+            <img src="/torestech-logo.jpeg" alt={messages.nav.logoAlt} className="h-10 w-auto" />
+          </div>
+
+          {/* Desktop Navigation Menu */}
+          <div className="hidden md:flex items-center space-x-8">
+            {renderItems("transition-colors")}
+
+            <LanguageSwitcher />
+
+            {/* Dark/Light Mode Toggle Button */}
+            <button
+              onClick={toggleDarkMode}
+              aria-label={theme === "dark" ? messages.nav.lightMode : messages.nav.darkMode}
+              className="p-2 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+            >
+              {theme === "dark" ? <Sun className="h-5 w-5" aria-hidden="true" /> : <Moon className="h-5 w-5" aria-hidden="true" />}
+            </button>
+          </div>
+
+          {/* Mobile Navigation Controls */}
+          <div className="md:hidden flex items-center space-x-4">
+            <LanguageSwitcher />
+            {/* Mobile Theme Toggle */}
+            <button
+              onClick={toggleDarkMode}
+              aria-label={theme === "dark" ? messages.nav.lightMode : messages.nav.darkMode}
+              className="p-2 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300"
+            >
+              {theme === "dark" ? <Sun className="h-5 w-5" aria-hidden="true" /> : <Moon className="h-5 w-5" aria-hidden="true" />}
+            </button>
+            {/* Mobile Menu Hamburger */}
+            <button
+              ref={menuButtonRef}
+              onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+              aria-expanded={isMobileMenuOpen}
+              aria-controls="mobile-menu"
+              aria-label={isMobileMenuOpen ? messages.nav.closeMenu : messages.nav.openMenu}
+              className="p-2 rounded-md text-slate-700 dark:text-slate-300"
+            >
+              {isMobileMenuOpen ? <X className="h-6 w-6" aria-hidden="true" /> : <Menu className="h-6 w-6" aria-hidden="true" />}
+            </button>
+          </div>
+        </div>
+
+        {/* Mobile Navigation Menu (Collapsible) */}
+        {isMobileMenuOpen && (
+          <div
+            id="mobile-menu"
+            ref={mobileMenuRef}
+            className="md:hidden bg-white dark:bg-slate-900 border-t border-slate-200 dark:border-slate-700"
+          >
+            <div className="px-2 pt-2 pb-3 space-y-1">
+              {renderItems("block px-3 py-2")}
+            </div>
+          </div>
+        )}
+      </div>
+    </nav>
+  )
+}
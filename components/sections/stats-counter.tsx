@@ -0,0 +1,36 @@
+"use client"
+
+import { useCountUp } from "@/hooks/use-count-up"
+import type { SiteStat } from "@/lib/stats/source"
+
+/**
+ * A single animated figure; a missing value renders as a dash
+ */
+function StatFigure({ stat, locale }: { stat: SiteStat; locale: string }) {
+  const { ref, formatted } = useCountUp(stat.value ?? 0, { locale })
+
+  return (
+    <div ref={ref}>
+      <div className="text-4xl md:text-5xl font-bold text-indigo-600 mb-2">
+        {stat.value === null ? "—" : `${formatted}${stat.suffix}`}
+      </div>
+      <div className="text-slate-600 dark:text-slate-300 font-medium">{stat.label}</div>
+    </div>
+  )
+}
+
+/**
+ * Stats Counter
+ *
+ * Client island that counts each figure up from zero when it scrolls into view.
+ */
+export function StatsCounter({ stats, locale = "en" }: { stats: SiteStat[]; locale?: string }) {
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-8 text-center">
+      {/* Each stat uses animated counter values */}
+      {stats.map((stat) => (
+        <StatFigure key={stat.key} stat={stat} locale={locale} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { StatsCounter } from "@/components/sections/stats-counter"
+import { LOCALE_FORMATS, type Locale } from "@/lib/i18n/config"
+import type { Messages } from "@/lib/i18n/messages"
+import type { SiteStats } from "@/lib/stats/source"
+
+interface StatsSectionProps {
+  siteStats: SiteStats | null
+  locale: Locale
+  messages: Messages
+}
+
+/**
+ * Format the "as of" date for display, e.g. "30 September 2025"
+ */
+function formatAsOf(date: string, locale: Locale): string {
+  return new Intl.DateTimeFormat(LOCALE_FORMATS[locale], { dateStyle: "long", timeZone: "UTC" }).format(new Date(date))
+}
+
+/**
+ * Statistics Section - Animated counters showing company achievements
+ *
+ * Figures are read from the stats source by the page on the server; when
+ * they are unavailable the section shows a short notice instead of made-up numbers.
+ * Labels are translated by stat key, falling back to the label in the source.
+ */
+export function StatsSection({ siteStats, locale, messages }: StatsSectionProps) {
+  return (
+    <section id="stats-section" className="py-16 px-4 sm:px-6 lg:px-8 bg-white dark:bg-slate-800">
+      <div className="max-w-7xl mx-auto">
+        {siteStats ? (
+          <>
+            <StatsCounter
+              stats={siteStats.stats.map((stat) => ({ ...stat, label: messages.stats.labels[stat.key] ?? stat.label }))}
+              locale={LOCALE_FORMATS[locale]}
+            />
+            {/* Audit trail: when the figures were last verified */}
+            <p className="mt-8 text-center text-sm text-slate-500 dark:text-slate-400">
+              {messages.stats.asOf} <time dateTime={siteStats.asOf}>{formatAsOf(siteStats.asOf, locale)}</time>
+              {siteStats.source && (
+                <>
+                  {" "}
+                  &middot; {messages.stats.source}: {siteStats.source}
+                </>
+              )}
+            </p>
+          </>
+        ) : (
+          <p className="text-center text-slate-600 dark:text-slate-300">
+            {messages.stats.unavailable}
+          </p>
+        )}
+      </div>
+    </section>
+  )
+}
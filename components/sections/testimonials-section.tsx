@@ -0,0 +1,40 @@
+import Link from "next/link"
+
+import { TestimonialsCarousel } from "@/components/case-studies/testimonials-carousel"
+import type { Testimonial } from "@/lib/case-studies/case-studies"
+import type { Locale } from "@/lib/i18n/config"
+import type { Messages } from "@/lib/i18n/messages"
+
+/**
+ * Testimonials Section - Client quotes backing up the stats, with a link to the case studies
+ */
+export function TestimonialsSection({
+  testimonials,
+  locale,
+  messages,
+}: {
+  testimonials: Testimonial[]
+  locale: Locale
+  messages: Messages
+}) {
+  if (!testimonials.length) return null
+  const copy = messages.caseStudies.testimonials
+
+  return (
+    <section id="testimonials" className="py-16 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        <h2 className="text-3xl md:text-4xl font-bold text-center text-slate-900 dark:text-white mb-12">{copy.title}</h2>
+        {/* Client island: only the carousel hydrates */}
+        <TestimonialsCarousel testimonials={testimonials} />
+        <p className="mt-8 text-center">
+          <Link
+            href={`/${locale}/case-studies`}
+            className="font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            {copy.viewAll}
+          </Link>
+        </p>
+      </div>
+    </section>
+  )
+}
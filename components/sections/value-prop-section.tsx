@@ -0,0 +1,55 @@
+import { Award, Clock, Shield, Users, Wallet, Zap, type LucideIcon } from "lucide-react"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import type { CardIcon, SiteContent } from "@/lib/cms/schema"
+
+const CARD_ICON_COMPONENTS: Record<CardIcon, LucideIcon> = {
+  award: Award,
+  clock: Clock,
+  users: Users,
+  wallet: Wallet,
+  shield: Shield,
+  zap: Zap,
+}
+
+/**
+ * Value Proposition Section - Why choose Torestech
+ */
+export function ValuePropSection({ content }: { content: SiteContent["valueProp"] }) {
+  return (
+    <section className="py-16 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto text-center">
+        <h2 className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white mb-16">
+          {content.title}
+        </h2>
+        {/* Feature cards grid showcasing key benefits */}
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-8">
+          {/* Each card represents a core value proposition */}
+          {content.cards.map((card) => {
+            const Icon = card.icon && CARD_ICON_COMPONENTS[card.icon]
+            return (
+              <Card
+                key={card.title}
+                className="border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 hover:shadow-lg transition-shadow"
+              >
+                <CardHeader className="text-center">
+                  <div className="w-16 h-16 bg-indigo-100 dark:bg-indigo-900 rounded-full flex items-center justify-center mx-auto mb-4">
+                    {Icon ? (
+                      <Icon className="w-8 h-8 text-indigo-600 dark:text-indigo-400" aria-hidden="true" />
+                    ) : (
+                      <div className="w-8 h-8 bg-indigo-600 rounded-full"></div>
+                    )}
+                  </div>
+                  <CardTitle className="text-slate-900 dark:text-white">{card.title}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-slate-600 dark:text-slate-300 text-sm">{card.text}</p>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,189 @@
+"use client"
+
+import { useId, useState, type FormEvent } from "react"
+import { AlertTriangle, CheckCircle2, Package, RotateCw, Sparkles } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { useI18n } from "@/components/i18n-provider"
+import { KnowledgeSources } from "@/components/knowledge-sources"
+import { useRequestProtection } from "@/hooks/use-request-protection"
+import { trackEvent } from "@/lib/analytics/events"
+import { explainRequestSchema, type Explanation } from "@/lib/explain/schema"
+import { formatMessage, translateError } from "@/lib/i18n/translate"
+
+interface ServiceExplainerDialogProps {
+  serviceSlug: string
+  serviceTitle: string
+}
+
+/**
+ * Service Explainer Dialog
+ *
+ * "Explain for my business" modal for one service card. Sends the service and
+ * business type to /api/explain and renders the structured answer, with
+ * loading, error and retry states.
+ */
+export function ServiceExplainerDialog({ serviceSlug, serviceTitle }: ServiceExplainerDialogProps) {
+  const { locale, messages } = useI18n()
+  const copy = messages.services.explain
+
+  // Unique per dialog so each Label points at its own input
+  const inputId = useId()
+
+  const [businessType, setBusinessType] = useState("")
+  const [explanation, setExplanation] = useState<Explanation | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const { protect } = useRequestProtection()
+
+  /**
+   * Request an explanation for the current business type
+   */
+  const generate = async () => {
+    const parsed = explainRequestSchema.safeParse({ service: serviceSlug, businessType, locale })
+    if (!parsed.success) {
+      setError(
+        translateError(messages, parsed.error.flatten().fieldErrors.businessType?.[0]) ??
+          messages.errors.businessTypeRequired,
+      )
+      return
+    }
+
+    trackEvent("explanation_generate", { service: serviceSlug })
+    setIsLoading(true)
+    setError(null)
+    setExplanation(null)
+    try {
+      const response = await fetch("/api/explain", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...parsed.data, protection: await protect() }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError(translateError(messages, result.errors?.businessType?.[0] ?? result.error) ?? messages.errors.generic)
+        return
+      }
+      setExplanation(result.explanation)
+    } catch {
+      setError(messages.errors.network)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    generate()
+  }
+
+  return (
+    <Dialog onOpenChange={(open) => open && trackEvent("service_dialog_open", { service: serviceSlug })}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="w-full border-indigo-200 dark:border-indigo-800 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-950 bg-transparent"
+        >
+          <Sparkles className="w-4 h-4 mr-2" />
+          {copy.trigger}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 dark:text-white">{copy.title}</DialogTitle>
+          <DialogDescription className="text-slate-600 dark:text-slate-300">
+            {formatMessage(copy.description, { service: locale === "en" ? serviceTitle.toLowerCase() : serviceTitle })}
+          </DialogDescription>
+        </DialogHeader>
+        {/* Business type input form for personalized AI responses */}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor={inputId} className="text-slate-700 dark:text-slate-300">
+              {copy.businessType}
+            </Label>
+            <Input
+              id={inputId}
+              value={businessType}
+              onChange={(event) => setBusinessType(event.target.value)}
+              placeholder={copy.placeholder}
+              className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900"
+            />
+          </div>
+          <Button type="submit" disabled={isLoading} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white">
+            <Sparkles className="w-4 h-4 mr-2" />
+            {isLoading ? copy.generating : copy.generate}
+          </Button>
+        </form>
+
+        {/* Loading placeholder */}
+        {isLoading && (
+          <div aria-busy="true" className="space-y-2 animate-pulse">
+            <div className="h-4 rounded bg-slate-200 dark:bg-slate-700" />
+            <div className="h-4 w-5/6 rounded bg-slate-200 dark:bg-slate-700" />
+            <div className="h-4 w-2/3 rounded bg-slate-200 dark:bg-slate-700" />
+          </div>
+        )}
+
+        {/* Error with retry */}
+        {error && !isLoading && (
+          <div role="alert" className="flex items-center justify-between gap-4 text-sm text-red-600 dark:text-red-400">
+            <span>{error}</span>
+            {businessType.trim().length >= 3 && (
+              <Button variant="outline" size="sm" onClick={generate}>
+                <RotateCw className="w-4 h-4 mr-1" />
+                {copy.retry}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Structured explanation */}
+        {explanation && !isLoading && (
+          <div aria-live="polite" className="space-y-4 text-sm text-slate-700 dark:text-slate-300">
+            <p>{explanation.summary}</p>
+            <div>
+              <h3 className="font-semibold text-slate-900 dark:text-white mb-2">{copy.benefits}</h3>
+              <ul className="space-y-1">
+                {explanation.benefits.map((benefit) => (
+                  <li key={benefit} className="flex gap-2">
+                    <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-600" />
+                    {benefit}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h3 className="font-semibold text-slate-900 dark:text-white mb-2">{copy.risks}</h3>
+              <ul className="space-y-1">
+                {explanation.risks.map((risk) => (
+                  <li key={risk} className="flex gap-2">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-amber-500" />
+                    {risk}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="rounded-md border border-indigo-200 dark:border-indigo-800 bg-indigo-50 dark:bg-indigo-950 p-3">
+              <h3 className="flex items-center gap-2 font-semibold text-slate-900 dark:text-white">
+                <Package className="w-4 h-4 text-indigo-600" />
+                {formatMessage(copy.suggestedPackage, { name: explanation.suggestedPackage.name })}
+              </h3>
+              <p className="mt-1">{explanation.suggestedPackage.description}</p>
+            </div>
+            <KnowledgeSources sources={explanation.sources} label={copy.sources} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
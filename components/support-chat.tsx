@@ -0,0 +1,379 @@
+"use client"
+
+import { useEffect, useRef, useState, type FormEvent, type KeyboardEvent } from "react"
+import { RotateCcw, Send, Sparkles, Ticket } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { HoneypotField } from "@/components/honeypot-field"
+import { useI18n } from "@/components/i18n-provider"
+import { KnowledgeSources } from "@/components/knowledge-sources"
+import { PolicyNotice } from "@/components/legal/policy-notice"
+import { useRequestProtection } from "@/hooks/use-request-protection"
+import { trackEvent } from "@/lib/analytics/events"
+import { translateError } from "@/lib/i18n/translate"
+import { parseSources } from "@/lib/retrieval/citations"
+import { MAX_CHAT_TURNS, issueSchema, replySchema, type ChatTurn } from "@/lib/troubleshoot/schema"
+import { supportTicketSchema } from "@/lib/troubleshoot/ticket"
+
+// Conversation survives reloads for the rest of the browser session
+const STORAGE_KEY = "torestech:support-chat"
+
+type TicketErrors = Partial<Record<"fullName" | "email" | "transcript", string[]>>
+
+/**
+ * One message in the chat log; the escalated assistant reply is highlighted
+ *
+ * Assistant replies end with the knowledge-base sources they cite, shown as links.
+ */
+function ChatBubble({ turn, highlight }: { turn: ChatTurn; highlight?: boolean }) {
+  const { messages } = useI18n()
+  const isUser = turn.role === "user"
+  const { text, sources } = isUser ? { text: turn.content, sources: [] } : parseSources(turn.content)
+  return (
+    <div className={`flex ${isUser ? "justify-end" : "justify-start"}`}>
+      <div
+        className={`max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap ${
+          isUser
+            ? "bg-indigo-600 text-white"
+            : highlight
+              ? "border border-amber-300 bg-amber-50 text-amber-900 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-100"
+              : "border border-slate-200 bg-white text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200"
+        }`}
+      >
+        <span className="sr-only">{isUser ? messages.troubleshoot.you : messages.troubleshoot.assistant}: </span>
+        {text}
+        <KnowledgeSources sources={sources} label={messages.troubleshoot.sources} />
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Support Chat
+ *
+ * Body of the "Instant AI Troubleshooting" card. Sends the conversation to
+ * /api/troubleshoot and streams each reply into the log; the assistant may
+ * ask a clarifying question before suggesting steps. Once it has answered,
+ * the visitor can file the whole transcript as a support ticket (/api/tickets).
+ */
+export function SupportChat() {
+  const { locale, messages } = useI18n()
+  const copy = messages.troubleshoot
+  const [turns, setTurns] = useState<ChatTurn[]>([])
+  const [draft, setDraft] = useState("")
+  const [pendingReply, setPendingReply] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [shouldEscalate, setShouldEscalate] = useState(false)
+  const { protect } = useRequestProtection()
+
+  // Ticket handoff form
+  const [ticketState, setTicketState] = useState<"closed" | "open" | "created">("closed")
+  const [contact, setContact] = useState({ fullName: "", email: "" })
+  const [ticketErrors, setTicketErrors] = useState<TicketErrors>({})
+  const [ticketError, setTicketError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const ticketProtection = useRequestProtection({ prefetch: ticketState === "open" })
+
+  // Aborts an in-flight stream when a new request starts or the chat is reset
+  const abortRef = useRef<AbortController | null>(null)
+  const logRef = useRef<HTMLDivElement>(null)
+
+  /**
+   * Effect: Restore the conversation from this browser session
+   */
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? "[]")
+      if (Array.isArray(saved)) setTurns(saved)
+    } catch {
+      // Ignore unreadable session data and start fresh
+    }
+  }, [])
+
+  /**
+   * Effect: Keep the session copy current and the newest message in view
+   */
+  useEffect(() => {
+    if (turns.length) {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(turns))
+    } else {
+      sessionStorage.removeItem(STORAGE_KEY)
+    }
+  }, [turns])
+
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight })
+  }, [turns, pendingReply])
+
+  const hasReply = turns.some((turn) => turn.role === "assistant")
+
+  /**
+   * Add the visitor's message and stream the assistant's reply
+   */
+  const send = async () => {
+    const check = (turns.length ? replySchema : issueSchema).safeParse(draft)
+    if (!check.success) {
+      setError(translateError(messages, check.error.issues[0]?.message) ?? messages.errors.issueRequired)
+      return
+    }
+    const conversation: ChatTurn[] = [...turns, { role: "user", content: check.data }]
+    if (conversation.length > MAX_CHAT_TURNS) {
+      setError(messages.errors.conversationTooLong)
+      return
+    }
+
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    trackEvent("troubleshoot_request", { turn: conversation.filter((turn) => turn.role === "user").length })
+
+    setTurns(conversation)
+    setDraft("")
+    setError(null)
+    setPendingReply("")
+    setShouldEscalate(false)
+    setIsStreaming(true)
+
+    // Put the message back in the box so the visitor can retry
+    const restoreDraft = () => {
+      setTurns(turns)
+      setDraft(check.data)
+    }
+
+    try {
+      const response = await fetch("/api/troubleshoot", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messages: conversation, locale, protection: await protect() }),
+        signal: controller.signal,
+      })
+
+      if (!response.ok || !response.body) {
+        const result = await response.json().catch(() => ({}))
+        setError(translateError(messages, result.errors?.messages?.[0] ?? result.error) ?? copy.unavailable)
+        restoreDraft()
+        return
+      }
+
+      setShouldEscalate(response.headers.get("X-Troubleshoot-Escalate") === "1")
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let reply = ""
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        reply += decoder.decode(value, { stream: true })
+        setPendingReply(reply)
+      }
+
+      reply = reply.trim().slice(0, 4000)
+      if (reply) {
+        setTurns([...conversation, { role: "assistant", content: reply }])
+      } else {
+        setError(copy.unavailable)
+        restoreDraft()
+      }
+    } catch (err) {
+      if ((err as Error).name !== "AbortError") {
+        setError(copy.unreachable)
+        restoreDraft()
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        setIsStreaming(false)
+        setPendingReply("")
+      }
+    }
+  }
+
+  /**
+   * Send with Enter; Shift+Enter adds a new line
+   */
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault()
+      if (!isStreaming) send()
+    }
+  }
+
+  const startOver = () => {
+    abortRef.current?.abort()
+    setTurns([])
+    setDraft("")
+    setError(null)
+    setShouldEscalate(false)
+    setTicketState("closed")
+  }
+
+  /**
+   * File the conversation and contact details as a support ticket
+   */
+  const createTicket = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setTicketError(null)
+
+    const parsed = supportTicketSchema.safeParse({ ...contact, locale, transcript: turns })
+    if (!parsed.success) {
+      setTicketErrors(parsed.error.flatten().fieldErrors)
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/tickets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...parsed.data, protection: await ticketProtection.protect() }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        if (result.errors) setTicketErrors(result.errors)
+        setTicketError(translateError(messages, result.error) ?? messages.errors.checkFields)
+        return
+      }
+      setTicketErrors({})
+      setTicketState("created")
+      trackEvent("form_submit", { form: "support_ticket" })
+    } catch {
+      setTicketError(messages.errors.network)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const lastTurn = turns[turns.length - 1]
+
+  return (
+    <div className="space-y-4">
+      {/* Chat log */}
+      {(turns.length > 0 || isStreaming) && (
+        <div
+          ref={logRef}
+          role="log"
+          aria-label={copy.conversation}
+          aria-busy={isStreaming}
+          className="max-h-96 overflow-y-auto space-y-3 rounded-md border border-slate-200 dark:border-slate-700 p-3"
+        >
+          {turns.map((turn, index) => (
+            <ChatBubble key={index} turn={turn} highlight={shouldEscalate && turn === lastTurn} />
+          ))}
+          {isStreaming && <ChatBubble turn={{ role: "assistant", content: pendingReply || copy.lookingIntoIt }} />}
+        </div>
+      )}
+
+      {/* Message box: the issue first, then replies to the assistant */}
+      <Textarea
+        aria-label={turns.length ? copy.replyLabel : copy.issueLabel}
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={turns.length ? copy.replyPlaceholder : copy.placeholder}
+        className={`${turns.length ? "min-h-20" : "min-h-32"} border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800`}
+      />
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+      <PolicyNotice />
+      <div className="flex gap-2">
+        <Button onClick={send} disabled={isStreaming} className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white">
+          {turns.length ? <Send className="w-4 h-4 mr-2" /> : <Sparkles className="w-4 h-4 mr-2" />}
+          {isStreaming ? copy.thinking : turns.length ? copy.send : copy.submit}
+        </Button>
+        {turns.length > 0 && (
+          <Button variant="outline" onClick={startOver} className="bg-transparent">
+            <RotateCcw className="w-4 h-4 mr-2" />
+            {copy.startOver}
+          </Button>
+        )}
+      </div>
+
+      {/* Ticket handoff is offered once the assistant has answered */}
+      {hasReply && !isStreaming && ticketState === "closed" && (
+        <div className="text-center space-y-2">
+          <p className="text-sm text-slate-600 dark:text-slate-300">
+            {shouldEscalate ? copy.needsTechnician : copy.stillStuck}
+          </p>
+          <Button
+            variant="outline"
+            onClick={() => setTicketState("open")}
+            className="border-indigo-200 dark:border-indigo-800 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-950 bg-transparent"
+          >
+            <Ticket className="w-4 h-4 mr-2" />
+            {copy.createTicket}
+          </Button>
+        </div>
+      )}
+
+      {ticketState === "open" && (
+        <form
+          onSubmit={createTicket}
+          noValidate
+          className="space-y-4 rounded-md border border-slate-200 dark:border-slate-700 p-4"
+        >
+          <HoneypotField value={ticketProtection.honeypot} onChange={ticketProtection.setHoneypot} />
+          <p className="text-sm text-slate-600 dark:text-slate-300">{copy.ticketIntro}</p>
+          <div>
+            <Label htmlFor="ticket-name" className="text-slate-700 dark:text-slate-300">
+              {messages.consultation.fullName}
+            </Label>
+            <Input
+              id="ticket-name"
+              autoComplete="name"
+              value={contact.fullName}
+              onChange={(event) => setContact((prev) => ({ ...prev, fullName: event.target.value }))}
+              aria-invalid={!!ticketErrors.fullName}
+              className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+            />
+            {ticketErrors.fullName && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{translateError(messages, ticketErrors.fullName[0])}</p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="ticket-email" className="text-slate-700 dark:text-slate-300">
+              {messages.consultation.email}
+            </Label>
+            <Input
+              id="ticket-email"
+              type="email"
+              autoComplete="email"
+              value={contact.email}
+              onChange={(event) => setContact((prev) => ({ ...prev, email: event.target.value }))}
+              aria-invalid={!!ticketErrors.email}
+              className="border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+            />
+            {ticketErrors.email && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{translateError(messages, ticketErrors.email[0])}</p>
+            )}
+          </div>
+          {(ticketError || ticketErrors.transcript) && (
+            <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+              {ticketError ?? translateError(messages, ticketErrors.transcript?.[0])}
+            </p>
+          )}
+          <PolicyNotice />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setTicketState("closed")}>
+              {copy.cancel}
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+              {isSubmitting ? copy.ticketSubmitting : copy.ticketSubmit}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {ticketState === "created" && (
+        <p role="status" className="text-center text-sm font-medium text-slate-900 dark:text-white">
+          {copy.ticketCreated}
+        </p>
+      )}
+    </div>
+  )
+}
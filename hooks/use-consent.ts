@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react"
+
+import { getConsentState, getServerConsentState, subscribeConsent, type ConsentState } from "@/lib/analytics/consent"
+
+/**
+ * The visitor's analytics choice, kept in sync across components and tabs
+ *
+ * Undecided while hydrating, so the server and first client render match.
+ */
+export function useConsent(): ConsentState {
+  return useSyncExternalStore(subscribeConsent, getConsentState, getServerConsentState)
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from "react"
+
+export type Easing = (progress: number) => number
+
+/**
+ * Ease-out cubic: fast start, gentle landing on the final value
+ */
+export const easeOutCubic: Easing = (progress) => 1 - Math.pow(1 - progress, 3)
+
+export interface CountUpOptions {
+  // Animation length in milliseconds
+  duration?: number
+  easing?: Easing
+  // Locale and options passed to Intl.NumberFormat for the formatted value
+  locale?: string
+  formatOptions?: Intl.NumberFormatOptions
+  // Share of the element that must be visible before counting starts
+  threshold?: number
+}
+
+/**
+ * Count a number up from zero once its element scrolls into view
+ *
+ * Attach the returned `ref` to the element showing the number. The animation
+ * is driven by requestAnimationFrame, runs once per mounted element, is
+ * cancelled on unmount and jumps straight to the target when the visitor
+ * prefers reduced motion.
+ */
+export function useCountUp<T extends Element = HTMLDivElement>(target: number, options: CountUpOptions = {}) {
+  const { duration = 2000, easing = easeOutCubic, locale, formatOptions, threshold = 0.5 } = options
+
+  const ref = useRef<T>(null)
+  const [value, setValue] = useState(0)
+
+  // Whether the animation already played for this element
+  const hasRunRef = useRef(false)
+
+  useEffect(() => {
+    // After the first run, later target changes are shown without re-animating
+    if (hasRunRef.current) {
+      setValue(target)
+      return
+    }
+
+    const element = ref.current
+    if (!element) return
+
+    let frame = 0
+
+    const run = () => {
+      hasRunRef.current = true
+      const prefersReducedMotion = window.matchMedia?.("(prefers-reduced-motion: reduce)").matches
+      if (prefersReducedMotion || duration <= 0) {
+        setValue(target)
+        return
+      }
+
+      const startTime = performance.now()
+      const tick = (now: number) => {
+        const progress = Math.min(Math.max((now - startTime) / duration, 0), 1)
+        setValue(target * easing(progress))
+        if (progress < 1) {
+          frame = requestAnimationFrame(tick)
+        }
+      }
+      frame = requestAnimationFrame(tick)
+    }
+
+    // Without IntersectionObserver support, count up straight away
+    if (typeof IntersectionObserver === "undefined") {
+      run()
+      return () => cancelAnimationFrame(frame)
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          observer.disconnect() // Once per view: never restart on re-entry
+          run()
+        }
+      },
+      { threshold },
+    )
+    observer.observe(element)
+
+    return () => {
+      observer.disconnect()
+      cancelAnimationFrame(frame)
+    }
+  }, [target, duration, easing, threshold])
+
+  const rounded = Math.round(value)
+  const formatted = new Intl.NumberFormat(locale, formatOptions).format(rounded)
+
+  return { ref, value: rounded, formatted }
+}
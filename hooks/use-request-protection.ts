@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import type { Protection } from "@/lib/abuse/schema"
+import { fetchChallenge, solveChallenge, type Challenge } from "@/lib/abuse/solve"
+
+export interface RequestProtectionOptions {
+  // Fetch the first challenge on mount, so the server can time how long the form took
+  prefetch?: boolean
+}
+
+/**
+ * Anti-abuse fields for requests to protected endpoints
+ *
+ * `protect()` resolves to the `protection` object to send with a request:
+ * a single-use challenge token, its proof-of-work solution and the honeypot
+ * value. Bind `honeypot` to a <HoneypotField />. After each use the next
+ * challenge is fetched in the background, still timed from when the form
+ * was loaded so a resubmit isn't refused as too fast.
+ */
+export function useRequestProtection({ prefetch = false }: RequestProtectionOptions = {}) {
+  const [honeypot, setHoneypot] = useState("")
+  const challengeRef = useRef<Promise<Challenge> | null>(null)
+
+  const refresh = useCallback((replaces?: string) => {
+    const pending = fetchChallenge(replaces)
+    // Failures surface when the challenge is used, not as unhandled rejections
+    pending.catch(() => undefined)
+    challengeRef.current = pending
+  }, [])
+
+  /**
+   * Effect: Start the form timer as soon as it is shown
+   */
+  useEffect(() => {
+    if (prefetch) refresh()
+  }, [prefetch, refresh])
+
+  const protect = useCallback(async (): Promise<Protection> => {
+    // Reuse the prefetched token if it arrived, otherwise ask again
+    const challenge = await (challengeRef.current ?? fetchChallenge()).catch(() => fetchChallenge())
+    challengeRef.current = null
+    if (prefetch) refresh(challenge.token)
+
+    return { token: challenge.token, solution: await solveChallenge(challenge), website: honeypot }
+  }, [honeypot, prefetch, refresh])
+
+  return { protect, honeypot, setHoneypot }
+}
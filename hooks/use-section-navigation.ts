@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { HEADER_HEIGHT, HOME_SECTION_ID } from "@/lib/navigation"
+
+// How long scrolling must pause before a click-started scroll counts as finished
+const SCROLL_IDLE_MS = 150
+
+/**
+ * Hash for a section, with the home section shown as the bare page URL
+ */
+function sectionUrl(id: string): string {
+  const { pathname, search } = window.location
+  return id === HOME_SECTION_ID ? `${pathname}${search}` : `${pathname}${search}#${id}`
+}
+
+/**
+ * Scroll spy and URL hash sync for the landing page sections
+ *
+ * `activeId` is the section under the fixed header, tracked with an
+ * IntersectionObserver; the URL hash follows it with `replaceState`, so
+ * scrolling never floods the history. `goTo()` pushes a history entry, so back
+ * and forward return to previously chosen sections. A hash in the URL on
+ * load is scrolled to once the page has hydrated. Scrolling honours the
+ * `scroll-padding-top` set for the header and the visitor's reduced-motion
+ * setting (both in globals.css).
+ */
+export function useSectionNavigation(sectionIds: readonly string[]) {
+  const [activeId, setActiveId] = useState<string>(HOME_SECTION_ID)
+  // Section chosen in the menu while the page scrolls to it; the spy waits until it arrives
+  const pendingRef = useRef<string | null>(null)
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout>>()
+
+  /**
+   * Release the spy once scrolling pauses (or never starts, when the section is already in view)
+   */
+  const waitForScrollEnd = useCallback(() => {
+    clearTimeout(idleTimerRef.current)
+    idleTimerRef.current = setTimeout(() => {
+      pendingRef.current = null
+    }, SCROLL_IDLE_MS)
+  }, [])
+
+  /**
+   * Scroll a section into view and move focus to it
+   */
+  const reveal = useCallback((id: string) => {
+    const section = document.getElementById(id)
+    if (!section) return false
+    section.scrollIntoView()
+    if (!section.hasAttribute("tabindex")) section.setAttribute("tabindex", "-1")
+    section.focus({ preventScroll: true })
+    return true
+  }, [])
+
+  /**
+   * Navigate to a section from the menu, adding a history entry
+   */
+  const goTo = useCallback(
+    (id: string) => {
+      if (!document.getElementById(id)) return
+      pendingRef.current = id
+      setActiveId(id)
+      // Passing the router's own state keeps Next.js from re-rendering for a hash change
+      window.history.pushState(window.history.state, "", sectionUrl(id))
+      reveal(id)
+      waitForScrollEnd()
+    },
+    [reveal, waitForScrollEnd],
+  )
+
+  /**
+   * Effect: Highlight the section under the header and mirror it in the URL
+   */
+  useEffect(() => {
+    const sections = sectionIds
+      .map((id) => document.getElementById(id))
+      .filter((section): section is HTMLElement => Boolean(section))
+    const visible = new Set<string>()
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) visible.add(entry.target.id)
+          else visible.delete(entry.target.id)
+        }
+        if (pendingRef.current) return
+        // The first section in page order inside the band below the header
+        const current = sectionIds.find((id) => visible.has(id))
+        if (!current) return
+        setActiveId(current)
+        if (sectionUrl(current) !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+          window.history.replaceState(window.history.state, "", sectionUrl(current))
+        }
+      },
+      // A band from just below the header to 40% of the way down the viewport
+      { rootMargin: `-${HEADER_HEIGHT}px 0px -60% 0px` },
+    )
+    sections.forEach((section) => observer.observe(section))
+
+    const handleScroll = () => {
+      if (pendingRef.current) waitForScrollEnd()
+    }
+    window.addEventListener("scroll", handleScroll, { passive: true })
+
+    return () => {
+      observer.disconnect()
+      clearTimeout(idleTimerRef.current)
+      window.removeEventListener("scroll", handleScroll)
+    }
+  }, [sectionIds, waitForScrollEnd])
+
+  /**
+   * Effect: Deep links on load and back/forward between sections
+   */
+  useEffect(() => {
+    const showHash = () => {
+      const id = decodeURIComponent(window.location.hash.slice(1)) || HOME_SECTION_ID
+      if (!sectionIds.includes(id)) return
+      pendingRef.current = id
+      setActiveId(id)
+      reveal(id)
+      waitForScrollEnd()
+    }
+    // Content above the target may have changed height since the browser's own jump
+    if (window.location.hash) showHash()
+    window.addEventListener("popstate", showHash)
+    return () => window.removeEventListener("popstate", showHash)
+  }, [sectionIds, reveal, waitForScrollEnd])
+
+  return { activeId, goTo }
+}
@@ -0,0 +1,116 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto"
+
+import { hasLeadingZeroBits, proofInput } from "@/lib/abuse/pow"
+import type { Protection } from "@/lib/abuse/schema"
+import type { ErrorKey } from "@/lib/i18n/messages"
+
+/**
+ * Request Challenges
+ *
+ * GET /api/challenge hands out a signed, single-use token recording when the
+ * form was loaded and when the token was issued. Protected endpoints verify
+ * the signature, refuse reused tokens, and can require a minimum age (how
+ * long a human needs to fill in a form) and a proof-of-work solution when
+ * `POW_DIFFICULTY` is above zero. A token fetched to replace a spent one
+ * keeps that one's form load time, so resubmitting a corrected form is not
+ * timed from scratch.
+ * Tokens, and the browser session id the rate limits count against, are
+ * signed with `ABUSE_SECRET`, or a per-process random key.
+ */
+
+// Tokens stay valid long enough for a visitor who leaves the form open all day
+const TOKEN_TTL_MS = 24 * 60 * 60 * 1000
+
+// Kept on globalThis: every route bundle gets its own copy of this module, but
+// a token issued by /api/challenge must verify (once) in all of them
+const shared = globalThis as typeof globalThis & {
+  challengeSecret?: string
+  // Tokens already spent, with their expiry time
+  spentChallenges?: Map<string, number>
+}
+const processSecret = (shared.challengeSecret ??= randomBytes(32).toString("hex"))
+const usedTokens = (shared.spentChallenges ??= new Map<string, number>())
+
+function sign(value: string): string {
+  return createHmac("sha256", process.env.ABUSE_SECRET ?? processSecret)
+    .update(value)
+    .digest("base64url")
+}
+
+function hasValidSignature(payload: string, signature: string | undefined): boolean {
+  const expected = sign(payload)
+  return !!signature && signature.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+}
+
+/**
+ * New browser session cookie value: random id and signature
+ */
+export function issueSession(): string {
+  const id = randomUUID()
+  return `${id}.${sign(id)}`
+}
+
+/**
+ * Session id from a cookie value, or null when it was not issued by us
+ */
+export function verifySession(value: string | undefined): string | null {
+  const [id, signature] = value?.split(".") ?? []
+  return id && hasValidSignature(id, signature) ? id : null
+}
+
+/**
+ * Number of leading zero bits a proof-of-work solution needs (0 disables the puzzle)
+ */
+export function challengeDifficulty(): number {
+  const difficulty = Number(process.env.POW_DIFFICULTY ?? 0)
+  return Number.isInteger(difficulty) ? Math.min(Math.max(difficulty, 0), 24) : 0
+}
+
+// Splits a token into its signed fields; undefined when the signature is wrong
+function readToken(token: string): { loadedAt: number; issuedAt: number } | undefined {
+  const [loadedAt, issuedAt, nonce, signature] = token.split(".")
+  if (!hasValidSignature(`${loadedAt}.${issuedAt}.${nonce}`, signature)) return undefined
+  return { loadedAt: Number(loadedAt), issuedAt: Number(issuedAt) }
+}
+
+/**
+ * New challenge token: form load time, issue time, random nonce and signature
+ *
+ * Pass the token it replaces to carry over that one's form load time.
+ */
+export function issueChallenge(now = Date.now(), replaces?: string): { token: string; difficulty: number } {
+  const previous = replaces ? readToken(replaces) : undefined
+  const loadedAt = previous && now - previous.issuedAt <= TOKEN_TTL_MS ? previous.loadedAt : now
+  const payload = `${loadedAt}.${now}.${randomBytes(12).toString("base64url")}`
+  return { token: `${payload}.${sign(payload)}`, difficulty: challengeDifficulty() }
+}
+
+/**
+ * Check a request's challenge and honeypot; returns an error key when it must be refused
+ */
+export function verifyChallenge(
+  protection: Protection,
+  options: { minAgeMs?: number } = {},
+  now = Date.now(),
+): ErrorKey | null {
+  if (protection.website) return "submissionRejected"
+
+  const token = readToken(protection.token)
+  if (!token) return "challengeInvalid"
+
+  if (now - token.issuedAt > TOKEN_TTL_MS || usedTokens.has(protection.token)) return "challengeInvalid"
+  if (options.minAgeMs && now - token.loadedAt < options.minAgeMs) return "submittedTooFast"
+
+  const difficulty = challengeDifficulty()
+  if (difficulty > 0) {
+    const digest = createHash("sha256").update(proofInput(protection.token, protection.solution)).digest()
+    if (!hasLeadingZeroBits(digest, difficulty)) return "challengeInvalid"
+  }
+
+  // Spend the token and forget expired ones
+  for (const [token, expiresAt] of usedTokens) {
+    if (expiresAt < now) usedTokens.delete(token)
+  }
+  usedTokens.set(protection.token, token.issuedAt + TOKEN_TTL_MS)
+  return null
+}
@@ -0,0 +1,25 @@
+import type { Lead, NewLead } from "@/lib/leads/schema"
+
+// Same visitor, same words, within a day: treat as a resubmission
+const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ")
+
+/**
+ * Find an earlier lead the new one merely repeats (double clicks, reloads, bots replaying a post)
+ */
+export function findDuplicateLead(
+  leads: Lead[],
+  candidate: Pick<NewLead, "email" | "message" | "source">,
+  now = Date.now(),
+): Lead | undefined {
+  const email = normalize(candidate.email)
+  const message = normalize(candidate.message)
+  return leads.find(
+    (lead) =>
+      lead.source === candidate.source &&
+      now - new Date(lead.createdAt).getTime() < DUPLICATE_WINDOW_MS &&
+      normalize(lead.email) === email &&
+      normalize(lead.message) === message,
+  )
+}
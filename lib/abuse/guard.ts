@@ -0,0 +1,125 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { verifyChallenge, verifySession } from "@/lib/abuse/challenge"
+import { hitRateLimit, type RateLimit } from "@/lib/abuse/rate-limit"
+import { protectedRequestSchema } from "@/lib/abuse/schema"
+import type { ErrorKey } from "@/lib/i18n/messages"
+
+/**
+ * Endpoint Abuse Guard
+ *
+ * One call at the top of each public POST handler: rate limits per client IP
+ * and per browser session, then the challenge token (single use, honeypot,
+ * minimum fill time, proof of work). Requests without a validly signed
+ * session cookie are refused, since every page fetches a challenge (and with
+ * it the cookie) before it submits. Returns the response to send when the request is
+ * refused, or null to carry on.
+ */
+
+// Browser session cookie, set when a page fetches its first challenge
+export const SESSION_COOKIE = "torestech_sid"
+
+export interface AbusePolicy {
+  // Rate limit bucket name, e.g. "leads"
+  name: string
+  perIp: RateLimit
+  perSession: RateLimit
+  // Minimum time between loading a form and submitting it
+  minAgeMs?: number
+}
+
+const MINUTE = 60 * 1000
+
+export const ABUSE_POLICIES = {
+  leads: {
+    name: "leads",
+    perIp: { limit: 10, windowMs: 60 * MINUTE },
+    perSession: { limit: 5, windowMs: 60 * MINUTE },
+    minAgeMs: 3000,
+  },
+  healthCheck: {
+    name: "health-check",
+    perIp: { limit: 10, windowMs: 60 * MINUTE },
+    perSession: { limit: 5, windowMs: 60 * MINUTE },
+    minAgeMs: 5000,
+  },
+  tickets: {
+    name: "tickets",
+    perIp: { limit: 10, windowMs: 60 * MINUTE },
+    perSession: { limit: 5, windowMs: 60 * MINUTE },
+    minAgeMs: 3000,
+  },
+  bookings: {
+    name: "bookings",
+    perIp: { limit: 10, windowMs: 60 * MINUTE },
+    perSession: { limit: 5, windowMs: 60 * MINUTE },
+    minAgeMs: 3000,
+  },
+  // Each sign-in attempt sends an email
+  portalSignIn: {
+    name: "portal-sign-in",
+    perIp: { limit: 10, windowMs: 60 * MINUTE },
+    perSession: { limit: 5, windowMs: 60 * MINUTE },
+  },
+  // The AI endpoints cost money per call, so they get the tighter budget
+  // Each chat turn is a call, so a conversation uses several
+  troubleshoot: {
+    name: "troubleshoot",
+    perIp: { limit: 60, windowMs: 60 * MINUTE },
+    perSession: { limit: 30, windowMs: 60 * MINUTE },
+  },
+  explain: {
+    name: "explain",
+    perIp: { limit: 30, windowMs: 60 * MINUTE },
+    perSession: { limit: 15, windowMs: 60 * MINUTE },
+  },
+} satisfies Record<string, AbusePolicy>
+
+// HTTP status for each refusal
+const STATUS: Partial<Record<ErrorKey, number>> = {
+  submissionRejected: 400,
+  submittedTooFast: 400,
+  challengeInvalid: 403,
+}
+
+/**
+ * Client IP as seen by the platform. Behind a proxy of our own (`TRUST_PROXY`
+ * set to "true") the last hop in X-Forwarded-For is the one it appended;
+ * otherwise anyone can send the header, so every request without a platform
+ * IP shares one "unknown" bucket.
+ */
+export function clientIp(request: NextRequest): string {
+  const forwarded =
+    process.env.TRUST_PROXY === "true" ? request.headers.get("x-forwarded-for")?.split(",").pop()?.trim() : undefined
+  return request.ip || forwarded || "unknown"
+}
+
+/**
+ * Refuse the request when it breaks a rate limit or fails its challenge
+ */
+export function guardRequest(request: NextRequest, body: unknown, policy: AbusePolicy): NextResponse | null {
+  const session = verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!session) {
+    return NextResponse.json({ error: "challengeInvalid" }, { status: 403 })
+  }
+
+  const hits = [
+    hitRateLimit(`${policy.name}:ip:${clientIp(request)}`, policy.perIp),
+    hitRateLimit(`${policy.name}:sid:${session}`, policy.perSession),
+  ]
+  const limited = hits.find((hit) => !hit.allowed)
+  if (limited) {
+    return NextResponse.json(
+      { error: "rateLimited" },
+      { status: 429, headers: { "Retry-After": String(limited.retryAfter) } },
+    )
+  }
+
+  const parsed = protectedRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: "challengeInvalid" }, { status: 403 })
+  }
+
+  const refusal = verifyChallenge(parsed.data.protection, { minAgeMs: policy.minAgeMs })
+  return refusal ? NextResponse.json({ error: refusal }, { status: STATUS[refusal] ?? 400 }) : null
+}
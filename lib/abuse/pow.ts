@@ -0,0 +1,26 @@
+/**
+ * Proof-of-Work Puzzle
+ *
+ * A solution is a counter such that SHA-256("<token>:<counter>") starts with
+ * `difficulty` zero bits. Shared by the browser solver and the server check.
+ */
+
+export function proofInput(token: string, solution: number): string {
+  return `${token}:${solution}`
+}
+
+/**
+ * Whether a digest starts with at least `bits` zero bits
+ */
+export function hasLeadingZeroBits(digest: Uint8Array, bits: number): boolean {
+  for (let index = 0; index < digest.length && bits > 0; index++) {
+    const byte = digest[index]
+    if (bits >= 8) {
+      if (byte !== 0) return false
+      bits -= 8
+    } else {
+      return byte >> (8 - bits) === 0
+    }
+  }
+  return true
+}
@@ -0,0 +1,50 @@
+/**
+ * Fixed-Window Rate Limiter
+ *
+ * Counts hits per key in memory. That is enough for a single Node server; a
+ * multi-instance deployment should front the site with its platform's rate
+ * limiting as well, since each instance keeps its own counters.
+ */
+
+export interface RateLimit {
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  // Seconds until the current window resets
+  retryAfter: number
+}
+
+interface Window {
+  count: number
+  resetAt: number
+}
+
+const windows = new Map<string, Window>()
+
+// Sweep expired windows once the map grows, so one-off visitors don't pile up
+const SWEEP_THRESHOLD = 10_000
+
+function sweep(now: number) {
+  for (const [key, window] of windows) {
+    if (window.resetAt <= now) windows.delete(key)
+  }
+}
+
+/**
+ * Record a hit for a key and report whether it is within the limit
+ */
+export function hitRateLimit(key: string, { limit, windowMs }: RateLimit, now = Date.now()): RateLimitResult {
+  if (windows.size > SWEEP_THRESHOLD) sweep(now)
+
+  let window = windows.get(key)
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + windowMs }
+    windows.set(key, window)
+  }
+  window.count++
+
+  return { allowed: window.count <= limit, retryAfter: Math.ceil((window.resetAt - now) / 1000) }
+}
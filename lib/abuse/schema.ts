@@ -0,0 +1,18 @@
+import { z } from "zod"
+
+/**
+ * Anti-abuse fields sent alongside every protected request
+ */
+export const protectionSchema = z.object({
+  // Signed challenge from GET /api/challenge
+  token: z.string().min(1).max(300),
+  // Proof-of-work counter; 0 when the puzzle is disabled
+  solution: z.number().int().min(0),
+  // Honeypot: a visually hidden field only bots fill in
+  website: z.string().max(200).optional(),
+})
+
+export type Protection = z.infer<typeof protectionSchema>
+
+// Request body wrapper: the endpoint's own fields plus `protection`
+export const protectedRequestSchema = z.object({ protection: protectionSchema })
@@ -0,0 +1,35 @@
+import { hasLeadingZeroBits, proofInput } from "@/lib/abuse/pow"
+
+export interface Challenge {
+  token: string
+  difficulty: number
+}
+
+/**
+ * Fetch a fresh challenge token for the next protected request
+ *
+ * `replaces` is the token just spent on the same form, whose load time the
+ * new one keeps.
+ */
+export async function fetchChallenge(replaces?: string): Promise<Challenge> {
+  const query = replaces ? `?replaces=${encodeURIComponent(replaces)}` : ""
+  const response = await fetch(`/api/challenge${query}`, { cache: "no-store" })
+  if (!response.ok) throw new Error(`Challenge request failed with ${response.status}`)
+  return response.json()
+}
+
+/**
+ * Find a proof-of-work solution in the browser
+ *
+ * Uses Web Crypto; a 16-bit difficulty takes roughly a second on a phone.
+ * Returns 0 straight away when the puzzle is disabled.
+ */
+export async function solveChallenge({ token, difficulty }: Challenge): Promise<number> {
+  if (difficulty <= 0) return 0
+
+  const encoder = new TextEncoder()
+  for (let solution = 0; ; solution++) {
+    const digest = await crypto.subtle.digest("SHA-256", encoder.encode(proofInput(token, solution)))
+    if (hasLeadingZeroBits(new Uint8Array(digest), difficulty)) return solution
+  }
+}
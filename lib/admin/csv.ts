@@ -0,0 +1,35 @@
+import type { Lead } from "@/lib/leads/schema"
+import { describeEstimate } from "@/lib/pricing/estimate"
+
+// Exported columns, in order
+const COLUMNS: { header: string; value: (lead: Lead) => string }[] = [
+  { header: "ID", value: (lead) => lead.id },
+  { header: "Created", value: (lead) => lead.createdAt },
+  { header: "Source", value: (lead) => lead.source },
+  { header: "Name", value: (lead) => lead.fullName },
+  { header: "Email", value: (lead) => lead.email },
+  { header: "Service", value: (lead) => lead.service },
+  { header: "Status", value: (lead) => lead.status },
+  { header: "Assignee", value: (lead) => lead.assignee ?? "" },
+  { header: "Tags", value: (lead) => lead.tags.join("; ") },
+  { header: "Privacy policy", value: (lead) => lead.privacyPolicyVersion ?? "" },
+  { header: "Health score", value: (lead) => (lead.assessment ? String(lead.assessment.overallScore) : "") },
+  { header: "Estimate", value: (lead) => (lead.estimate ? describeEstimate(lead.estimate) : "") },
+  { header: "Message", value: (lead) => lead.message },
+]
+
+/**
+ * Quote a CSV cell, neutralising values a spreadsheet would run as a formula
+ */
+function escapeCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * Serialise leads as RFC 4180 CSV
+ */
+export function leadsToCsv(leads: Lead[]): string {
+  const rows = [COLUMNS.map((column) => column.header), ...leads.map((lead) => COLUMNS.map((column) => column.value(lead)))]
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n"
+}
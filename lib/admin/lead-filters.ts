@@ -0,0 +1,53 @@
+import { LEAD_STATUSES, SERVICE_OPTIONS, type Lead, type LeadStatus, type ServiceValue } from "@/lib/leads/schema"
+
+/**
+ * Lead Filters
+ *
+ * Dashboard filters live in the URL query (`service`, `status`, `q`) so a
+ * filtered view can be bookmarked, shared and exported as-is.
+ */
+export interface LeadFilters {
+  service?: ServiceValue
+  status?: LeadStatus
+  // Free-text search over name, email, message, tags and assignee
+  query?: string
+}
+
+type SearchParams = Record<string, string | string[] | undefined> | URLSearchParams
+
+function param(searchParams: SearchParams, key: string): string | undefined {
+  const value = searchParams instanceof URLSearchParams ? searchParams.get(key) : searchParams[key]
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined
+}
+
+/**
+ * Read filters from page search params or a request URL, ignoring unknown values
+ */
+export function parseLeadFilters(searchParams: SearchParams): LeadFilters {
+  const service = param(searchParams, "service")
+  const status = param(searchParams, "status")
+  return {
+    service: SERVICE_OPTIONS.find((option) => option.value === service)?.value,
+    status: LEAD_STATUSES.find((option) => option.value === status)?.value,
+    query: param(searchParams, "q"),
+  }
+}
+
+/**
+ * Apply filters to leads, newest first
+ */
+export function filterLeads(leads: Lead[], filters: LeadFilters): Lead[] {
+  const terms = filters.query?.toLowerCase().split(/\s+/) ?? []
+
+  return leads
+    .filter((lead) => !filters.service || lead.service === filters.service)
+    .filter((lead) => !filters.status || lead.status === filters.status)
+    .filter((lead) => {
+      if (!terms.length) return true
+      const haystack = [lead.fullName, lead.email, lead.message, lead.assignee ?? "", ...lead.tags]
+        .join(" ")
+        .toLowerCase()
+      return terms.every((term) => haystack.includes(term))
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
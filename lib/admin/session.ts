@@ -0,0 +1,72 @@
+import { cookies } from "next/headers"
+import { redirect } from "next/navigation"
+
+import { safeEqual, signValue } from "@/lib/auth/signing"
+
+/**
+ * Admin Session
+ *
+ * The dashboard is protected by a shared password (`ADMIN_PASSWORD`). Signing
+ * in sets an HMAC-signed, expiring cookie; the signing key is
+ * `ADMIN_SESSION_SECRET`, falling back to the password itself. Without a
+ * password the admin area stays locked.
+ */
+
+export const ADMIN_SESSION_COOKIE = "torestech_admin"
+
+// Sessions last one working day
+export const ADMIN_SESSION_TTL_SECONDS = 12 * 60 * 60
+
+export function isAdminConfigured(): boolean {
+  return Boolean(process.env.ADMIN_PASSWORD)
+}
+
+function sessionSecret(): string {
+  const secret = process.env.ADMIN_SESSION_SECRET ?? process.env.ADMIN_PASSWORD
+  if (!secret) throw new Error("ADMIN_PASSWORD is not configured")
+  return secret
+}
+
+function sign(value: string): string {
+  return signValue(sessionSecret(), value)
+}
+
+/**
+ * Check a sign-in attempt against the configured password
+ */
+export function checkAdminPassword(password: string): boolean {
+  const expected = process.env.ADMIN_PASSWORD
+  return Boolean(expected) && safeEqual(password, expected as string)
+}
+
+/**
+ * New session token: expiry timestamp plus its signature
+ */
+export function createSessionToken(now = Date.now()): string {
+  const expiresAt = String(now + ADMIN_SESSION_TTL_SECONDS * 1000)
+  return `${expiresAt}.${sign(expiresAt)}`
+}
+
+/**
+ * Whether a token was signed by us and has not expired
+ */
+export function verifySessionToken(token: string | undefined, now = Date.now()): boolean {
+  if (!token || !isAdminConfigured()) return false
+  const [expiresAt, signature] = token.split(".")
+  if (!expiresAt || !signature || !safeEqual(signature, sign(expiresAt))) return false
+  return Number(expiresAt) > now
+}
+
+/**
+ * Whether the current request carries a valid admin session
+ */
+export function isAdminRequest(): boolean {
+  return verifySessionToken(cookies().get(ADMIN_SESSION_COOKIE)?.value)
+}
+
+/**
+ * Send visitors without a session to the sign-in page
+ */
+export function requireAdmin(): void {
+  if (!isAdminRequest()) redirect("/admin/login")
+}
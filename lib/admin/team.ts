@@ -0,0 +1,9 @@
+/**
+ * Team members leads can be assigned to, from the comma-separated `ADMIN_TEAM` list
+ */
+export function getTeamMembers(): string[] {
+  return (process.env.ADMIN_TEAM ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+}
@@ -0,0 +1,112 @@
+/**
+ * LLM Client
+ *
+ * Thin client for any OpenAI-compatible chat completions API, configured with:
+ * - `AI_API_KEY`: API key (the client is disabled when unset)
+ * - `AI_BASE_URL`: API base URL, defaults to https://api.openai.com/v1
+ * - `AI_MODEL`: model name, defaults to gpt-4o-mini
+ */
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+interface ChatOptions {
+  signal?: AbortSignal
+  temperature?: number
+  maxTokens?: number
+}
+
+/**
+ * Error raised when the upstream model API fails
+ */
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message)
+    this.name = "LlmError"
+  }
+}
+
+/**
+ * Whether an API key is configured for the model provider
+ */
+export function isLlmConfigured(): boolean {
+  return Boolean(process.env.AI_API_KEY)
+}
+
+/**
+ * POST a chat completion request and return the raw response
+ */
+async function requestCompletion(messages: ChatMessage[], stream: boolean, options: ChatOptions): Promise<Response> {
+  const apiKey = process.env.AI_API_KEY
+  if (!apiKey) {
+    throw new LlmError("AI_API_KEY is not configured")
+  }
+
+  const baseUrl = (process.env.AI_BASE_URL ?? "https://api.openai.com/v1").replace(/\/$/, "")
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model: process.env.AI_MODEL ?? "gpt-4o-mini",
+      messages,
+      stream,
+      temperature: options.temperature ?? 0.3,
+      max_tokens: options.maxTokens ?? 700,
+    }),
+    signal: options.signal,
+  })
+
+  if (!response.ok) {
+    throw new LlmError(`Model API responded with ${response.status}`, response.status)
+  }
+  return response
+}
+
+/**
+ * Request a complete (non-streamed) answer
+ */
+export async function completeChat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+  const response = await requestCompletion(messages, false, options)
+  const data = await response.json()
+  return data.choices?.[0]?.message?.content ?? ""
+}
+
+/**
+ * Stream an answer as text deltas, parsed from the server-sent events body
+ */
+export async function* streamChat(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+  const response = await requestCompletion(messages, true, options)
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    // Each SSE event is a "data: {...}" line; keep any partial line for the next chunk
+    const lines = buffer.split("\n")
+    buffer = lines.pop() ?? ""
+    for (const line of lines) {
+      const payload = line.replace(/^data:\s*/, "").trim()
+      if (!payload || payload === "[DONE]" || !line.startsWith("data:")) continue
+      try {
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content
+        if (delta) yield delta
+      } catch {
+        // Ignore keep-alive or malformed events
+      }
+    }
+  }
+}
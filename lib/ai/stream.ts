@@ -0,0 +1,24 @@
+/**
+ * Convert an async iterable of text chunks into a streamed HTTP body
+ *
+ * Errors raised mid-stream are logged and end the stream with a short notice,
+ * because the response status has already been sent by then.
+ */
+export function toTextStream(chunks: AsyncIterable<string>, errorMessage: string): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const chunk of chunks) {
+          controller.enqueue(encoder.encode(chunk))
+        }
+      } catch (error) {
+        console.error("Streaming response failed", error)
+        controller.enqueue(encoder.encode(`\n${errorMessage}\n`))
+      } finally {
+        controller.close()
+      }
+    },
+  })
+}
@@ -0,0 +1,104 @@
+/**
+ * Analytics Consent
+ *
+ * The visitor's choice is kept in localStorage, so pages stay static and no
+ * cookie is set before they decide. Every analytics script and event checks
+ * it; nothing is sent until the visitor accepts. Bump `CONSENT_VERSION` when
+ * the analytics we run change, to ask everyone again.
+ */
+export type ConsentChoice = "granted" | "denied"
+
+export interface ConsentRecord {
+  analytics: ConsentChoice
+  version: number
+  decidedAt: string
+}
+
+export interface ConsentState {
+  // null until the visitor decides (or when the stored choice is outdated)
+  record: ConsentRecord | null
+  // The visitor reopened the banner to change their choice
+  settingsOpen: boolean
+}
+
+export const CONSENT_VERSION = 1
+
+const STORAGE_KEY = "torestech:consent"
+
+// Same object until something changes, as useSyncExternalStore requires
+const SERVER_STATE: ConsentState = { record: null, settingsOpen: false }
+let state: ConsentState | undefined
+const listeners = new Set<() => void>()
+
+function readRecord(): ConsentRecord | null {
+  try {
+    const record = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as ConsentRecord | null
+    if (record?.version !== CONSENT_VERSION || !["granted", "denied"].includes(record.analytics)) return null
+    return record
+  } catch {
+    // Unreadable or blocked storage counts as undecided
+    return null
+  }
+}
+
+function setState(next: ConsentState) {
+  state = next
+  listeners.forEach((listener) => listener())
+}
+
+// A choice made in another tab applies here too
+function onStorage(event: StorageEvent) {
+  if (event.key === STORAGE_KEY) setState({ record: readRecord(), settingsOpen: false })
+}
+
+/**
+ * Current consent state; undecided during server rendering
+ */
+export function getConsentState(): ConsentState {
+  if (typeof window === "undefined") return SERVER_STATE
+  state ??= { record: readRecord(), settingsOpen: false }
+  return state
+}
+
+export function getServerConsentState(): ConsentState {
+  return SERVER_STATE
+}
+
+/**
+ * Be notified when the choice changes, in this tab or another one
+ */
+export function subscribeConsent(listener: () => void): () => void {
+  listeners.add(listener)
+  if (listeners.size === 1) window.addEventListener("storage", onStorage)
+  return () => {
+    listeners.delete(listener)
+    if (!listeners.size) window.removeEventListener("storage", onStorage)
+  }
+}
+
+/**
+ * Record the visitor's choice and close the banner
+ */
+export function saveConsent(analytics: ConsentChoice) {
+  const record: ConsentRecord = { analytics, version: CONSENT_VERSION, decidedAt: new Date().toISOString() }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(record))
+  } catch {
+    // Storage may be full or blocked; the choice still applies to this page view
+  }
+  setState({ record, settingsOpen: false })
+}
+
+/**
+ * Show the banner again so the visitor can change their choice
+ */
+export function openConsentSettings() {
+  setState({ ...getConsentState(), settingsOpen: true })
+}
+
+/**
+ * Whether analytics may run
+ */
+export function hasAnalyticsConsent(): boolean {
+  return getConsentState().record?.analytics === "granted"
+}
@@ -0,0 +1,36 @@
+import { hasAnalyticsConsent } from "@/lib/analytics/consent"
+import { getAnalyticsProvider } from "@/lib/analytics/providers"
+
+/**
+ * Funnel Events
+ *
+ * The steps from landing to lead we measure, with their properties. Keep
+ * properties free of personal data: no names, emails or message text.
+ */
+export interface FunnelEvents {
+  // "Start free health check" in the hero
+  hero_cta_click: Record<string, never>
+  service_dialog_open: { service: string }
+  explanation_generate: { service: string }
+  // One per message sent to the support chat; `turn` counts the visitor's messages
+  troubleshoot_request: { turn: number }
+  // Estimate from the pricing section handed to the consultation form
+  estimate_attach: { tier: string; services: number }
+  // A form accepted by the server
+  form_submit: { form: "consultation" | "health_check" | "booking" | "support_ticket" }
+}
+
+export type FunnelEvent = keyof FunnelEvents
+
+/**
+ * Record a funnel step, if the visitor accepted analytics
+ */
+export function trackEvent<E extends FunnelEvent>(event: E, properties: FunnelEvents[E]) {
+  if (!hasAnalyticsConsent()) return
+  try {
+    getAnalyticsProvider().track(event, properties)
+  } catch (error) {
+    // Analytics must never break the page
+    console.error("Failed to track analytics event", error)
+  }
+}
@@ -0,0 +1,76 @@
+import { track as vercelTrack } from "@vercel/analytics"
+
+/**
+ * Analytics Provider Abstraction
+ *
+ * Funnel events go to one provider, selected with `NEXT_PUBLIC_ANALYTICS_PROVIDER`:
+ * - "vercel": Vercel Web Analytics custom events (the default in production)
+ * - "local": kept in memory and logged to the browser console (the default
+ *   in development); `recordedEvents()` returns them for tests
+ * - "none": discarded
+ * Consent is checked before any provider is called.
+ */
+export interface AnalyticsProvider {
+  name: string
+  // Loads the provider's page-view script once the visitor consents
+  hasScript: boolean
+  track(event: string, properties: Record<string, string | number | boolean>): void
+}
+
+export interface RecordedEvent {
+  event: string
+  properties: Record<string, string | number | boolean>
+  at: string
+}
+
+const recorded: RecordedEvent[] = []
+
+export function createVercelAnalyticsProvider(): AnalyticsProvider {
+  return {
+    name: "vercel",
+    hasScript: true,
+    track(event, properties) {
+      vercelTrack(event, properties)
+    },
+  }
+}
+
+export function createLocalAnalyticsProvider(): AnalyticsProvider {
+  return {
+    name: "local",
+    hasScript: false,
+    track(event, properties) {
+      recorded.push({ event, properties, at: new Date().toISOString() })
+      console.info(`[analytics] ${event}`, properties)
+    },
+  }
+}
+
+export function createNoopAnalyticsProvider(): AnalyticsProvider {
+  return { name: "none", hasScript: false, track() {} }
+}
+
+/**
+ * Events the local provider has received, oldest first
+ */
+export function recordedEvents(): readonly RecordedEvent[] {
+  return recorded
+}
+
+let provider: AnalyticsProvider | undefined
+
+/**
+ * Provider instance for the current environment
+ */
+export function getAnalyticsProvider(): AnalyticsProvider {
+  if (provider) return provider
+  const configured =
+    process.env.NEXT_PUBLIC_ANALYTICS_PROVIDER ?? (process.env.NODE_ENV === "production" ? "vercel" : "local")
+  provider =
+    configured === "vercel"
+      ? createVercelAnalyticsProvider()
+      : configured === "local"
+        ? createLocalAnalyticsProvider()
+        : createNoopAnalyticsProvider()
+  return provider
+}
@@ -0,0 +1,23 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto"
+
+/**
+ * Signing Helpers
+ *
+ * Shared by the admin and client portal sessions, whose cookies carry a
+ * payload plus an HMAC signature instead of server-side session state.
+ */
+
+/**
+ * HMAC-SHA256 signature of a value, base64url encoded
+ */
+export function signValue(secret: string, value: string): string {
+  return createHmac("sha256", secret).update(value).digest("base64url")
+}
+
+/**
+ * Constant-time string comparison (hashing first so lengths always match)
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest()
+  return timingSafeEqual(digest(a), digest(b))
+}
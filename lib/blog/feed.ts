@@ -0,0 +1,99 @@
+import type { PostSummary } from "@/lib/blog/posts"
+import { SITE_URL } from "@/lib/site"
+
+/**
+ * Blog Feeds
+ *
+ * RSS 2.0 and Atom 1.0 documents for the blog listing, one per site locale.
+ */
+
+export interface FeedOptions {
+  title: string
+  description: string
+  // Site path of the blog listing, e.g. "/en/blog"
+  path: string
+  // Site path of the feed itself
+  feedPath: string
+  language: string
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+// Articles carry a day; publish them at midnight UTC
+const toDate = (day: string) => new Date(`${day}T00:00:00Z`)
+
+/**
+ * RSS 2.0 feed
+ */
+export function renderRssFeed(posts: PostSummary[], options: FeedOptions): string {
+  const items = posts
+    .map((post) => {
+      const link = `${SITE_URL}${options.path}/${post.slug}`
+      return `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${link}</link>
+      <guid isPermaLink="true">${link}</guid>
+      <description>${escapeXml(post.description)}</description>
+      <pubDate>${toDate(post.date).toUTCString()}</pubDate>
+${post.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`).join("\n")}
+    </item>`
+    })
+    .join("\n")
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(options.title)}</title>
+    <link>${SITE_URL}${options.path}</link>
+    <description>${escapeXml(options.description)}</description>
+    <language>${options.language}</language>
+    <atom:link href="${SITE_URL}${options.feedPath}" rel="self" type="application/rss+xml" />
+${posts[0] ? `    <lastBuildDate>${toDate(posts[0].updated ?? posts[0].date).toUTCString()}</lastBuildDate>\n` : ""}${items}
+  </channel>
+</rss>
+`
+}
+
+/**
+ * Atom 1.0 feed
+ */
+export function renderAtomFeed(posts: PostSummary[], options: FeedOptions): string {
+  const updated = posts.reduce((latest, post) => {
+    const day = post.updated ?? post.date
+    return day > latest ? day : latest
+  }, "1970-01-01")
+  const entries = posts
+    .map((post) => {
+      const link = `${SITE_URL}${options.path}/${post.slug}`
+      return `  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <link href="${link}" />
+    <id>${link}</id>
+    <published>${toDate(post.date).toISOString()}</published>
+    <updated>${toDate(post.updated ?? post.date).toISOString()}</updated>
+    <author><name>${escapeXml(post.author)}</name></author>
+    <summary>${escapeXml(post.description)}</summary>
+${post.tags.map((tag) => `    <category term="${escapeXml(tag)}" />`).join("\n")}
+  </entry>`
+    })
+    .join("\n")
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${options.language}">
+  <title>${escapeXml(options.title)}</title>
+  <subtitle>${escapeXml(options.description)}</subtitle>
+  <link href="${SITE_URL}${options.path}" />
+  <link href="${SITE_URL}${options.feedPath}" rel="self" type="application/atom+xml" />
+  <id>${SITE_URL}${options.path}</id>
+  <updated>${toDate(updated).toISOString()}</updated>
+${entries}
+</feed>
+`
+}
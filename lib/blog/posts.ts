@@ -0,0 +1,162 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type React from "react"
+import { compileMDX } from "next-mdx-remote/rsc"
+import { z } from "zod"
+
+import { mdxComponents } from "@/components/blog/mdx-components"
+import { DEFAULT_LOCALE, LOCALES } from "@/lib/i18n/config"
+import { SERVICES, type ServiceSlug } from "@/lib/services/catalog"
+
+/**
+ * Blog Posts
+ *
+ * Articles are MDX files in `content/blog/`, named after their URL slug, with
+ * YAML frontmatter describing them. A file with invalid frontmatter fails the
+ * build with its name in the error, rather than silently disappearing.
+ */
+
+const BLOG_DIR = path.join(process.cwd(), "content", "blog")
+
+// Average adult reading speed for technical prose
+const WORDS_PER_MINUTE = 200
+
+const serviceSlugs = SERVICES.map((service) => service.slug) as [ServiceSlug, ...ServiceSlug[]]
+
+export const postFrontmatterSchema = z.object({
+  title: z.string().min(1),
+  // Used for listings, search results and feeds
+  description: z.string().min(1).max(300),
+  date: z.string().date(),
+  updated: z.string().date().optional(),
+  tags: z.array(z.string().trim().toLowerCase().regex(/^[a-z0-9-]+$/, "Tags are lowercase words joined by hyphens")).default([]),
+  // Catalog service the article supports, linked from that service's card
+  service: z.enum(serviceSlugs).optional(),
+  author: z.string().default("Torestech team"),
+  // Language the article is written in
+  lang: z.enum(LOCALES).default(DEFAULT_LOCALE),
+})
+
+export type PostFrontmatter = z.infer<typeof postFrontmatterSchema>
+
+export interface PostSummary extends PostFrontmatter {
+  slug: string
+  readingMinutes: number
+}
+
+export interface Post extends PostSummary {
+  content: React.ReactElement
+}
+
+/**
+ * Estimated reading time of an MDX body, in whole minutes
+ */
+export function readingMinutes(source: string): number {
+  const words = source
+    .replace(/^---[\s\S]*?---/, "")
+    .replace(/<[^>]+>/g, " ")
+    .split(/\s+/)
+    .filter(Boolean).length
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE))
+}
+
+// Compiled articles keyed by slug and modification time, so edits show up without a restart
+const compiled = new Map<string, Promise<Post>>()
+
+/**
+ * Compile one article, validating its frontmatter
+ */
+async function compilePost(slug: string): Promise<Post> {
+  const fileName = `${slug}.mdx`
+  const source = await fs.readFile(path.join(BLOG_DIR, fileName), "utf8")
+  const { content, frontmatter } = await compileMDX({
+    source,
+    components: mdxComponents,
+    options: { parseFrontmatter: true },
+  })
+  const parsed = postFrontmatterSchema.safeParse(frontmatter)
+  if (!parsed.success) {
+    throw new Error(`Invalid frontmatter in content/blog/${fileName}: ${JSON.stringify(parsed.error.flatten().fieldErrors)}`)
+  }
+  return { ...parsed.data, slug, readingMinutes: readingMinutes(source), content }
+}
+
+/**
+ * One compiled article, reusing the previous compilation while the file is unchanged
+ */
+async function loadPost(slug: string): Promise<Post> {
+  const { mtimeMs } = await fs.stat(path.join(BLOG_DIR, `${slug}.mdx`))
+  const key = `${slug}@${mtimeMs}`
+  let post = compiled.get(key)
+  if (!post) {
+    post = compilePost(slug)
+    compiled.set(key, post)
+    // A failed compilation is retried on the next request
+    post.catch(() => compiled.delete(key))
+  }
+  return post
+}
+
+/**
+ * Markdown body of an article, without its frontmatter, for indexing
+ */
+export async function getPostMarkdown(slug: string): Promise<string> {
+  const source = await fs.readFile(path.join(BLOG_DIR, `${slug}.mdx`), "utf8")
+  return source.replace(/^---[\s\S]*?---/, "").trim()
+}
+
+/**
+ * Slugs of every article on disk
+ */
+async function listSlugs(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(BLOG_DIR)
+    return files.filter((file) => file.endsWith(".mdx")).map((file) => file.slice(0, -".mdx".length))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+}
+
+/**
+ * Every article, newest first
+ */
+export async function getPosts(): Promise<PostSummary[]> {
+  const posts = await Promise.all((await listSlugs()).map(loadPost))
+  return posts
+    .map(({ content: _content, ...summary }): PostSummary => summary)
+    .sort((a, b) => b.date.localeCompare(a.date) || a.title.localeCompare(b.title))
+}
+
+/**
+ * One article with its rendered body, or undefined for an unknown slug
+ */
+export async function getPost(slug: string): Promise<Post | undefined> {
+  return (await listSlugs()).includes(slug) ? loadPost(slug) : undefined
+}
+
+/**
+ * Articles matching the listing filters; omitted filters match everything
+ */
+export function filterPosts(posts: PostSummary[], { tag, service }: { tag?: string; service?: string }): PostSummary[] {
+  return posts.filter((post) => (!tag || post.tags.includes(tag)) && (!service || post.service === service))
+}
+
+/**
+ * Newest articles about a catalog service
+ */
+export function postsForService(posts: PostSummary[], service: string, limit = 2): PostSummary[] {
+  return posts.filter((post) => post.service === service).slice(0, limit)
+}
+
+/**
+ * Other articles sharing the post's service or most of its tags
+ */
+export function relatedPosts(posts: PostSummary[], post: PostSummary, limit = 3): PostSummary[] {
+  const score = (other: PostSummary) =>
+    (post.service && other.service === post.service ? 2 : 0) + other.tags.filter((tag) => post.tags.includes(tag)).length
+  return posts
+    .filter((other) => other.slug !== post.slug && score(other) > 0)
+    .sort((a, b) => score(b) - score(a))
+    .slice(0, limit)
+}
@@ -0,0 +1,58 @@
+import { dataFilePath, readJsonFile, writeJsonFile } from "@/lib/storage/json-file"
+import { DEFAULT_AVAILABILITY, type Availability } from "@/lib/booking/schema"
+
+/**
+ * Availability Store
+ *
+ * The team's booking rules, edited from the admin dashboard. The adapter
+ * follows `BOOKING_STORE` ("file" by default, or "memory"), like the lead store.
+ */
+export interface AvailabilityStore {
+  // Resolves to the defaults until the team saves its own rules
+  get(): Promise<Availability>
+  save(availability: Availability): Promise<Availability>
+}
+
+/**
+ * JSON file adapter
+ */
+export function createFileAvailabilityStore(filePath = dataFilePath("availability.json")): AvailabilityStore {
+  return {
+    get() {
+      return readJsonFile<Availability>(filePath, DEFAULT_AVAILABILITY)
+    },
+    async save(availability) {
+      await writeJsonFile(filePath, availability)
+      return availability
+    },
+  }
+}
+
+/**
+ * In-memory adapter - nothing survives a restart
+ */
+export function createMemoryAvailabilityStore(): AvailabilityStore {
+  let current = DEFAULT_AVAILABILITY
+  return {
+    async get() {
+      return current
+    },
+    async save(availability) {
+      current = availability
+      return current
+    },
+  }
+}
+
+let availabilityStore: AvailabilityStore | undefined
+
+/**
+ * Shared availability store instance for the running server
+ */
+export function getAvailabilityStore(): AvailabilityStore {
+  if (!availabilityStore) {
+    availabilityStore =
+      process.env.BOOKING_STORE === "memory" ? createMemoryAvailabilityStore() : createFileAvailabilityStore()
+  }
+  return availabilityStore
+}
@@ -0,0 +1,88 @@
+/**
+ * iCalendar Invites
+ *
+ * Builds the `.ics` file attached to booking emails (RFC 5545), so the call
+ * lands in the visitor's and the team's calendars with one click.
+ */
+
+export interface CalendarInvite {
+  uid: string
+  // ISO instants
+  start: string
+  end: string
+  summary: string
+  description: string
+  organizer: { name: string; email: string }
+  attendee: { name: string; email: string }
+}
+
+/**
+ * 20261020T080000Z
+ */
+function formatUtc(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+/**
+ * Escape a TEXT value
+ */
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+/**
+ * Quote a parameter value such as a common name
+ */
+function quoteParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`
+}
+
+/**
+ * Fold a content line to 75 octets, continuing with a leading space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const chunks: string[] = []
+  let chunk = ""
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    // Continuation lines lose one octet to the leading space
+    if (octets + size > (chunks.length ? 74 : 75)) {
+      chunks.push(chunk)
+      chunk = ""
+      octets = 0
+    }
+    chunk += char
+    octets += size
+  }
+  chunks.push(chunk)
+  return chunks.join("\r\n ")
+}
+
+/**
+ * Calendar request for a single event, ready to attach as `text/calendar`
+ */
+export function calendarInvite(invite: CalendarInvite): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Torestech//Website bookings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:REQUEST",
+    "BEGIN:VEVENT",
+    `UID:${invite.uid}`,
+    `DTSTAMP:${formatUtc(new Date().toISOString())}`,
+    `DTSTART:${formatUtc(invite.start)}`,
+    `DTEND:${formatUtc(invite.end)}`,
+    `SUMMARY:${escapeText(invite.summary)}`,
+    `DESCRIPTION:${escapeText(invite.description)}`,
+    `ORGANIZER;CN=${quoteParam(invite.organizer.name)}:mailto:${invite.organizer.email}`,
+    `ATTENDEE;CN=${quoteParam(invite.attendee.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${invite.attendee.email}`,
+    "STATUS:CONFIRMED",
+    "SEQUENCE:0",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ]
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
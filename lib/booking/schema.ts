@@ -0,0 +1,102 @@
+import { z } from "zod"
+
+import { consultationSchema, type ServiceValue } from "@/lib/leads/schema"
+import type { Locale } from "@/lib/i18n/config"
+
+/**
+ * Booking Schemas
+ *
+ * Weekly availability set by the team and consultation calls booked against
+ * it. Times of day are wall-clock "HH:mm" in the business time zone; booked
+ * slots are stored as UTC instants. Error messages are i18n error keys, like
+ * the lead schemas.
+ */
+
+// Weekday names by `Date#getDay()` index, for the admin editor
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use the 24-hour HH:mm format.")
+
+/**
+ * A recurring weekly window in which calls can be booked
+ */
+export const availabilityWindowSchema = z
+  .object({
+    weekday: z.number().int().min(0).max(6),
+    start: timeOfDay,
+    end: timeOfDay,
+  })
+  .refine((window) => window.start < window.end, "A window must end after it starts.")
+
+export type AvailabilityWindow = z.infer<typeof availabilityWindowSchema>
+
+/**
+ * Booking rules edited from the admin dashboard
+ */
+export const availabilitySchema = z.object({
+  // IANA zone the windows are expressed in
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone."),
+  slotMinutes: z.number().int().min(15).max(240),
+  // Earliest bookable slot, counted from now
+  minNoticeHours: z.number().int().min(0).max(24 * 14),
+  // Latest bookable slot, counted from now
+  horizonDays: z.number().int().min(1).max(120),
+  windows: z.array(availabilityWindowSchema).max(50),
+  // "yyyy-MM-dd" days off in the business time zone, e.g. public holidays
+  blockedDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the yyyy-MM-dd format.")).max(366),
+})
+
+export type Availability = z.infer<typeof availabilitySchema>
+
+// Used until the team saves its own availability: weekdays, 9am to 5pm in Lagos
+export const DEFAULT_AVAILABILITY: Availability = {
+  timeZone: "Africa/Lagos",
+  slotMinutes: 30,
+  minNoticeHours: 12,
+  horizonDays: 30,
+  windows: [1, 2, 3, 4, 5].map((weekday) => ({ weekday, start: "09:00", end: "17:00" })),
+  blockedDates: [],
+}
+
+/**
+ * Whether the runtime knows an IANA time zone name
+ */
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Booking form payload: the consultation fields plus the chosen slot
+ */
+export const bookingRequestSchema = consultationSchema.extend({
+  start: z.string({ required_error: "slotRequired" }).datetime({ message: "slotRequired" }),
+  // Visitor's own time zone, used to write the confirmation in their local time
+  timeZone: z.string().max(64).refine(isTimeZone).catch("UTC"),
+})
+
+export type BookingRequest = z.infer<typeof bookingRequestSchema>
+
+/**
+ * A booked consultation call
+ */
+export interface Booking {
+  id: string
+  // UTC instants
+  start: string
+  end: string
+  fullName: string
+  email: string
+  service: ServiceValue
+  message: string
+  locale: Locale
+  timeZone: string
+  createdAt: string
+}
+
+// Booking fields supplied by the caller; the store assigns id and timestamp
+export type NewBooking = Omit<Booking, "id" | "createdAt">
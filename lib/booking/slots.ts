@@ -0,0 +1,68 @@
+import type { Availability, Booking } from "@/lib/booking/schema"
+import { zonedTimeToUtc } from "@/lib/booking/time-zone"
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+/**
+ * Whether two time ranges (epoch milliseconds) overlap
+ */
+export function rangesOverlap(startA: number, endA: number, startB: number, endB: number): boolean {
+  return startA < endB && startB < endA
+}
+
+/**
+ * Calendar day after a "yyyy-MM-dd" day
+ */
+function nextDay(day: string): string {
+  const [year, month, date] = day.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, date + 1)).toISOString().slice(0, 10)
+}
+
+/**
+ * Bookable slot start times between two instants, as ISO strings in UTC
+ *
+ * Walks each day of the range in the business time zone and cuts its windows
+ * into slots, skipping blocked days, slots inside the notice period or past
+ * the booking horizon, and slots overlapping an existing booking.
+ */
+export function availableSlots(
+  availability: Availability,
+  bookings: Booking[],
+  { from, to, now = new Date() }: { from: Date; to: Date; now?: Date },
+): string[] {
+  const earliest = Math.max(from.getTime(), now.getTime() + availability.minNoticeHours * HOUR)
+  const latest = Math.min(to.getTime(), now.getTime() + availability.horizonDays * DAY)
+  if (earliest > latest) return []
+
+  const slotMs = availability.slotMinutes * 60 * 1000
+  const booked = bookings.map((booking) => [Date.parse(booking.start), Date.parse(booking.end)])
+  const blocked = new Set(availability.blockedDates)
+  const slots = new Set<number>()
+
+  // Start a day early and end a day late: the business day can straddle UTC midnight
+  const lastDay = new Date(latest + DAY).toISOString().slice(0, 10)
+  for (let day = new Date(earliest - DAY).toISOString().slice(0, 10); day <= lastDay; day = nextDay(day)) {
+    if (blocked.has(day)) continue
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay()
+
+    for (const window of availability.windows) {
+      if (window.weekday !== weekday) continue
+      const windowEnd = zonedTimeToUtc(day, window.end, availability.timeZone).getTime()
+      for (let start = zonedTimeToUtc(day, window.start, availability.timeZone).getTime(); start + slotMs <= windowEnd; start += slotMs) {
+        if (start < earliest || start > latest) continue
+        if (booked.some(([bookedStart, bookedEnd]) => rangesOverlap(start, start + slotMs, bookedStart, bookedEnd))) continue
+        slots.add(start)
+      }
+    }
+  }
+
+  return [...slots].sort((a, b) => a - b).map((start) => new Date(start).toISOString())
+}
+
+/**
+ * Whether a slot start is currently offered to visitors
+ */
+export function isSlotAvailable(availability: Availability, bookings: Booking[], start: Date, now = new Date()): boolean {
+  return availableSlots(availability, bookings, { from: start, to: start, now }).includes(start.toISOString())
+}
@@ -0,0 +1,88 @@
+import { randomUUID } from "crypto"
+
+import { dataFilePath, readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+import type { Availability, Booking, NewBooking } from "@/lib/booking/schema"
+import { isSlotAvailable } from "@/lib/booking/slots"
+
+/**
+ * Booking Store
+ *
+ * Consultation calls booked from the website. `create` re-checks the slot
+ * against the availability and the stored bookings inside the store's write
+ * queue, so two visitors racing for the same slot can't both get it. The
+ * adapter follows `BOOKING_STORE` ("file" by default, or "memory").
+ */
+export interface BookingStore {
+  // Rejects with SlotUnavailableError when the slot is taken or no longer offered
+  create(input: NewBooking, availability: Availability): Promise<Booking>
+  // Soonest first
+  list(): Promise<Booking[]>
+}
+
+/**
+ * Error raised when booking a slot that is no longer free
+ */
+export class SlotUnavailableError extends Error {
+  constructor(start: string) {
+    super(`The slot starting at ${start} is not available`)
+    this.name = "SlotUnavailableError"
+  }
+}
+
+/**
+ * Check the slot and build the booking record, or throw
+ */
+function buildBooking(input: NewBooking, availability: Availability, bookings: Booking[]): Booking {
+  if (!isSlotAvailable(availability, bookings, new Date(input.start))) {
+    throw new SlotUnavailableError(input.start)
+  }
+  return { ...input, id: randomUUID(), createdAt: new Date().toISOString() }
+}
+
+const byStart = (a: Booking, b: Booking) => a.start.localeCompare(b.start)
+
+/**
+ * JSON file adapter - all bookings in a single file
+ */
+export function createFileBookingStore(filePath = dataFilePath("bookings.json")): BookingStore {
+  return {
+    create(input, availability) {
+      return updateJsonFile<Booking[], Booking>(filePath, [], (bookings) => {
+        const booking = buildBooking(input, availability, bookings)
+        return { data: [...bookings, booking], result: booking }
+      })
+    },
+    async list() {
+      return (await readJsonFile<Booking[]>(filePath, [])).sort(byStart)
+    },
+  }
+}
+
+/**
+ * In-memory adapter - nothing survives a restart
+ */
+export function createMemoryBookingStore(): BookingStore {
+  const bookings: Booking[] = []
+  return {
+    async create(input, availability) {
+      const booking = buildBooking(input, availability, bookings)
+      bookings.push(booking)
+      return booking
+    },
+    async list() {
+      return [...bookings].sort(byStart)
+    },
+  }
+}
+
+let bookingStore: BookingStore | undefined
+
+/**
+ * Shared booking store instance for the running server
+ */
+export function getBookingStore(): BookingStore {
+  if (!bookingStore) {
+    bookingStore = process.env.BOOKING_STORE === "memory" ? createMemoryBookingStore() : createFileBookingStore()
+  }
+  return bookingStore
+}
@@ -0,0 +1,69 @@
+/**
+ * Time Zone Helpers
+ *
+ * Conversions between UTC instants and wall-clock times in a named zone,
+ * built on `Intl` so daylight-saving rules come from the runtime.
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Calendar fields of an instant as seen in a time zone
+ */
+function zonedParts(date: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+    formatters.set(timeZone, formatter)
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]))
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(parts.weekday),
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = zonedParts(date, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * UTC instant of a wall-clock time on a "yyyy-MM-dd" day in a time zone
+ */
+export function zonedTimeToUtc(day: string, time: string, timeZone: string): Date {
+  const [year, month, date] = day.split("-").map(Number)
+  const [hours, minutes] = time.split(":").map(Number)
+  const wallClock = Date.UTC(year, month - 1, date, hours, minutes)
+  // Correct once more in case the first guess landed across a DST change
+  const firstGuess = wallClock - zoneOffsetMs(new Date(wallClock), timeZone)
+  return new Date(wallClock - zoneOffsetMs(new Date(firstGuess), timeZone))
+}
+
+/**
+ * "yyyy-MM-dd" day and weekday (0 = Sunday) of an instant in a time zone
+ */
+export function zonedDay(date: Date, timeZone: string): { day: string; weekday: number } {
+  const parts = zonedParts(date, timeZone)
+  const pad = (value: number) => String(value).padStart(2, "0")
+  return { day: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`, weekday: parts.weekday }
+}
@@ -0,0 +1,163 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type React from "react"
+import { compileMDX } from "next-mdx-remote/rsc"
+import { z } from "zod"
+
+import { mdxComponents } from "@/components/blog/mdx-components"
+import { DEFAULT_LOCALE, LOCALES } from "@/lib/i18n/config"
+import { SERVICES, type ServiceSlug } from "@/lib/services/catalog"
+import { localOrHttpsUrl } from "@/lib/urls"
+
+/**
+ * Case Studies
+ *
+ * Client projects are Markdown files in `content/case-studies/`, named after
+ * their URL slug. The frontmatter holds the structured facts (industry,
+ * services used, problem, outcome, results and the client's quote) and the
+ * body tells the full story. Quotes double as the landing page testimonials.
+ *
+ * A case study marked `draft: true` only shows in development, so nothing
+ * reaches visitors before the client has approved it.
+ */
+
+const CASE_STUDIES_DIR = path.join(process.cwd(), "content", "case-studies")
+
+// Industries we filter by; labels are in the i18n catalog
+export const INDUSTRIES = ["accounting", "healthcare", "retail", "legal", "logistics", "education", "hospitality"] as const
+
+export type Industry = (typeof INDUSTRIES)[number]
+
+const serviceSlugs = SERVICES.map((service) => service.slug) as [ServiceSlug, ...ServiceSlug[]]
+
+export const caseStudyFrontmatterSchema = z.object({
+  title: z.string().min(1),
+  client: z.string().min(1),
+  industry: z.enum(INDUSTRIES),
+  // Catalog services the project used, most important first
+  services: z.array(z.enum(serviceSlugs)).min(1),
+  // Used for listings and search results
+  summary: z.string().min(1).max(300),
+  problem: z.string().min(1),
+  outcome: z.string().min(1),
+  // Headline figures, e.g. { value: "4 hours", label: "from attack to full restore" }
+  results: z.array(z.object({ value: z.string().min(1), label: z.string().min(1) })).max(4).default([]),
+  // The client's words, shown as a testimonial; only with their permission
+  quote: z.object({ text: z.string().min(1).max(400), author: z.string().min(1), role: z.string().optional() }).optional(),
+  logo: z.object({ src: localOrHttpsUrl(), alt: z.string().min(1) }).optional(),
+  date: z.string().date(),
+  // Language the case study is written in
+  lang: z.enum(LOCALES).default(DEFAULT_LOCALE),
+  draft: z.boolean().default(false),
+})
+
+export type CaseStudyFrontmatter = z.infer<typeof caseStudyFrontmatterSchema>
+
+export interface CaseStudySummary extends CaseStudyFrontmatter {
+  slug: string
+}
+
+export interface CaseStudy extends CaseStudySummary {
+  content: React.ReactElement
+}
+
+export interface Testimonial extends NonNullable<CaseStudyFrontmatter["quote"]> {
+  slug: string
+  client: string
+  industry: Industry
+  lang: CaseStudyFrontmatter["lang"]
+}
+
+// Compiled case studies keyed by slug and modification time, so edits show up without a restart
+const compiled = new Map<string, Promise<CaseStudy>>()
+
+/**
+ * Compile one case study, validating its frontmatter
+ */
+async function compileCaseStudy(slug: string): Promise<CaseStudy> {
+  const fileName = `${slug}.md`
+  const source = await fs.readFile(path.join(CASE_STUDIES_DIR, fileName), "utf8")
+  const { content, frontmatter } = await compileMDX({
+    source,
+    components: mdxComponents,
+    options: { parseFrontmatter: true, mdxOptions: { format: "md" } },
+  })
+  const parsed = caseStudyFrontmatterSchema.safeParse(frontmatter)
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid frontmatter in content/case-studies/${fileName}: ${JSON.stringify(parsed.error.flatten().fieldErrors)}`,
+    )
+  }
+  return { ...parsed.data, slug, content }
+}
+
+async function loadCaseStudy(slug: string): Promise<CaseStudy> {
+  const { mtimeMs } = await fs.stat(path.join(CASE_STUDIES_DIR, `${slug}.md`))
+  const key = `${slug}@${mtimeMs}`
+  let caseStudy = compiled.get(key)
+  if (!caseStudy) {
+    caseStudy = compileCaseStudy(slug)
+    compiled.set(key, caseStudy)
+    // A failed compilation is retried on the next request
+    caseStudy.catch(() => compiled.delete(key))
+  }
+  return caseStudy
+}
+
+/**
+ * Slugs of every case study on disk
+ */
+async function listSlugs(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(CASE_STUDIES_DIR)
+    return files.filter((file) => file.endsWith(".md")).map((file) => file.slice(0, -".md".length))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+}
+
+const isVisible = (caseStudy: CaseStudySummary) => !caseStudy.draft || process.env.NODE_ENV !== "production"
+
+/**
+ * Every visible case study, newest first
+ */
+export async function getCaseStudies(): Promise<CaseStudySummary[]> {
+  const caseStudies = await Promise.all((await listSlugs()).map(loadCaseStudy))
+  return caseStudies
+    .filter(isVisible)
+    .map(({ content: _content, ...summary }): CaseStudySummary => summary)
+    .sort((a, b) => b.date.localeCompare(a.date) || a.title.localeCompare(b.title))
+}
+
+/**
+ * One case study with its rendered body, or undefined for an unknown or hidden slug
+ */
+export async function getCaseStudy(slug: string): Promise<CaseStudy | undefined> {
+  if (!(await listSlugs()).includes(slug)) return undefined
+  const caseStudy = await loadCaseStudy(slug)
+  return isVisible(caseStudy) ? caseStudy : undefined
+}
+
+/**
+ * Case studies matching the index filters; omitted filters match everything
+ */
+export function filterCaseStudies(
+  caseStudies: CaseStudySummary[],
+  { industry, service }: { industry?: string; service?: string },
+): CaseStudySummary[] {
+  return caseStudies.filter(
+    (caseStudy) =>
+      (!industry || caseStudy.industry === industry) &&
+      (!service || caseStudy.services.some((candidate) => candidate === service)),
+  )
+}
+
+/**
+ * Client quotes for the testimonials carousel, newest first
+ */
+export function testimonials(caseStudies: CaseStudySummary[]): Testimonial[] {
+  return caseStudies.flatMap(({ quote, slug, client, industry, lang }) =>
+    quote ? [{ ...quote, slug, client, industry, lang }] : [],
+  )
+}
@@ -0,0 +1,52 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+import { siteContentSchema, type SiteContent } from "@/lib/cms/schema"
+import { getContentStore } from "@/lib/cms/store"
+import type { Locale } from "@/lib/i18n/config"
+
+/**
+ * Site Content
+ *
+ * Resolves the copy a page shows: the draft in preview mode, otherwise the
+ * published version, otherwise the defaults committed in `content/site/`.
+ * Stored versions are validated again on the way out, so a hand-edited data
+ * file can't break the page; an invalid one falls back to the next source.
+ */
+
+const CONTENT_DIR = path.join(process.cwd(), "content", "site")
+
+/**
+ * Content committed with the code for a locale
+ *
+ * Invalid defaults fail loudly with the file name, like blog frontmatter.
+ */
+export async function getDefaultContent(locale: Locale): Promise<SiteContent> {
+  const fileName = `${locale}.json`
+  const parsed = siteContentSchema.safeParse(JSON.parse(await fs.readFile(path.join(CONTENT_DIR, fileName), "utf8")))
+  if (!parsed.success) {
+    throw new Error(`Invalid content in content/site/${fileName}: ${JSON.stringify(parsed.error.flatten().fieldErrors)}`)
+  }
+  return parsed.data
+}
+
+/**
+ * The content to render for a locale
+ */
+export async function getSiteContent(locale: Locale, { draft = false }: { draft?: boolean } = {}): Promise<SiteContent> {
+  let entry
+  try {
+    entry = await getContentStore().get(locale)
+  } catch (error) {
+    console.error(`Could not read site content for ${locale}`, error)
+    return getDefaultContent(locale)
+  }
+
+  for (const stored of [draft ? entry.draft?.content : undefined, entry.published?.content]) {
+    if (!stored) continue
+    const parsed = siteContentSchema.safeParse(stored)
+    if (parsed.success) return parsed.data
+    console.error(`Ignoring invalid stored site content for ${locale}`, parsed.error.flatten())
+  }
+  return getDefaultContent(locale)
+}
@@ -0,0 +1,89 @@
+import { z } from "zod"
+
+import { localOrHttpsUrl } from "@/lib/urls"
+
+/**
+ * Site Content Model
+ *
+ * Marketing copy for the landing page, edited by the team from the admin
+ * dashboard instead of in code. Shared by the editor (client) and the content
+ * API (server) so both validate the same rules. Each locale has its own
+ * document; published defaults live in `content/site/<locale>.json`.
+ */
+
+// Icons a value-proposition card can show, drawn from lucide-react
+export const CARD_ICONS = ["award", "clock", "users", "wallet", "shield", "zap"] as const
+
+export type CardIcon = (typeof CARD_ICONS)[number]
+
+const text = (max: number) => z.string().trim().min(1, "Required.").max(max, `Keep it under ${max} characters.`)
+
+export const imageSchema = z.object({
+  // A file in public/ ("/team.jpg") or an https URL
+  src: localOrHttpsUrl({ message: "Use a path starting with / or an https:// URL." }),
+  // Describes the image for screen readers; required
+  alt: text(200),
+})
+
+export const ctaSchema = z.object({
+  label: text(60),
+  // Page path, in-page anchor ("#services") or https URL
+  href: localOrHttpsUrl({ anchors: true, message: "Use a path, a #section anchor or an https:// URL." }),
+})
+
+export const cardSchema = z.object({
+  icon: z.enum(CARD_ICONS).optional(),
+  title: text(60),
+  text: text(300),
+})
+
+export const siteContentSchema = z.object({
+  hero: z.object({
+    title: text(120),
+    subtitle: text(400),
+    image: imageSchema,
+    // The main button opens the free health check; only its wording is editable
+    primaryCta: z.object({ label: text(60) }),
+    secondaryCta: ctaSchema.optional(),
+  }),
+  valueProp: z.object({
+    title: text(120),
+    cards: z.array(cardSchema).min(1, "Add at least one card.").max(8, "Use at most 8 cards."),
+  }),
+  about: z.object({
+    title: text(120),
+    paragraphs: z.array(text(1000)).min(1, "Add at least one paragraph.").max(6, "Use at most 6 paragraphs."),
+    image: imageSchema,
+  }),
+  footer: z.object({
+    tagline: text(200),
+  }),
+})
+
+export type SiteContent = z.infer<typeof siteContentSchema>
+export type ContentImage = z.infer<typeof imageSchema>
+export type ContentCta = z.infer<typeof ctaSchema>
+export type ContentCard = z.infer<typeof cardSchema>
+
+// Error messages keyed by field path, e.g. "valueProp.cards.1.title"
+export type ContentFieldErrors = Record<string, string[]>
+
+/**
+ * Group validation issues by the path of the field they belong to
+ */
+export function contentFieldErrors(error: z.ZodError): ContentFieldErrors {
+  const errors: ContentFieldErrors = {}
+  for (const issue of error.issues) {
+    const key = issue.path.join(".")
+    errors[key] = [...(errors[key] ?? []), issue.message]
+  }
+  return errors
+}
+
+/**
+ * A locale's stored content: the published version and the draft being edited
+ */
+export interface ContentEntry {
+  published?: { content: SiteContent; publishedAt: string }
+  draft?: { content: SiteContent; updatedAt: string }
+}
@@ -0,0 +1,99 @@
+import { dataFilePath, readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+import type { ContentEntry, SiteContent } from "@/lib/cms/schema"
+import type { Locale } from "@/lib/i18n/config"
+
+/**
+ * Content Store
+ *
+ * Drafts and published versions of the site content, per locale. The
+ * adapter is picked with `CONTENT_STORE` ("file" by default, or "memory"),
+ * like the lead store. A locale without a published version shows the
+ * defaults from `content/site/`.
+ */
+export interface ContentStore {
+  get(locale: Locale): Promise<ContentEntry>
+  saveDraft(locale: Locale, content: SiteContent): Promise<ContentEntry>
+  // Replaces the published version with the draft; a no-op without a draft
+  publish(locale: Locale): Promise<ContentEntry>
+  discardDraft(locale: Locale): Promise<ContentEntry>
+}
+
+type ContentEntries = Partial<Record<Locale, ContentEntry>>
+
+function withDraft(entry: ContentEntry, content: SiteContent): ContentEntry {
+  return { ...entry, draft: { content, updatedAt: new Date().toISOString() } }
+}
+
+function withDraftPublished(entry: ContentEntry): ContentEntry {
+  if (!entry.draft) return entry
+  return { published: { content: entry.draft.content, publishedAt: new Date().toISOString() } }
+}
+
+function withoutDraft({ draft: _draft, ...entry }: ContentEntry): ContentEntry {
+  return entry
+}
+
+/**
+ * JSON file adapter - every locale in a single file
+ */
+export function createFileContentStore(filePath = dataFilePath("site-content.json")): ContentStore {
+  const change = (locale: Locale, apply: (entry: ContentEntry) => ContentEntry) =>
+    updateJsonFile<ContentEntries, ContentEntry>(filePath, {}, (entries) => {
+      const updated = apply(entries[locale] ?? {})
+      return { data: { ...entries, [locale]: updated }, result: updated }
+    })
+
+  return {
+    async get(locale) {
+      return (await readJsonFile<ContentEntries>(filePath, {}))[locale] ?? {}
+    },
+    saveDraft(locale, content) {
+      return change(locale, (entry) => withDraft(entry, content))
+    },
+    publish(locale) {
+      return change(locale, withDraftPublished)
+    },
+    discardDraft(locale) {
+      return change(locale, withoutDraft)
+    },
+  }
+}
+
+/**
+ * In-memory adapter - nothing survives a restart
+ */
+export function createMemoryContentStore(): ContentStore {
+  const entries: ContentEntries = {}
+  const change = (locale: Locale, apply: (entry: ContentEntry) => ContentEntry) => {
+    const updated = apply(entries[locale] ?? {})
+    entries[locale] = updated
+    return updated
+  }
+
+  return {
+    async get(locale) {
+      return entries[locale] ?? {}
+    },
+    async saveDraft(locale, content) {
+      return change(locale, (entry) => withDraft(entry, content))
+    },
+    async publish(locale) {
+      return change(locale, withDraftPublished)
+    },
+    async discardDraft(locale) {
+      return change(locale, withoutDraft)
+    },
+  }
+}
+
+let contentStore: ContentStore | undefined
+
+/**
+ * Shared content store instance for the running server
+ */
+export function getContentStore(): ContentStore {
+  if (!contentStore) {
+    contentStore = process.env.CONTENT_STORE === "memory" ? createMemoryContentStore() : createFileContentStore()
+  }
+  return contentStore
+}
@@ -0,0 +1,48 @@
+import { dataFilePath, readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+import { explanationSchema, type Explanation } from "@/lib/explain/schema"
+
+/**
+ * Explanation Cache
+ *
+ * Generated explanations are stored per (provider, locale, service, business type) in
+ * the local data directory, so repeat questions don't cost another model call.
+ */
+
+interface CacheEntry {
+  explanation: Explanation
+  createdAt: string
+}
+
+// Entries older than this are regenerated
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+const cacheFile = () => dataFilePath("explanation-cache.json")
+
+/**
+ * Normalise the cache key so "Law Office" and " law  office " share an entry
+ */
+export function explanationCacheKey(provider: string, locale: string, service: string, businessType: string): string {
+  const normalise = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ")
+  return [provider, locale, normalise(service), normalise(businessType)].join("::")
+}
+
+/**
+ * Cached explanation for a key, if present and fresh
+ */
+export async function getCachedExplanation(key: string): Promise<Explanation | undefined> {
+  const cache = await readJsonFile<Record<string, CacheEntry>>(cacheFile(), {})
+  const entry = cache[key]
+  if (!entry || Date.now() - Date.parse(entry.createdAt) > CACHE_TTL_MS) return undefined
+  // Parsed so entries cached before a field was added get its default
+  return explanationSchema.safeParse(entry.explanation).data
+}
+
+/**
+ * Store an explanation under a key
+ */
+export function setCachedExplanation(key: string, explanation: Explanation): Promise<void> {
+  return updateJsonFile<Record<string, CacheEntry>, void>(cacheFile(), {}, (cache) => ({
+    data: { ...cache, [key]: { explanation, createdAt: new Date().toISOString() } },
+    result: undefined,
+  }))
+}
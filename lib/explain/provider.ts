@@ -0,0 +1,134 @@
+import { z } from "zod"
+
+import { completeChat, isLlmConfigured } from "@/lib/ai/llm"
+import { explanationSchema, type Explanation } from "@/lib/explain/schema"
+import { DEFAULT_PACKAGE_TIER, EXPLANATION_TEMPLATES, PACKAGE_RULES } from "@/lib/explain/templates"
+import type { Locale } from "@/lib/i18n/config"
+import { citePassages, retrieve, type RetrievedPassage } from "@/lib/retrieval/retrieve"
+import { getService, type Service, type ServiceSlug } from "@/lib/services/catalog"
+
+/**
+ * Business Explanation Provider
+ *
+ * Produces a structured explanation of a service for a given business type.
+ * Selected like the troubleshooting provider: `EXPLAIN_PROVIDER` set to "llm"
+ * or "template", defaulting to the LLM when it is configured. The LLM answers
+ * in the visitor's locale; the local templates are English only. Both cite
+ * the knowledge-base articles they draw on.
+ */
+export interface ExplanationProvider {
+  name: string
+  explain(serviceSlug: string, businessType: string, locale?: Locale): Promise<Explanation>
+}
+
+/**
+ * Error raised when a service has no explanation available
+ */
+export class UnknownServiceError extends Error {
+  constructor(service: string) {
+    super(`Unknown service: ${service}`)
+    this.name = "UnknownServiceError"
+  }
+}
+
+/**
+ * Knowledge-base passages about a service for a business type; none if retrieval fails
+ */
+function findPassages(service: Service, businessType: string, locale?: Locale): Promise<RetrievedPassage[]> {
+  return retrieve(`${service.title} ${businessType}`, { locale, service: service.slug }).catch((error) => {
+    console.error("Knowledge retrieval failed", error)
+    return []
+  })
+}
+
+/**
+ * Deterministic provider filling the local templates
+ */
+export function createTemplateExplanationProvider(): ExplanationProvider {
+  return {
+    name: "template",
+    async explain(serviceSlug, businessType, locale) {
+      const service = getService(serviceSlug)
+      if (!service) throw new UnknownServiceError(serviceSlug)
+      const template = EXPLANATION_TEMPLATES[serviceSlug as ServiceSlug]
+      // The templates are generic, so point to the service's own articles
+      const passages = await findPassages(service, businessType, locale)
+      const { citations } = citePassages(passages.filter((passage) => passage.service === service.slug && passage.url))
+
+      // Suggest the catalog tier that matches the size hints in the business type
+      const tierName = PACKAGE_RULES.find((rule) => rule.pattern.test(businessType))?.tier ?? DEFAULT_PACKAGE_TIER
+      const tier = service.pricingTiers.find((candidate) => candidate.name === tierName) ?? service.pricingTiers[0]
+
+      return {
+        summary: template.summary.replace("{business}", businessType.toLowerCase()),
+        benefits: template.benefits,
+        risks: template.risks,
+        suggestedPackage: {
+          name: tier.name,
+          description: `${tier.description} Includes: ${tier.features.join(", ")}.`,
+        },
+        sources: citations,
+      }
+    },
+  }
+}
+
+// Instructions asking the model for JSON matching explanationSchema
+const SYSTEM_PROMPT = `You explain Torestech IT services to small-business owners in plain, friendly language.
+Respond with JSON only, no markdown, in exactly this shape:
+{"summary": string, "benefits": string[], "risks": string[], "suggestedPackage": {"name": "Essentials" | "Business" | "Enterprise", "description": string}}
+Give 3 benefits and 3 typical risks the business faces without the service. Keep each item to one sentence.
+Write every text value in the language with ISO 639-1 code "{locale}"; keep the package name in English.`
+
+// Appended when the knowledge base has passages about the service
+const GROUNDING_PROMPT = `Ground the explanation in these excerpts from the Torestech knowledge base where they are relevant.
+Add a "sources" array to the JSON with the numbers of the excerpts you used, e.g. "sources": [1, 2]; leave it empty if none fit.
+
+{excerpts}`
+
+// Model answer, citing excerpts by number
+const modelAnswerSchema = explanationSchema.extend({
+  sources: z.array(z.number().int()).default([]),
+})
+
+/**
+ * LLM-backed provider, validated against the explanation schema
+ */
+export function createLlmExplanationProvider(): ExplanationProvider {
+  return {
+    name: "llm",
+    async explain(serviceSlug, businessType, locale = "en") {
+      const service = getService(serviceSlug)
+      if (!service) throw new UnknownServiceError(serviceSlug)
+
+      const { citations, excerpts } = citePassages(await findPassages(service, businessType, locale))
+      let system = SYSTEM_PROMPT.replace("{locale}", locale)
+      if (excerpts) system += `\n\n${GROUNDING_PROMPT.replace("{excerpts}", () => excerpts)}`
+
+      const content = await completeChat(
+        [
+          { role: "system", content: system },
+          { role: "user", content: `Service: ${service.title} - ${service.overview}\nBusiness type: ${businessType}` },
+        ],
+        { temperature: 0.4 },
+      )
+      // Models occasionally wrap JSON in a code fence despite instructions
+      const json = content.replace(/^```(?:json)?\s*|\s*```$/g, "")
+      const answer = modelAnswerSchema.parse(JSON.parse(json))
+      return {
+        ...answer,
+        sources: citations.filter((citation) => answer.sources.includes(citation.index)),
+      }
+    },
+  }
+}
+
+/**
+ * Provider instance for the current environment
+ */
+export function getExplanationProvider(): ExplanationProvider {
+  const configured = process.env.EXPLAIN_PROVIDER
+  if (configured === "template") return createTemplateExplanationProvider()
+  if (configured === "llm" || isLlmConfigured()) return createLlmExplanationProvider()
+  return createTemplateExplanationProvider()
+}
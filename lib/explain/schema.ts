@@ -0,0 +1,37 @@
+import { z } from "zod"
+
+import { DEFAULT_LOCALE, LOCALES } from "@/lib/i18n/config"
+import { citationSchema } from "@/lib/retrieval/citations"
+
+/**
+ * "Explain for my business" request and answer shapes
+ */
+export const explainRequestSchema = z.object({
+  // Catalog slug of the service being explained
+  service: z.string({ required_error: "serviceMissing" }).trim().min(1, "serviceMissing").max(100),
+  businessType: z
+    .string({ required_error: "businessTypeRequired" })
+    .trim()
+    .min(3, "businessTypeTooShort")
+    .max(200, "businessTypeTooLong")
+    .transform((value) => value.replace(/\s+/g, " ")),
+  // Language the explanation is written in
+  locale: z.enum(LOCALES).default(DEFAULT_LOCALE),
+})
+
+export type ExplainRequest = z.infer<typeof explainRequestSchema>
+
+// Structured answer rendered in the service dialog
+export const explanationSchema = z.object({
+  summary: z.string().min(1),
+  benefits: z.array(z.string().min(1)).min(1).max(6),
+  risks: z.array(z.string().min(1)).min(1).max(6),
+  suggestedPackage: z.object({
+    name: z.string().min(1),
+    description: z.string().min(1),
+  }),
+  // Knowledge-base articles the explanation draws on
+  sources: z.array(citationSchema).max(6).default([]),
+})
+
+export type Explanation = z.infer<typeof explanationSchema>
@@ -0,0 +1,114 @@
+import type { PricingTier, ServiceSlug } from "@/lib/services/catalog"
+
+/**
+ * Service Explanation Templates
+ *
+ * Offline content for the template explanation provider, keyed by catalog
+ * slug. `{business}` is replaced with the visitor's business type.
+ */
+export interface ExplanationTemplate {
+  summary: string
+  benefits: string[]
+  risks: string[]
+}
+
+export const EXPLANATION_TEMPLATES: Record<ServiceSlug, ExplanationTemplate> = {
+  troubleshooting: {
+    summary:
+      "For a {business}, every laptop, desktop or phone that stops working means lost hours. Fast, expert troubleshooting keeps your team productive.",
+    benefits: [
+      "Less downtime: most issues are diagnosed remotely the same day.",
+      "Predictable costs instead of emergency call-out fees.",
+      "Devices kept patched and healthy, so problems don't come back.",
+    ],
+    risks: [
+      "Ageing hardware that fails without warning during busy periods.",
+      "Staff trying risky DIY fixes that lose data.",
+      "Unpatched devices becoming an entry point for attackers.",
+    ],
+  },
+  cybersecurity: {
+    summary:
+      "A {business} holds customer and financial data that criminals actively target. Layered security and compliance support protect both your data and your reputation.",
+    benefits: [
+      "Multi-factor authentication and endpoint protection on every account and device.",
+      "Staff awareness that stops phishing before it becomes a breach.",
+      "Clear evidence for clients and regulators that you take data protection seriously.",
+    ],
+    risks: [
+      "Phishing emails leading to stolen passwords or payment fraud.",
+      "Ransomware locking files you need to operate.",
+      "Fines and lost trust after a data protection incident.",
+    ],
+  },
+  backup: {
+    summary:
+      "For a {business}, losing files or systems can halt operations. Automated, tested backups mean you can recover quickly from mistakes, failures or attacks.",
+    benefits: [
+      "Automatic daily backups with off-site or cloud copies.",
+      "Tested restores, so backups actually work when you need them.",
+      "Smooth migration of your files and email to the cloud.",
+    ],
+    risks: [
+      "A single failed drive wiping out years of records.",
+      "Backups that silently stopped running months ago.",
+      "Ransomware encrypting backups stored on the same network.",
+    ],
+  },
+  network: {
+    summary:
+      "A {business} relies on fast, stable internet and Wi-Fi for everything from payments to video calls. A well-designed, monitored network removes that bottleneck.",
+    benefits: [
+      "Reliable Wi-Fi coverage across your whole workspace.",
+      "Monitoring that catches outages before your team notices.",
+      "Separate guest and staff networks for better security.",
+    ],
+    risks: [
+      "Dead zones and slow connections frustrating staff and customers.",
+      "A single internet line with no failover during outages.",
+      "Default router passwords leaving the network exposed.",
+    ],
+  },
+  helpdesk: {
+    summary:
+      "Your {business} team gets one friendly place to turn to for any tech question, so problems are solved quickly instead of interrupting your day.",
+    benefits: [
+      "Fast answers by phone, email or chat from people who know your setup.",
+      "Every request tracked, so nothing falls through the cracks.",
+      "Onboarding and offboarding of staff accounts handled for you.",
+    ],
+    risks: [
+      "Staff losing hours to problems they can't solve alone.",
+      "Knowledge about your systems living in one person's head.",
+      "Former employees keeping access to company accounts.",
+    ],
+  },
+  training: {
+    summary:
+      "Training tailored to a {business} helps your team use its tools confidently and safely, getting more value from the technology you already pay for.",
+    benefits: [
+      "Practical sessions built around the software your team uses daily.",
+      "Security awareness that reduces costly mistakes.",
+      "Faster onboarding for new staff.",
+    ],
+    risks: [
+      "Expensive software that's barely used.",
+      "Staff falling for phishing and social engineering.",
+      "Inconsistent ways of working that slow everyone down.",
+    ],
+  },
+}
+
+// Pricing tier suggested for a business, chosen by size hints in its description
+export const PACKAGE_RULES: { pattern: RegExp; tier: PricingTier["name"] }[] = [
+  {
+    pattern: /\b(enterprise|corporat\w*|chain|multi[- ]?(site|location|branch)|branches|hospital|bank|group|nationwide)\b/i,
+    tier: "Enterprise",
+  },
+  {
+    pattern: /\b(freelanc\w*|solo|sole|one[- ]person|home[- ]based|startup|start-up|side business)\b/i,
+    tier: "Essentials",
+  },
+]
+
+export const DEFAULT_PACKAGE_TIER: PricingTier["name"] = "Business"
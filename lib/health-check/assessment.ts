@@ -0,0 +1,185 @@
+import { z } from "zod"
+
+import { consultationSchema } from "@/lib/leads/schema"
+import type { ServiceSlug } from "@/lib/services/catalog"
+
+/**
+ * Free IT Health Check
+ *
+ * Question set, answer validation and scoring for the self-assessment wizard.
+ * Scoring runs in the browser for the instant results page and again on the
+ * server when the assessment is submitted, so stored scores can't be forged.
+ * Option labels, area names and recommendations here are the English copy
+ * stored on leads; the wizard shows the visitor's translation.
+ */
+
+export const BACKUP_OPTIONS = [
+  { value: "none", label: "We don't back up our data" },
+  { value: "manual", label: "Someone copies files manually now and then" },
+  { value: "automatic-local", label: "Automatic backups to a drive in the office" },
+  { value: "automatic-offsite", label: "Automatic backups with an off-site or cloud copy" },
+] as const
+
+export const MFA_OPTIONS = [
+  { value: "none", label: "No, passwords only" },
+  { value: "some", label: "On some accounts (e.g. email only)" },
+  { value: "all", label: "Yes, on all business accounts" },
+] as const
+
+export const NETWORK_OPTIONS = [
+  { value: "consumer-router", label: "The router our internet provider gave us" },
+  { value: "managed-basic", label: "Business-grade equipment, set up by a professional" },
+  { value: "managed-monitored", label: "Business-grade and actively monitored" },
+  { value: "unknown", label: "Not sure" },
+] as const
+
+export const HELPDESK_OPTIONS = [
+  { value: "none", label: "Nobody - staff sort problems out themselves" },
+  { value: "informal", label: "A tech-savvy colleague helps when they can" },
+  { value: "in-house", label: "We have dedicated in-house IT staff" },
+  { value: "outsourced", label: "An external IT provider supports us" },
+] as const
+
+type OptionValue<T extends readonly { value: string }[]> = T[number]["value"]
+const values = <T extends readonly { value: string }[]>(options: T) =>
+  options.map((option) => option.value) as [OptionValue<T>, ...OptionValue<T>[]]
+
+export const healthCheckAnswersSchema = z.object({
+  deviceCount: z.coerce
+    .number({ invalid_type_error: "deviceCountInvalid" })
+    .int("deviceCountInvalid")
+    .min(1, "deviceCountTooLow")
+    .max(10000, "deviceCountTooHigh"),
+  backups: z.enum(values(BACKUP_OPTIONS), { errorMap: () => ({ message: "answerRequired" }) }),
+  mfa: z.enum(values(MFA_OPTIONS), { errorMap: () => ({ message: "answerRequired" }) }),
+  network: z.enum(values(NETWORK_OPTIONS), { errorMap: () => ({ message: "answerRequired" }) }),
+  helpdesk: z.enum(values(HELPDESK_OPTIONS), { errorMap: () => ({ message: "answerRequired" }) }),
+})
+
+export type HealthCheckAnswers = z.infer<typeof healthCheckAnswersSchema>
+
+export type Priority = "high" | "medium" | "low"
+
+export interface AreaScore {
+  service: ServiceSlug
+  area: string
+  // 0 (at risk) to 100 (healthy)
+  score: number
+  priority: Priority
+  recommendation: string
+}
+
+export interface HealthCheckResult {
+  answers: HealthCheckAnswers
+  overallScore: number
+  // Service areas ordered from most to least urgent
+  areas: AreaScore[]
+}
+
+const BACKUP_SCORES: Record<HealthCheckAnswers["backups"], number> = {
+  none: 0,
+  manual: 35,
+  "automatic-local": 65,
+  "automatic-offsite": 95,
+}
+
+const MFA_SCORES: Record<HealthCheckAnswers["mfa"], number> = { none: 10, some: 50, all: 90 }
+
+const NETWORK_SCORES: Record<HealthCheckAnswers["network"], number> = {
+  "consumer-router": 40,
+  "managed-basic": 70,
+  "managed-monitored": 95,
+  unknown: 25,
+}
+
+const HELPDESK_SCORES: Record<HealthCheckAnswers["helpdesk"], number> = {
+  none: 20,
+  informal: 40,
+  "in-house": 80,
+  outsourced: 90,
+}
+
+// Recommendation per service area and priority band
+const RECOMMENDATIONS: Record<string, Record<Priority, string>> = {
+  backup: {
+    high: "Set up automatic daily backups with an off-site copy now - a single failed drive or ransomware attack could wipe out your data.",
+    medium: "Add an off-site or cloud copy to your backups and test a restore every quarter.",
+    low: "Your backups look solid. Keep testing restores regularly.",
+  },
+  cybersecurity: {
+    high: "Turn on multi-factor authentication for email and every business account - it blocks the vast majority of account takeovers.",
+    medium: "Extend multi-factor authentication to all accounts and add phishing awareness training.",
+    low: "Good account security. Consider periodic phishing simulations to keep staff sharp.",
+  },
+  network: {
+    high: "Have your network reviewed: replace default equipment and passwords, and separate guest Wi-Fi from business systems.",
+    medium: "Add monitoring so outages and suspicious devices are spotted before they disrupt work.",
+    low: "Your network is in good shape. Keep firmware up to date.",
+  },
+  helpdesk: {
+    high: "Give your team a dedicated helpdesk so problems are fixed quickly instead of eating into everyone's day.",
+    medium: "Formalise support with tracked requests and documented systems, so knowledge isn't in one person's head.",
+    low: "Your team has good support coverage.",
+  },
+}
+
+const clamp = (score: number) => Math.max(0, Math.min(100, Math.round(score)))
+
+function priorityFor(score: number): Priority {
+  if (score < 40) return "high"
+  if (score < 70) return "medium"
+  return "low"
+}
+
+/**
+ * Score validated answers per service area, most urgent first
+ */
+export function scoreHealthCheck(answers: HealthCheckAnswers): HealthCheckResult {
+  const isLargeTeam = answers.deviceCount > 20
+
+  const raw: { service: ServiceSlug; area: string; score: number }[] = [
+    { service: "backup", area: "Backup & Recovery", score: BACKUP_SCORES[answers.backups] },
+    {
+      service: "cybersecurity",
+      area: "Security",
+      // Data without reliable backups raises the stakes of any breach
+      score: MFA_SCORES[answers.mfa] - (answers.backups === "none" ? 10 : 0),
+    },
+    { service: "network", area: "Network", score: NETWORK_SCORES[answers.network] - (isLargeTeam ? 10 : 0) },
+    {
+      service: "helpdesk",
+      area: "Helpdesk & Support",
+      // Informal support stops scaling once a team has more than a couple of dozen devices
+      score: HELPDESK_SCORES[answers.helpdesk] - (isLargeTeam && answers.helpdesk !== "outsourced" ? 15 : 0),
+    },
+  ]
+
+  const areas = raw
+    .map(({ service, area, score }) => {
+      const clamped = clamp(score)
+      const priority = priorityFor(clamped)
+      return { service, area, score: clamped, priority, recommendation: RECOMMENDATIONS[service][priority] }
+    })
+    .sort((a, b) => a.score - b.score)
+
+  const overallScore = clamp(areas.reduce((total, area) => total + area.score, 0) / areas.length)
+
+  return { answers, overallScore, areas }
+}
+
+/**
+ * Health check submission: contact details plus the raw answers
+ */
+export const healthCheckSubmissionSchema = consultationSchema.pick({ fullName: true, email: true, locale: true }).extend({
+  answers: healthCheckAnswersSchema,
+})
+
+export type HealthCheckSubmission = z.infer<typeof healthCheckSubmissionSchema>
+
+/**
+ * One-paragraph summary stored as the lead message
+ */
+export function summarizeHealthCheck(result: HealthCheckResult): string {
+  const priorities = result.areas.map((area) => `${area.area}: ${area.score}/100 (${area.priority})`).join("; ")
+  return `Free IT Health Check - overall score ${result.overallScore}/100 for ${result.answers.deviceCount} devices. ${priorities}.`
+}
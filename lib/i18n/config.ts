@@ -0,0 +1,42 @@
+/**
+ * Locale Configuration
+ *
+ * Every page lives under a locale prefix (/en, /fr). Requests without one are
+ * redirected by the middleware to the visitor's preferred supported locale.
+ */
+export const LOCALES = ["en", "fr"] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = "en"
+
+// Cookie remembering the visitor's explicit language choice
+export const LOCALE_COOKIE = "NEXT_LOCALE"
+
+// Language names shown in the switcher, each in its own language
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  fr: "Français",
+}
+
+// BCP 47 tags used for number and date formatting
+export const LOCALE_FORMATS: Record<Locale, string> = {
+  en: "en-NG",
+  fr: "fr-FR",
+}
+
+export function isLocale(value: string | undefined): value is Locale {
+  return LOCALES.includes(value as Locale)
+}
+
+/**
+ * Swap the locale prefix of a path, e.g. ("/en/services/network", "fr") -> "/fr/services/network"
+ */
+export function localizePath(pathname: string, locale: Locale): string {
+  const segments = pathname.split("/")
+  if (isLocale(segments[1])) {
+    segments[1] = locale
+    return segments.join("/") || `/${locale}`
+  }
+  return `/${locale}${pathname === "/" ? "" : pathname}`
+}
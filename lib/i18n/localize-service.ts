@@ -0,0 +1,33 @@
+import type { Messages } from "@/lib/i18n/messages/en"
+import type { PricingTier, Service, ServiceFaq } from "@/lib/services/catalog"
+
+/**
+ * Translated copy for one catalog service
+ *
+ * Slugs, icons and prices are shared by every locale, so only the wording
+ * lives in the message catalogs.
+ */
+export interface ServiceTranslation {
+  title: string
+  description: string
+  overview: string
+  faqs: readonly ServiceFaq[]
+  tiers: Record<PricingTier["name"], { description: string; features: readonly string[] }>
+}
+
+/**
+ * Apply a locale's catalog wording to a service, falling back to the catalog's English copy
+ */
+export function localizeService(service: Service, messages: Messages): Service {
+  const translation = messages.services.catalog[service.slug as keyof Messages["services"]["catalog"]]
+  if (!translation) return service
+
+  return {
+    ...service,
+    title: translation.title,
+    description: translation.description,
+    overview: translation.overview,
+    faqs: translation.faqs,
+    pricingTiers: service.pricingTiers.map((tier) => ({ ...tier, ...translation.tiers[tier.name] })),
+  }
+}
@@ -0,0 +1,513 @@
+import type { ServiceTranslation } from "@/lib/i18n/localize-service"
+import type { ServiceSlug } from "@/lib/services/catalog"
+
+/**
+ * English Message Catalog
+ *
+ * Source catalog: every other locale must provide the same keys (enforced by
+ * the `Messages` type). Service entries come from the service catalog itself.
+ */
+export const en = {
+  metadata: {
+    title: "TorestTech | Proactive IT Support & Solutions",
+    description:
+      "TorestTech provides expert IT support, cybersecurity, and cloud solutions to empower your business. Get your free IT health check today.",
+    keywords: "IT support, cybersecurity, managed IT services, cloud solutions, data backup",
+  },
+  nav: {
+    home: "Home",
+    services: "Services",
+    about: "About Us",
+    contact: "Contact",
+    blog: "Blog",
+    caseStudies: "Case studies",
+    pricing: "Pricing",
+    logoAlt: "Torestech - Connecting Everything",
+    language: "Language",
+    skipToContent: "Skip to main content",
+    mainMenu: "Main menu",
+    openMenu: "Open menu",
+    closeMenu: "Close menu",
+    darkMode: "Switch to dark mode",
+    lightMode: "Switch to light mode",
+  },
+  healthCheck: {
+    title: "Free IT Health Check",
+    step: "Step {step} of {total}: {title}",
+    sending: "Sending...",
+    resultsDescription: "Here's how your IT measures up, with our recommendations in order of priority.",
+    chooseAnswer: "Choose an answer",
+    back: "Back",
+    next: "Next",
+    seeResults: "See my results",
+    overallScore: "Overall IT health score out of 100",
+    priority: {
+      high: "high priority",
+      medium: "medium priority",
+      low: "low priority",
+    },
+    questions: {
+      deviceCount: { title: "Your devices", label: "How many computers, laptops and phones does your team use?" },
+      backups: { title: "Backups", label: "How is your business data backed up?" },
+      mfa: { title: "Account security", label: "Do staff use multi-factor authentication (MFA)?" },
+      network: { title: "Network", label: "How is your office network set up?" },
+      helpdesk: { title: "Support", label: "Who helps your team when something breaks?" },
+    },
+    options: {
+      backups: {
+        none: "We don't back up our data",
+        manual: "Someone copies files manually now and then",
+        "automatic-local": "Automatic backups to a drive in the office",
+        "automatic-offsite": "Automatic backups with an off-site or cloud copy",
+      },
+      mfa: {
+        none: "No, passwords only",
+        some: "On some accounts (e.g. email only)",
+        all: "Yes, on all business accounts",
+      },
+      network: {
+        "consumer-router": "The router our internet provider gave us",
+        "managed-basic": "Business-grade equipment, set up by a professional",
+        "managed-monitored": "Business-grade and actively monitored",
+        unknown: "Not sure",
+      },
+      helpdesk: {
+        none: "Nobody - staff sort problems out themselves",
+        informal: "A tech-savvy colleague helps when they can",
+        "in-house": "We have dedicated in-house IT staff",
+        outsourced: "An external IT provider supports us",
+      },
+    },
+    areas: {
+      backup: "Backup & Recovery",
+      cybersecurity: "Security",
+      network: "Network",
+      helpdesk: "Helpdesk & Support",
+    },
+    recommendations: {
+      backup: {
+        high: "Set up automatic daily backups with an off-site copy now - a single failed drive or ransomware attack could wipe out your data.",
+        medium: "Add an off-site or cloud copy to your backups and test a restore every quarter.",
+        low: "Your backups look solid. Keep testing restores regularly.",
+      },
+      cybersecurity: {
+        high: "Turn on multi-factor authentication for email and every business account - it blocks the vast majority of account takeovers.",
+        medium: "Extend multi-factor authentication to all accounts and add phishing awareness training.",
+        low: "Good account security. Consider periodic phishing simulations to keep staff sharp.",
+      },
+      network: {
+        high: "Have your network reviewed: replace default equipment and passwords, and separate guest Wi-Fi from business systems.",
+        medium: "Add monitoring so outages and suspicious devices are spotted before they disrupt work.",
+        low: "Your network is in good shape. Keep firmware up to date.",
+      },
+      helpdesk: {
+        high: "Give your team a dedicated helpdesk so problems are fixed quickly instead of eating into everyone's day.",
+        medium: "Formalise support with tracked requests and documented systems, so knowledge isn't in one person's head.",
+        low: "Your team has good support coverage.",
+      },
+    },
+    contactIntro: "Want an expert to walk you through these results? Leave your details and we'll get in touch.",
+    submit: "Send my assessment",
+    submitted: "Thank you! We've received your assessment and will be in touch with a tailored plan.",
+  },
+  stats: {
+    labels: {
+      projects: "Projects Completed",
+      clients: "Happy Clients",
+      years: "Years of Experience",
+      hours: "Hour Support",
+    } as Record<string, string>,
+    asOf: "Figures as of",
+    source: "Source",
+    unavailable: "Our latest project and client figures are being updated. Check back soon.",
+  },
+  services: {
+    title: "Our Core Services",
+    // English wording comes straight from the service catalog
+    catalog: {} as Partial<Record<ServiceSlug, ServiceTranslation>>,
+    learnMore: "Learn more about {title}",
+    relatedArticles: "Related articles",
+    explain: {
+      trigger: "Explain for my business",
+      title: "AI Business Explanation",
+      description: "Tell us about your business type to get a customized explanation of how {service} can benefit you.",
+      businessType: "Business Type",
+      placeholder: "e.g., Small accounting firm, E-commerce startup, Law office...",
+      generate: "Generate Explanation",
+      generating: "Generating...",
+      retry: "Retry",
+      benefits: "Benefits",
+      risks: "Typical risks",
+      suggestedPackage: "Suggested package: {name}",
+      sources: "From our knowledge base",
+    },
+  },
+  servicePage: {
+    allServices: "All services",
+    talkToExpert: "Talk to an expert",
+    plans: "Plans",
+    priceFrom: "From {price}",
+    perMonth: " / month",
+    faqTitle: "Frequently Asked Questions",
+    portalCta: "Already a client? Open a ticket in the client portal",
+  },
+  troubleshoot: {
+    title: "Instant AI Troubleshooting",
+    description:
+      "Facing a tech issue? Describe it below and chat with our AI assistant for immediate, safe steps you can try right now.",
+    issueLabel: "Describe your tech issue",
+    placeholder: "e.g., 'My computer is very slow when I open my browser.'",
+    replyLabel: "Your reply",
+    replyPlaceholder: "e.g., 'A Windows 11 laptop, and there's no error message.'",
+    submit: "Get Quick Suggestions",
+    send: "Send",
+    thinking: "Thinking...",
+    lookingIntoIt: "Looking into it...",
+    conversation: "Conversation with the support assistant",
+    you: "You",
+    assistant: "Assistant",
+    sources: "From our knowledge base",
+    startOver: "Start over",
+    needsTechnician: "This one needs a technician.",
+    stillStuck: "Still stuck, or not comfortable trying these steps?",
+    createTicket: "Create a support ticket",
+    ticketIntro: "We'll send this conversation to a technician, so you won't have to explain it again.",
+    ticketSubmit: "Create ticket",
+    ticketSubmitting: "Creating ticket...",
+    cancel: "Cancel",
+    ticketCreated: "Ticket created. A technician will email you within one business day.",
+    unavailable: "The assistant is unavailable right now.",
+    unreachable: "We couldn't reach the assistant. Please check your connection and try again.",
+    // Sent by the server in place of the assistant's reply
+    refusal:
+      "That step could cause permanent data loss or leave your device unusable, so we don't guide it remotely. Please talk to one of our technicians and we'll handle it safely with you.",
+    removedStep: "(A step was removed because it could put your data at risk - please ask a technician.)",
+    stopped: "Sorry, the assistant stopped unexpectedly. Please try again or talk to a technician.",
+  },
+  pricing: {
+    title: "Plans and pricing",
+    description:
+      "Every service comes in three plans. Prices are monthly starting points; the estimator gives you a range for your business.",
+    tableCaption: "Starting monthly price for each service and plan",
+    service: "Service",
+    from: "from {price}/month",
+    estimator: {
+      title: "Estimate your monthly cost",
+      description: "Tell us about your business and we'll suggest a plan and a price range.",
+      services: "Services you need",
+      seats: "Staff (seats)",
+      devices: "Devices",
+      locations: "Office locations",
+      supportHours: "Support hours",
+      supportHoursOptions: {
+        business: "Business hours (Mon-Fri, 8am-6pm)",
+        extended: "Extended hours (7am-10pm, Saturdays included)",
+        always: "24/7",
+      },
+      result: "{low} to {high} per month",
+      tier: "Suggested plan: {tier}",
+      breakdown: "Estimate per service",
+      line: "about {price}/month",
+      empty: "Choose at least one service to see an estimate.",
+      disclaimer: "This is an estimate, not a quote. We confirm the price after a short call about your setup.",
+      attach: "Request a quote with this estimate",
+    },
+  },
+  consultation: {
+    title: "Let's Solve It Together",
+    description:
+      "For complex challenges or to discuss a partnership, our experts are ready to help. Fill out the form below for a personalized consultation.",
+    fullName: "Full Name",
+    email: "Email Address",
+    service: "Service of Interest",
+    generalInquiry: "General Inquiry",
+    message: "Message",
+    submit: "Send Message",
+    submitting: "Sending...",
+    successTitle: "Thank you! Your message has been sent.",
+    successText: "One of our experts will get back to you shortly.",
+    sendAnother: "Send another message",
+    estimateAttached: "Your estimate is attached: {low} to {high} per month, {tier} plan",
+    removeEstimate: "Remove estimate",
+  },
+  booking: {
+    title: "Book a Call",
+    description: "Prefer to talk it through? Pick a time that suits you for a free 30-minute consultation call.",
+    pickDay: "Choose a day",
+    pickTime: "Choose a time",
+    loading: "Loading available times...",
+    noSlotsThisMonth: "No times left this month. Try the next one.",
+    chooseDayFirst: "Pick a highlighted day to see its times.",
+    retry: "Try again",
+    timeZoneNote: "Times are shown in your time zone ({timeZone}).",
+    selected: "Your call: {when}",
+    change: "Change time",
+    message: "What would you like to discuss?",
+    submit: "Book this call",
+    submitting: "Booking...",
+    successTitle: "You're booked!",
+    successText: "Your call is on {when}. A calendar invite is on its way to {email}.",
+    bookAnother: "Book another call",
+  },
+  blog: {
+    metaTitle: "IT tips and guides | TorestTech",
+    title: "IT tips & guides",
+    description: "Practical advice from the Torestech team on keeping your business's technology secure, fast and reliable.",
+    backToSite: "Back to the website",
+    allArticles: "All articles",
+    topics: "Topics",
+    services: "Services",
+    clearFilters: "Clear filters",
+    empty: "No articles match these filters yet.",
+    readingTime: "{minutes} min read",
+    published: "Published {date}",
+    updated: "Updated {date}",
+    writtenIn: "In {language}",
+    // Article languages, as they read in a sentence
+    languages: { en: "English", fr: "French" },
+    readArticle: "Read the article",
+    related: "Related articles",
+    serviceCta: "How we can help: {service}",
+    subscribe: "Subscribe:",
+    rss: "RSS",
+    atom: "Atom",
+  },
+  caseStudies: {
+    metaTitle: "Case studies | TorestTech",
+    title: "Case studies",
+    description: "How Torestech has helped businesses recover from attacks, fix unreliable networks and keep their teams productive.",
+    backToSite: "Back to the website",
+    allCaseStudies: "All case studies",
+    industries: "Industries",
+    services: "Services",
+    clearFilters: "Clear filters",
+    empty: "No case studies match these filters yet.",
+    // Industry names, as filter labels
+    industryLabels: {
+      accounting: "Accounting",
+      healthcare: "Healthcare",
+      retail: "Retail",
+      legal: "Legal",
+      logistics: "Logistics",
+      education: "Education",
+      hospitality: "Hospitality",
+    },
+    readCaseStudy: "Read the case study",
+    problem: "The challenge",
+    outcome: "The outcome",
+    results: "Results",
+    servicesUsed: "Services used",
+    serviceLink: "Case studies ({count})",
+    testimonials: {
+      title: "What our clients say",
+      label: "Client testimonials",
+      slide: "{index} of {total}",
+      previous: "Previous testimonial",
+      next: "Next testimonial",
+      goTo: "Show testimonial {index}",
+      viewAll: "See all case studies",
+    },
+  },
+  portal: {
+    metaTitle: "Client portal | TorestTech",
+    title: "Client portal",
+    backToSite: "Back to the website",
+    signOut: "Sign out",
+    signIn: {
+      title: "Sign in to the client portal",
+      description: "Enter the email address registered with Torestech and we'll email you a sign-in link.",
+      email: "Email address",
+      submit: "Email me a sign-in link",
+      submitting: "Sending...",
+      sent: "If that address belongs to a Torestech client, a sign-in link is on its way. It expires in 15 minutes.",
+      notConfigured: "The client portal isn't available right now. Please contact us directly.",
+      notClient: "Not a client yet? Tell us what you need.",
+    },
+    verify: {
+      title: "Finish signing in",
+      description: "Continue to open your client portal on this device.",
+      submit: "Continue to the portal",
+      submitting: "Signing in...",
+      requestNew: "Request a new link",
+    },
+    tickets: {
+      title: "Your tickets",
+      welcome: "Welcome back, {name}.",
+      new: "New ticket",
+      empty: "You haven't opened any tickets yet.",
+      subject: "Subject",
+      category: "Category",
+      status: "Status",
+      updated: "Last update",
+      newReply: "New reply",
+      allTickets: "All tickets",
+    },
+    statuses: {
+      open: "Open",
+      "in-progress": "In progress",
+      waiting: "Waiting on you",
+      resolved: "Resolved",
+    },
+    newTicket: {
+      title: "Open a ticket",
+      description: "Tell us what's wrong and a technician will pick it up. You'll get an email whenever there's an update.",
+      category: "Category",
+      subject: "Subject",
+      message: "Describe the problem",
+      attachments: "Screenshots (optional)",
+      attachmentsHint: "Up to 3 images (PNG, JPEG, GIF or WebP), 5 MB each.",
+      submit: "Open ticket",
+      submitting: "Opening ticket...",
+    },
+    thread: {
+      you: "You",
+      technician: "{name} (Torestech)",
+      opened: "Opened {date}",
+    },
+    reply: {
+      label: "Your reply",
+      submit: "Send reply",
+      submitting: "Sending...",
+      reopens: "Replying reopens this ticket.",
+    },
+  },
+  footer: {
+    quickLinks: "Quick Links",
+    contactUs: "Contact Us",
+    location: "Lagos, Nigeria",
+    followUs: "Follow Us",
+    copyright: "© 2025 Torestech. All Rights Reserved.",
+    clientPortal: "Client portal",
+    social: {
+      x: "Torestech on X",
+      linkedin: "Torestech on LinkedIn",
+      instagram: "Torestech on Instagram",
+    },
+  },
+  whatsapp: {
+    join: "Join our community",
+  },
+  consent: {
+    label: "Analytics consent",
+    text: "We'd like to use privacy-friendly analytics to learn which pages and tools help visitors. Nothing is collected unless you accept, and you can change your mind any time from the footer.",
+    accept: "Accept analytics",
+    decline: "Decline",
+    settings: "Cookie settings",
+  },
+  legal: {
+    backToSite: "Back to the website",
+    navLabel: "Legal documents",
+    // Link text for each legal document
+    documents: { privacy: "Privacy Policy", terms: "Terms of Use", cookies: "Cookie Policy" },
+    lastUpdated: "Last updated {date}",
+    writtenIn: "This document is written in {language}.",
+    archived: "You're reading the version of {date}, which is no longer in force.",
+    readCurrent: "Read the current version",
+    changelog: "Changelog",
+    changelogIntro: "Every version we have published, newest first.",
+    versionOf: "Version of {date}",
+    current: "Current version",
+    // Shown under forms that send personal details; {policy} becomes a link to the privacy policy
+    formNotice: "By sending this, you agree to our {policy}.",
+  },
+  email: {
+    autoReply: {
+      subject: "We've received your message - Torestech",
+      healthCheckSubject: "Your Free IT Health Check results - Torestech",
+      ticketSubject: "We've received your support ticket - Torestech",
+      greeting: "Hello,",
+      intro: "Thank you for contacting Torestech about {service}. One of our experts will get back to you within one business day.",
+      healthCheckIntro:
+        "Thank you for completing our Free IT Health Check. Your overall score is {score}/100, and one of our experts will contact you within one business day with a tailored plan.",
+      ticketIntro:
+        "Thank you for contacting Torestech support. A technician has your conversation with our assistant and will get back to you within one business day.",
+      urgent: "Need help right now? Call us on +234 903 046 1312.",
+      signoff: "The Torestech team",
+      footer: "You're receiving this email because you contacted us at torestech.space.",
+    },
+    booking: {
+      subject: "Your Torestech consultation call: {when}",
+      greeting: "Hi {name},",
+      intro: "Your consultation call with Torestech is booked for {when}.",
+      invite: "The attached invite adds it to your calendar, and we'll email you a meeting link before the call.",
+      reschedule: "Need a different time? Just reply to this email.",
+      signoff: "The Torestech team",
+      eventTitle: "Consultation call with Torestech",
+      footer: "You're receiving this email because you booked a call at torestech.space.",
+    },
+    portal: {
+      greeting: "Hi {name},",
+      magicLinkSubject: "Your Torestech client portal sign-in link",
+      magicLinkIntro:
+        "Use the button below to sign in to the Torestech client portal. The link works once and expires in {minutes} minutes.",
+      magicLinkButton: "Sign in to the portal",
+      magicLinkIgnore: "If you didn't ask to sign in, you can safely ignore this email.",
+      replySubject: "New reply on your ticket: {subject}",
+      replyIntro: "A technician replied to your ticket \"{subject}\":",
+      statusSubject: "Ticket update: {subject}",
+      statusIntro: "Your ticket \"{subject}\" is now: {status}.",
+      viewTicket: "View ticket",
+      footer: "You're receiving this email because you're a Torestech client.",
+    },
+  },
+  errors: {
+    fullNameRequired: "Please enter your full name",
+    fullNameTooLong: "Name is too long",
+    emailRequired: "Please enter your email address",
+    emailInvalid: "Please enter a valid email address",
+    emailTooLong: "Email is too long",
+    serviceInvalid: "Please choose a service",
+    messageRequired: "Please tell us how we can help",
+    messageTooShort: "Please tell us a little more (at least 10 characters)",
+    messageTooLong: "Message is too long (5000 characters max)",
+    issueRequired: "Please describe the issue",
+    issueTooShort: "Please describe the issue in a few more words",
+    issueTooLong: "Please keep the description under 2000 characters",
+    replyRequired: "Please type a reply",
+    conversationTooLong: "This conversation is getting long. Please create a support ticket so a technician can take over.",
+    serviceMissing: "Missing service",
+    businessTypeRequired: "Please describe your business",
+    businessTypeTooShort: "Please describe your business in a few words",
+    businessTypeTooLong: "Please keep the description under 200 characters",
+    deviceCountInvalid: "Please enter a whole number",
+    deviceCountTooLow: "Please enter at least 1 device",
+    deviceCountTooHigh: "For more than 10,000 devices, please contact us directly",
+    quoteServicesRequired: "Please choose at least one service",
+    quoteCountInvalid: "Please enter a whole number",
+    quoteSeatsTooLow: "Please enter at least 1 seat",
+    quoteLocationsTooLow: "Please enter at least 1 location",
+    quoteTooLarge: "For a business this size, please contact us directly",
+    answerRequired: "Please choose an answer",
+    leadStoreFailed: "We couldn't send your message right now. Please try again or email us directly.",
+    assessmentStoreFailed: "We couldn't save your assessment right now. Please try again.",
+    unknownService: "We don't offer that service.",
+    subjectRequired: "Please add a short subject",
+    subjectTooLong: "Please keep the subject under 150 characters",
+    tooManyAttachments: "Please attach at most 3 screenshots",
+    attachmentTooLarge: "Each screenshot must be 5 MB or smaller",
+    attachmentType: "Screenshots must be PNG, JPEG, GIF or WebP images",
+    signInLinkInvalid: "This sign-in link is invalid or has expired. Please request a new one.",
+    signInRequired: "Your session has ended. Please sign in again.",
+    portalUnavailable: "The client portal isn't available right now. Please contact us directly.",
+    ticketNotFound: "We couldn't find that ticket.",
+    slotRequired: "Please choose a time for your call",
+    slotUnavailable: "Sorry, that time was just taken. Please choose another one.",
+    slotsUnavailable: "We couldn't load the available times. Please try again.",
+    bookingStoreFailed: "We couldn't book your call right now. Please try again or email us directly.",
+    ticketStoreFailed: "We couldn't create your ticket right now. Please try again or email us directly.",
+    explainFailed: "We couldn't generate an explanation right now. Please try again.",
+    rateLimited: "You've sent a lot of requests in a short time. Please wait a few minutes and try again.",
+    duplicateSubmission: "We already have this message from you. Our team will be in touch soon.",
+    submittedTooFast: "That was quick! Please check your details and submit again.",
+    submissionRejected: "We couldn't accept this submission. Please email us directly instead.",
+    challengeInvalid: "Your session expired. Please try again.",
+    checkFields: "Please check the highlighted fields and try again.",
+    network: "We couldn't reach our server. Please check your connection and try again.",
+    generic: "Something went wrong. Please try again.",
+  },
+}
+
+export type Messages = typeof en
+
+// Keys of translatable validation and request errors
+export type ErrorKey = keyof Messages["errors"]
@@ -0,0 +1,689 @@
+import type { Messages } from "@/lib/i18n/messages/en"
+
+/**
+ * French Message Catalog
+ */
+export const fr: Messages = {
+  metadata: {
+    title: "TorestTech | Support et solutions informatiques proactifs",
+    description:
+      "TorestTech fournit un support informatique expert, de la cybersécurité et des solutions cloud pour faire avancer votre entreprise. Demandez votre bilan informatique gratuit dès aujourd'hui.",
+    keywords: "support informatique, cybersécurité, services informatiques gérés, solutions cloud, sauvegarde de données",
+  },
+  nav: {
+    home: "Accueil",
+    services: "Services",
+    about: "À propos",
+    contact: "Contact",
+    blog: "Blog",
+    caseStudies: "Études de cas",
+    pricing: "Tarifs",
+    logoAlt: "Torestech - Tout connecter",
+    language: "Langue",
+    skipToContent: "Aller au contenu principal",
+    mainMenu: "Menu principal",
+    openMenu: "Ouvrir le menu",
+    closeMenu: "Fermer le menu",
+    darkMode: "Passer en mode sombre",
+    lightMode: "Passer en mode clair",
+  },
+  healthCheck: {
+    title: "Bilan informatique gratuit",
+    step: "Étape {step} sur {total} : {title}",
+    sending: "Envoi...",
+    resultsDescription: "Voici où en est votre informatique, avec nos recommandations par ordre de priorité.",
+    chooseAnswer: "Choisissez une réponse",
+    back: "Retour",
+    next: "Suivant",
+    seeResults: "Voir mes résultats",
+    overallScore: "Score global de santé informatique sur 100",
+    priority: {
+      high: "priorité haute",
+      medium: "priorité moyenne",
+      low: "priorité basse",
+    },
+    questions: {
+      deviceCount: {
+        title: "Vos appareils",
+        label: "Combien d'ordinateurs, de portables et de téléphones votre équipe utilise-t-elle ?",
+      },
+      backups: { title: "Sauvegardes", label: "Comment les données de votre entreprise sont-elles sauvegardées ?" },
+      mfa: { title: "Sécurité des comptes", label: "Vos employés utilisent-ils l'authentification multifacteur (MFA) ?" },
+      network: { title: "Réseau", label: "Comment le réseau de votre bureau est-il installé ?" },
+      helpdesk: { title: "Assistance", label: "Qui aide votre équipe quand quelque chose tombe en panne ?" },
+    },
+    options: {
+      backups: {
+        none: "Nous ne sauvegardons pas nos données",
+        manual: "Quelqu'un copie les fichiers manuellement de temps en temps",
+        "automatic-local": "Sauvegardes automatiques sur un disque au bureau",
+        "automatic-offsite": "Sauvegardes automatiques avec une copie hors site ou dans le cloud",
+      },
+      mfa: {
+        none: "Non, uniquement des mots de passe",
+        some: "Sur certains comptes (par ex. la messagerie seulement)",
+        all: "Oui, sur tous les comptes professionnels",
+      },
+      network: {
+        "consumer-router": "Le routeur fourni par notre fournisseur d'accès",
+        "managed-basic": "Du matériel professionnel, installé par un spécialiste",
+        "managed-monitored": "Du matériel professionnel, surveillé en permanence",
+        unknown: "Je ne sais pas",
+      },
+      helpdesk: {
+        none: "Personne - chacun se débrouille",
+        informal: "Un collègue à l'aise avec l'informatique aide quand il peut",
+        "in-house": "Nous avons une équipe informatique interne",
+        outsourced: "Un prestataire informatique externe nous accompagne",
+      },
+    },
+    areas: {
+      backup: "Sauvegarde et restauration",
+      cybersecurity: "Sécurité",
+      network: "Réseau",
+      helpdesk: "Assistance et support",
+    },
+    recommendations: {
+      backup: {
+        high: "Mettez en place dès maintenant des sauvegardes quotidiennes automatiques avec une copie hors site - une seule panne de disque ou un rançongiciel pourrait effacer vos données.",
+        medium: "Ajoutez une copie hors site ou dans le cloud à vos sauvegardes et testez une restauration chaque trimestre.",
+        low: "Vos sauvegardes sont solides. Continuez à tester régulièrement les restaurations.",
+      },
+      cybersecurity: {
+        high: "Activez l'authentification multifacteur sur la messagerie et tous les comptes professionnels - elle bloque la grande majorité des piratages de comptes.",
+        medium: "Étendez l'authentification multifacteur à tous les comptes et ajoutez une sensibilisation au hameçonnage.",
+        low: "Bonne sécurité des comptes. Pensez à des simulations d'hameçonnage régulières pour garder vos équipes vigilantes.",
+      },
+      network: {
+        high: "Faites auditer votre réseau : remplacez le matériel et les mots de passe par défaut, et séparez le Wi-Fi invités des systèmes de l'entreprise.",
+        medium: "Ajoutez une supervision pour repérer les pannes et les appareils suspects avant qu'ils ne perturbent le travail.",
+        low: "Votre réseau est en bon état. Maintenez les micrologiciels à jour.",
+      },
+      helpdesk: {
+        high: "Offrez à votre équipe un support dédié pour que les problèmes soient réglés vite au lieu de grignoter la journée de chacun.",
+        medium: "Structurez le support avec des demandes suivies et des systèmes documentés, pour que le savoir ne repose pas sur une seule personne.",
+        low: "Votre équipe bénéficie d'un bon niveau de support.",
+      },
+    },
+    contactIntro:
+      "Vous souhaitez qu'un expert vous présente ces résultats ? Laissez-nous vos coordonnées et nous vous recontacterons.",
+    submit: "Envoyer mon bilan",
+    submitted: "Merci ! Nous avons bien reçu votre bilan et reviendrons vers vous avec un plan sur mesure.",
+  },
+  stats: {
+    labels: {
+      projects: "Projets réalisés",
+      clients: "Clients satisfaits",
+      years: "Années d'expérience",
+      hours: "Heures de support",
+    },
+    asOf: "Chiffres au",
+    source: "Source",
+    unavailable: "Nos derniers chiffres de projets et de clients sont en cours de mise à jour. Revenez bientôt.",
+  },
+  services: {
+    title: "Nos services principaux",
+    catalog: {
+      troubleshooting: {
+        title: "Dépannage d'appareils",
+        description: "Nous réparons ordinateurs portables, postes fixes et appareils mobiles pour que vous restiez productif.",
+        overview:
+          "Des portables au ralenti aux téléphones qui ne se synchronisent plus, nos techniciens diagnostiquent et réparent vos appareils à distance ou sur site, et les maintiennent à jour pour éviter que les problèmes ne reviennent.",
+        faqs: [
+          {
+            question: "Pouvez-vous résoudre les problèmes à distance ?",
+            answer: "La plupart des problèmes logiciels sont réglés le jour même via une session à distance sécurisée. Nous nous déplaçons pour les pannes matérielles.",
+          },
+          {
+            question: "Quels appareils prenez-vous en charge ?",
+            answer: "Portables et postes fixes Windows et macOS, téléphones et tablettes iOS et Android, imprimantes et périphériques courants.",
+          },
+        ],
+        tiers: {
+          Essentials: {
+            description: "Une couverture souple pour quelques appareils.",
+            features: ["Jusqu'à 5 appareils", "Support à distance aux heures ouvrées", "Intervention le jour ouvré suivant"],
+          },
+          Business: {
+            description: "Une maintenance proactive pour les équipes en croissance.",
+            features: ["Jusqu'à 25 appareils", "Interventions sur site incluses", "Gestion des mises à jour", "Intervention sous 4 heures"],
+          },
+          Enterprise: {
+            description: "Gestion complète du cycle de vie des appareils.",
+            features: ["Appareils illimités", "Support 24h/24, 7j/7", "Achat de matériel", "Intervention critique sous 1 heure"],
+          },
+        },
+      },
+      cybersecurity: {
+        title: "Cybersécurité et protection des données",
+        description: "Protégez vos données précieuses grâce à une cybersécurité robuste et un accompagnement à la conformité.",
+        overview:
+          "Nous protégeons vos comptes, appareils et données à plusieurs niveaux - authentification multifacteur, protection des postes, filtrage des e-mails et sensibilisation des équipes - et vous aidons à respecter vos obligations comme le NDPR.",
+        faqs: [
+          {
+            question: "Nous aidez-vous à nous conformer au NDPR ?",
+            answer: "Oui. Nous analysons la façon dont vous collectez et stockez les données personnelles, corrigeons les failles techniques et vous aidons à préparer la documentation nécessaire.",
+          },
+          {
+            question: "Que se passe-t-il si nous sommes piratés ?",
+            answer: "Les clients disposant d'une offre sécurité bénéficient d'une réponse aux incidents : nous contenons la menace, restaurons les systèmes depuis les sauvegardes et vous guidons pour la suite.",
+          },
+        ],
+        tiers: {
+          Essentials: {
+            description: "Une protection de base pour les petits bureaux.",
+            features: ["Déploiement de la MFA", "Protection des postes", "Revue de sécurité trimestrielle"],
+          },
+          Business: {
+            description: "Une sécurité gérée pour les entreprises en croissance.",
+            features: ["Tout Essentials", "Filtrage des e-mails", "Simulations d'hameçonnage", "Rapport mensuel"],
+          },
+          Enterprise: {
+            description: "Un programme de sécurité orienté conformité.",
+            features: ["Tout Business", "Surveillance 24h/24, 7j/7", "Réponse aux incidents", "Documentation de conformité"],
+          },
+        },
+      },
+      backup: {
+        title: "Sauvegarde et récupération de données",
+        description: "Sécurisez et récupérez vos données grâce à des sauvegardes fiables et à la migration vers le cloud.",
+        overview:
+          "Des sauvegardes automatiques et chiffrées avec copies hors site, des tests de restauration réguliers et une récupération accompagnée en cas de problème - ainsi qu'une migration en douceur de vos fichiers et e-mails vers le cloud.",
+        faqs: [
+          {
+            question: "À quelle fréquence les sauvegardes sont-elles faites ?",
+            answer: "Chaque jour par défaut, avec des instantanés horaires pour les systèmes critiques dans les offres Business et Enterprise.",
+          },
+          {
+            question: "Pouvez-vous récupérer des fichiers sur un disque endommagé ?",
+            answer: "Souvent, oui. Cessez d'utiliser le disque et contactez-nous - moins il est sollicité, plus les chances de récupération sont grandes.",
+          },
+        ],
+        tiers: {
+          Essentials: {
+            description: "Sauvegarde cloud de vos fichiers essentiels.",
+            features: ["Jusqu'à 500 Go", "Sauvegardes quotidiennes", "Conservation 30 jours"],
+          },
+          Business: {
+            description: "Des sauvegardes testées pour serveurs et postes de travail.",
+            features: ["Jusqu'à 2 To", "Instantanés horaires", "Tests de restauration trimestriels", "Conservation 1 an"],
+          },
+          Enterprise: {
+            description: "Plan de continuité d'activité.",
+            features: ["Stockage sur mesure", "Plan de reprise après sinistre", "Sauvegardes immuables", "Restauration prioritaire"],
+          },
+        },
+      },
+      network: {
+        title: "Réseau et connectivité",
+        description: "Un accompagnement complet pour internet, le Wi-Fi, la conception, la supervision et la maintenance réseau.",
+        overview:
+          "Nous concevons, installons et supervisons les réseaux de bureau - une couverture Wi-Fi fiable, un accès invités sécurisé, une connexion de secours et une supervision proactive qui détecte les pannes avant votre équipe.",
+        faqs: [
+          {
+            question: "Pouvez-vous travailler avec notre fournisseur d'accès actuel ?",
+            answer: "Oui. Nous gérons la relation avec votre fournisseur et pouvons ajouter une seconde ligne de secours automatique.",
+          },
+          {
+            question: "Installez-vous le câblage et les points d'accès ?",
+            answer: "Nous étudions vos locaux, recommandons le matériel et prenons en charge le câblage structuré et l'installation des points d'accès.",
+          },
+        ],
+        tiers: {
+          Essentials: {
+            description: "Support pour un petit bureau unique.",
+            features: ["1 site", "Gestion du routeur et du Wi-Fi", "Support à distance"],
+          },
+          Business: {
+            description: "Des réseaux supervisés pour les bureaux très actifs.",
+            features: ["Jusqu'à 3 sites", "Supervision 24h/24, 7j/7", "Réseau invités", "Gestion des micrologiciels"],
+          },
+          Enterprise: {
+            description: "Réseaux multisites redondants.",
+            features: ["Sites illimités", "Connexion internet de secours", "VPN entre sites", "Ingénieur dédié"],
+          },
+        },
+      },
+      helpdesk: {
+        title: "Support dédié",
+        description: "Un support professionnel pour les entreprises, pour que votre équipe soit toujours épaulée.",
+        overview:
+          "Un point de contact unique et bienveillant pour votre équipe, par téléphone, e-mail ou chat. Chaque demande est suivie, et nous gérons pour vous l'arrivée et le départ des collaborateurs.",
+        faqs: [
+          {
+            question: "Quels sont vos horaires de support ?",
+            answer: "Heures ouvrées avec Essentials, horaires étendus avec Business et 24h/24, 7j/7 avec Enterprise.",
+          },
+          {
+            question: "Comment mes employés contactent-ils le support ?",
+            answer: "Par téléphone, e-mail, WhatsApp ou notre portail client - selon ce qui leur convient le mieux.",
+          },
+        ],
+        tiers: {
+          Essentials: {
+            description: "Support pour les petites équipes.",
+            features: ["Jusqu'à 10 utilisateurs", "Support aux heures ouvrées", "E-mail et téléphone"],
+          },
+          Business: {
+            description: "Support aux horaires étendus.",
+            features: ["Jusqu'à 50 utilisateurs", "Horaires étendus", "Support par chat", "Arrivées et départs des collaborateurs"],
+          },
+          Enterprise: {
+            description: "Centre de services disponible en continu.",
+            features: ["Utilisateurs illimités", "Support 24h/24, 7j/7", "Responsable de compte dédié", "Rapports de niveau de service"],
+          },
+        },
+      },
+      training: {
+        title: "Formations informatiques",
+        description: "Donnez à votre équipe les compétences numériques essentielles grâce à nos formations sur mesure.",
+        overview:
+          "Des sessions pratiques construites autour des outils que votre équipe utilise chaque jour, de la bureautique à la sensibilisation à la sécurité, sur site ou en ligne.",
+        faqs: [
+          {
+            question: "La formation est-elle adaptée à notre entreprise ?",
+            answer: "Oui. Nous commençons par une courte évaluation des compétences et construisons les sessions autour de vos logiciels et de vos méthodes de travail.",
+          },
+          {
+            question: "Les participants reçoivent-ils un certificat ?",
+            answer: "Chaque participant qui termine un programme reçoit un certificat de réussite Torestech.",
+          },
+        ],
+        tiers: {
+          Essentials: {
+            description: "Un atelier par mois.",
+            features: ["1 session par mois", "Jusqu'à 10 participants", "En ligne"],
+          },
+          Business: {
+            description: "Un programme continu pour les équipes.",
+            features: ["4 sessions par mois", "Jusqu'à 30 participants", "Sur site ou en ligne", "Suivi de la progression"],
+          },
+          Enterprise: {
+            description: "Un plan de formation pour toute l'organisation.",
+            features: ["Sessions illimitées", "Programme sur mesure", "Campagnes de sensibilisation à la sécurité", "Certificats"],
+          },
+        },
+      },
+    },
+    learnMore: "En savoir plus : {title}",
+    relatedArticles: "Articles liés",
+    explain: {
+      trigger: "Expliquer pour mon entreprise",
+      title: "Explication personnalisée par IA",
+      description: "Décrivez votre activité pour découvrir comment le service « {service} » peut vous être utile.",
+      businessType: "Type d'entreprise",
+      placeholder: "par ex. petit cabinet comptable, start-up e-commerce, cabinet d'avocats...",
+      generate: "Générer l'explication",
+      generating: "Génération...",
+      retry: "Réessayer",
+      benefits: "Avantages",
+      risks: "Risques courants",
+      suggestedPackage: "Offre conseillée : {name}",
+      sources: "Dans notre base de connaissances",
+    },
+  },
+  servicePage: {
+    allServices: "Tous les services",
+    talkToExpert: "Parler à un expert",
+    plans: "Offres",
+    priceFrom: "À partir de {price}",
+    perMonth: " / mois",
+    faqTitle: "Questions fréquentes",
+    portalCta: "Déjà client ? Ouvrez un ticket dans l'espace client",
+  },
+  troubleshoot: {
+    title: "Dépannage instantané par IA",
+    description:
+      "Un souci technique ? Décrivez-le ci-dessous et discutez avec notre assistant IA pour obtenir des étapes sûres à essayer tout de suite.",
+    issueLabel: "Décrivez votre problème technique",
+    placeholder: "par ex. « Mon ordinateur est très lent quand j'ouvre mon navigateur. »",
+    replyLabel: "Votre réponse",
+    replyPlaceholder: "par ex. « Un portable sous Windows 11, sans message d'erreur. »",
+    submit: "Obtenir des suggestions",
+    send: "Envoyer",
+    thinking: "Réflexion...",
+    lookingIntoIt: "Nous examinons le problème...",
+    conversation: "Conversation avec l'assistant d'assistance",
+    you: "Vous",
+    assistant: "Assistant",
+    sources: "Dans notre base de connaissances",
+    startOver: "Recommencer",
+    needsTechnician: "Ce problème nécessite un technicien.",
+    stillStuck: "Toujours bloqué, ou pas à l'aise avec ces étapes ?",
+    createTicket: "Créer un ticket d'assistance",
+    ticketIntro: "Nous transmettrons cette conversation à un technicien : vous n'aurez pas à tout réexpliquer.",
+    ticketSubmit: "Créer le ticket",
+    ticketSubmitting: "Création du ticket...",
+    cancel: "Annuler",
+    ticketCreated: "Ticket créé. Un technicien vous écrira sous un jour ouvré.",
+    unavailable: "L'assistant est indisponible pour le moment.",
+    unreachable: "Impossible de joindre l'assistant. Vérifiez votre connexion et réessayez.",
+    refusal:
+      "Cette opération pourrait entraîner une perte définitive de données ou rendre votre appareil inutilisable, c'est pourquoi nous ne la guidons pas à distance. Parlez-en à l'un de nos techniciens : nous la réaliserons avec vous en toute sécurité.",
+    removedStep: "(Une étape a été retirée car elle pourrait mettre vos données en danger - demandez à un technicien.)",
+    stopped: "Désolé, l'assistant s'est arrêté de manière inattendue. Réessayez ou parlez à un technicien.",
+  },
+  pricing: {
+    title: "Formules et tarifs",
+    description:
+      "Chaque service existe en trois formules. Les prix sont des tarifs mensuels de départ ; l'estimateur vous donne une fourchette adaptée à votre entreprise.",
+    tableCaption: "Prix mensuel de départ pour chaque service et formule",
+    service: "Service",
+    from: "à partir de {price}/mois",
+    estimator: {
+      title: "Estimez votre coût mensuel",
+      description: "Parlez-nous de votre entreprise et nous vous proposerons une formule et une fourchette de prix.",
+      services: "Services souhaités",
+      seats: "Collaborateurs (postes)",
+      devices: "Appareils",
+      locations: "Sites",
+      supportHours: "Horaires d'assistance",
+      supportHoursOptions: {
+        business: "Heures de bureau (lun-ven, 8h-18h)",
+        extended: "Horaires étendus (7h-22h, samedi inclus)",
+        always: "24h/24, 7j/7",
+      },
+      result: "De {low} à {high} par mois",
+      tier: "Formule suggérée : {tier}",
+      breakdown: "Estimation par service",
+      line: "environ {price}/mois",
+      empty: "Choisissez au moins un service pour voir une estimation.",
+      disclaimer: "Ceci est une estimation, pas un devis. Nous confirmons le prix après un court échange sur votre installation.",
+      attach: "Demander un devis avec cette estimation",
+    },
+  },
+  consultation: {
+    title: "Résolvons-le ensemble",
+    description:
+      "Pour les défis complexes ou pour discuter d'un partenariat, nos experts sont prêts à vous aider. Remplissez le formulaire ci-dessous pour une consultation personnalisée.",
+    fullName: "Nom complet",
+    email: "Adresse e-mail",
+    service: "Service souhaité",
+    generalInquiry: "Demande générale",
+    message: "Message",
+    submit: "Envoyer le message",
+    submitting: "Envoi...",
+    successTitle: "Merci ! Votre message a bien été envoyé.",
+    successText: "Un de nos experts vous répondra rapidement.",
+    sendAnother: "Envoyer un autre message",
+    estimateAttached: "Votre estimation est jointe : de {low} à {high} par mois, formule {tier}",
+    removeEstimate: "Retirer l'estimation",
+  },
+  booking: {
+    title: "Réserver un appel",
+    description: "Vous préférez en parler ? Choisissez le moment qui vous convient pour un appel de conseil gratuit de 30 minutes.",
+    pickDay: "Choisissez un jour",
+    pickTime: "Choisissez une heure",
+    loading: "Chargement des créneaux disponibles...",
+    noSlotsThisMonth: "Plus aucun créneau ce mois-ci. Essayez le mois suivant.",
+    chooseDayFirst: "Choisissez un jour en surbrillance pour voir ses créneaux.",
+    retry: "Réessayer",
+    timeZoneNote: "Les heures sont affichées dans votre fuseau horaire ({timeZone}).",
+    selected: "Votre appel : {when}",
+    change: "Changer d'heure",
+    message: "De quoi souhaitez-vous parler ?",
+    submit: "Réserver cet appel",
+    submitting: "Réservation...",
+    successTitle: "C'est réservé !",
+    successText: "Votre appel aura lieu le {when}. Une invitation d'agenda a été envoyée à {email}.",
+    bookAnother: "Réserver un autre appel",
+  },
+  blog: {
+    metaTitle: "Conseils et guides informatiques | TorestTech",
+    title: "Conseils et guides informatiques",
+    description: "Des conseils pratiques de l'équipe Torestech pour garder la technologie de votre entreprise sûre, rapide et fiable.",
+    backToSite: "Retour au site",
+    allArticles: "Tous les articles",
+    topics: "Sujets",
+    services: "Services",
+    clearFilters: "Effacer les filtres",
+    empty: "Aucun article ne correspond encore à ces filtres.",
+    readingTime: "{minutes} min de lecture",
+    published: "Publié le {date}",
+    updated: "Mis à jour le {date}",
+    writtenIn: "En {language}",
+    // Article languages, as they read in a sentence
+    languages: { en: "anglais", fr: "français" },
+    readArticle: "Lire l'article",
+    related: "Articles liés",
+    serviceCta: "Comment nous pouvons vous aider : {service}",
+    subscribe: "S'abonner :",
+    rss: "RSS",
+    atom: "Atom",
+  },
+  caseStudies: {
+    metaTitle: "Études de cas | TorestTech",
+    title: "Études de cas",
+    description: "Comment Torestech a aidé des entreprises à se relever d'attaques, à fiabiliser leur réseau et à garder leurs équipes productives.",
+    backToSite: "Retour au site",
+    allCaseStudies: "Toutes les études de cas",
+    industries: "Secteurs",
+    services: "Services",
+    clearFilters: "Effacer les filtres",
+    empty: "Aucune étude de cas ne correspond encore à ces filtres.",
+    industryLabels: {
+      accounting: "Comptabilité",
+      healthcare: "Santé",
+      retail: "Commerce",
+      legal: "Juridique",
+      logistics: "Logistique",
+      education: "Éducation",
+      hospitality: "Hôtellerie et restauration",
+    },
+    readCaseStudy: "Lire l'étude de cas",
+    problem: "Le défi",
+    outcome: "Le résultat",
+    results: "Résultats",
+    servicesUsed: "Services utilisés",
+    serviceLink: "Études de cas ({count})",
+    testimonials: {
+      title: "Ce que disent nos clients",
+      label: "Témoignages clients",
+      slide: "{index} sur {total}",
+      previous: "Témoignage précédent",
+      next: "Témoignage suivant",
+      goTo: "Afficher le témoignage {index}",
+      viewAll: "Voir toutes les études de cas",
+    },
+  },
+  portal: {
+    metaTitle: "Espace client | TorestTech",
+    title: "Espace client",
+    backToSite: "Retour au site",
+    signOut: "Se déconnecter",
+    signIn: {
+      title: "Connexion à l'espace client",
+      description: "Saisissez l'adresse e-mail enregistrée chez Torestech et nous vous enverrons un lien de connexion.",
+      email: "Adresse e-mail",
+      submit: "Recevoir un lien de connexion",
+      submitting: "Envoi...",
+      sent: "Si cette adresse appartient à un client Torestech, un lien de connexion vous a été envoyé. Il expire dans 15 minutes.",
+      notConfigured: "L'espace client n'est pas disponible pour le moment. Veuillez nous contacter directement.",
+      notClient: "Pas encore client ? Dites-nous ce dont vous avez besoin.",
+    },
+    verify: {
+      title: "Finaliser la connexion",
+      description: "Continuez pour ouvrir votre espace client sur cet appareil.",
+      submit: "Accéder à l'espace client",
+      submitting: "Connexion...",
+      requestNew: "Demander un nouveau lien",
+    },
+    tickets: {
+      title: "Vos tickets",
+      welcome: "Bon retour, {name}.",
+      new: "Nouveau ticket",
+      empty: "Vous n'avez encore ouvert aucun ticket.",
+      subject: "Objet",
+      category: "Catégorie",
+      status: "Statut",
+      updated: "Dernière mise à jour",
+      newReply: "Nouvelle réponse",
+      allTickets: "Tous les tickets",
+    },
+    statuses: {
+      open: "Ouvert",
+      "in-progress": "En cours",
+      waiting: "En attente de votre réponse",
+      resolved: "Résolu",
+    },
+    newTicket: {
+      title: "Ouvrir un ticket",
+      description:
+        "Décrivez le problème et un technicien le prendra en charge. Vous recevrez un e-mail à chaque mise à jour.",
+      category: "Catégorie",
+      subject: "Objet",
+      message: "Décrivez le problème",
+      attachments: "Captures d'écran (facultatif)",
+      attachmentsHint: "Jusqu'à 3 images (PNG, JPEG, GIF ou WebP), 5 Mo chacune.",
+      submit: "Ouvrir le ticket",
+      submitting: "Ouverture du ticket...",
+    },
+    thread: {
+      you: "Vous",
+      technician: "{name} (Torestech)",
+      opened: "Ouvert le {date}",
+    },
+    reply: {
+      label: "Votre réponse",
+      submit: "Envoyer la réponse",
+      submitting: "Envoi...",
+      reopens: "Répondre rouvre ce ticket.",
+    },
+  },
+  footer: {
+    quickLinks: "Liens rapides",
+    contactUs: "Nous contacter",
+    location: "Lagos, Nigeria",
+    followUs: "Suivez-nous",
+    copyright: "© 2025 Torestech. Tous droits réservés.",
+    clientPortal: "Espace client",
+    social: {
+      x: "Torestech sur X",
+      linkedin: "Torestech sur LinkedIn",
+      instagram: "Torestech sur Instagram",
+    },
+  },
+  whatsapp: {
+    join: "Rejoignez notre communauté",
+  },
+  consent: {
+    label: "Consentement aux statistiques",
+    text: "Nous aimerions utiliser des statistiques respectueuses de la vie privée pour savoir quelles pages et quels outils aident nos visiteurs. Rien n'est collecté sans votre accord, et vous pouvez changer d'avis à tout moment depuis le pied de page.",
+    accept: "Accepter les statistiques",
+    decline: "Refuser",
+    settings: "Paramètres des cookies",
+  },
+  legal: {
+    backToSite: "Retour au site",
+    navLabel: "Documents juridiques",
+    documents: {
+      privacy: "Politique de confidentialité",
+      terms: "Conditions d'utilisation",
+      cookies: "Politique relative aux cookies",
+    },
+    lastUpdated: "Dernière mise à jour le {date}",
+    writtenIn: "Ce document est rédigé en {language}.",
+    archived: "Vous consultez la version du {date}, qui n'est plus en vigueur.",
+    readCurrent: "Lire la version en vigueur",
+    changelog: "Historique des modifications",
+    changelogIntro: "Toutes les versions publiées, de la plus récente à la plus ancienne.",
+    versionOf: "Version du {date}",
+    current: "Version en vigueur",
+    formNotice: "En envoyant ce formulaire, vous acceptez notre {policy}.",
+  },
+  email: {
+    autoReply: {
+      subject: "Nous avons bien reçu votre message - Torestech",
+      healthCheckSubject: "Les résultats de votre bilan informatique gratuit - Torestech",
+      ticketSubject: "Nous avons bien reçu votre ticket d'assistance - Torestech",
+      greeting: "Bonjour,",
+      intro: "Merci d'avoir contacté Torestech au sujet du service « {service} ». Un de nos experts vous répondra sous un jour ouvré.",
+      healthCheckIntro:
+        "Merci d'avoir réalisé notre bilan informatique gratuit. Votre score global est de {score}/100 ; un de nos experts vous contactera sous un jour ouvré avec un plan sur mesure.",
+      ticketIntro:
+        "Merci d'avoir contacté l'assistance Torestech. Un technicien dispose de votre conversation avec notre assistant et vous répondra sous un jour ouvré.",
+      urgent: "Besoin d'aide immédiate ? Appelez-nous au +234 903 046 1312.",
+      signoff: "L'équipe Torestech",
+      footer: "Vous recevez cet e-mail parce que vous nous avez contactés sur torestech.space.",
+    },
+    booking: {
+      subject: "Votre appel de conseil Torestech : {when}",
+      greeting: "Bonjour {name},",
+      intro: "Votre appel de conseil avec Torestech est réservé pour le {when}.",
+      invite: "L'invitation jointe l'ajoute à votre agenda, et nous vous enverrons un lien de réunion par e-mail avant l'appel.",
+      reschedule: "Besoin d'un autre horaire ? Répondez simplement à cet e-mail.",
+      signoff: "L'équipe Torestech",
+      eventTitle: "Appel de conseil avec Torestech",
+      footer: "Vous recevez cet e-mail car vous avez réservé un appel sur torestech.space.",
+    },
+    portal: {
+      greeting: "Bonjour {name},",
+      magicLinkSubject: "Votre lien de connexion à l'espace client Torestech",
+      magicLinkIntro:
+        "Utilisez le bouton ci-dessous pour vous connecter à l'espace client Torestech. Le lien ne fonctionne qu'une fois et expire dans {minutes} minutes.",
+      magicLinkButton: "Se connecter à l'espace client",
+      magicLinkIgnore: "Si vous n'avez pas demandé à vous connecter, vous pouvez ignorer cet e-mail.",
+      replySubject: "Nouvelle réponse à votre ticket : {subject}",
+      replyIntro: "Un technicien a répondu à votre ticket « {subject} » :",
+      statusSubject: "Mise à jour du ticket : {subject}",
+      statusIntro: "Votre ticket « {subject} » est désormais : {status}.",
+      viewTicket: "Voir le ticket",
+      footer: "Vous recevez cet e-mail parce que vous êtes client de Torestech.",
+    },
+  },
+  errors: {
+    fullNameRequired: "Veuillez indiquer votre nom complet",
+    fullNameTooLong: "Le nom est trop long",
+    emailRequired: "Veuillez indiquer votre adresse e-mail",
+    emailInvalid: "Veuillez indiquer une adresse e-mail valide",
+    emailTooLong: "L'adresse e-mail est trop longue",
+    serviceInvalid: "Veuillez choisir un service",
+    messageRequired: "Dites-nous comment nous pouvons vous aider",
+    messageTooShort: "Dites-nous en un peu plus (au moins 10 caractères)",
+    messageTooLong: "Le message est trop long (5000 caractères maximum)",
+    issueRequired: "Veuillez décrire le problème",
+    issueTooShort: "Veuillez décrire le problème en quelques mots de plus",
+    issueTooLong: "Veuillez limiter la description à 2000 caractères",
+    replyRequired: "Veuillez saisir une réponse",
+    conversationTooLong: "Cette conversation devient longue. Veuillez créer un ticket d'assistance pour qu'un technicien prenne le relais.",
+    serviceMissing: "Service manquant",
+    businessTypeRequired: "Veuillez décrire votre entreprise",
+    businessTypeTooShort: "Veuillez décrire votre entreprise en quelques mots",
+    businessTypeTooLong: "Veuillez limiter la description à 200 caractères",
+    deviceCountInvalid: "Veuillez saisir un nombre entier",
+    deviceCountTooLow: "Veuillez indiquer au moins 1 appareil",
+    deviceCountTooHigh: "Au-delà de 10 000 appareils, contactez-nous directement",
+    quoteServicesRequired: "Veuillez choisir au moins un service",
+    quoteCountInvalid: "Veuillez saisir un nombre entier",
+    quoteSeatsTooLow: "Veuillez saisir au moins 1 poste",
+    quoteLocationsTooLow: "Veuillez saisir au moins 1 site",
+    quoteTooLarge: "Pour une entreprise de cette taille, contactez-nous directement",
+    answerRequired: "Veuillez choisir une réponse",
+    leadStoreFailed: "Impossible d'envoyer votre message pour le moment. Réessayez ou écrivez-nous directement.",
+    assessmentStoreFailed: "Impossible d'enregistrer votre bilan pour le moment. Veuillez réessayer.",
+    unknownService: "Nous ne proposons pas ce service.",
+    subjectRequired: "Veuillez ajouter un objet court",
+    subjectTooLong: "Veuillez limiter l'objet à 150 caractères",
+    tooManyAttachments: "Veuillez joindre au maximum 3 captures d'écran",
+    attachmentTooLarge: "Chaque capture d'écran doit faire 5 Mo au maximum",
+    attachmentType: "Les captures d'écran doivent être des images PNG, JPEG, GIF ou WebP",
+    signInLinkInvalid: "Ce lien de connexion est invalide ou a expiré. Veuillez en demander un nouveau.",
+    signInRequired: "Votre session a expiré. Veuillez vous reconnecter.",
+    portalUnavailable: "L'espace client n'est pas disponible pour le moment. Veuillez nous contacter directement.",
+    ticketNotFound: "Ce ticket est introuvable.",
+    slotRequired: "Veuillez choisir une heure pour votre appel",
+    slotUnavailable: "Désolé, ce créneau vient d'être pris. Veuillez en choisir un autre.",
+    slotsUnavailable: "Impossible de charger les créneaux disponibles. Veuillez réessayer.",
+    bookingStoreFailed: "Impossible de réserver votre appel pour le moment. Veuillez réessayer ou nous écrire directement.",
+    ticketStoreFailed: "Impossible de créer votre ticket pour le moment. Veuillez réessayer ou nous écrire directement.",
+    explainFailed: "Impossible de générer une explication pour le moment. Veuillez réessayer.",
+    rateLimited: "Vous avez envoyé beaucoup de demandes en peu de temps. Veuillez patienter quelques minutes puis réessayer.",
+    duplicateSubmission: "Nous avons déjà reçu ce message de votre part. Notre équipe vous contactera bientôt.",
+    submittedTooFast: "C'était rapide ! Veuillez vérifier vos informations et envoyer à nouveau.",
+    submissionRejected: "Nous n'avons pas pu accepter cet envoi. Veuillez plutôt nous écrire directement par e-mail.",
+    challengeInvalid: "Votre session a expiré. Veuillez réessayer.",
+    checkFields: "Veuillez vérifier les champs signalés et réessayer.",
+    network: "Impossible de joindre notre serveur. Vérifiez votre connexion et réessayez.",
+    generic: "Une erreur est survenue. Veuillez réessayer.",
+  },
+}
@@ -0,0 +1,14 @@
+import type { Locale } from "@/lib/i18n/config"
+import { en, type Messages } from "@/lib/i18n/messages/en"
+import { fr } from "@/lib/i18n/messages/fr"
+
+export type { ErrorKey, Messages } from "@/lib/i18n/messages/en"
+
+const CATALOGS: Record<Locale, Messages> = { en, fr }
+
+/**
+ * Message catalog for a locale, on the server; client islands read it through `useI18n()`
+ */
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale]
+}
@@ -0,0 +1,20 @@
+import type { Messages } from "@/lib/i18n/messages/en"
+
+/**
+ * Replace `{name}` placeholders in a message with values
+ */
+export function formatMessage(message: string, values: Record<string, string | number>): string {
+  return message.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match))
+}
+
+/**
+ * Translate a validation or API error
+ *
+ * Shared zod schemas and API routes report error keys from the catalog's
+ * `errors` section; anything else (e.g. a message from an upstream service)
+ * is shown as-is.
+ */
+export function translateError(messages: Messages, error: string | undefined): string | undefined {
+  if (!error) return undefined
+  return error in messages.errors ? messages.errors[error as keyof Messages["errors"]] : error
+}
@@ -0,0 +1,124 @@
+import { z } from "zod"
+
+import type { HealthCheckResult } from "@/lib/health-check/assessment"
+import { DEFAULT_LOCALE, LOCALES } from "@/lib/i18n/config"
+import { quoteEstimateSchema } from "@/lib/pricing/estimate"
+import { SERVICES, type ServiceSlug } from "@/lib/services/catalog"
+import type { ChatTurn } from "@/lib/troubleshoot/schema"
+
+/**
+ * Lead Schema Definitions
+ *
+ * Shared between the consultation form (client) and the lead API (server) so
+ * both sides validate against exactly the same rules. Error messages are keys
+ * of the i18n catalog's `errors` section, translated where they are shown.
+ */
+
+// Value of the "Service of Interest" select: a catalog slug or a general inquiry
+export type ServiceValue = "general" | ServiceSlug
+
+// "Service of Interest" options offered by the consultation form, built from the catalog (English labels)
+export const SERVICE_OPTIONS: { value: ServiceValue; label: string }[] = [
+  { value: "general", label: "General Inquiry" },
+  ...SERVICES.map((service) => ({ value: service.slug, label: service.title })),
+]
+
+const serviceValues = SERVICE_OPTIONS.map((option) => option.value) as [ServiceValue, ...ServiceValue[]]
+
+/**
+ * Consultation form payload
+ */
+export const consultationSchema = z.object({
+  fullName: z
+    .string({ required_error: "fullNameRequired" })
+    .trim()
+    .min(2, "fullNameRequired")
+    .max(120, "fullNameTooLong"),
+  email: z
+    .string({ required_error: "emailRequired" })
+    .trim()
+    .email("emailInvalid")
+    .max(254, "emailTooLong"),
+  service: z.enum(serviceValues, { errorMap: () => ({ message: "serviceInvalid" }) }).default("general"),
+  message: z
+    .string({ required_error: "messageRequired" })
+    .trim()
+    .min(10, "messageTooShort")
+    .max(5000, "messageTooLong"),
+  // Site language the visitor used, so replies can be written in it
+  locale: z.enum(LOCALES).default(DEFAULT_LOCALE),
+  // Price estimate the visitor configured on the pricing section, recomputed from its inputs
+  estimate: quoteEstimateSchema.optional(),
+})
+
+export type ConsultationInput = z.infer<typeof consultationSchema>
+
+// Field-level error keys by form field, as rendered (translated) under each Label
+export type LeadFieldErrors = Partial<Record<keyof ConsultationInput, string[]>>
+
+// Where a lead originated on the site
+export type LeadSource = "consultation" | "health-check" | "support-chat" | "booking"
+
+// Source names shown to the team (admin dashboard, notifications)
+export const LEAD_SOURCE_LABELS: Record<LeadSource, string> = {
+  consultation: "Consultation",
+  "health-check": "Health check",
+  "support-chat": "Support chat",
+  booking: "Booked call",
+}
+
+// Pipeline stages a lead moves through in the admin dashboard
+export const LEAD_STATUSES = [
+  { value: "new", label: "New" },
+  { value: "contacted", label: "Contacted" },
+  { value: "qualified", label: "Qualified" },
+  { value: "won", label: "Won" },
+  { value: "lost", label: "Lost" },
+] as const
+
+export type LeadStatus = (typeof LEAD_STATUSES)[number]["value"]
+
+const statusValues = LEAD_STATUSES.map((status) => status.value) as [LeadStatus, ...LeadStatus[]]
+
+/**
+ * A stored lead record
+ */
+export interface Lead extends ConsultationInput {
+  id: string
+  source: LeadSource
+  createdAt: string
+  // Self-assessment answers and scores, for health-check leads
+  assessment?: HealthCheckResult
+  // Conversation with the support assistant, for tickets created from the chat
+  transcript?: ChatTurn[]
+  // Consultation call booked from the website, as UTC instants
+  appointment?: { start: string; end: string }
+  // Version (effective date) of the privacy policy in force when the visitor submitted;
+  // missing for leads stored before the policy was published
+  privacyPolicyVersion?: string
+  // Triage fields managed by the team in the admin dashboard
+  status: LeadStatus
+  tags: string[]
+  assignee?: string
+  updatedAt?: string
+}
+
+// Lead fields supplied by the caller; the store assigns id, timestamp and triage defaults
+export type NewLead = Omit<Lead, "id" | "createdAt" | "status" | "tags" | "assignee" | "updatedAt">
+
+/**
+ * Admin changes to a lead's triage fields; omitted fields are left as they are
+ */
+export const leadUpdateSchema = z
+  .object({
+    status: z.enum(statusValues),
+    tags: z
+      .array(z.string().trim().toLowerCase().min(1).max(40))
+      .max(20)
+      .transform((tags) => [...new Set(tags)]),
+    // Team member the lead is assigned to; null clears the assignment
+    assignee: z.string().trim().min(1).max(120).nullable(),
+  })
+  .partial()
+
+export type LeadUpdate = z.infer<typeof leadUpdateSchema>
@@ -0,0 +1,144 @@
+import { randomUUID } from "crypto"
+
+import { findDuplicateLead } from "@/lib/abuse/duplicates"
+import { dataFilePath, readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+import type { Lead, LeadUpdate, NewLead } from "@/lib/leads/schema"
+
+/**
+ * Lead Store
+ *
+ * Pluggable persistence for incoming leads. The adapter is picked with the
+ * `LEAD_STORE` environment variable:
+ * - "file" (default): JSON file in the local data directory, for development
+ * - "memory": process-local array, for tests and previews
+ *
+ * With `rejectDuplicates`, `create` looks for an earlier copy of the lead
+ * inside the store's write queue, so a double-clicked form can't file it twice.
+ */
+export interface LeadStore {
+  // Rejects with DuplicateLeadError when rejectDuplicates is set and the lead repeats an earlier one
+  create(input: NewLead, options?: CreateLeadOptions): Promise<Lead>
+  list(): Promise<Lead[]>
+  get(id: string): Promise<Lead | undefined>
+  // Resolves to undefined when no lead has the id
+  update(id: string, changes: LeadUpdate): Promise<Lead | undefined>
+}
+
+export interface CreateLeadOptions {
+  rejectDuplicates?: boolean
+}
+
+/**
+ * Error raised when a new lead repeats one already stored
+ */
+export class DuplicateLeadError extends Error {
+  constructor(existingId: string) {
+    super(`The lead repeats lead ${existingId}`)
+    this.name = "DuplicateLeadError"
+  }
+}
+
+/**
+ * Check for an earlier copy when asked to and build the lead record, or throw
+ */
+function buildLead(input: NewLead, leads: Lead[], { rejectDuplicates = false }: CreateLeadOptions = {}): Lead {
+  const duplicate = rejectDuplicates ? findDuplicateLead(leads, input) : undefined
+  if (duplicate) {
+    throw new DuplicateLeadError(duplicate.id)
+  }
+  return {
+    ...input,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    status: "new",
+    tags: [],
+  }
+}
+
+/**
+ * Fill in triage defaults for leads stored before the admin dashboard existed
+ */
+function normalizeLead(lead: Lead): Lead {
+  return { ...lead, status: lead.status ?? "new", tags: lead.tags ?? [] }
+}
+
+/**
+ * Apply triage changes to a lead
+ */
+function applyUpdate(lead: Lead, changes: LeadUpdate): Lead {
+  const { assignee, ...rest } = changes
+  const updated: Lead = { ...normalizeLead(lead), ...rest, updatedAt: new Date().toISOString() }
+  if (assignee !== undefined) {
+    updated.assignee = assignee ?? undefined
+  }
+  return updated
+}
+
+/**
+ * JSON file adapter - all leads stored in a single file, newest last
+ */
+export function createFileLeadStore(filePath = dataFilePath("leads.json")): LeadStore {
+  return {
+    create(input, options) {
+      return updateJsonFile<Lead[], Lead>(filePath, [], (leads) => {
+        const lead = buildLead(input, leads, options)
+        return { data: [...leads, lead], result: lead }
+      })
+    },
+    async list() {
+      const leads = await readJsonFile<Lead[]>(filePath, [])
+      return leads.map(normalizeLead)
+    },
+    async get(id) {
+      const leads = await readJsonFile<Lead[]>(filePath, [])
+      const lead = leads.find((candidate) => candidate.id === id)
+      return lead && normalizeLead(lead)
+    },
+    update(id, changes) {
+      return updateJsonFile<Lead[], Lead | undefined>(filePath, [], (leads) => {
+        const index = leads.findIndex((lead) => lead.id === id)
+        if (index === -1) return { data: leads, result: undefined }
+        const updated = applyUpdate(leads[index], changes)
+        return { data: leads.map((lead, i) => (i === index ? updated : lead)), result: updated }
+      })
+    },
+  }
+}
+
+/**
+ * In-memory adapter - nothing survives a restart
+ */
+export function createMemoryLeadStore(): LeadStore {
+  const leads: Lead[] = []
+  return {
+    async create(input, options) {
+      const lead = buildLead(input, leads, options)
+      leads.push(lead)
+      return lead
+    },
+    async list() {
+      return [...leads]
+    },
+    async get(id) {
+      return leads.find((lead) => lead.id === id)
+    },
+    async update(id, changes) {
+      const index = leads.findIndex((lead) => lead.id === id)
+      if (index === -1) return undefined
+      leads[index] = applyUpdate(leads[index], changes)
+      return leads[index]
+    },
+  }
+}
+
+let leadStore: LeadStore | undefined
+
+/**
+ * Shared lead store instance for the running server
+ */
+export function getLeadStore(): LeadStore {
+  if (!leadStore) {
+    leadStore = process.env.LEAD_STORE === "memory" ? createMemoryLeadStore() : createFileLeadStore()
+  }
+  return leadStore
+}
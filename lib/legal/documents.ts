@@ -0,0 +1,131 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type React from "react"
+import { compileMDX } from "next-mdx-remote/rsc"
+import { z } from "zod"
+
+import { mdxComponents } from "@/components/blog/mdx-components"
+import { DEFAULT_LOCALE, LOCALES } from "@/lib/i18n/config"
+
+/**
+ * Legal Documents
+ *
+ * The privacy policy, terms and cookie policy are Markdown files in
+ * `content/legal/<document>/`, one per version, named after the date the
+ * version took effect. Publishing a change means adding a new file; older
+ * versions stay online so every lead's recorded consent can be read back.
+ * A file dated in the future is a scheduled version: it stays hidden, and
+ * the one before it remains current, until that date (UTC).
+ */
+
+export const LEGAL_DOCUMENTS = ["privacy", "terms", "cookies"] as const
+
+export type LegalDocumentSlug = (typeof LEGAL_DOCUMENTS)[number]
+
+const LEGAL_DIR = path.join(process.cwd(), "content", "legal")
+
+const VERSION_FILE = /^(\d{4}-\d{2}-\d{2})\.md$/
+
+export const legalFrontmatterSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1).max(300),
+  // Changelog entry: what this version changed compared to the one before
+  changes: z.array(z.string().min(1)).min(1),
+  // Language the document is written in
+  lang: z.enum(LOCALES).default(DEFAULT_LOCALE),
+})
+
+export type LegalFrontmatter = z.infer<typeof legalFrontmatterSchema>
+
+export interface LegalVersionSummary extends LegalFrontmatter {
+  document: LegalDocumentSlug
+  // Effective date, YYYY-MM-DD
+  version: string
+}
+
+export interface LegalVersion extends LegalVersionSummary {
+  content: React.ReactElement
+}
+
+export function isLegalDocument(value: string): value is LegalDocumentSlug {
+  return (LEGAL_DOCUMENTS as readonly string[]).includes(value)
+}
+
+// Compiled versions keyed by file and modification time, so edits show up without a restart
+const compiled = new Map<string, Promise<LegalVersion>>()
+
+/**
+ * Compile one version, validating its frontmatter
+ */
+async function compileVersion(document: LegalDocumentSlug, version: string): Promise<LegalVersion> {
+  const fileName = `${document}/${version}.md`
+  const source = await fs.readFile(path.join(LEGAL_DIR, fileName), "utf8")
+  const { content, frontmatter } = await compileMDX({
+    source,
+    components: mdxComponents,
+    options: { parseFrontmatter: true, mdxOptions: { format: "md" } },
+  })
+  const parsed = legalFrontmatterSchema.safeParse(frontmatter)
+  if (!parsed.success) {
+    throw new Error(`Invalid frontmatter in content/legal/${fileName}: ${JSON.stringify(parsed.error.flatten().fieldErrors)}`)
+  }
+  return { ...parsed.data, document, version, content }
+}
+
+async function loadVersion(document: LegalDocumentSlug, version: string): Promise<LegalVersion> {
+  const { mtimeMs } = await fs.stat(path.join(LEGAL_DIR, document, `${version}.md`))
+  const key = `${document}/${version}@${mtimeMs}`
+  let loaded = compiled.get(key)
+  if (!loaded) {
+    loaded = compileVersion(document, version)
+    compiled.set(key, loaded)
+    // A failed compilation is retried on the next request
+    loaded.catch(() => compiled.delete(key))
+  }
+  return loaded
+}
+
+/**
+ * Version dates of a document on disk that have taken effect, newest first
+ */
+async function listVersions(document: LegalDocumentSlug, now = new Date()): Promise<string[]> {
+  const today = now.toISOString().slice(0, 10)
+  try {
+    const files = await fs.readdir(path.join(LEGAL_DIR, document))
+    return files
+      .map((file) => VERSION_FILE.exec(file)?.[1])
+      .filter((version): version is string => version !== undefined && version <= today)
+      .sort((a, b) => b.localeCompare(a))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+}
+
+/**
+ * Every version of a document with its changelog entry, newest first
+ */
+export async function getLegalVersions(document: LegalDocumentSlug): Promise<LegalVersionSummary[]> {
+  const versions = await Promise.all((await listVersions(document)).map((version) => loadVersion(document, version)))
+  return versions.map(({ content: _content, ...summary }): LegalVersionSummary => summary)
+}
+
+/**
+ * One version of a document, the current one when no version is given;
+ * undefined when it doesn't exist
+ */
+export async function getLegalDocument(document: LegalDocumentSlug, version?: string): Promise<LegalVersion | undefined> {
+  const versions = await listVersions(document)
+  const wanted = version ?? versions[0]
+  return wanted && versions.includes(wanted) ? loadVersion(document, wanted) : undefined
+}
+
+/**
+ * Version of a document in force today, recorded with each lead as the
+ * policy the visitor agreed to
+ */
+export async function currentLegalVersion(document: LegalDocumentSlug): Promise<string> {
+  const [current] = await listVersions(document)
+  if (!current) throw new Error(`No published version of content/legal/${document}`)
+  return current
+}
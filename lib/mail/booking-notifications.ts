@@ -0,0 +1,23 @@
+import type { Booking } from "@/lib/booking/schema"
+import { bookingConfirmationEmail, bookingNotificationEmail } from "@/lib/mail/booking-templates"
+import { leadRecipients } from "@/lib/mail/routing"
+import { sendMail } from "@/lib/mail/transport"
+
+/**
+ * Send the calendar invite to the team and to the visitor
+ *
+ * The booking is already stored, so a mail failure is logged rather than
+ * failing the request.
+ */
+export async function sendBookingEmails(booking: Booking, businessTimeZone: string): Promise<void> {
+  const results = await Promise.allSettled([
+    sendMail({ ...bookingNotificationEmail(booking, businessTimeZone), to: leadRecipients(booking.service) }),
+    sendMail(bookingConfirmationEmail(booking)),
+  ])
+
+  for (const result of results) {
+    if (result.status === "rejected") {
+      console.error(`Failed to send email for booking ${booking.id}`, result.reason)
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { calendarInvite } from "@/lib/booking/ics"
+import type { Booking } from "@/lib/booking/schema"
+import { LOCALE_FORMATS } from "@/lib/i18n/config"
+import { getMessages } from "@/lib/i18n/messages"
+import { formatMessage } from "@/lib/i18n/translate"
+import { SERVICE_OPTIONS } from "@/lib/leads/schema"
+import { BRAND_COLOR, escapeHtml, paragraph, renderLayout } from "@/lib/mail/layout"
+import { mailFrom, type MailAttachment, type MailMessage } from "@/lib/mail/transport"
+import { SITE_URL } from "@/lib/site"
+
+/**
+ * Booking Email Templates
+ *
+ * Both messages carry the same `.ics` invite. The visitor's confirmation is
+ * in their site language and time zone; the team's notification is in English
+ * and in the business time zone.
+ */
+
+/**
+ * Date and time of a call, with the time zone spelled out
+ */
+function formatCallTime(iso: string, locale: string, timeZone: string): string {
+  return `${new Date(iso).toLocaleString(locale, { timeZone, dateStyle: "full", timeStyle: "short" })} (${timeZone})`
+}
+
+/**
+ * The invite attachment for a booking
+ */
+function inviteAttachment(booking: Booking): MailAttachment {
+  const from = mailFrom()
+  const organizerEmail = from.match(/<([^>]+)>/)?.[1] ?? from
+  const organizerName = from.replace(/\s*<[^>]+>/, "").trim() || "Torestech"
+  const copy = getMessages(booking.locale).email.booking
+
+  return {
+    filename: "invite.ics",
+    contentType: "text/calendar; charset=utf-8; method=REQUEST",
+    content: calendarInvite({
+      uid: `${booking.id}@torestech.space`,
+      start: booking.start,
+      end: booking.end,
+      summary: copy.eventTitle,
+      description: booking.message,
+      organizer: { name: organizerName, email: organizerEmail },
+      attendee: { name: booking.fullName, email: booking.email },
+    }),
+  }
+}
+
+/**
+ * Confirmation sent to the visitor who booked the call
+ */
+export function bookingConfirmationEmail(booking: Booking): MailMessage {
+  const copy = getMessages(booking.locale).email.booking
+  const when = formatCallTime(booking.start, LOCALE_FORMATS[booking.locale], booking.timeZone)
+  const greeting = formatMessage(copy.greeting, { name: booking.fullName })
+  const intro = formatMessage(copy.intro, { when })
+
+  return {
+    to: [booking.email],
+    subject: formatMessage(copy.subject, { when }),
+    text: [greeting, "", intro, "", copy.invite, "", copy.reschedule, "", copy.signoff].join("\n"),
+    html: renderLayout(
+      booking.locale,
+      `${paragraph(greeting)}
+    ${paragraph(intro)}
+    ${paragraph(copy.invite)}
+    ${paragraph(copy.reschedule)}
+    ${paragraph(copy.signoff)}`,
+      copy.footer,
+    ),
+    attachments: [inviteAttachment(booking)],
+  }
+}
+
+/**
+ * Internal notification for the team taking the call
+ */
+export function bookingNotificationEmail(booking: Booking, businessTimeZone: string): Omit<MailMessage, "to"> {
+  const service = SERVICE_OPTIONS.find((option) => option.value === booking.service)?.label ?? booking.service
+  const when = formatCallTime(booking.start, "en-GB", businessTimeZone)
+  const adminUrl = `${SITE_URL}/admin/bookings`
+  const details: [string, string][] = [
+    ["When", when],
+    ["Name", booking.fullName],
+    ["Email", booking.email],
+    ["Service", service],
+    ["Visitor's time zone", booking.timeZone],
+    ["Language", booking.locale],
+  ]
+
+  const text = [
+    `${booking.fullName} booked a consultation call.`,
+    "",
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    "",
+    booking.message,
+    "",
+    `Upcoming calls: ${adminUrl}`,
+  ].join("\n")
+
+  const rows = details
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:4px 12px 4px 0;color:#64748b">${label}</td><td style="padding:4px 0">${escapeHtml(value)}</td></tr>`,
+    )
+    .join("")
+  const html = renderLayout(
+    "en",
+    `<h1 style="margin:0 0 16px;font-size:20px">New consultation call</h1>
+    <table role="presentation" style="margin:0 0 16px;font-size:14px">${rows}</table>
+    ${paragraph(booking.message)}
+    <a href="${adminUrl}" style="color:${BRAND_COLOR};font-weight:bold">Upcoming calls</a>`,
+    "Sent by the torestech.space booking notifier.",
+  )
+
+  return {
+    subject: `Call booked: ${booking.fullName}, ${when}`,
+    text,
+    html,
+    replyTo: booking.email,
+    attachments: [inviteAttachment(booking)],
+  }
+}
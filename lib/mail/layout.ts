@@ -0,0 +1,48 @@
+import { SITE_URL } from "@/lib/site"
+
+/**
+ * Email Layout Helpers
+ *
+ * Shared building blocks for HTML emails: escaping, paragraphs and the
+ * branded shell every message is wrapped in.
+ */
+
+// Brand colour used for the header bar and links (Tailwind indigo-600)
+export const BRAND_COLOR = "#4f46e5"
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+// Paragraphs of escaped text, keeping the visitor's line breaks
+export const paragraph = (text: string) =>
+  `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(text).replace(/\n/g, "<br>")}</p>`
+
+/**
+ * Branded HTML shell: logo header, white content card, small footer
+ */
+export function renderLayout(lang: string, content: string, footer: string): string {
+  return `<!doctype html>
+<html lang="${lang}">
+<body style="margin:0;padding:24px;background:#f8fafc;font-family:Arial,Helvetica,sans-serif;color:#0f172a">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden">
+    <tr><td style="background:${BRAND_COLOR};padding:16px 24px">
+      <img src="${SITE_URL}/torestech-logo.jpeg" alt="Torestech" height="32" style="display:block;height:32px">
+    </td></tr>
+    <tr><td style="padding:24px">${content}</td></tr>
+  </table>
+  <p style="max-width:600px;margin:16px auto 0;font-size:12px;color:#64748b;text-align:center">${escapeHtml(footer)}</p>
+</body>
+</html>`
+}
+
+/**
+ * Call-to-action link styled as a button
+ */
+export const actionButton = (href: string, label: string) =>
+  `<p style="margin:0 0 16px"><a href="${escapeHtml(href)}" style="display:inline-block;padding:10px 20px;background:${BRAND_COLOR};color:#ffffff;border-radius:6px;text-decoration:none;font-weight:bold">${escapeHtml(label)}</a></p>`
@@ -0,0 +1,23 @@
+import type { Lead } from "@/lib/leads/schema"
+import { leadAutoReplyEmail, leadNotificationEmail } from "@/lib/mail/templates"
+import { leadRecipients } from "@/lib/mail/routing"
+import { sendMail } from "@/lib/mail/transport"
+
+/**
+ * Tell the team about a new lead and confirm receipt to the visitor
+ *
+ * The lead is already stored, so a mail failure is logged rather than
+ * failing the submission.
+ */
+export async function sendLeadEmails(lead: Lead): Promise<void> {
+  const results = await Promise.allSettled([
+    sendMail({ ...leadNotificationEmail(lead), to: leadRecipients(lead.service) }),
+    sendMail(leadAutoReplyEmail(lead)),
+  ])
+
+  for (const result of results) {
+    if (result.status === "rejected") {
+      console.error(`Failed to send email for lead ${lead.id}`, result.reason)
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { randomUUID } from "crypto"
+
+import { dataFilePath, writeJsonFile } from "@/lib/storage/json-file"
+import type { MailTransport } from "@/lib/mail/transport"
+
+/**
+ * File transport - writes each message to `<DATA_DIR>/outbox/` so it can be
+ * opened and checked without a mail server
+ */
+export function createFileMailTransport(): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      const sentAt = new Date().toISOString()
+      const fileName = `${sentAt.replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.json`
+      await writeJsonFile(dataFilePath(`outbox/${fileName}`), { ...message, sentAt })
+    },
+  }
+}
+
+/**
+ * Console transport - logs the plain-text version of each message
+ */
+export function createConsoleMailTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.info(`[mail] To: ${message.to.join(", ")}\n[mail] Subject: ${message.subject}\n${message.text}`)
+    },
+  }
+}
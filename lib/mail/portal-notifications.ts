@@ -0,0 +1,28 @@
+import { ticketActivityEmail, ticketUpdateEmail } from "@/lib/mail/portal-templates"
+import { leadRecipients } from "@/lib/mail/routing"
+import { sendMail } from "@/lib/mail/transport"
+import type { PortalUser, Ticket, TicketMessage } from "@/lib/portal/schema"
+
+/**
+ * Tell the team responsible for the ticket's category about new client activity
+ *
+ * Like the lead emails, failures are logged: the ticket is already saved.
+ */
+export async function notifyTeamOfTicket(user: PortalUser, ticket: Ticket, message: TicketMessage): Promise<void> {
+  try {
+    await sendMail({ ...ticketActivityEmail(user, ticket, message), to: leadRecipients(ticket.category) })
+  } catch (error) {
+    console.error(`Failed to send team notification for ticket ${ticket.id}`, error)
+  }
+}
+
+/**
+ * Tell the client about a technician reply or status change
+ */
+export async function notifyClientOfTicket(user: PortalUser, ticket: Ticket, reply?: TicketMessage): Promise<void> {
+  try {
+    await sendMail(ticketUpdateEmail(user, ticket, reply))
+  } catch (error) {
+    console.error(`Failed to send client update for ticket ${ticket.id}`, error)
+  }
+}
@@ -0,0 +1,113 @@
+import { getMessages } from "@/lib/i18n/messages"
+import { formatMessage } from "@/lib/i18n/translate"
+import { BRAND_COLOR, actionButton, escapeHtml, paragraph, renderLayout } from "@/lib/mail/layout"
+import type { MailMessage } from "@/lib/mail/transport"
+import { MAGIC_LINK_TTL_MINUTES } from "@/lib/portal/magic-link"
+import { TICKET_STATUSES, type PortalUser, type Ticket, type TicketMessage } from "@/lib/portal/schema"
+import { getService } from "@/lib/services/catalog"
+import { SITE_URL } from "@/lib/site"
+
+/**
+ * Client Portal Email Templates
+ *
+ * Client-facing messages use the client's portal language; notifications to
+ * the team are in English, like the lead notifications.
+ */
+
+/**
+ * Sign-in link for the client portal
+ */
+export function magicLinkEmail(user: PortalUser, link: string): MailMessage {
+  const copy = getMessages(user.locale).email.portal
+  const greeting = formatMessage(copy.greeting, { name: user.name })
+  const intro = formatMessage(copy.magicLinkIntro, { minutes: MAGIC_LINK_TTL_MINUTES })
+
+  return {
+    to: [user.email],
+    subject: copy.magicLinkSubject,
+    text: [greeting, "", intro, "", link, "", copy.magicLinkIgnore].join("\n"),
+    html: renderLayout(
+      user.locale,
+      `${paragraph(greeting)}
+    ${paragraph(intro)}
+    ${actionButton(link, copy.magicLinkButton)}
+    ${paragraph(copy.magicLinkIgnore)}`,
+      copy.footer,
+    ),
+  }
+}
+
+/**
+ * Tell a client that a technician replied or changed their ticket's status
+ */
+export function ticketUpdateEmail(user: PortalUser, ticket: Ticket, reply?: TicketMessage): MailMessage {
+  const messages = getMessages(user.locale)
+  const copy = messages.email.portal
+  const link = `${SITE_URL}/${user.locale}/portal/tickets/${ticket.id}`
+  const greeting = formatMessage(copy.greeting, { name: user.name })
+  const intro = reply
+    ? formatMessage(copy.replyIntro, { subject: ticket.subject })
+    : formatMessage(copy.statusIntro, { subject: ticket.subject, status: messages.portal.statuses[ticket.status] })
+
+  return {
+    to: [user.email],
+    subject: formatMessage(reply ? copy.replySubject : copy.statusSubject, { subject: ticket.subject }),
+    text: [greeting, "", intro, "", ...(reply ? [reply.body, ""] : []), `${copy.viewTicket}: ${link}`].join("\n"),
+    html: renderLayout(
+      user.locale,
+      `${paragraph(greeting)}
+    ${paragraph(intro)}
+    ${reply ? `<blockquote style="margin:0 0 16px;padding:8px 12px;border-left:3px solid ${BRAND_COLOR};color:#475569">${escapeHtml(reply.body).replace(/\n/g, "<br>")}</blockquote>` : ""}
+    ${actionButton(link, copy.viewTicket)}`,
+      copy.footer,
+    ),
+  }
+}
+
+/**
+ * Internal notification about a new ticket or a client reply
+ */
+export function ticketActivityEmail(user: PortalUser, ticket: Ticket, message: TicketMessage): Omit<MailMessage, "to"> {
+  const isNew = ticket.messages.length === 1
+  const adminUrl = `${SITE_URL}/admin/tickets/${ticket.id}`
+  const category = getService(ticket.category)?.title ?? ticket.category
+  const status = TICKET_STATUSES.find((option) => option.value === ticket.status)?.label ?? ticket.status
+  const heading = isNew ? `New portal ticket from ${user.name}` : `${user.name} replied to a portal ticket`
+  const details: [string, string][] = [
+    ["Client", `${user.name}${user.company ? ` (${user.company})` : ""}`],
+    ["Email", user.email],
+    ["Category", category],
+    ["Subject", ticket.subject],
+    ["Status", status],
+    ["Attachments", String(message.attachments.length)],
+  ]
+
+  const rows = details
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:4px 12px 4px 0;color:#64748b">${label}</td><td style="padding:4px 0">${escapeHtml(value)}</td></tr>`,
+    )
+    .join("")
+
+  return {
+    subject: `${isNew ? "New ticket" : "Ticket reply"}: ${ticket.subject} (${category})`,
+    text: [
+      `${heading}.`,
+      "",
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      "",
+      message.body,
+      "",
+      `Open the ticket: ${adminUrl}`,
+    ].join("\n"),
+    html: renderLayout(
+      "en",
+      `<h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(heading)}</h1>
+    <table role="presentation" style="margin:0 0 16px;font-size:14px">${rows}</table>
+    ${paragraph(message.body)}
+    ${actionButton(adminUrl, "Open the ticket")}`,
+      "Sent by the torestech.space client portal.",
+    ),
+    replyTo: user.email,
+  }
+}
@@ -0,0 +1,39 @@
+import type { ServiceValue } from "@/lib/leads/schema"
+
+/**
+ * Lead Notification Routing
+ *
+ * Internal notifications go to the team responsible for the visitor's
+ * Service of Interest, falling back to the general inbox. Defaults live here;
+ * `LEAD_ROUTES` overrides them per service, e.g.
+ * `cybersecurity=security@torestech.space;network=noc@torestech.space,ops@torestech.space`.
+ */
+
+const DEFAULT_INBOX = "info@torestech.space"
+
+const DEFAULT_ROUTES: Partial<Record<ServiceValue, string[]>> = {
+  cybersecurity: ["security@torestech.space"],
+}
+
+/**
+ * Parse the `LEAD_ROUTES` environment variable
+ */
+function parseRoutes(value: string | undefined): Partial<Record<string, string[]>> {
+  const routes: Partial<Record<string, string[]>> = {}
+  for (const entry of (value ?? "").split(";")) {
+    const [service, addresses] = entry.split("=")
+    const recipients = addresses?.split(",").map((address) => address.trim()).filter(Boolean)
+    if (service?.trim() && recipients?.length) {
+      routes[service.trim()] = recipients
+    }
+  }
+  return routes
+}
+
+/**
+ * Recipients of the internal notification for a lead's service
+ */
+export function leadRecipients(service: ServiceValue): string[] {
+  const overrides = parseRoutes(process.env.LEAD_ROUTES)
+  return overrides[service] ?? DEFAULT_ROUTES[service] ?? [process.env.LEAD_INBOX ?? DEFAULT_INBOX]
+}
@@ -0,0 +1,29 @@
+import nodemailer from "nodemailer"
+
+import type { MailTransport } from "@/lib/mail/transport"
+
+/**
+ * SMTP transport, configured with:
+ * - `SMTP_HOST` and `SMTP_PORT` (default 587)
+ * - `SMTP_SECURE`: "true" for implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+ * - `SMTP_USER` / `SMTP_PASS`: credentials, when the server requires them
+ */
+export function createSmtpMailTransport(): MailTransport {
+  const host = process.env.SMTP_HOST
+  if (!host) throw new Error("SMTP_HOST is not configured")
+
+  const user = process.env.SMTP_USER
+  const mailer = nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: user ? { user, pass: process.env.SMTP_PASS } : undefined,
+  })
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await mailer.sendMail(message)
+    },
+  }
+}
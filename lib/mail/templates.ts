@@ -0,0 +1,115 @@
+import { getMessages } from "@/lib/i18n/messages"
+import { formatMessage } from "@/lib/i18n/translate"
+import { LEAD_SOURCE_LABELS, SERVICE_OPTIONS, type Lead } from "@/lib/leads/schema"
+import { BRAND_COLOR, escapeHtml, paragraph, renderLayout } from "@/lib/mail/layout"
+import type { MailMessage } from "@/lib/mail/transport"
+import { describeEstimate } from "@/lib/pricing/estimate"
+import { getService } from "@/lib/services/catalog"
+import { SITE_URL } from "@/lib/site"
+
+/**
+ * Lead Email Templates
+ *
+ * Each template returns matching plain-text and HTML bodies. Internal
+ * notifications are in English; auto-replies use the visitor's site language.
+ */
+
+/**
+ * English label for a lead's Service of Interest
+ */
+function serviceLabel(lead: Lead): string {
+  return SERVICE_OPTIONS.find((option) => option.value === lead.service)?.label ?? lead.service
+}
+
+/**
+ * Internal "new lead" notification for the team handling the service
+ */
+export function leadNotificationEmail(lead: Lead): Omit<MailMessage, "to"> {
+  const source = LEAD_SOURCE_LABELS[lead.source].toLowerCase()
+  const adminUrl = `${SITE_URL}/admin?q=${encodeURIComponent(lead.email)}`
+  const details: [string, string][] = [
+    ["Name", lead.fullName],
+    ["Email", lead.email],
+    ["Service", serviceLabel(lead)],
+    ["Source", source],
+    ["Language", lead.locale],
+    ["Received", lead.createdAt],
+  ]
+  if (lead.assessment) {
+    details.push(["Health score", `${lead.assessment.overallScore}/100`])
+  }
+  if (lead.estimate) {
+    details.push(["Estimate", describeEstimate(lead.estimate)])
+  }
+
+  const text = [
+    `New ${source} lead from ${lead.fullName}.`,
+    "",
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    "",
+    lead.message,
+    "",
+    `Manage this lead: ${adminUrl}`,
+  ].join("\n")
+
+  const rows = details
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:4px 12px 4px 0;color:#64748b">${label}</td><td style="padding:4px 0">${escapeHtml(value)}</td></tr>`,
+    )
+    .join("")
+  const html = renderLayout(
+    "en",
+    `<h1 style="margin:0 0 16px;font-size:20px">New ${source} lead</h1>
+    <table role="presentation" style="margin:0 0 16px;font-size:14px">${rows}</table>
+    ${paragraph(lead.message)}
+    <a href="${adminUrl}" style="color:${BRAND_COLOR};font-weight:bold">Manage this lead</a>`,
+    "Sent by the torestech.space lead notifier.",
+  )
+
+  return {
+    subject: `New ${source} lead: ${lead.fullName} (${serviceLabel(lead)})`,
+    text,
+    html,
+    // Replying goes straight to the visitor
+    replyTo: lead.email,
+  }
+}
+
+/**
+ * Branded confirmation sent to the visitor, in their site language
+ *
+ * The address is whatever the form said, so nothing the visitor typed is
+ * echoed back, not even their name: the email can't be used to send someone
+ * else arbitrary text.
+ */
+export function leadAutoReplyEmail(lead: Lead): MailMessage {
+  const messages = getMessages(lead.locale)
+  const copy = messages.email.autoReply
+  const service =
+    lead.service === "general"
+      ? messages.consultation.generalInquiry
+      : (messages.services.catalog[lead.service]?.title ?? getService(lead.service)?.title ?? lead.service)
+
+  const intro = lead.assessment
+    ? formatMessage(copy.healthCheckIntro, { score: lead.assessment.overallScore })
+    : lead.transcript
+      ? copy.ticketIntro
+      : formatMessage(copy.intro, { service })
+  const text = [copy.greeting, "", intro, "", copy.urgent, "", copy.signoff].join("\n")
+  const html = renderLayout(
+    lead.locale,
+    `${paragraph(copy.greeting)}
+    ${paragraph(intro)}
+    ${paragraph(copy.urgent)}
+    ${paragraph(copy.signoff)}`,
+    copy.footer,
+  )
+
+  return {
+    to: [lead.email],
+    subject: lead.assessment ? copy.healthCheckSubject : lead.transcript ? copy.ticketSubject : copy.subject,
+    text,
+    html,
+  }
+}
@@ -0,0 +1,61 @@
+import { createConsoleMailTransport, createFileMailTransport } from "@/lib/mail/local-transports"
+import { createSmtpMailTransport } from "@/lib/mail/smtp-transport"
+
+/**
+ * Mail Transport Abstraction
+ *
+ * Everything that sends email goes through a transport, picked with `MAIL_TRANSPORT`:
+ * - "smtp": a real mail server configured with the `SMTP_*` variables
+ * - "file": one JSON file per message in the data directory's outbox, for development
+ * - "console": messages logged to the server output, for tests and previews
+ * When unset, SMTP is used if `SMTP_HOST` is configured and the file outbox otherwise.
+ */
+export interface MailAttachment {
+  filename: string
+  content: string
+  contentType: string
+}
+
+export interface MailMessage {
+  to: string[]
+  subject: string
+  text: string
+  html: string
+  replyTo?: string
+  attachments?: MailAttachment[]
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+// Sender used for every outgoing message
+export function mailFrom(): string {
+  return process.env.MAIL_FROM ?? "Torestech <info@torestech.space>"
+}
+
+let transport: MailTransport | undefined
+
+/**
+ * Shared transport instance for the running server
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const configured = process.env.MAIL_TRANSPORT ?? (process.env.SMTP_HOST ? "smtp" : "file")
+    if (configured === "smtp") transport = createSmtpMailTransport()
+    else if (configured === "console") transport = createConsoleMailTransport()
+    else transport = createFileMailTransport()
+  }
+  return transport
+}
+
+/**
+ * Send a message from the configured sender address
+ *
+ * Async so a misconfigured transport (e.g. "smtp" without `SMTP_HOST`)
+ * rejects like a failed send instead of throwing at the call site.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({ ...message, from: mailFrom() })
+}
@@ -0,0 +1,40 @@
+import type { Messages } from "@/lib/i18n/messages"
+
+/**
+ * Site Navigation
+ *
+ * The menu shared by the header (desktop and mobile) and the footer, in
+ * order. Section items point at landing page sections by element id; that id
+ * is also the URL hash while the section is in view. Page items link to
+ * other pages of the current locale.
+ */
+
+export type NavItem =
+  | { type: "section"; id: string; label: keyof Messages["nav"] }
+  | { type: "page"; path: string; label: keyof Messages["nav"] }
+
+export const NAV_ITEMS: readonly NavItem[] = [
+  { type: "section", id: "hero", label: "home" },
+  { type: "section", id: "services", label: "services" },
+  { type: "section", id: "pricing", label: "pricing" },
+  { type: "section", id: "about", label: "about" },
+  { type: "section", id: "contact", label: "contact" },
+  { type: "page", path: "/blog", label: "blog" },
+  { type: "page", path: "/case-studies", label: "caseStudies" },
+]
+
+/**
+ * Menu items for the published content: case studies only once one is live
+ */
+export function navItems({ hasCaseStudies }: { hasCaseStudies: boolean }): NavItem[] {
+  return NAV_ITEMS.filter((item) => hasCaseStudies || !(item.type === "page" && item.path === "/case-studies"))
+}
+
+// Sections the scroll spy watches, in page order
+export const NAV_SECTION_IDS = NAV_ITEMS.flatMap((item) => (item.type === "section" ? [item.id] : []))
+
+// The top of the page: its section is shown without a hash
+export const HOME_SECTION_ID = "hero"
+
+// Height of the fixed header (h-16); keep in sync with `scroll-padding-top` in globals.css
+export const HEADER_HEIGHT = 64
@@ -0,0 +1,98 @@
+import { randomUUID } from "crypto"
+import { promises as fs } from "fs"
+
+import type { ErrorKey } from "@/lib/i18n/messages"
+import { MAX_ATTACHMENTS, MAX_ATTACHMENT_BYTES, type TicketAttachment } from "@/lib/portal/schema"
+import { dataFilePath } from "@/lib/storage/json-file"
+
+/**
+ * Ticket Attachments
+ *
+ * Screenshots uploaded with ticket messages, stored as files under the data
+ * directory's `attachments/` folder and named by a random id. The image type
+ * is detected from the file's contents rather than trusting the browser, and
+ * only PNG, JPEG, GIF and WebP are accepted.
+ */
+
+/**
+ * Error raised for uploads we refuse; `key` is the i18n error key to show
+ */
+export class AttachmentError extends Error {
+  constructor(readonly key: ErrorKey) {
+    super(`Attachment rejected: ${key}`)
+    this.name = "AttachmentError"
+  }
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte)
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0))
+
+/**
+ * Image type from the file's magic bytes
+ */
+function detectImageType(bytes: Uint8Array): string | undefined {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png"
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg"
+  if (startsWith(bytes, ascii("GIF87a")) || startsWith(bytes, ascii("GIF89a"))) return "image/gif"
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) return "image/webp"
+  return undefined
+}
+
+/**
+ * Keep a display name safe for headers and HTML: no paths or control characters
+ */
+function cleanFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? ""
+  return base.replace(/[\u0000-\u001f\u007f"]/g, "").slice(0, 100) || "screenshot"
+}
+
+const attachmentPath = (id: string) => dataFilePath(`attachments/${id}`)
+
+/**
+ * Files uploaded under a multipart form field
+ */
+export function formFiles(form: FormData, field: string): File[] {
+  return form.getAll(field).filter((entry): entry is File => entry instanceof File)
+}
+
+/**
+ * Validate and store uploaded files; nothing is written unless every file passes
+ */
+export async function saveAttachments(files: File[]): Promise<TicketAttachment[]> {
+  // Browsers send an empty file part when nothing was chosen
+  const uploads = files.filter((file) => file.size > 0)
+  if (uploads.length > MAX_ATTACHMENTS) throw new AttachmentError("tooManyAttachments")
+  if (uploads.some((file) => file.size > MAX_ATTACHMENT_BYTES)) throw new AttachmentError("attachmentTooLarge")
+
+  const prepared = await Promise.all(
+    uploads.map(async (file) => {
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      const contentType = detectImageType(bytes)
+      if (!contentType) throw new AttachmentError("attachmentType")
+      const attachment: TicketAttachment = {
+        id: randomUUID(),
+        fileName: cleanFileName(file.name),
+        contentType,
+        size: bytes.byteLength,
+      }
+      return { attachment, bytes }
+    }),
+  )
+
+  if (prepared.length) {
+    await fs.mkdir(dataFilePath("attachments"), { recursive: true })
+  }
+  for (const { attachment, bytes } of prepared) {
+    await fs.writeFile(attachmentPath(attachment.id), bytes)
+  }
+  return prepared.map(({ attachment }) => attachment)
+}
+
+/**
+ * Contents of a stored attachment
+ */
+export function readAttachment(attachment: TicketAttachment): Promise<Buffer> {
+  return fs.readFile(attachmentPath(attachment.id))
+}
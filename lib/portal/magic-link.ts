@@ -0,0 +1,39 @@
+import { createHash, randomBytes } from "crypto"
+
+import type { Locale } from "@/lib/i18n/config"
+import type { PortalUser } from "@/lib/portal/schema"
+import { getPortalUserStore } from "@/lib/portal/users"
+import { SITE_URL } from "@/lib/site"
+
+/**
+ * Magic Links
+ *
+ * Signing in emails the client a single-use link. Only a hash of the token is
+ * stored on the user, so a leaked data file can't be used to sign in, and a
+ * newer link replaces any older one.
+ */
+
+// Minutes a sign-in link stays valid
+export const MAGIC_LINK_TTL_MINUTES = 15
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex")
+
+/**
+ * Issue a sign-in link for a client in the language they asked in
+ */
+export async function createMagicLink(user: PortalUser, locale: Locale, now = Date.now()): Promise<string> {
+  const token = randomBytes(32).toString("base64url")
+  await getPortalUserStore().update(user.id, {
+    locale,
+    loginTokenHash: hashToken(token),
+    loginTokenExpiresAt: new Date(now + MAGIC_LINK_TTL_MINUTES * 60 * 1000).toISOString(),
+  })
+  return `${SITE_URL}/${locale}/portal/verify?token=${encodeURIComponent(token)}`
+}
+
+/**
+ * Spend a sign-in token; resolves to the client it belongs to while it is valid
+ */
+export function consumeMagicLink(token: string, now = Date.now()): Promise<PortalUser | undefined> {
+  return getPortalUserStore().consumeLoginToken(hashToken(token), now)
+}
@@ -0,0 +1,150 @@
+import { z } from "zod"
+
+import { DEFAULT_LOCALE, LOCALES, type Locale } from "@/lib/i18n/config"
+import { consultationSchema } from "@/lib/leads/schema"
+import { SERVICES, type ServiceSlug } from "@/lib/services/catalog"
+
+/**
+ * Client Portal Schemas
+ *
+ * Records and payloads for the `/portal` helpdesk: client accounts, tickets
+ * and their message threads. Error messages are i18n error keys, like the
+ * lead schemas.
+ */
+
+// Ticket lifecycle, as shown to clients and technicians
+export const TICKET_STATUSES = [
+  { value: "open", label: "Open" },
+  { value: "in-progress", label: "In progress" },
+  { value: "waiting", label: "Waiting on client" },
+  { value: "resolved", label: "Resolved" },
+] as const
+
+export type TicketStatus = (typeof TICKET_STATUSES)[number]["value"]
+
+const statusValues = TICKET_STATUSES.map((status) => status.value) as [TicketStatus, ...TicketStatus[]]
+const categoryValues = SERVICES.map((service) => service.slug) as [ServiceSlug, ...ServiceSlug[]]
+
+// Screenshot limits, checked on the client for feedback and enforced on the server
+export const MAX_ATTACHMENTS = 3
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024
+export const ATTACHMENT_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"] as const
+
+/**
+ * A client allowed to sign in to the portal
+ */
+export interface PortalUser {
+  id: string
+  email: string
+  name: string
+  company?: string
+  // Language of portal emails, updated whenever the client signs in
+  locale: Locale
+  createdAt: string
+  lastSignInAt?: string
+  // Pending magic link: SHA-256 of the token and its expiry (ISO)
+  loginTokenHash?: string
+  loginTokenExpiresAt?: string
+}
+
+export interface TicketAttachment {
+  id: string
+  fileName: string
+  contentType: string
+  size: number
+}
+
+export interface TicketMessage {
+  id: string
+  author: "client" | "technician"
+  authorName: string
+  body: string
+  createdAt: string
+  attachments: TicketAttachment[]
+}
+
+/**
+ * A support ticket and its full thread, oldest message first
+ */
+export interface Ticket {
+  id: string
+  userId: string
+  category: ServiceSlug
+  subject: string
+  status: TicketStatus
+  createdAt: string
+  updatedAt: string
+  messages: TicketMessage[]
+  // Last time the client opened the ticket, to flag unread technician replies
+  clientSeenAt?: string
+}
+
+/**
+ * Whether a technician replied since the client last looked
+ */
+export function hasUnreadReply(ticket: Ticket): boolean {
+  const lastReply = ticket.messages.filter((message) => message.author === "technician").pop()
+  return Boolean(lastReply && (!ticket.clientSeenAt || lastReply.createdAt > ticket.clientSeenAt))
+}
+
+/**
+ * Sign-in request from the portal
+ */
+export const magicLinkRequestSchema = consultationSchema.pick({ email: true }).extend({
+  locale: z.enum(LOCALES).default(DEFAULT_LOCALE),
+})
+
+const messageBodySchema = z
+  .string({ required_error: "messageRequired" })
+  .trim()
+  .min(1, "messageRequired")
+  .max(5000, "messageTooLong")
+
+/**
+ * New ticket fields (attachments travel separately as multipart files)
+ */
+export const newTicketSchema = z.object({
+  category: z.enum(categoryValues, { errorMap: () => ({ message: "serviceInvalid" }) }),
+  subject: z
+    .string({ required_error: "subjectRequired" })
+    .trim()
+    .min(3, "subjectRequired")
+    .max(150, "subjectTooLong"),
+  message: z
+    .string({ required_error: "messageRequired" })
+    .trim()
+    .min(10, "messageTooShort")
+    .max(5000, "messageTooLong"),
+})
+
+export type NewTicketInput = z.infer<typeof newTicketSchema>
+
+/**
+ * Client reply on an existing ticket
+ */
+export const ticketReplySchema = z.object({ message: messageBodySchema })
+
+/**
+ * Technician update from the admin area: a reply, a status change, or both
+ */
+export const ticketUpdateSchema = z
+  .object({
+    status: z.enum(statusValues).optional(),
+    reply: z.string().trim().min(1).max(5000).optional(),
+    // Team member signing the reply, shown to the client
+    technician: z.string().trim().min(1).max(120).optional(),
+  })
+  .refine((update) => update.status || update.reply, "Add a reply or change the status.")
+
+export type TicketUpdate = z.infer<typeof ticketUpdateSchema>
+
+/**
+ * Client account added by the team
+ */
+export const portalClientSchema = consultationSchema.pick({ email: true }).extend({
+  name: consultationSchema.shape.fullName,
+  company: z.string().trim().max(120).optional(),
+  locale: z.enum(LOCALES).default(DEFAULT_LOCALE),
+})
+
+export type PortalClientInput = z.infer<typeof portalClientSchema>
@@ -0,0 +1,65 @@
+import { cookies } from "next/headers"
+import { redirect } from "next/navigation"
+
+import { safeEqual, signValue } from "@/lib/auth/signing"
+import type { Locale } from "@/lib/i18n/config"
+import type { PortalUser } from "@/lib/portal/schema"
+import { getPortalUserStore } from "@/lib/portal/users"
+
+/**
+ * Client Portal Session
+ *
+ * After a client follows their magic link, an HMAC-signed cookie carries
+ * their user id and expiry. Signed with `PORTAL_SESSION_SECRET`; without it
+ * the portal is switched off.
+ */
+
+export const PORTAL_SESSION_COOKIE = "torestech_portal"
+
+// Clients stay signed in for a month
+export const PORTAL_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60
+
+export function isPortalConfigured(): boolean {
+  return Boolean(process.env.PORTAL_SESSION_SECRET)
+}
+
+function sign(value: string): string {
+  const secret = process.env.PORTAL_SESSION_SECRET
+  if (!secret) throw new Error("PORTAL_SESSION_SECRET is not configured")
+  return signValue(secret, value)
+}
+
+/**
+ * New session token: user id, expiry timestamp and signature
+ */
+export function createPortalSessionToken(userId: string, now = Date.now()): string {
+  const payload = `${userId}.${now + PORTAL_SESSION_TTL_SECONDS * 1000}`
+  return `${payload}.${sign(payload)}`
+}
+
+/**
+ * User id from a token we signed that has not expired
+ */
+export function verifyPortalSessionToken(token: string | undefined, now = Date.now()): string | undefined {
+  if (!token || !isPortalConfigured()) return undefined
+  const [userId, expiresAt, signature] = token.split(".")
+  if (!userId || !expiresAt || !signature || !safeEqual(signature, sign(`${userId}.${expiresAt}`))) return undefined
+  return Number(expiresAt) > now ? userId : undefined
+}
+
+/**
+ * Client signed in on the current request, if any
+ */
+export async function getPortalUser(): Promise<PortalUser | undefined> {
+  const userId = verifyPortalSessionToken(cookies().get(PORTAL_SESSION_COOKIE)?.value)
+  return userId ? getPortalUserStore().get(userId) : undefined
+}
+
+/**
+ * Signed-in client, or a redirect to the portal sign-in page
+ */
+export async function requirePortalUser(locale: Locale): Promise<PortalUser> {
+  const user = await getPortalUser()
+  if (!user) redirect(`/${locale}/portal/sign-in`)
+  return user
+}
@@ -0,0 +1,159 @@
+import { randomUUID } from "crypto"
+
+import { dataFilePath, readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+import type { NewTicketInput, Ticket, TicketMessage, TicketStatus } from "@/lib/portal/schema"
+
+/**
+ * Ticket Store
+ *
+ * Portal tickets with their message threads. Attachments are stored as files
+ * next to the data (see `attachments.ts`); tickets only keep their metadata.
+ * Uses the same `PORTAL_STORE` adapter switch as the portal user store.
+ */
+export interface TicketStore {
+  create(userId: string, input: NewTicketInput, firstMessage: TicketMessage): Promise<Ticket>
+  list(): Promise<Ticket[]>
+  listForUser(userId: string): Promise<Ticket[]>
+  get(id: string): Promise<Ticket | undefined>
+  // Each of these resolves to undefined when no ticket has the id
+  addMessage(id: string, message: TicketMessage, status?: TicketStatus): Promise<Ticket | undefined>
+  setStatus(id: string, status: TicketStatus): Promise<Ticket | undefined>
+  markSeen(id: string): Promise<Ticket | undefined>
+}
+
+/**
+ * Build a thread message; ids and timestamps are assigned here
+ */
+export function buildTicketMessage(
+  message: Omit<TicketMessage, "id" | "createdAt" | "attachments">,
+  attachments: TicketMessage["attachments"] = [],
+): TicketMessage {
+  return { ...message, id: randomUUID(), createdAt: new Date().toISOString(), attachments }
+}
+
+function buildTicket(userId: string, input: NewTicketInput, firstMessage: TicketMessage): Ticket {
+  return {
+    id: randomUUID(),
+    userId,
+    category: input.category,
+    subject: input.subject,
+    status: "open",
+    createdAt: firstMessage.createdAt,
+    updatedAt: firstMessage.createdAt,
+    messages: [firstMessage],
+    clientSeenAt: firstMessage.createdAt,
+  }
+}
+
+/**
+ * Append a message; a client writing on a resolved ticket reopens it
+ */
+function applyMessage(ticket: Ticket, message: TicketMessage, status?: TicketStatus): Ticket {
+  const nextStatus = status ?? (message.author === "client" && ticket.status !== "open" ? "open" : ticket.status)
+  return {
+    ...ticket,
+    status: nextStatus,
+    messages: [...ticket.messages, message],
+    updatedAt: message.createdAt,
+    // The client has obviously seen the thread they just replied to
+    clientSeenAt: message.author === "client" ? message.createdAt : ticket.clientSeenAt,
+  }
+}
+
+// Newest activity first
+const byUpdatedAt = (a: Ticket, b: Ticket) => b.updatedAt.localeCompare(a.updatedAt)
+
+/**
+ * JSON file adapter - all tickets in a single file
+ */
+export function createFileTicketStore(filePath = dataFilePath("tickets.json")): TicketStore {
+  const readAll = () => readJsonFile<Ticket[]>(filePath, [])
+
+  // Replace one ticket in the file, or resolve to undefined when it doesn't exist
+  const change = (id: string, apply: (ticket: Ticket) => Ticket) =>
+    updateJsonFile<Ticket[], Ticket | undefined>(filePath, [], (tickets) => {
+      const index = tickets.findIndex((ticket) => ticket.id === id)
+      if (index === -1) return { data: tickets, result: undefined }
+      const updated = apply(tickets[index])
+      return { data: tickets.map((ticket, i) => (i === index ? updated : ticket)), result: updated }
+    })
+
+  return {
+    create(userId, input, firstMessage) {
+      return updateJsonFile<Ticket[], Ticket>(filePath, [], (tickets) => {
+        const ticket = buildTicket(userId, input, firstMessage)
+        return { data: [...tickets, ticket], result: ticket }
+      })
+    },
+    async list() {
+      return (await readAll()).sort(byUpdatedAt)
+    },
+    async listForUser(userId) {
+      return (await readAll()).filter((ticket) => ticket.userId === userId).sort(byUpdatedAt)
+    },
+    async get(id) {
+      return (await readAll()).find((ticket) => ticket.id === id)
+    },
+    addMessage(id, message, status) {
+      return change(id, (ticket) => applyMessage(ticket, message, status))
+    },
+    setStatus(id, status) {
+      return change(id, (ticket) => ({ ...ticket, status, updatedAt: new Date().toISOString() }))
+    },
+    markSeen(id) {
+      return change(id, (ticket) => ({ ...ticket, clientSeenAt: new Date().toISOString() }))
+    },
+  }
+}
+
+/**
+ * In-memory adapter - nothing survives a restart
+ */
+export function createMemoryTicketStore(): TicketStore {
+  const tickets: Ticket[] = []
+
+  const change = async (id: string, apply: (ticket: Ticket) => Ticket) => {
+    const index = tickets.findIndex((ticket) => ticket.id === id)
+    if (index === -1) return undefined
+    tickets[index] = apply(tickets[index])
+    return tickets[index]
+  }
+
+  return {
+    async create(userId, input, firstMessage) {
+      const ticket = buildTicket(userId, input, firstMessage)
+      tickets.push(ticket)
+      return ticket
+    },
+    async list() {
+      return [...tickets].sort(byUpdatedAt)
+    },
+    async listForUser(userId) {
+      return tickets.filter((ticket) => ticket.userId === userId).sort(byUpdatedAt)
+    },
+    async get(id) {
+      return tickets.find((ticket) => ticket.id === id)
+    },
+    addMessage(id, message, status) {
+      return change(id, (ticket) => applyMessage(ticket, message, status))
+    },
+    setStatus(id, status) {
+      return change(id, (ticket) => ({ ...ticket, status, updatedAt: new Date().toISOString() }))
+    },
+    markSeen(id) {
+      return change(id, (ticket) => ({ ...ticket, clientSeenAt: new Date().toISOString() }))
+    },
+  }
+}
+
+let ticketStore: TicketStore | undefined
+
+/**
+ * Shared ticket store instance for the running server
+ */
+export function getTicketStore(): TicketStore {
+  if (!ticketStore) {
+    ticketStore = process.env.PORTAL_STORE === "memory" ? createMemoryTicketStore() : createFileTicketStore()
+  }
+  return ticketStore
+}
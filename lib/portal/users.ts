@@ -0,0 +1,139 @@
+import { randomUUID } from "crypto"
+
+import { dataFilePath, readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+import type { PortalClientInput, PortalUser } from "@/lib/portal/schema"
+
+/**
+ * Portal User Store
+ *
+ * Client accounts for the support portal. Clients cannot sign up themselves:
+ * the team adds them from the admin area. The adapter follows `PORTAL_STORE`
+ * ("file" by default, or "memory"), like the lead store.
+ */
+export interface PortalUserStore {
+  create(input: PortalClientInput): Promise<PortalUser>
+  list(): Promise<PortalUser[]>
+  get(id: string): Promise<PortalUser | undefined>
+  findByEmail(email: string): Promise<PortalUser | undefined>
+  // Resolves to undefined when no user has the id
+  update(id: string, changes: Partial<Omit<PortalUser, "id" | "createdAt">>): Promise<PortalUser | undefined>
+  // Finds, checks and clears a sign-in token in one step, so it works only once.
+  // Resolves to the signed-in user, or undefined when no live token matches
+  consumeLoginToken(tokenHash: string, now: number): Promise<PortalUser | undefined>
+}
+
+/**
+ * Error raised when adding a client whose email is already registered
+ */
+export class DuplicateUserError extends Error {
+  constructor(email: string) {
+    super(`A portal user with email ${email} already exists`)
+    this.name = "DuplicateUserError"
+  }
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+function buildUser(input: PortalClientInput): PortalUser {
+  return { ...input, email: normalizeEmail(input.email), id: randomUUID(), createdAt: new Date().toISOString() }
+}
+
+function findLoginToken(users: PortalUser[], tokenHash: string, now: number): number {
+  return users.findIndex(
+    (user) =>
+      user.loginTokenHash === tokenHash &&
+      !!user.loginTokenExpiresAt &&
+      new Date(user.loginTokenExpiresAt).getTime() >= now,
+  )
+}
+
+function signIn(user: PortalUser, now: number): PortalUser {
+  return { ...user, loginTokenHash: undefined, loginTokenExpiresAt: undefined, lastSignInAt: new Date(now).toISOString() }
+}
+
+/**
+ * JSON file adapter - all users in a single file
+ */
+export function createFilePortalUserStore(filePath = dataFilePath("portal-users.json")): PortalUserStore {
+  const readAll = () => readJsonFile<PortalUser[]>(filePath, [])
+  return {
+    create(input) {
+      return updateJsonFile<PortalUser[], PortalUser>(filePath, [], (users) => {
+        if (users.some((user) => user.email === normalizeEmail(input.email))) throw new DuplicateUserError(input.email)
+        const user = buildUser(input)
+        return { data: [...users, user], result: user }
+      })
+    },
+    list: readAll,
+    async get(id) {
+      return (await readAll()).find((user) => user.id === id)
+    },
+    async findByEmail(email) {
+      return (await readAll()).find((user) => user.email === normalizeEmail(email))
+    },
+    update(id, changes) {
+      return updateJsonFile<PortalUser[], PortalUser | undefined>(filePath, [], (users) => {
+        const index = users.findIndex((user) => user.id === id)
+        if (index === -1) return { data: users, result: undefined }
+        const updated = { ...users[index], ...changes }
+        return { data: users.map((user, i) => (i === index ? updated : user)), result: updated }
+      })
+    },
+    consumeLoginToken(tokenHash, now) {
+      return updateJsonFile<PortalUser[], PortalUser | undefined>(filePath, [], (users) => {
+        const index = findLoginToken(users, tokenHash, now)
+        if (index === -1) return { data: users, result: undefined }
+        const signedIn = signIn(users[index], now)
+        return { data: users.map((user, i) => (i === index ? signedIn : user)), result: signedIn }
+      })
+    },
+  }
+}
+
+/**
+ * In-memory adapter - nothing survives a restart
+ */
+export function createMemoryPortalUserStore(): PortalUserStore {
+  const users: PortalUser[] = []
+  return {
+    async create(input) {
+      if (users.some((user) => user.email === normalizeEmail(input.email))) throw new DuplicateUserError(input.email)
+      const user = buildUser(input)
+      users.push(user)
+      return user
+    },
+    async list() {
+      return [...users]
+    },
+    async get(id) {
+      return users.find((user) => user.id === id)
+    },
+    async findByEmail(email) {
+      return users.find((user) => user.email === normalizeEmail(email))
+    },
+    async update(id, changes) {
+      const index = users.findIndex((user) => user.id === id)
+      if (index === -1) return undefined
+      users[index] = { ...users[index], ...changes }
+      return users[index]
+    },
+    async consumeLoginToken(tokenHash, now) {
+      const index = findLoginToken(users, tokenHash, now)
+      if (index === -1) return undefined
+      users[index] = signIn(users[index], now)
+      return users[index]
+    },
+  }
+}
+
+let userStore: PortalUserStore | undefined
+
+/**
+ * Shared portal user store instance for the running server
+ */
+export function getPortalUserStore(): PortalUserStore {
+  if (!userStore) {
+    userStore = process.env.PORTAL_STORE === "memory" ? createMemoryPortalUserStore() : createFilePortalUserStore()
+  }
+  return userStore
+}
@@ -0,0 +1,161 @@
+import { z } from "zod"
+
+import {
+  SERVICES,
+  formatCatalogPrice,
+  getService,
+  type PricingTier,
+  type ServiceSlug,
+  type TierAllowance,
+} from "@/lib/services/catalog"
+
+/**
+ * Quote Estimator
+ *
+ * Turns a prospect's size (seats, devices, locations) and the support hours
+ * they need into a monthly price range, from the catalog's plan tiers. The
+ * estimate runs in the browser as the visitor changes inputs and again on the
+ * server when it is attached to a consultation request, so stored figures
+ * can't be forged. It's a guide for both sides, not a binding quote.
+ */
+
+export const SUPPORT_HOURS = ["business", "extended", "always"] as const
+
+export type SupportHours = (typeof SUPPORT_HOURS)[number]
+
+// Support hours names shown to the team (admin dashboard, notifications, CSV)
+export const SUPPORT_HOURS_LABELS: Record<SupportHours, string> = {
+  business: "Business hours",
+  extended: "Extended hours",
+  always: "24/7",
+}
+
+export type TierName = PricingTier["name"]
+
+const TIER_ORDER: readonly TierName[] = ["Essentials", "Business", "Enterprise"]
+
+// What a tier's starting price covers where the catalog tier doesn't say
+const DEFAULT_ALLOWANCES: Record<TierName, TierAllowance> = {
+  Essentials: { seats: 5, devices: 5, locations: 1 },
+  Business: { seats: 25, devices: 25, locations: 2 },
+  Enterprise: { seats: 100, devices: 150, locations: 5 },
+}
+
+// Cheapest tier that offers each level of support hours
+const SUPPORT_HOURS_TIERS: Record<SupportHours, TierName> = {
+  business: "Essentials",
+  extended: "Business",
+  always: "Enterprise",
+}
+
+// Share of the tier price added for each seat, device or location beyond the allowance
+const OVERAGE_RATES = { seats: 0.02, devices: 0.01, locations: 0.15 }
+
+// Extended hours cost more on every tier below Enterprise, where they're included
+const EXTENDED_HOURS_SURCHARGE = 0.2
+
+// The range around the estimate, for everything a questionnaire can't see
+const RANGE = { low: 0.9, high: 1.25 }
+
+// Prices are rounded to this step so they don't look more precise than they are
+const ROUNDING = 5000
+
+const serviceSlugs = SERVICES.map((service) => service.slug) as [ServiceSlug, ...ServiceSlug[]]
+
+const count = (invalid: string, tooLow: string, tooHigh: string, min: number, max: number) =>
+  z.coerce.number({ invalid_type_error: invalid }).int(invalid).min(min, tooLow).max(max, tooHigh)
+
+export const quoteInputSchema = z.object({
+  services: z
+    .array(z.enum(serviceSlugs, { errorMap: () => ({ message: "serviceInvalid" }) }))
+    .min(1, "quoteServicesRequired")
+    .transform((services) => [...new Set(services)]),
+  seats: count("quoteCountInvalid", "quoteSeatsTooLow", "quoteTooLarge", 1, 1000),
+  devices: count("quoteCountInvalid", "quoteCountInvalid", "quoteTooLarge", 0, 5000),
+  locations: count("quoteCountInvalid", "quoteLocationsTooLow", "quoteTooLarge", 1, 50),
+  supportHours: z.enum(SUPPORT_HOURS, { errorMap: () => ({ message: "answerRequired" }) }),
+})
+
+export type QuoteInput = z.infer<typeof quoteInputSchema>
+
+export interface QuoteLine {
+  service: ServiceSlug
+  // Estimated monthly price for this service, before the range is applied
+  monthly: number
+}
+
+export interface QuoteEstimate extends QuoteInput {
+  // Smallest tier that fits the size and support hours
+  tier: TierName
+  lines: QuoteLine[]
+  // Monthly range in the catalog currency
+  low: number
+  high: number
+}
+
+const round = (amount: number) => Math.max(ROUNDING, Math.round(amount / ROUNDING) * ROUNDING)
+
+const findTier = (slug: ServiceSlug, tier: TierName) =>
+  getService(slug)?.pricingTiers.find((candidate) => candidate.name === tier)
+
+// The catalog tier's own limits, e.g. "Unlimited devices", over the defaults
+const allowanceFor = (slug: ServiceSlug, tier: TierName): TierAllowance => ({
+  ...DEFAULT_ALLOWANCES[tier],
+  ...findTier(slug, tier)?.allowance,
+})
+
+// Share of the tier price owed for the size beyond the allowance
+const overageFor = (input: QuoteInput, allowance: TierAllowance) =>
+  Math.max(0, input.seats - allowance.seats) * OVERAGE_RATES.seats +
+  Math.max(0, input.devices - allowance.devices) * OVERAGE_RATES.devices +
+  Math.max(0, input.locations - allowance.locations) * OVERAGE_RATES.locations
+
+/**
+ * Smallest tier whose allowance covers the prospect for every chosen service and whose
+ * support hours they need; Enterprise, with overage, for anything bigger
+ */
+export function recommendTier(input: QuoteInput): TierName {
+  const minimum = TIER_ORDER.indexOf(SUPPORT_HOURS_TIERS[input.supportHours])
+  return (
+    TIER_ORDER.slice(minimum).find((name) =>
+      input.services.every((slug) => overageFor(input, allowanceFor(slug, name)) === 0),
+    ) ?? "Enterprise"
+  )
+}
+
+/**
+ * Monthly estimate for the chosen services
+ */
+export function estimateQuote(input: QuoteInput): QuoteEstimate {
+  const tier = recommendTier(input)
+  const surcharge = input.supportHours === "extended" && tier !== "Enterprise" ? EXTENDED_HOURS_SURCHARGE : 0
+
+  const lines = input.services.map((slug): QuoteLine => {
+    const price = findTier(slug, tier)?.monthlyPrice ?? 0
+    const overage = overageFor(input, allowanceFor(slug, tier))
+    return { service: slug, monthly: round(price * (1 + overage + surcharge)) }
+  })
+  const total = lines.reduce((sum, line) => sum + line.monthly, 0)
+
+  return { ...input, tier, lines, low: round(total * RANGE.low), high: round(total * RANGE.high) }
+}
+
+/**
+ * Estimate schema for payloads: validates the inputs and recomputes the figures,
+ * ignoring any the client sent
+ */
+export const quoteEstimateSchema = quoteInputSchema.transform(estimateQuote)
+
+/**
+ * One-line English summary for the team, e.g.
+ * "₦85,000-₦120,000/month, Business plan (12 seats, 15 devices, 1 location, Business hours)"
+ */
+export function describeEstimate(estimate: QuoteEstimate): string {
+  const size = [
+    `${estimate.seats} seat${estimate.seats === 1 ? "" : "s"}`,
+    `${estimate.devices} device${estimate.devices === 1 ? "" : "s"}`,
+    `${estimate.locations} location${estimate.locations === 1 ? "" : "s"}`,
+    SUPPORT_HOURS_LABELS[estimate.supportHours],
+  ].join(", ")
+  return `${formatCatalogPrice(estimate.low)}-${formatCatalogPrice(estimate.high)}/month, ${estimate.tier} plan (${size})`
+}
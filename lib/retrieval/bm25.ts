@@ -0,0 +1,102 @@
+/**
+ * BM25 Lexical Scoring
+ *
+ * Okapi BM25 over stemmed word tokens. It needs no model or network, so it
+ * is always available and is what retrieval falls back to offline.
+ */
+
+// Standard parameters: term-frequency saturation and length normalisation
+const K1 = 1.2
+const B = 0.75
+
+// Words too common to say anything about an issue
+const STOP_WORDS = new Set(
+  (
+    "a about all also am an and any are as ask at be been but by can could do does every for from get got has have " +
+    "help how i if in into is it its just keep know like lot me my need no not of on one open or our please really " +
+    "seem should so some still that the their them then there these they this time to too us very want was we weird " +
+    "what when where which who why will with would you your"
+  ).split(" "),
+)
+
+export interface Bm25Stats {
+  // Number of passages containing each term
+  documentFrequency: Record<string, number>
+  averageLength: number
+  count: number
+}
+
+/**
+ * Crude English stemmer, enough to match "printers"/"printing" with "printer"
+ */
+function stem(word: string): string {
+  if (word.length <= 4) return word
+  // "dropping" -> "dropp" -> "drop"
+  return word.replace(/(?:ies|ing|ers|er|ed|es|s)$/, "").replace(/([b-df-hj-np-tv-z])\1$/, "$1")
+}
+
+/**
+ * Lower-cased, stemmed terms of a text, without stop words
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    // "Wi-Fi" and "e-mail" match "wifi" and "email"
+    .replace(/(\p{L})-(?=\p{L})/gu, "$1")
+    .match(/[\p{L}\p{N}]+/gu)
+  return (words ?? [])
+    .filter((word) => !STOP_WORDS.has(word))
+    .map(stem)
+    .filter((word) => !STOP_WORDS.has(word))
+}
+
+/**
+ * Occurrences of each term in a token list
+ */
+export function termFrequencies(tokens: string[]): Record<string, number> {
+  const frequencies: Record<string, number> = {}
+  for (const token of tokens) {
+    frequencies[token] = (frequencies[token] ?? 0) + 1
+  }
+  return frequencies
+}
+
+/**
+ * Corpus statistics from every passage's term frequencies
+ */
+export function buildBm25Stats(passages: { terms: Record<string, number>; length: number }[]): Bm25Stats {
+  const documentFrequency: Record<string, number> = {}
+  let totalLength = 0
+  for (const { terms, length } of passages) {
+    totalLength += length
+    for (const term of Object.keys(terms)) {
+      documentFrequency[term] = (documentFrequency[term] ?? 0) + 1
+    }
+  }
+  return { documentFrequency, averageLength: passages.length ? totalLength / passages.length : 0, count: passages.length }
+}
+
+/**
+ * Distinct query terms that occur in a passage
+ */
+export function matchedTerms(queryTerms: string[], passage: { terms: Record<string, number> }): number {
+  return new Set(queryTerms.filter((term) => passage.terms[term])).size
+}
+
+/**
+ * Relevance of one passage to the query terms; 0 when no term matches
+ */
+export function bm25Score(queryTerms: string[], passage: { terms: Record<string, number>; length: number }, stats: Bm25Stats): number {
+  let score = 0
+  for (const term of new Set(queryTerms)) {
+    const frequency = passage.terms[term]
+    if (!frequency) continue
+    const documents = stats.documentFrequency[term] ?? 0
+    const idf = Math.log(1 + (stats.count - documents + 0.5) / (documents + 0.5))
+    score +=
+      (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * passage.length) / (stats.averageLength || 1)))
+  }
+  return score
+}
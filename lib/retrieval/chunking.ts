@@ -0,0 +1,95 @@
+import type { KnowledgeDocument } from "@/lib/retrieval/documents"
+
+/**
+ * Document Chunking
+ *
+ * Documents are split at their Markdown headings, then packed paragraph by
+ * paragraph into passages of at most `maxWords`. A paragraph longer than that
+ * is cut into overlapping windows so no sentence loses all of its context.
+ */
+export interface Chunk {
+  id: string
+  documentId: string
+  // Nearest heading above the passage
+  heading?: string
+  text: string
+}
+
+interface ChunkOptions {
+  maxWords?: number
+  overlapWords?: number
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length
+
+/**
+ * Markdown and MDX reduced to plain prose
+ */
+export function toPlainText(markdown: string): string {
+  return (
+    markdown
+      // JSX tags and HTML comments
+      .replace(/<!--[\s\S]*?-->|<\/?[A-Za-z][^>]*>/g, " ")
+      // Links and images keep their text
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/`([^`]*)`/g, "$1")
+      .replace(/(\*\*|__|\*|_)(\S(?:.*?\S)?)\1/g, "$2")
+      .replace(/^\s*>\s?/gm, "")
+      .replace(/[ \t]+/g, " ")
+      .trim()
+  )
+}
+
+/**
+ * Split one document into passages
+ */
+export function chunkDocument(document: KnowledgeDocument, { maxWords = 180, overlapWords = 30 }: ChunkOptions = {}): Chunk[] {
+  const chunks: Chunk[] = []
+  const push = (heading: string | undefined, text: string) => {
+    chunks.push({ id: `${document.id}#${chunks.length}`, documentId: document.id, heading, text })
+  }
+
+  // Sections start at second- and third-level headings
+  const sections: { heading?: string; body: string }[] = [{ body: "" }]
+  for (const line of document.text.split("\n")) {
+    const heading = line.match(/^#{2,3}\s+(.+)$/)
+    if (heading) {
+      sections.push({ heading: toPlainText(heading[1]), body: "" })
+    } else {
+      sections[sections.length - 1].body += `${line}\n`
+    }
+  }
+
+  for (const { heading, body } of sections) {
+    const paragraphs = body
+      .split(/\n\s*\n/)
+      .map(toPlainText)
+      .filter(Boolean)
+    let current: string[] = []
+    let words = 0
+
+    for (const paragraph of paragraphs) {
+      const length = countWords(paragraph)
+      if (words > 0 && words + length > maxWords) {
+        push(heading, current.join("\n\n"))
+        current = []
+        words = 0
+      }
+      if (length <= maxWords) {
+        current.push(paragraph)
+        words += length
+        continue
+      }
+
+      // Overlong paragraph: overlapping windows of maxWords
+      const tokens = paragraph.split(/\s+/)
+      for (let start = 0; start < tokens.length; start += maxWords - overlapWords) {
+        push(heading, tokens.slice(start, start + maxWords).join(" "))
+        if (start + maxWords >= tokens.length) break
+      }
+    }
+    if (current.length) push(heading, current.join("\n\n"))
+  }
+
+  return chunks
+}
@@ -0,0 +1,60 @@
+import { z } from "zod"
+
+/**
+ * Knowledge Base Citations
+ *
+ * Shared by the assistants and the UI. Chat answers are plain text, so their
+ * sources travel as a trailing block the chat panel turns back into links:
+ *
+ *   Sources:
+ *   [1] The 3-2-1 backup rule, explained for small businesses (/en/blog/3-2-1-backup-rule)
+ *   [2] Technician playbook: Missing or accidentally deleted files
+ *
+ * The block also stays readable in ticket transcripts.
+ */
+export const citationSchema = z.object({
+  index: z.number().int().positive(),
+  title: z.string().min(1),
+  // Localized site path; playbooks have none
+  url: z.string().startsWith("/").optional(),
+})
+
+export type Citation = z.infer<typeof citationSchema>
+
+export const SOURCES_HEADING = "Sources:"
+
+const SOURCE_LINE = /^\[(\d+)\] (.+?)(?: \((\/[^\s)]*)\))?$/
+
+/**
+ * Trailing sources block for a chat answer
+ */
+export function formatSources(citations: Citation[]): string {
+  return [SOURCES_HEADING, ...citations.map(({ index, title, url }) => `[${index}] ${title}${url ? ` (${url})` : ""}`)].join(
+    "\n",
+  )
+}
+
+/**
+ * Split a chat answer into its text and its cited sources
+ */
+export function parseSources(content: string): { text: string; sources: Citation[] } {
+  const lines = content.split("\n")
+  const start = lines.lastIndexOf(SOURCES_HEADING)
+  if (start === -1) return { text: content, sources: [] }
+
+  const sources: Citation[] = []
+  for (const line of lines.slice(start + 1)) {
+    const match = line.trim().match(SOURCE_LINE)
+    // Not a sources block after all
+    if (!match) return { text: content, sources: [] }
+    sources.push({ index: Number(match[1]), title: match[2], url: match[3] })
+  }
+  return { text: lines.slice(0, start).join("\n").trimEnd(), sources }
+}
+
+/**
+ * Sources the answer actually refers to with [n] markers
+ */
+export function citedIn(answer: string, citations: Citation[]): Citation[] {
+  return citations.filter(({ index }) => answer.includes(`[${index}]`))
+}
@@ -0,0 +1,48 @@
+import { getPostMarkdown, getPosts } from "@/lib/blog/posts"
+import { KNOWLEDGE_BASE } from "@/lib/troubleshoot/knowledge-base"
+
+/**
+ * Knowledge Documents
+ *
+ * Everything the assistants may ground their answers in: the technicians'
+ * troubleshooting playbooks and the blog articles. Adding an article to
+ * `content/blog/` is enough to make it retrievable.
+ */
+export interface KnowledgeDocument {
+  id: string
+  title: string
+  // Site path without the locale prefix; playbooks have no page of their own
+  path?: string
+  // Catalog service the document is about
+  service?: string
+  // Markdown text
+  text: string
+}
+
+/**
+ * Every document to index, in a stable order
+ */
+export async function loadKnowledgeDocuments(): Promise<KnowledgeDocument[]> {
+  const playbooks = KNOWLEDGE_BASE.map(
+    (entry): KnowledgeDocument => ({
+      id: `playbook:${entry.id}`,
+      title: `Technician playbook: ${entry.title}`,
+      text: entry.steps.map((step, index) => `${index + 1}. ${step}`).join("\n"),
+    }),
+  )
+
+  const posts = await getPosts()
+  const articles = await Promise.all(
+    posts.map(
+      async (post): Promise<KnowledgeDocument> => ({
+        id: `blog:${post.slug}`,
+        title: post.title,
+        path: `/blog/${post.slug}`,
+        service: post.service,
+        text: `${post.description}\n\n${await getPostMarkdown(post.slug)}`,
+      }),
+    ),
+  )
+
+  return [...playbooks, ...articles.sort((a, b) => a.id.localeCompare(b.id))]
+}
@@ -0,0 +1,86 @@
+import { LlmError, isLlmConfigured } from "@/lib/ai/llm"
+
+/**
+ * Embedding Provider Abstraction
+ *
+ * Turns passages and questions into vectors for semantic search. Selected
+ * with `RETRIEVAL_EMBEDDINGS`:
+ * - "api": the OpenAI-compatible embeddings endpoint at `AI_BASE_URL`,
+ *   with `AI_EMBEDDING_MODEL` (requires AI_API_KEY)
+ * - "off": no embeddings; retrieval uses BM25 only
+ * When unset, the API is used if an AI key is configured.
+ */
+export interface EmbeddingProvider {
+  // Identifies the model, so an index built with another one is re-embedded
+  name: string
+  embed(texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]>
+}
+
+// Inputs sent per embeddings request
+const BATCH_SIZE = 64
+
+/**
+ * Provider backed by an OpenAI-compatible `/embeddings` endpoint
+ */
+export function createApiEmbeddingProvider(): EmbeddingProvider {
+  const model = process.env.AI_EMBEDDING_MODEL ?? "text-embedding-3-small"
+  const baseUrl = (process.env.AI_BASE_URL ?? "https://api.openai.com/v1").replace(/\/$/, "")
+
+  return {
+    name: `api:${model}`,
+    async embed(texts, options) {
+      const apiKey = process.env.AI_API_KEY
+      if (!apiKey) {
+        throw new LlmError("AI_API_KEY is not configured")
+      }
+
+      const vectors: number[][] = []
+      for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+        const response = await fetch(`${baseUrl}/embeddings`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({ model, input: texts.slice(start, start + BATCH_SIZE) }),
+          signal: options?.signal,
+        })
+        if (!response.ok) {
+          throw new LlmError(`Embeddings API responded with ${response.status}`, response.status)
+        }
+        const data: { data?: { index: number; embedding: number[] }[] } = await response.json()
+        const batch = [...(data.data ?? [])].sort((a, b) => a.index - b.index).map((item) => item.embedding)
+        if (batch.length !== Math.min(BATCH_SIZE, texts.length - start)) {
+          throw new LlmError("Embeddings API returned the wrong number of vectors")
+        }
+        vectors.push(...batch)
+      }
+      return vectors
+    },
+  }
+}
+
+/**
+ * Provider for the current environment, or undefined for lexical search only
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | undefined {
+  const configured = process.env.RETRIEVAL_EMBEDDINGS
+  if (configured === "off") return undefined
+  if (configured === "api" || isLlmConfigured()) return createApiEmbeddingProvider()
+  return undefined
+}
+
+/**
+ * Cosine similarity of two vectors of the same length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
@@ -0,0 +1,133 @@
+import type { Locale } from "@/lib/i18n/config"
+import { bm25Score, matchedTerms, tokenize } from "@/lib/retrieval/bm25"
+import type { Citation } from "@/lib/retrieval/citations"
+import { cosineSimilarity, getEmbeddingProvider } from "@/lib/retrieval/embeddings"
+import { getSearchIndex } from "@/lib/retrieval/search-index"
+
+/**
+ * Knowledge Retrieval
+ *
+ * Finds the passages most relevant to a question. BM25 always runs; when the
+ * index has vectors from the configured embedding model, semantic matches are
+ * merged in with reciprocal rank fusion, so a question phrased differently
+ * from the article ("laptop crawls") still finds it.
+ */
+export interface RetrievedPassage {
+  documentId: string
+  title: string
+  // Localized site path of the source, if it has a page
+  url?: string
+  service?: string
+  heading?: string
+  text: string
+  score: number
+}
+
+interface RetrieveOptions {
+  limit?: number
+  // Language of the links to the sources
+  locale?: Locale
+  // Catalog service whose documents are preferred
+  service?: string
+  signal?: AbortSignal
+}
+
+// Reciprocal rank fusion constant from the original paper
+const RRF_K = 60
+// A lexical match on one common word ("computer") says little about the issue
+const MIN_MATCHED_TERMS = 2
+// Semantic matches below this similarity are noise
+const MIN_SIMILARITY = 0.3
+// Spread results over several sources instead of one long article
+const PASSAGES_PER_DOCUMENT = 2
+const SERVICE_BOOST = 1.5
+
+/**
+ * Most relevant passages for a question, best first; empty when nothing matches
+ */
+export async function retrieve(
+  query: string,
+  { limit = 4, locale = "en", service, signal }: RetrieveOptions = {},
+): Promise<RetrievedPassage[]> {
+  const index = await getSearchIndex()
+  const queryTerms = tokenize(query)
+  const minMatched = Math.min(MIN_MATCHED_TERMS, new Set(queryTerms).size)
+
+  const rankings: number[][] = [
+    index.chunks
+      .map((chunk, i) => ({ i, score: bm25Score(queryTerms, chunk, index.bm25) }))
+      .filter(({ i, score }) => score > 0 && matchedTerms(queryTerms, index.chunks[i]) >= minMatched)
+      .sort((a, b) => b.score - a.score)
+      .map(({ i }) => i),
+  ]
+
+  const provider = getEmbeddingProvider()
+  if (index.embeddingModel && provider?.name === index.embeddingModel) {
+    try {
+      const [vector] = await provider.embed([query], { signal })
+      rankings.push(
+        index.chunks
+          .map((chunk, i) => ({ i, score: chunk.vector ? cosineSimilarity(vector, chunk.vector) : 0 }))
+          .filter(({ score }) => score >= MIN_SIMILARITY)
+          .sort((a, b) => b.score - a.score)
+          .map(({ i }) => i),
+      )
+    } catch (error) {
+      console.error("Failed to embed the question; using lexical search only", error)
+    }
+  }
+
+  const fused = new Map<number, number>()
+  for (const ranking of rankings) {
+    ranking.forEach((i, rank) => fused.set(i, (fused.get(i) ?? 0) + 1 / (RRF_K + rank + 1)))
+  }
+
+  const perDocument = new Map<string, number>()
+  const passages: RetrievedPassage[] = []
+  const ranked = [...fused]
+    .map(([i, score]) => {
+      const chunk = index.chunks[i]
+      const boost = service && index.documents[chunk.documentId]?.service === service ? SERVICE_BOOST : 1
+      return { chunk, score: score * boost }
+    })
+    .sort((a, b) => b.score - a.score)
+
+  for (const { chunk, score } of ranked) {
+    if (passages.length >= limit) break
+    const taken = perDocument.get(chunk.documentId) ?? 0
+    if (taken >= PASSAGES_PER_DOCUMENT) continue
+    perDocument.set(chunk.documentId, taken + 1)
+
+    const document = index.documents[chunk.documentId]
+    passages.push({
+      documentId: chunk.documentId,
+      title: document.title,
+      url: document.path ? `/${locale}${document.path}` : undefined,
+      service: document.service,
+      heading: chunk.heading,
+      text: chunk.text,
+      score,
+    })
+  }
+  return passages
+}
+
+/**
+ * Number the passages' sources and lay the passages out for a model prompt
+ *
+ * Passages from the same document share its citation number.
+ */
+export function citePassages(passages: RetrievedPassage[]): { citations: Citation[]; excerpts: string } {
+  const citations: Citation[] = []
+  const numbers = new Map<string, number>()
+  const excerpts = passages.map((passage) => {
+    let index = numbers.get(passage.documentId)
+    if (!index) {
+      index = citations.length + 1
+      numbers.set(passage.documentId, index)
+      citations.push({ index, title: passage.title, url: passage.url })
+    }
+    return `[${index}] ${passage.title}${passage.heading ? ` - ${passage.heading}` : ""}\n${passage.text}`
+  })
+  return { citations, excerpts: excerpts.join("\n\n") }
+}
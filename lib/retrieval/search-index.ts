@@ -0,0 +1,129 @@
+import { createHash } from "crypto"
+
+import { buildBm25Stats, termFrequencies, tokenize, type Bm25Stats } from "@/lib/retrieval/bm25"
+import { chunkDocument, type Chunk } from "@/lib/retrieval/chunking"
+import { loadKnowledgeDocuments, type KnowledgeDocument } from "@/lib/retrieval/documents"
+import { getEmbeddingProvider } from "@/lib/retrieval/embeddings"
+import { dataFilePath, readJsonFile, writeJsonFile } from "@/lib/storage/json-file"
+
+/**
+ * Knowledge Search Index
+ *
+ * The chunked documents with their BM25 statistics and, when an embedding
+ * provider is configured, one vector per passage, stored in the local data
+ * directory. The index carries a fingerprint of its passages and the name of
+ * the embedding model, and is rebuilt whenever either changes, so editing an
+ * article or switching models needs no manual step. Each server process
+ * checks the fingerprint once, then keeps the index in memory until content
+ * is published (`invalidateSearchIndex()`).
+ */
+
+// Bump when the chunking or tokenizing changes, to force a rebuild
+const INDEX_VERSION = 1
+
+export interface IndexedChunk extends Chunk {
+  terms: Record<string, number>
+  length: number
+  vector?: number[]
+}
+
+export interface SearchIndex {
+  version: number
+  fingerprint: string
+  // Embedding provider the vectors came from, or null for a lexical-only index
+  embeddingModel: string | null
+  builtAt: string
+  documents: Record<string, Omit<KnowledgeDocument, "id" | "text">>
+  chunks: IndexedChunk[]
+  bm25: Bm25Stats
+}
+
+const indexFile = () => dataFilePath("search-index.json")
+
+// Kept on globalThis: every route bundle gets its own copy of this module, but
+// publishing from the admin area must reach the copy the assistants use
+const shared = globalThis as typeof globalThis & {
+  // Bumped on every publish
+  searchContentVersion?: number
+  // Index already loaded by this process, keyed by content version and model
+  searchIndex?: { key: string; index: Promise<SearchIndex> }
+}
+
+/**
+ * Build the index from scratch and write it to disk
+ *
+ * If the embedding provider fails, the index is built without vectors rather
+ * than leaving the assistants without any knowledge.
+ */
+async function buildIndex(documents: KnowledgeDocument[], chunks: Chunk[], fingerprint: string): Promise<SearchIndex> {
+  const indexed: IndexedChunk[] = chunks.map((chunk) => {
+    const tokens = tokenize(`${chunk.heading ?? ""} ${chunk.text}`)
+    return { ...chunk, terms: termFrequencies(tokens), length: tokens.length }
+  })
+
+  const provider = getEmbeddingProvider()
+  let embeddingModel: string | null = null
+  if (provider) {
+    try {
+      const vectors = await provider.embed(indexed.map((chunk) => [chunk.heading, chunk.text].filter(Boolean).join("\n")))
+      indexed.forEach((chunk, i) => (chunk.vector = vectors[i]))
+      embeddingModel = provider.name
+    } catch (error) {
+      console.error("Failed to embed the knowledge base; using lexical search only", error)
+    }
+  }
+
+  const index: SearchIndex = {
+    version: INDEX_VERSION,
+    fingerprint,
+    embeddingModel,
+    builtAt: new Date().toISOString(),
+    documents: Object.fromEntries(documents.map(({ id, text: _text, ...meta }) => [id, meta])),
+    chunks: indexed,
+    bm25: buildBm25Stats(indexed),
+  }
+  await writeJsonFile(indexFile(), index)
+  return index
+}
+
+/**
+ * Drop the in-memory index, so the next search checks the documents again
+ */
+export function invalidateSearchIndex(): void {
+  shared.searchContentVersion = (shared.searchContentVersion ?? 0) + 1
+}
+
+/**
+ * Current index, loaded once per content version and reusing the copy on
+ * disk while the documents are unchanged
+ */
+export function getSearchIndex(): Promise<SearchIndex> {
+  const embeddingModel = getEmbeddingProvider()?.name ?? null
+  const key = `${shared.searchContentVersion ?? 0}:${embeddingModel}`
+  if (shared.searchIndex?.key === key) return shared.searchIndex.index
+
+  const index = loadIndex(embeddingModel)
+  shared.searchIndex = { key, index }
+  // A failed build is retried on the next request
+  index.catch(() => {
+    if (shared.searchIndex?.index === index) shared.searchIndex = undefined
+  })
+  return index
+}
+
+/**
+ * Index for the documents as they are now, from disk while its fingerprint matches
+ */
+async function loadIndex(embeddingModel: string | null): Promise<SearchIndex> {
+  const documents = await loadKnowledgeDocuments()
+  const chunks = documents.flatMap((document) => chunkDocument(document))
+  const fingerprint = createHash("sha256")
+    .update(JSON.stringify([INDEX_VERSION, documents.map(({ text: _text, ...meta }) => meta), chunks]))
+    .digest("hex")
+
+  const stored = await readJsonFile<SearchIndex | null>(indexFile(), null)
+  if (stored?.version === INDEX_VERSION && stored.fingerprint === fingerprint && stored.embeddingModel === embeddingModel) {
+    return stored
+  }
+  return buildIndex(documents, chunks, fingerprint)
+}
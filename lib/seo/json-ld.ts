@@ -0,0 +1,111 @@
+import type { Locale } from "@/lib/i18n/config"
+import type { Messages } from "@/lib/i18n/messages"
+import { CATALOG_CURRENCY, type Service, type ServiceFaq } from "@/lib/services/catalog"
+import { COMPANY, SITE_URL } from "@/lib/site"
+
+/**
+ * Structured Data
+ *
+ * schema.org JSON-LD built from the company details and the service catalog,
+ * so search results can show the business, its services and their FAQs.
+ * Pass localized services to get descriptions in the page's language.
+ */
+export type JsonLdObject = { "@context"?: string; "@type": string } & Record<string, unknown>
+
+// Shared identifier, so every page describes the same business
+const BUSINESS_ID = `${SITE_URL}/#business`
+
+/**
+ * Minimal reference to the business, for nesting in other entities
+ */
+function businessReference(locale: Locale): JsonLdObject {
+  return { "@type": "LocalBusiness", "@id": BUSINESS_ID, name: COMPANY.name, url: `${SITE_URL}/${locale}` }
+}
+
+/**
+ * The company as a LocalBusiness, with its services as an offer catalog
+ */
+export function localBusinessJsonLd(locale: Locale, messages: Messages, services: Service[]): JsonLdObject {
+  return {
+    "@context": "https://schema.org",
+    ...businessReference(locale),
+    description: messages.metadata.description,
+    logo: `${SITE_URL}${COMPANY.logo}`,
+    image: `${SITE_URL}${COMPANY.logo}`,
+    email: COMPANY.email,
+    telephone: COMPANY.phone,
+    address: {
+      "@type": "PostalAddress",
+      addressLocality: COMPANY.address.locality,
+      addressCountry: COMPANY.address.country,
+    },
+    areaServed: { "@type": "Country", name: COMPANY.address.country },
+    openingHoursSpecification: {
+      "@type": "OpeningHoursSpecification",
+      dayOfWeek: COMPANY.openingHours.days,
+      opens: COMPANY.openingHours.opens,
+      closes: COMPANY.openingHours.closes,
+    },
+    sameAs: Object.values(COMPANY.social),
+    hasOfferCatalog: {
+      "@type": "OfferCatalog",
+      name: messages.services.title,
+      itemListElement: services.map((service) => ({
+        "@type": "Offer",
+        itemOffered: {
+          "@type": "Service",
+          name: service.title,
+          description: service.description,
+          url: `${SITE_URL}/${locale}/services/${service.slug}`,
+        },
+      })),
+    },
+  }
+}
+
+/**
+ * One catalog service, with a monthly offer per pricing tier
+ */
+export function serviceJsonLd(locale: Locale, service: Service): JsonLdObject {
+  const url = `${SITE_URL}/${locale}/services/${service.slug}`
+  return {
+    "@context": "https://schema.org",
+    "@type": "Service",
+    name: service.title,
+    serviceType: service.title,
+    description: service.overview,
+    url,
+    provider: businessReference(locale),
+    areaServed: { "@type": "Country", name: COMPANY.address.country },
+    offers: service.pricingTiers.map((tier) => ({
+      "@type": "Offer",
+      name: tier.name,
+      description: tier.description,
+      url,
+      priceCurrency: CATALOG_CURRENCY,
+      priceSpecification: {
+        "@type": "UnitPriceSpecification",
+        price: tier.monthlyPrice,
+        priceCurrency: CATALOG_CURRENCY,
+        unitCode: "MON",
+        // Catalog prices are starting prices
+        minPrice: tier.monthlyPrice,
+      },
+    })),
+  }
+}
+
+/**
+ * Question-and-answer pairs as an FAQPage
+ */
+export function faqPageJsonLd(faqs: readonly ServiceFaq[]): JsonLdObject {
+  return {
+    "@context": "https://schema.org",
+    "@type": "FAQPage",
+    mainEntity: faqs.map((faq) => ({
+      "@type": "Question",
+      name: faq.question,
+      acceptedAnswer: { "@type": "Answer", text: faq.answer },
+    })),
+  }
+}
@@ -0,0 +1,70 @@
+import type { Metadata } from "next"
+
+import { DEFAULT_LOCALE, LOCALES, LOCALE_FORMATS, type Locale } from "@/lib/i18n/config"
+import { COMPANY } from "@/lib/site"
+
+/**
+ * Page Metadata
+ *
+ * Next.js replaces a layout's `openGraph` and `twitter` objects wholesale when
+ * a page sets its own, so every page builds complete ones here: canonical URL,
+ * hreflang alternates, Open Graph and Twitter card. The Open Graph image comes
+ * from the nearest `opengraph-image.tsx`.
+ */
+interface PageMetadataOptions {
+  locale: Locale
+  // Path after the locale prefix, e.g. "/services/network"; empty for the home page
+  path: string
+  title: string
+  description: string
+  // Published articles are typed as such for social previews
+  article?: {
+    publishedTime: string
+    modifiedTime?: string
+    authors: string[]
+    tags: string[]
+  }
+}
+
+// Open Graph wants "en_NG" where BCP 47 has "en-NG"
+const ogLocale = (locale: Locale) => LOCALE_FORMATS[locale].replace("-", "_")
+
+/**
+ * Canonical URL and one alternate per translation of a path
+ */
+export function localeAlternates(locale: Locale, path: string): NonNullable<Metadata["alternates"]> {
+  return {
+    canonical: `/${locale}${path}`,
+    languages: {
+      ...Object.fromEntries(LOCALES.map((candidate) => [candidate, `/${candidate}${path}`])),
+      "x-default": `/${DEFAULT_LOCALE}${path}`,
+    },
+  }
+}
+
+/**
+ * Complete metadata for a public, indexable page
+ */
+export function pageMetadata({ locale, path, title, description, article }: PageMetadataOptions): Metadata {
+  const shared = {
+    siteName: COMPANY.name,
+    locale: ogLocale(locale),
+    alternateLocale: LOCALES.filter((candidate) => candidate !== locale).map(ogLocale),
+    url: `/${locale}${path}`,
+    title,
+    description,
+  }
+
+  return {
+    title,
+    description,
+    alternates: localeAlternates(locale, path),
+    openGraph: article ? { ...shared, type: "article", ...article } : { ...shared, type: "website" },
+    twitter: {
+      card: "summary_large_image",
+      site: COMPANY.twitter,
+      title,
+      description,
+    },
+  }
+}
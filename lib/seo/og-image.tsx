@@ -0,0 +1,85 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { ImageResponse } from "next/og"
+
+import { COMPANY, SITE_URL } from "@/lib/site"
+
+/**
+ * Open Graph Images
+ *
+ * Social preview cards drawn at build time in the brand fonts (Poppins for
+ * headings, Inter for text). The fonts come from the @fontsource packages
+ * because the image renderer needs the font files themselves, not the CSS
+ * that `next/font` generates.
+ */
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 }
+
+export const OG_IMAGE_ALT = `${COMPANY.name} - IT support and solutions`
+
+interface OgImageContent {
+  // Small label above the title, e.g. the page type
+  eyebrow?: string
+  title: string
+  description?: string
+}
+
+const readAsset = (...segments: string[]) => fs.readFile(path.join(process.cwd(), ...segments))
+
+/**
+ * Render a preview card
+ */
+export async function renderOgImage({ eyebrow, title, description }: OgImageContent): Promise<ImageResponse> {
+  const [poppinsBold, interRegular, logo] = await Promise.all([
+    readAsset("node_modules", "@fontsource", "poppins", "files", "poppins-latin-700-normal.woff"),
+    readAsset("node_modules", "@fontsource", "inter", "files", "inter-latin-400-normal.woff"),
+    readAsset("public", COMPANY.logo),
+  ])
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: "64px 72px",
+          background: "linear-gradient(135deg, #0f172a 0%, #1e1b4b 100%)",
+          color: "#ffffff",
+          fontFamily: "Inter",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", gap: 20 }}>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={`data:image/jpeg;base64,${logo.toString("base64")}`} width={64} height={64} style={{ borderRadius: 12 }} />
+          <span style={{ fontFamily: "Poppins", fontWeight: 700, fontSize: 36 }}>{COMPANY.name}</span>
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 20 }}>
+          {eyebrow && (
+            <span style={{ color: "#a5b4fc", fontSize: 28, textTransform: "uppercase", letterSpacing: 2 }}>{eyebrow}</span>
+          )}
+          <span style={{ fontFamily: "Poppins", fontWeight: 700, fontSize: title.length > 60 ? 52 : 64, lineHeight: 1.15 }}>{title}</span>
+          {description && (
+            <span style={{ color: "#cbd5e1", fontSize: 28, lineHeight: 1.4 }}>
+              {description.length > 160 ? `${description.slice(0, 157).trimEnd()}...` : description}
+            </span>
+          )}
+        </div>
+
+        <div style={{ display: "flex", alignItems: "center", gap: 16, fontSize: 24, color: "#94a3b8" }}>
+          <div style={{ width: 48, height: 6, borderRadius: 3, background: "#4f46e5" }} />
+          {new URL(SITE_URL).host}
+        </div>
+      </div>
+    ),
+    {
+      ...OG_IMAGE_SIZE,
+      fonts: [
+        { name: "Poppins", data: poppinsBold, weight: 700, style: "normal" },
+        { name: "Inter", data: interRegular, weight: 400, style: "normal" },
+      ],
+    },
+  )
+}
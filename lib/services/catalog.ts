@@ -0,0 +1,307 @@
+import { GraduationCap, Headset, Laptop, Network, ShieldCheck, DatabaseBackup, type LucideIcon } from "lucide-react"
+
+/**
+ * Service Catalog
+ *
+ * Single source of truth for the services we offer. Drives the services grid,
+ * the consultation form's "Service of Interest" options and the statically
+ * generated /services/[slug] pages, so adding a service is one edit here.
+ */
+
+export interface ServiceFaq {
+  question: string
+  answer: string
+}
+
+export interface TierAllowance {
+  seats: number
+  devices: number
+  locations: number
+}
+
+export interface PricingTier {
+  name: "Essentials" | "Business" | "Enterprise"
+  // Starting monthly price in the catalog currency
+  monthlyPrice: number
+  description: string
+  features: readonly string[]
+  // What the starting price covers, where the features promise a limit (Infinity for unlimited);
+  // the quote estimator fills in the rest
+  allowance?: Partial<TierAllowance>
+}
+
+export interface Service {
+  // URL segment and the value stored on leads
+  slug: string
+  title: string
+  description: string
+  overview: string
+  icon: LucideIcon
+  faqs: readonly ServiceFaq[]
+  pricingTiers: readonly PricingTier[]
+}
+
+// Currency used for every price in the catalog
+export const CATALOG_CURRENCY = "NGN"
+
+export const SERVICES = [
+  {
+    slug: "troubleshooting",
+    title: "Device Troubleshooting",
+    description: "We fix issues with laptops, desktops, and mobile devices to keep you productive.",
+    overview:
+      "From sluggish laptops to phones that won't sync, our technicians diagnose and fix device problems remotely or on-site, and keep your fleet patched and healthy so issues don't come back.",
+    icon: Laptop,
+    faqs: [
+      {
+        question: "Can you fix problems remotely?",
+        answer: "Most software issues are resolved over a secure remote session the same day. We come on-site for hardware faults.",
+      },
+      {
+        question: "Which devices do you support?",
+        answer: "Windows and macOS laptops and desktops, iOS and Android phones and tablets, printers and common peripherals.",
+      },
+    ],
+    pricingTiers: [
+      {
+        name: "Essentials",
+        monthlyPrice: 25000,
+        description: "Pay-as-you-go style cover for a handful of devices.",
+        features: ["Up to 5 devices", "Remote support in business hours", "Next-business-day response"],
+        allowance: { devices: 5 },
+      },
+      {
+        name: "Business",
+        monthlyPrice: 75000,
+        description: "Proactive care for growing teams.",
+        features: ["Up to 25 devices", "On-site visits included", "Patch management", "4-hour response"],
+        allowance: { devices: 25 },
+      },
+      {
+        name: "Enterprise",
+        monthlyPrice: 200000,
+        description: "Full device lifecycle management.",
+        features: ["Unlimited devices", "24/7 support", "Hardware procurement", "1-hour critical response"],
+        allowance: { devices: Infinity },
+      },
+    ],
+  },
+  {
+    slug: "cybersecurity",
+    title: "Cybersecurity & Data Protection",
+    description: "Protect your valuable data with our robust cybersecurity setup and compliance support.",
+    overview:
+      "We put layered protection around your accounts, devices and data - multi-factor authentication, endpoint protection, email filtering and staff awareness - and help you meet data protection obligations such as the NDPR.",
+    icon: ShieldCheck,
+    faqs: [
+      {
+        question: "Do you help with NDPR compliance?",
+        answer: "Yes. We assess how you collect and store personal data, close technical gaps and help prepare the documentation you need.",
+      },
+      {
+        question: "What happens if we are hacked?",
+        answer: "Clients on a security plan get incident response: we contain the threat, restore systems from backup and guide your next steps.",
+      },
+    ],
+    pricingTiers: [
+      {
+        name: "Essentials",
+        monthlyPrice: 40000,
+        description: "Core protection for small offices.",
+        features: ["MFA rollout", "Endpoint protection", "Quarterly security review"],
+      },
+      {
+        name: "Business",
+        monthlyPrice: 120000,
+        description: "Managed security for growing businesses.",
+        features: ["Everything in Essentials", "Email filtering", "Phishing simulations", "Monthly reporting"],
+      },
+      {
+        name: "Enterprise",
+        monthlyPrice: 350000,
+        description: "Compliance-driven security programme.",
+        features: ["Everything in Business", "24/7 monitoring", "Incident response", "Compliance documentation"],
+      },
+    ],
+  },
+  {
+    slug: "backup",
+    title: "Data Recovery & Backup",
+    description: "Secure and recover your data with our reliable backup solutions and cloud migration services.",
+    overview:
+      "Automated, encrypted backups with off-site copies, regular restore tests and hands-on recovery when things go wrong - plus smooth migration of your files and email to the cloud.",
+    icon: DatabaseBackup,
+    faqs: [
+      {
+        question: "How often are backups taken?",
+        answer: "Daily by default, with hourly snapshots available for critical systems on the Business and Enterprise plans.",
+      },
+      {
+        question: "Can you recover files from a broken drive?",
+        answer: "Often, yes. Stop using the drive and contact us - the less it is used, the better the chance of recovery.",
+      },
+    ],
+    pricingTiers: [
+      {
+        name: "Essentials",
+        monthlyPrice: 20000,
+        description: "Cloud backup for key files.",
+        features: ["Up to 500 GB", "Daily backups", "30-day retention"],
+      },
+      {
+        name: "Business",
+        monthlyPrice: 60000,
+        description: "Tested backups for servers and workstations.",
+        features: ["Up to 2 TB", "Hourly snapshots", "Quarterly restore tests", "1-year retention"],
+      },
+      {
+        name: "Enterprise",
+        monthlyPrice: 180000,
+        description: "Business continuity planning.",
+        features: ["Custom storage", "Disaster recovery plan", "Immutable backups", "Priority recovery"],
+      },
+    ],
+  },
+  {
+    slug: "network",
+    title: "Network & Connectivity",
+    description: "Full support for internet, Wi-Fi, and network design, monitoring, and maintenance.",
+    overview:
+      "We design, install and monitor office networks - reliable Wi-Fi coverage, secure guest access, internet failover and proactive monitoring that catches outages before your team notices.",
+    icon: Network,
+    faqs: [
+      {
+        question: "Can you work with our existing internet provider?",
+        answer: "Yes. We manage the relationship with your provider and can add a second line for automatic failover.",
+      },
+      {
+        question: "Do you install cabling and access points?",
+        answer: "We survey your space, recommend equipment and handle structured cabling and access point installation.",
+      },
+    ],
+    pricingTiers: [
+      {
+        name: "Essentials",
+        monthlyPrice: 30000,
+        description: "Support for a single small office.",
+        features: ["1 location", "Router and Wi-Fi management", "Remote support"],
+        allowance: { locations: 1 },
+      },
+      {
+        name: "Business",
+        monthlyPrice: 90000,
+        description: "Monitored networks for busy offices.",
+        features: ["Up to 3 locations", "24/7 monitoring", "Guest network setup", "Firmware management"],
+        allowance: { locations: 3 },
+      },
+      {
+        name: "Enterprise",
+        monthlyPrice: 250000,
+        description: "Multi-site networks with redundancy.",
+        features: ["Unlimited locations", "Internet failover", "VPN between sites", "Dedicated engineer"],
+        allowance: { locations: Infinity },
+      },
+    ],
+  },
+  {
+    slug: "helpdesk",
+    title: "Dedicated Helpdesk",
+    description: "Professional helpdesk support for businesses, ensuring your team has the help they need.",
+    overview:
+      "One friendly place for your team to get help by phone, email or chat. Every request is tracked, and we handle onboarding and offboarding of staff accounts for you.",
+    icon: Headset,
+    faqs: [
+      {
+        question: "What are your support hours?",
+        answer: "Business hours on Essentials, extended hours on Business and 24/7 on Enterprise.",
+      },
+      {
+        question: "How do my staff reach the helpdesk?",
+        answer: "By phone, email, WhatsApp or our client portal - whichever is easiest for them.",
+      },
+    ],
+    pricingTiers: [
+      {
+        name: "Essentials",
+        monthlyPrice: 35000,
+        description: "Helpdesk for small teams.",
+        features: ["Up to 10 users", "Business-hours support", "Email and phone"],
+        allowance: { seats: 10 },
+      },
+      {
+        name: "Business",
+        monthlyPrice: 100000,
+        description: "Extended-hours helpdesk.",
+        features: ["Up to 50 users", "Extended hours", "Chat support", "Staff onboarding/offboarding"],
+        allowance: { seats: 50 },
+      },
+      {
+        name: "Enterprise",
+        monthlyPrice: 300000,
+        description: "Round-the-clock service desk.",
+        features: ["Unlimited users", "24/7 support", "Dedicated account manager", "SLA reporting"],
+        allowance: { seats: Infinity },
+      },
+    ],
+  },
+  {
+    slug: "training",
+    title: "IT Training Programs",
+    description: "Equip your team with essential tech skills through our customized training programs.",
+    overview:
+      "Practical, hands-on sessions built around the tools your team uses every day, from productivity suites to security awareness, delivered on-site or online.",
+    icon: GraduationCap,
+    faqs: [
+      {
+        question: "Is the training tailored to our business?",
+        answer: "Yes. We start with a short skills assessment and build sessions around your software and workflows.",
+      },
+      {
+        question: "Do participants get certificates?",
+        answer: "Every participant who completes a programme receives a Torestech certificate of completion.",
+      },
+    ],
+    pricingTiers: [
+      {
+        name: "Essentials",
+        monthlyPrice: 50000,
+        description: "A single workshop each month.",
+        features: ["1 session per month", "Up to 10 participants", "Online delivery"],
+        allowance: { seats: 10 },
+      },
+      {
+        name: "Business",
+        monthlyPrice: 150000,
+        description: "Ongoing programme for teams.",
+        features: ["4 sessions per month", "Up to 30 participants", "On-site or online", "Progress tracking"],
+        allowance: { seats: 30 },
+      },
+      {
+        name: "Enterprise",
+        monthlyPrice: 400000,
+        description: "Organisation-wide learning plan.",
+        features: ["Unlimited sessions", "Custom curriculum", "Security awareness campaigns", "Certificates"],
+      },
+    ],
+  },
+] as const satisfies readonly Service[]
+
+export type ServiceSlug = (typeof SERVICES)[number]["slug"]
+
+/**
+ * Look up a service by its slug
+ */
+export function getService(slug: string): Service | undefined {
+  return SERVICES.find((service) => service.slug === slug)
+}
+
+/**
+ * Format a catalog price for display, e.g. "₦25,000"
+ */
+export function formatCatalogPrice(amount: number, locale = "en-NG"): string {
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: CATALOG_CURRENCY,
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
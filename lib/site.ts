@@ -0,0 +1,32 @@
+/**
+ * Public Site Settings
+ */
+
+// Canonical origin used for absolute URLs in metadata (hreflang alternates, feeds)
+export const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL ?? "https://torestech.space"
+
+/**
+ * Company details shown in the footer and published as structured data
+ */
+export const COMPANY = {
+  name: "TorestTech",
+  email: "info@torestech.space",
+  // E.164 for links and structured data; `phoneDisplay` for people
+  phone: "+2349030461312",
+  phoneDisplay: "+234 903 046 1312",
+  address: {
+    locality: "Lagos",
+    // ISO 3166-1 alpha-2
+    country: "NG",
+  },
+  logo: "/torestech-logo.jpeg",
+  twitter: "@TorestTech",
+  // Office hours in Lagos time, Monday to Friday
+  openingHours: { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], opens: "09:00", closes: "17:00" },
+  social: {
+    x: "https://x.com/TorestTech",
+    linkedin: "https://www.linkedin.com/company/toresttech/",
+    instagram: "https://www.instagram.com/TorestTech",
+    whatsapp: "https://whatsapp.com/channel/0029VbAs9E33AzNVKSeaSm1o",
+  },
+} as const
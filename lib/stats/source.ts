@@ -0,0 +1,50 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { z } from "zod"
+
+/**
+ * Site Statistics Source
+ *
+ * The figures in the stats section come from `content/stats.json` (or the file
+ * named by `STATS_FILE`), so they can be audited and updated without a code
+ * change. Each figure carries the date it was last verified.
+ */
+
+const statSchema = z.object({
+  key: z.string().min(1),
+  label: z.string().min(1),
+  // null marks a figure that is temporarily unavailable
+  value: z.number().int().nonnegative().nullable(),
+  suffix: z.string().default(""),
+})
+
+export const siteStatsSchema = z.object({
+  asOf: z.string().date(),
+  source: z.string().optional(),
+  stats: z.array(statSchema).min(1),
+})
+
+export type SiteStat = z.infer<typeof statSchema>
+export type SiteStats = z.infer<typeof siteStatsSchema>
+
+/**
+ * Read and validate the stats file
+ *
+ * Returns null when the file is missing or invalid, so the section can show
+ * its fallback instead of stale or broken numbers.
+ */
+export async function getSiteStats(): Promise<SiteStats | null> {
+  const filePath = process.env.STATS_FILE ?? path.join(process.cwd(), "content", "stats.json")
+  try {
+    const raw = JSON.parse(await fs.readFile(filePath, "utf8"))
+    const parsed = siteStatsSchema.safeParse(raw)
+    if (!parsed.success) {
+      console.error("Invalid stats file", filePath, parsed.error.flatten())
+      return null
+    }
+    return parsed.data
+  } catch (error) {
+    console.error("Could not read stats file", filePath, error)
+    return null
+  }
+}
@@ -0,0 +1,70 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+/**
+ * JSON File Storage Helpers
+ *
+ * Minimal persistence used by the local store adapters. Every file lives under
+ * the data directory (`DATA_DIR`, defaulting to `.data/` in the project root) so
+ * development and tests run without any external services.
+ */
+
+// Pending writes per file, so concurrent requests never interleave on disk
+const writeQueues = new Map<string, Promise<unknown>>()
+
+/**
+ * Resolve a file name inside the configured data directory
+ */
+export function dataFilePath(fileName: string): string {
+  const dataDir = process.env.DATA_DIR ?? path.join(process.cwd(), ".data")
+  return path.join(dataDir, fileName)
+}
+
+/**
+ * Read and parse a JSON file, returning the fallback when it does not exist yet
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8")
+    return JSON.parse(raw) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback
+    }
+    throw error
+  }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename) so readers never see a partial write
+ */
+export async function writeJsonFile<T>(filePath: string, data: T): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8")
+  await fs.rename(tempPath, filePath)
+}
+
+/**
+ * Read-modify-write a JSON file, serialised per file path
+ *
+ * The updater receives the current contents and returns the new contents plus
+ * a result value handed back to the caller.
+ */
+export function updateJsonFile<T, R>(
+  filePath: string,
+  fallback: T,
+  updater: (current: T) => { data: T; result: R } | Promise<{ data: T; result: R }>,
+): Promise<R> {
+  const previous = writeQueues.get(filePath) ?? Promise.resolve()
+  const next = previous
+    .catch(() => undefined) // A failed write must not block the queue
+    .then(async () => {
+      const current = await readJsonFile(filePath, fallback)
+      const { data, result } = await updater(current)
+      await writeJsonFile(filePath, data)
+      return result
+    })
+  writeQueues.set(filePath, next)
+  return next
+}
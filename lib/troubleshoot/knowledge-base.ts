@@ -0,0 +1,132 @@
+/**
+ * Troubleshooting Knowledge Base
+ *
+ * Deterministic, technician-approved first steps for the most common issues we
+ * see. Entries are matched by keyword against the visitor's description.
+ */
+export interface KnowledgeBaseEntry {
+  id: string
+  title: string
+  keywords: string[]
+  steps: string[]
+}
+
+export const KNOWLEDGE_BASE: KnowledgeBaseEntry[] = [
+  {
+    id: "slow-browser",
+    title: "Slow computer or browser",
+    keywords: ["slow", "sluggish", "lag", "freez", "browser", "chrome", "edge", "firefox", "safari", "hang"],
+    steps: [
+      "Save your work, then fully restart the computer (Start > Power > Restart), not just sleep.",
+      "Close tabs you don't need - each open tab uses memory - and keep it to a handful while you work.",
+      "Disable browser extensions you don't recognise or no longer use, then reopen the browser.",
+      "Clear the browser's cached images and files from its settings (keep your saved passwords).",
+      "Check that the browser and operating system are fully updated, then restart again.",
+      "Open Task Manager (Ctrl+Shift+Esc) or Activity Monitor and note any app using lots of CPU or memory.",
+    ],
+  },
+  {
+    id: "no-internet",
+    title: "Wi-Fi or internet connection problems",
+    keywords: ["wifi", "wi-fi", "internet", "network", "connect", "offline", "router", "ethernet", "signal"],
+    steps: [
+      "Check whether other devices on the same network are online to see if the problem is one device or the whole office.",
+      "Turn Wi-Fi off and on again on the device, or unplug and replug the network cable.",
+      "Restart the router and modem: unplug them for 30 seconds, plug them back in and wait two minutes.",
+      "Move closer to the router and away from thick walls or microwaves to rule out weak signal.",
+      "Forget the Wi-Fi network on the device and reconnect with the correct password.",
+      "If the whole office is down after a restart, check your internet provider's status page or call them.",
+    ],
+  },
+  {
+    id: "printer",
+    title: "Printer not printing",
+    keywords: ["print", "printer", "scanner", "scan", "paper", "toner", "ink"],
+    steps: [
+      "Check the printer's display for paper jams, empty trays or low toner/ink warnings.",
+      "Turn the printer off, wait 30 seconds and turn it back on.",
+      "Make sure the printer and computer are on the same network, or that the USB cable is firmly connected.",
+      "Open the print queue on your computer, cancel stuck jobs and try printing a single test page.",
+      "Select the correct printer as the default in your system's printer settings.",
+    ],
+  },
+  {
+    id: "email",
+    title: "Email not sending or receiving",
+    keywords: ["email", "e-mail", "outlook", "gmail", "inbox", "mailbox", "send", "receive", "attachment"],
+    steps: [
+      "Check your internet connection by opening a website in your browser.",
+      "Sign in to webmail (e.g. Outlook on the web or Gmail) to see whether the problem is the app or the account.",
+      "Look in the Outbox for stuck messages and remove any with very large attachments.",
+      "Check whether your mailbox is full and archive or delete old messages with large attachments.",
+      "Close and reopen the email app, then check for app updates.",
+    ],
+  },
+  {
+    id: "malware",
+    title: "Pop-ups, suspicious activity or possible virus",
+    keywords: ["virus", "malware", "popup", "pop-up", "hacked", "phishing", "ransom", "suspicious", "scam", "spam"],
+    steps: [
+      "Disconnect the device from Wi-Fi or unplug the network cable to stop anything spreading.",
+      "Don't enter passwords, pay any ransom or call phone numbers shown in pop-ups.",
+      "Run a full scan with your installed antivirus (e.g. Microsoft Defender) and follow its recommendations.",
+      "From a different, trusted device, change the passwords of any accounts you used recently and enable MFA.",
+      "Contact a technician before reconnecting the device - infections often need a professional clean-up.",
+    ],
+  },
+  {
+    id: "wont-start",
+    title: "Device won't turn on or start up",
+    keywords: ["turn on", "boot", "start up", "startup", "black screen", "won't start", "dead", "power", "battery"],
+    steps: [
+      "Check the power cable, wall socket and charger light, and try a different socket.",
+      "For laptops, charge for at least 30 minutes before trying again.",
+      "Hold the power button for 15 seconds to force a full shutdown, then press it once to start.",
+      "Disconnect all USB devices, external drives and docks, then try starting again.",
+      "If you see an error message, take a photo of it for our technician.",
+    ],
+  },
+  {
+    id: "blue-screen",
+    title: "Crashes or blue screen errors",
+    keywords: ["blue screen", "bsod", "crash", "crashes", "restart", "reboot", "error code", "stop code"],
+    steps: [
+      "Write down or photograph the stop code shown on the error screen.",
+      "Think about anything that changed recently (new software, update or device) and note it for us.",
+      "Disconnect recently added hardware or accessories and restart.",
+      "Install pending operating system updates from the official update settings.",
+      "If crashes keep happening, back up important files to cloud storage and contact a technician.",
+    ],
+  },
+  {
+    id: "password",
+    title: "Forgotten password or locked account",
+    keywords: ["password", "locked", "login", "log in", "sign in", "account", "mfa", "2fa", "authenticator"],
+    steps: [
+      "Check Caps Lock and the keyboard language, then type the password carefully once more.",
+      "Use the service's official \"Forgot password\" link - never one from an unexpected email.",
+      "If your account is locked after too many attempts, wait 15-30 minutes before trying again.",
+      "For work accounts, ask your administrator or our helpdesk to reset it; we'll verify your identity first.",
+    ],
+  },
+  {
+    id: "lost-files",
+    title: "Missing or accidentally deleted files",
+    keywords: ["deleted", "lost", "missing", "recover", "file", "files", "folder", "backup", "corrupt"],
+    steps: [
+      "Stop saving new files to the same drive - new data can overwrite what you want to recover.",
+      "Check the Recycle Bin (Windows) or Trash (Mac) and restore the file if it's there.",
+      "Search for the file name and check cloud storage such as OneDrive, Google Drive or Dropbox, including their recycle bins.",
+      "Look for previous versions in your backup tool or the cloud service's version history.",
+      "If the file isn't found, contact us before trying recovery software - we can maximise the chance of recovery.",
+    ],
+  },
+]
+
+// Generic advice when no entry matches the description
+export const GENERIC_STEPS: string[] = [
+  "Save your work and restart the affected device - it resolves a surprising number of issues.",
+  "Check for and install pending updates for the app and the operating system.",
+  "Note any exact error messages and when the problem started; a screenshot helps our technicians.",
+  "Try the same task on another device or account to see whether the problem follows you.",
+]
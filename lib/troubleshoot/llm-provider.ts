@@ -0,0 +1,62 @@
+import { streamChat } from "@/lib/ai/llm"
+import { citedIn, formatSources } from "@/lib/retrieval/citations"
+import { citePassages, retrieve } from "@/lib/retrieval/retrieve"
+import type { TroubleshootProvider } from "@/lib/troubleshoot/provider"
+import { visitorText } from "@/lib/troubleshoot/schema"
+
+// Instructions keeping model answers short, numbered and non-destructive
+const SYSTEM_PROMPT = `You are the Torestech IT support assistant for small businesses, chatting with a visitor.
+If you need more details to help (device, operating system, exact error message, when it started),
+ask one short clarifying question and nothing else.
+Otherwise reply with at most 6 short, numbered steps a non-technical person can safely try right now, one step per line.
+Never suggest formatting or partitioning disks, editing the registry, changing BIOS/firmware, deleting system files,
+disabling security software, factory resets or reinstalling the operating system.
+If the issue needs any of those, or hardware repair, say a Torestech technician should handle it.
+Do not use markdown headings or code blocks.
+Reply in the language with ISO 639-1 code "{locale}".`
+
+// Appended when the knowledge base has passages about the issue
+const GROUNDING_PROMPT = `Base your steps on these excerpts from the Torestech knowledge base, which describe how our technicians work.
+Cite each excerpt you use with its number in brackets at the end of the step, e.g. [1]. Ignore excerpts that don't fit the issue,
+and don't cite anything in a clarifying question.
+
+{excerpts}`
+
+/**
+ * LLM-backed troubleshooting provider
+ *
+ * Grounded in the knowledge-base passages retrieved for the conversation; the
+ * sources the answer cites are listed after it.
+ */
+export function createLlmTroubleshootProvider(): TroubleshootProvider {
+  return {
+    name: "llm",
+    async *reply(conversation, options) {
+      const passages = await retrieve(visitorText(conversation), {
+        locale: options?.locale,
+        signal: options?.signal,
+      }).catch((error) => {
+        console.error("Knowledge retrieval failed", error)
+        return []
+      })
+      const { citations, excerpts } = citePassages(passages)
+
+      let system = SYSTEM_PROMPT.replace("{locale}", options?.locale ?? "en")
+      if (excerpts) system += `\n\n${GROUNDING_PROMPT.replace("{excerpts}", () => excerpts)}`
+
+      let answer = ""
+      for await (const delta of streamChat([{ role: "system", content: system }, ...conversation], {
+        signal: options?.signal,
+        temperature: 0.2,
+      })) {
+        answer += delta
+        yield delta
+      }
+
+      const cited = citedIn(answer, citations)
+      if (cited.length) {
+        yield `${answer.endsWith("\n") ? "" : "\n"}\n${formatSources(cited)}\n`
+      }
+    },
+  }
+}
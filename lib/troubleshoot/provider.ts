@@ -0,0 +1,32 @@
+import { isLlmConfigured } from "@/lib/ai/llm"
+import type { Locale } from "@/lib/i18n/config"
+import { createLlmTroubleshootProvider } from "@/lib/troubleshoot/llm-provider"
+import { createRulesTroubleshootProvider } from "@/lib/troubleshoot/rules-provider"
+import type { ChatTurn } from "@/lib/troubleshoot/schema"
+
+/**
+ * Troubleshooting Provider Abstraction
+ *
+ * A provider answers the newest turn of a support chat with a stream of
+ * plain-text lines: either safe suggestion steps or a clarifying question
+ * (device, operating system, error message). Selected with `TROUBLESHOOT_PROVIDER`:
+ * - "llm": model-backed answers (requires AI_API_KEY)
+ * - "rules": deterministic local knowledge base, used offline and in tests
+ * When unset, the LLM is used if configured and the rules provider otherwise.
+ * Both list the knowledge-base articles behind the answer (`lib/retrieval/`).
+ * The LLM answers in the visitor's locale; the knowledge base is English only.
+ */
+export interface TroubleshootProvider {
+  name: string
+  reply(conversation: ChatTurn[], options?: { signal?: AbortSignal; locale?: Locale }): AsyncIterable<string>
+}
+
+/**
+ * Provider instance for the current environment
+ */
+export function getTroubleshootProvider(): TroubleshootProvider {
+  const configured = process.env.TROUBLESHOOT_PROVIDER
+  if (configured === "rules") return createRulesTroubleshootProvider()
+  if (configured === "llm" || isLlmConfigured()) return createLlmTroubleshootProvider()
+  return createRulesTroubleshootProvider()
+}
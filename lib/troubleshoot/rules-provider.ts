@@ -0,0 +1,68 @@
+import { formatSources } from "@/lib/retrieval/citations"
+import { citePassages, retrieve } from "@/lib/retrieval/retrieve"
+import { GENERIC_STEPS, KNOWLEDGE_BASE, type KnowledgeBaseEntry } from "@/lib/troubleshoot/knowledge-base"
+import type { TroubleshootProvider } from "@/lib/troubleshoot/provider"
+import { visitorText } from "@/lib/troubleshoot/schema"
+
+/**
+ * Find the knowledge-base entry whose keywords best match the issue description
+ */
+export function matchKnowledgeBase(issue: string): KnowledgeBaseEntry | undefined {
+  const text = issue.toLowerCase()
+  let best: { entry: KnowledgeBaseEntry; score: number } | undefined
+
+  for (const entry of KNOWLEDGE_BASE) {
+    const score = entry.keywords.filter((keyword) => text.includes(keyword)).length
+    if (score > 0 && (!best || score > best.score)) {
+      best = { entry, score }
+    }
+  }
+  return best?.entry
+}
+
+// Asked once when the description matches nothing in the knowledge base
+export const CLARIFYING_QUESTION =
+  "To point you in the right direction, could you tell me a bit more? Which device and operating system are you using " +
+  "(for example a Windows laptop or an iPhone), and do you see an exact error message?"
+
+/**
+ * Deterministic troubleshooting provider backed by the local knowledge base
+ *
+ * Matches everything the visitor has said so far. When nothing matches it
+ * asks one clarifying question, then falls back to generic safe steps.
+ * Yields one numbered line per step so the UI streams it the same way as
+ * model output, followed by the knowledge-base articles about the issue.
+ */
+export function createRulesTroubleshootProvider(): TroubleshootProvider {
+  return {
+    name: "rules",
+    async *reply(conversation, options) {
+      const described = visitorText(conversation)
+      const entry = matchKnowledgeBase(described)
+      const hasAsked = conversation.some((turn) => turn.role === "assistant" && turn.content === CLARIFYING_QUESTION)
+
+      if (!entry && !hasAsked) {
+        yield CLARIFYING_QUESTION
+        return
+      }
+
+      const steps = entry?.steps ?? GENERIC_STEPS
+      yield entry ? `This looks like: ${entry.title}.\n` : "Here are some safe first steps to try:\n"
+      for (const [index, step] of steps.entries()) {
+        yield `${index + 1}. ${step}\n`
+      }
+
+      // The steps come from the playbooks, so only articles are worth pointing to
+      const passages = await retrieve(described, { limit: 3, locale: options?.locale, signal: options?.signal }).catch(
+        (error) => {
+          console.error("Knowledge retrieval failed", error)
+          return []
+        },
+      )
+      const { citations } = citePassages(passages.filter((passage) => passage.url))
+      if (citations.length) {
+        yield `\n${formatSources(citations)}\n`
+      }
+    },
+  }
+}
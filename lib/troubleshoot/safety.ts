@@ -0,0 +1,54 @@
+/**
+ * Troubleshooting Safety Layer
+ *
+ * The assistant only offers "immediate, safe steps". Anything that can destroy
+ * data or leave a machine unbootable is refused and handed to a technician instead,
+ * regardless of which provider produced the advice. The notices shown in their
+ * place live in the message catalog, under `troubleshoot`.
+ */
+
+// Patterns describing destructive actions we never walk a visitor through
+const DESTRUCTIVE_PATTERNS: RegExp[] = [
+  /\bformat(ting)?\b.*\b(disk|drive|partition|hard ?drive|ssd|c:)/i,
+  /\b(disk|drive|partition|hard ?drive|ssd)\b.*\bformat(ting)?\b/i,
+  /\b(diskpart|mkfs|fdisk|gparted)\b/i,
+  /\b(delete|remove|wipe|erase)\b.*\bpartitions?\b/i,
+  /\b(regedit|registry)\b/i,
+  /\bhkey_(local_machine|current_user|classes_root|users)\b/i,
+  /\brm\s+-(rf|fr)\b/i,
+  /\bdel\s+\/[sfq]/i,
+  /\b(system32|boot\.ini|bcdedit)\b/i,
+  /\b(flash|update|reset)\b.*\b(bios|uefi|firmware)\b/i,
+  /\b(factory reset|wipe the (device|computer|phone|laptop)|reinstall (windows|macos|the operating system))\b/i,
+  /\bdisable\b.*\b(antivirus|firewall|defender)\b/i,
+]
+
+/**
+ * Whether a piece of text asks for or recommends a destructive action
+ */
+export function isDestructive(text: string): boolean {
+  return DESTRUCTIVE_PATTERNS.some((pattern) => pattern.test(text))
+}
+
+/**
+ * Filter a stream of text chunks line by line
+ *
+ * Lines are buffered until complete so a destructive instruction split across
+ * chunks is still caught; unsafe lines are replaced with a short notice.
+ */
+export async function* filterUnsafeLines(chunks: AsyncIterable<string>, notice: string): AsyncGenerator<string> {
+  let buffer = ""
+
+  for await (const chunk of chunks) {
+    buffer += chunk
+    const lines = buffer.split("\n")
+    buffer = lines.pop() ?? ""
+    for (const line of lines) {
+      yield `${isDestructive(line) ? notice : line}\n`
+    }
+  }
+
+  if (buffer) {
+    yield isDestructive(buffer) ? notice : buffer
+  }
+}
@@ -0,0 +1,76 @@
+import { z } from "zod"
+
+import { DEFAULT_LOCALE, LOCALES } from "@/lib/i18n/config"
+
+/**
+ * Support Chat Schemas
+ *
+ * Shared by the chat panel and the API. The conversation lives in the
+ * visitor's browser session and is sent in full with every turn, so the
+ * server stays stateless. `locale` is the visitor's language, so assistant
+ * answers can be written in it.
+ */
+
+// Longest conversation the assistant takes part in; after that a ticket hands it to a technician
+export const MAX_CHAT_TURNS = 20
+
+/**
+ * Opening description of the issue
+ */
+export const issueSchema = z
+  .string({ required_error: "issueRequired" })
+  .trim()
+  .min(10, "issueTooShort")
+  .max(2000, "issueTooLong")
+
+/**
+ * Follow-up message, e.g. the answer to a clarifying question ("Windows 11")
+ */
+export const replySchema = z.string({ required_error: "replyRequired" }).trim().min(1, "replyRequired").max(2000, "issueTooLong")
+
+export const chatTurnSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string().trim().min(1).max(4000),
+})
+
+export type ChatTurn = z.infer<typeof chatTurnSchema>
+
+/**
+ * Conversation so far, opening with the visitor's issue
+ */
+export const conversationSchema = z
+  .array(chatTurnSchema)
+  .min(1, "issueRequired")
+  .max(MAX_CHAT_TURNS, "conversationTooLong")
+  .superRefine((turns, context) => {
+    if (turns[0]?.role === "user" && !issueSchema.safeParse(turns[0].content).success) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: "issueTooShort" })
+    }
+  })
+
+/**
+ * Chat turn request: the conversation, ending with the visitor's newest message
+ */
+export const troubleshootRequestSchema = z.object({
+  messages: conversationSchema.refine((turns) => turns[turns.length - 1]?.role === "user", "replyRequired"),
+  locale: z.enum(LOCALES).default(DEFAULT_LOCALE),
+})
+
+export type TroubleshootRequest = z.infer<typeof troubleshootRequestSchema>
+
+/**
+ * Everything the visitor has said so far, used to match the issue
+ */
+export function visitorText(turns: ChatTurn[]): string {
+  return turns
+    .filter((turn) => turn.role === "user")
+    .map((turn) => turn.content)
+    .join("\n")
+}
+
+/**
+ * Plain-text transcript, as stored on a ticket and shown to technicians
+ */
+export function transcriptToText(turns: ChatTurn[]): string {
+  return turns.map((turn) => `${turn.role === "user" ? "Visitor" : "Assistant"}: ${turn.content}`).join("\n\n")
+}
@@ -0,0 +1,14 @@
+import { z } from "zod"
+
+import { consultationSchema } from "@/lib/leads/schema"
+import { MAX_CHAT_TURNS, chatTurnSchema } from "@/lib/troubleshoot/schema"
+
+/**
+ * Support ticket created from the chat: contact details plus the whole conversation
+ */
+export const supportTicketSchema = consultationSchema.pick({ fullName: true, email: true, locale: true }).extend({
+  // Every request the assistant answered, plus its final reply
+  transcript: z.array(chatTurnSchema).min(1, "issueRequired").max(MAX_CHAT_TURNS + 1, "conversationTooLong"),
+})
+
+export type SupportTicketInput = z.infer<typeof supportTicketSchema>
@@ -0,0 +1,23 @@
+import { z } from "zod"
+
+/**
+ * Link Validation
+ *
+ * Content edited outside the code (site content, case study frontmatter)
+ * may only point at this site or at an https URL. A path must not start
+ * with "//" or "/\": browsers read both as a link to another host.
+ */
+
+const LOCAL_OR_HTTPS = /^(\/(?![/\\])|https:\/\/)/
+const LOCAL_ANCHOR_OR_HTTPS = /^(\/(?![/\\])|#|https:\/\/)/
+
+/**
+ * String schema for a path on this site or an https URL; with `anchors`,
+ * in-page anchors ("#services") are accepted too
+ */
+export function localOrHttpsUrl({ anchors = false, message }: { anchors?: boolean; message?: string } = {}) {
+  return z
+    .string()
+    .trim()
+    .regex(anchors ? LOCAL_ANCHOR_OR_HTTPS : LOCAL_OR_HTTPS, message)
+}
@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { DEFAULT_LOCALE, LOCALE_COOKIE, LOCALES, isLocale, localizePath, type Locale } from "@/lib/i18n/config"
+
+/**
+ * Pick the best supported locale from an Accept-Language header
+ */
+function negotiateLocale(acceptLanguage: string | null): Locale | undefined {
+  if (!acceptLanguage) return undefined
+
+  const preferred = acceptLanguage
+    .split(",")
+    .map((part) => {
+      const [tag, quality] = part.trim().split(";q=")
+      return { language: tag.toLowerCase().split("-")[0], quality: quality ? Number(quality) : 1 }
+    })
+    .sort((a, b) => b.quality - a.quality)
+
+  return preferred.find(({ language }) => LOCALES.includes(language as Locale))?.language as Locale | undefined
+}
+
+/**
+ * Locale Middleware
+ *
+ * Redirects paths without a locale prefix to the visitor's language: their
+ * explicit choice from the switcher (cookie) first, then the browser's
+ * Accept-Language preferences, then the default locale.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  const [, firstSegment] = pathname.split("/")
+  if (isLocale(firstSegment)) return NextResponse.next()
+
+  const cookieLocale = request.cookies.get(LOCALE_COOKIE)?.value
+  const locale = isLocale(cookieLocale)
+    ? cookieLocale
+    : negotiateLocale(request.headers.get("accept-language")) ?? DEFAULT_LOCALE
+
+  const url = request.nextUrl.clone()
+  url.pathname = localizePath(pathname, locale)
+  url.search = search
+  return NextResponse.redirect(url)
+}
+
+export const config = {
+  // Skip API routes, the (English-only) admin area, Next.js internals and files with an extension.
+  // Whole segments only, so pages like /apis or /administration still get a locale
+  matcher: ["/((?!api(?:/|$)|admin(?:/|$)|_next/|.*\\..*).*)"],
+}
@@ -0,0 +1,181 @@
+import type React from "react"
+import { beforeAll, describe, it } from "vitest"
+
+import RootLayout from "@/app/[locale]/layout"
+import LandingPage from "@/app/[locale]/page"
+import BlogLayout from "@/app/[locale]/blog/layout"
+import BlogPage from "@/app/[locale]/blog/page"
+import ArticlePage from "@/app/[locale]/blog/[slug]/page"
+import CaseStudiesLayout from "@/app/[locale]/case-studies/layout"
+import CaseStudiesPage from "@/app/[locale]/case-studies/page"
+import CaseStudyPage from "@/app/[locale]/case-studies/[slug]/page"
+import LegalLayout from "@/app/[locale]/legal/layout"
+import LegalPage from "@/app/[locale]/legal/[document]/page"
+import LegalVersionPage from "@/app/[locale]/legal/[document]/[version]/page"
+import PortalLayout from "@/app/[locale]/portal/layout"
+import PortalPage from "@/app/[locale]/portal/page"
+import PortalSignInPage from "@/app/[locale]/portal/sign-in/page"
+import PortalTicketPage from "@/app/[locale]/portal/tickets/[id]/page"
+import NewTicketPage from "@/app/[locale]/portal/tickets/new/page"
+import PortalVerifyPage from "@/app/[locale]/portal/verify/page"
+import ServicePage from "@/app/[locale]/services/[slug]/page"
+import AdminLayout from "@/app/admin/layout"
+import AdminPage from "@/app/admin/page"
+import AdminBookingsPage from "@/app/admin/bookings/page"
+import AdminClientsPage from "@/app/admin/clients/page"
+import AdminContentPage from "@/app/admin/content/page"
+import AdminLoginPage from "@/app/admin/login/page"
+import AdminTicketsPage from "@/app/admin/tickets/page"
+import AdminTicketPage from "@/app/admin/tickets/[id]/page"
+import { ADMIN_SESSION_COOKIE, createSessionToken } from "@/lib/admin/session"
+import { getPosts } from "@/lib/blog/posts"
+import { getCaseStudies } from "@/lib/case-studies/case-studies"
+import { LOCALES, type Locale } from "@/lib/i18n/config"
+import { getLegalVersions } from "@/lib/legal/documents"
+import { getLeadStore } from "@/lib/leads/store"
+import type { PortalUser, Ticket } from "@/lib/portal/schema"
+import { PORTAL_SESSION_COOKIE, createPortalSessionToken } from "@/lib/portal/session"
+import { buildTicketMessage, getTicketStore } from "@/lib/portal/tickets"
+import { getPortalUserStore } from "@/lib/portal/users"
+import { SERVICES } from "@/lib/services/catalog"
+import { requestCookies } from "@/tests/request-cookies"
+import { expectNoAxeViolations, renderRoute, type Layout } from "@/tests/render-route"
+
+/**
+ * Accessibility Audit
+ *
+ * Renders every route's page inside its layouts, in every language for the
+ * localized site, and fails on any WCAG 2.1 A/AA violation axe can detect
+ * without a browser. Signed-in areas run with a real session for a seeded
+ * client, ticket and lead.
+ */
+
+interface SectionLayoutProps {
+  children: React.ReactNode
+  params: { locale: Locale }
+}
+
+process.env.ADMIN_PASSWORD = "test-password"
+process.env.PORTAL_SESSION_SECRET = "test-secret"
+
+let user: PortalUser
+let ticket: Ticket
+
+beforeAll(async () => {
+  user = await getPortalUserStore().create({ name: "Ada Obi", email: "ada@example.com", locale: "en" })
+  ticket = await getTicketStore().create(
+    user.id,
+    { category: "troubleshooting", subject: "Laptop won't charge", message: "The charger light stays off." },
+    buildTicketMessage({ author: "client", authorName: user.name, body: "The charger light stays off." }),
+  )
+  await getLeadStore().create({
+    fullName: "Ada Obi",
+    email: "ada@example.com",
+    locale: "en",
+    service: "troubleshooting",
+    message: "Our office Wi-Fi keeps dropping.",
+    source: "consultation",
+    privacyPolicyVersion: "2026-10-19",
+  })
+})
+
+const signInToPortal = () => requestCookies.set(PORTAL_SESSION_COOKIE, createPortalSessionToken(user.id))
+const signInToAdmin = () => requestCookies.set(ADMIN_SESSION_COOKIE, createSessionToken())
+
+describe.each(LOCALES)("localized pages in %s", (locale) => {
+  const params = { locale }
+  const root: Layout = (children) => RootLayout({ children, params })
+  const section =
+    (layout: (props: SectionLayoutProps) => ReturnType<Layout>): Layout =>
+    (children) =>
+      layout({ children, params })
+
+  it("landing page", async () => {
+    const { container } = await renderRoute(LandingPage({ params }), [root])
+    await expectNoAxeViolations(container)
+  })
+
+  it("service page", async () => {
+    const { container } = await renderRoute(ServicePage({ params: { ...params, slug: SERVICES[0].slug } }), [root])
+    await expectNoAxeViolations(container)
+  })
+
+  it("blog index and article", async () => {
+    const [post] = await getPosts()
+    const layouts = [root, section(BlogLayout)]
+    const index = await renderRoute(BlogPage({ params, searchParams: {} }), layouts)
+    await expectNoAxeViolations(index.container)
+    index.unmount()
+    const article = await renderRoute(ArticlePage({ params: { ...params, slug: post.slug } }), layouts)
+    await expectNoAxeViolations(article.container)
+  })
+
+  it("case studies index and case study", async () => {
+    const [caseStudy] = await getCaseStudies()
+    const layouts = [root, section(CaseStudiesLayout)]
+    const index = await renderRoute(CaseStudiesPage({ params, searchParams: {} }), layouts)
+    await expectNoAxeViolations(index.container)
+    index.unmount()
+    const page = await renderRoute(CaseStudyPage({ params: { ...params, slug: caseStudy.slug } }), layouts)
+    await expectNoAxeViolations(page.container)
+  })
+
+  it("legal document and archived version", async () => {
+    const versions = await getLegalVersions("privacy")
+    const layouts = [root, section(LegalLayout)]
+    const current = await renderRoute(LegalPage({ params: { ...params, document: "privacy" } }), layouts)
+    await expectNoAxeViolations(current.container)
+    current.unmount()
+    const archived = versions[versions.length - 1]
+    const page = await renderRoute(
+      LegalVersionPage({ params: { ...params, document: "privacy", version: archived.version } }),
+      layouts,
+    )
+    await expectNoAxeViolations(page.container)
+  })
+
+  it("portal sign-in and verify pages", async () => {
+    const layouts = [root, section(PortalLayout)]
+    const signIn = await renderRoute(PortalSignInPage({ params }), layouts)
+    await expectNoAxeViolations(signIn.container)
+    signIn.unmount()
+    const verify = await renderRoute(PortalVerifyPage({ params, searchParams: { token: "token" } }), layouts)
+    await expectNoAxeViolations(verify.container)
+  })
+
+  it("portal pages for a signed-in client", async () => {
+    const layouts = [root, section(PortalLayout)]
+    for (const page of [
+      () => PortalPage({ params }),
+      () => NewTicketPage({ params }),
+      () => PortalTicketPage({ params: { ...params, id: ticket.id } }),
+    ]) {
+      signInToPortal()
+      const { container, unmount } = await renderRoute(page(), layouts)
+      await expectNoAxeViolations(container)
+      unmount()
+    }
+  })
+})
+
+describe("admin pages", () => {
+  const root: Layout = (children) => AdminLayout({ children })
+
+  it("sign-in page", async () => {
+    const { container } = await renderRoute(AdminLoginPage(), [root])
+    await expectNoAxeViolations(container)
+  })
+
+  it.each([
+    ["leads", () => AdminPage({ searchParams: {} })],
+    ["bookings", () => AdminBookingsPage()],
+    ["clients", () => AdminClientsPage()],
+    ["content", () => AdminContentPage({ searchParams: {} })],
+    ["tickets", () => AdminTicketsPage()],
+    ["ticket", () => AdminTicketPage({ params: { id: ticket.id } })],
+  ])("%s page", async (_name, page) => {
+    signInToAdmin()
+    const { container } = await renderRoute(page(), [root])
+    await expectNoAxeViolations(container)
+  })
+})
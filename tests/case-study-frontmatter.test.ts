@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+
+import { caseStudyFrontmatterSchema } from "@/lib/case-studies/case-studies"
+
+const frontmatter = (logo: string) => ({
+  title: "A clinic network that keeps up",
+  client: "Harmony Family Clinic",
+  industry: "healthcare",
+  services: ["network"],
+  summary: "Stable Wi-Fi for a busy clinic.",
+  problem: "Daily dropouts.",
+  outcome: "No more dropouts.",
+  logo: { src: logo, alt: "Harmony Family Clinic" },
+  date: "2026-09-01",
+})
+
+describe("caseStudyFrontmatterSchema logo", () => {
+  it.each(["/logos/harmony.svg", "https://cdn.example.com/harmony.svg"])("accepts %s", (src) => {
+    expect(caseStudyFrontmatterSchema.safeParse(frontmatter(src)).success).toBe(true)
+  })
+
+  it.each(["//evil.example/logo.svg", "/\\evil.example/logo.svg"])("rejects %s", (src) => {
+    expect(caseStudyFrontmatterSchema.safeParse(frontmatter(src)).success).toBe(false)
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+
+import { ctaSchema, imageSchema } from "@/lib/cms/schema"
+
+/**
+ * Site Content Links
+ *
+ * Call-to-action links and image sources may point at this site or an https
+ * URL, never at another host through a protocol-relative path.
+ */
+
+const cta = (href: string) => ctaSchema.safeParse({ label: "Get started", href }).success
+const image = (src: string) => imageSchema.safeParse({ src, alt: "Our team" }).success
+
+describe("ctaSchema href", () => {
+  it.each(["/en/blog", "#contact", "https://wa.me/2349030461312"])("accepts %s", (href) => {
+    expect(cta(href)).toBe(true)
+  })
+
+  it.each(["//evil.example", "/\\evil.example", "http://example.com", "javascript:alert(1)"])(
+    "rejects %s",
+    (href) => {
+      expect(cta(href)).toBe(false)
+    },
+  )
+})
+
+describe("imageSchema src", () => {
+  it.each(["/team.jpg", "https://images.example.com/team.jpg"])("accepts %s", (src) => {
+    expect(image(src)).toBe(true)
+  })
+
+  it.each(["//evil.example/team.jpg", "/\\evil.example/team.jpg", "#team"])("rejects %s", (src) => {
+    expect(image(src)).toBe(false)
+  })
+})
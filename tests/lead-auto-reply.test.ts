@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+
+import type { Lead } from "@/lib/leads/schema"
+import { leadAutoReplyEmail } from "@/lib/mail/templates"
+
+/**
+ * Lead Auto-reply
+ *
+ * The auto-reply goes to an address nobody has verified, so none of the
+ * visitor's own words may appear in it.
+ */
+
+const lead: Lead = {
+  id: "lead-1",
+  createdAt: "2026-10-19T09:00:00.000Z",
+  source: "consultation",
+  status: "new",
+  tags: [],
+  fullName: "Visit our prize page now",
+  email: "someone-else@example.com",
+  service: "troubleshooting",
+  message: "Claim your reward at https://example.net/win",
+  locale: "en",
+}
+
+const submittedText = [lead.fullName, lead.email, lead.message, "example.net"]
+
+describe("leadAutoReplyEmail", () => {
+  it.each(["en", "fr"] as const)("contains none of the submitted fields in %s", (locale) => {
+    const email = leadAutoReplyEmail({ ...lead, locale })
+    expect(email.to).toEqual([lead.email])
+    for (const part of [email.subject, email.text, email.html]) {
+      for (const submitted of submittedText) {
+        expect(part).not.toContain(submitted)
+      }
+    }
+  })
+})
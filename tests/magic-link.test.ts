@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+
+import { consumeMagicLink, createMagicLink, MAGIC_LINK_TTL_MINUTES } from "@/lib/portal/magic-link"
+import { getPortalUserStore } from "@/lib/portal/users"
+
+/**
+ * Magic Links
+ *
+ * A sign-in link works once, however many requests race to spend it.
+ */
+
+const tokenOf = (link: string) => new URL(link).searchParams.get("token") ?? ""
+
+describe("consumeMagicLink", () => {
+  it("signs in only one of two concurrent requests with the same link", async () => {
+    const user = await getPortalUserStore().create({ name: "Ada Obi", email: "ada@example.com", locale: "en" })
+    const token = tokenOf(await createMagicLink(user, "en"))
+
+    const results = await Promise.all([consumeMagicLink(token), consumeMagicLink(token)])
+
+    expect(results.filter(Boolean)).toHaveLength(1)
+    expect(results.find(Boolean)?.id).toBe(user.id)
+    expect(await consumeMagicLink(token)).toBeUndefined()
+  })
+
+  it("refuses an expired link and leaves it unspent", async () => {
+    const user = await getPortalUserStore().create({ name: "Bo Lee", email: "bo@example.com", locale: "fr" })
+    const issuedAt = Date.now()
+    const token = tokenOf(await createMagicLink(user, "fr", issuedAt))
+
+    expect(await consumeMagicLink(token, issuedAt + (MAGIC_LINK_TTL_MINUTES + 1) * 60 * 1000)).toBeUndefined()
+    expect((await getPortalUserStore().get(user.id))?.lastSignInAt).toBeUndefined()
+  })
+})
@@ -0,0 +1,62 @@
+import { render, type RenderResult } from "@testing-library/react"
+import axe from "axe-core"
+import { isValidElement, type ReactElement, type ReactNode } from "react"
+import { expect } from "vitest"
+
+/**
+ * Route Rendering for Tests
+ *
+ * Renders a page the way the App Router nests it: inside its layouts,
+ * outermost first, with async server components awaited. The root layout's
+ * <html> and <body> can't be mounted inside a test container, so they are
+ * unwrapped and the document language is taken from <html lang>.
+ */
+
+type Awaitable<T> = T | Promise<T>
+
+// Wraps the page (or the next layout in) in one layout
+export type Layout = (children: ReactNode) => Awaitable<ReactElement>
+
+// Checks the pages have to pass: WCAG 2.1 A and AA
+const AXE_TAGS = ["wcag2a", "wcag2aa", "wcag21a", "wcag21aa"]
+
+// axe measures contrast from painted colours and layout, which jsdom doesn't
+// compute: there the rule can only come back "incomplete", so it is switched
+// off under jsdom alone. Any run in a real browser keeps it.
+const RUNS_IN_JSDOM = navigator.userAgent.includes("jsdom")
+
+/**
+ * Body content of a root layout's document, applying its language
+ */
+function unwrapDocument(node: ReactNode): ReactNode {
+  if (!isValidElement<{ lang?: string; children?: ReactNode }>(node) || node.type !== "html") return node
+  if (node.props.lang) document.documentElement.lang = node.props.lang
+  const body = [node.props.children].flat().find((child) => isValidElement(child) && child.type === "body")
+  return isValidElement<{ children?: ReactNode }>(body) ? body.props.children : node.props.children
+}
+
+/**
+ * Render a page inside its layouts, listed outermost first
+ */
+export async function renderRoute(page: Awaitable<ReactElement>, layouts: Layout[] = []): Promise<RenderResult> {
+  let tree: ReactNode = await page
+  for (const layout of [...layouts].reverse()) {
+    tree = await layout(tree)
+  }
+  return render(<>{unwrapDocument(tree)}</>)
+}
+
+/**
+ * Fail with a readable list when axe finds WCAG violations in the element
+ */
+export async function expectNoAxeViolations(element: Element) {
+  const { violations } = await axe.run(element, {
+    runOnly: { type: "tag", values: AXE_TAGS },
+    rules: RUNS_IN_JSDOM ? { "color-contrast": { enabled: false } } : {},
+  })
+  const summary = violations.map(
+    (violation) =>
+      `${violation.id}: ${violation.help}\n${violation.nodes.map((node) => `  ${node.target.join(" ")}`).join("\n")}`,
+  )
+  expect(summary).toEqual([])
+}
@@ -0,0 +1,5 @@
+/**
+ * Cookies sent with the request being rendered, read through the mocked
+ * `cookies()` from next/headers (see tests/setup.ts)
+ */
+export const requestCookies = new Map<string, string>()
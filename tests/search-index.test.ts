@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+
+import { getSearchIndex, invalidateSearchIndex } from "@/lib/retrieval/search-index"
+
+/**
+ * Knowledge Search Index
+ *
+ * Questions share one loaded index until content is published.
+ */
+
+describe("getSearchIndex", () => {
+  it("reuses the loaded index until content is published", async () => {
+    const first = await getSearchIndex()
+    expect(first.chunks.length).toBeGreaterThan(0)
+    expect(await getSearchIndex()).toBe(first)
+
+    invalidateSearchIndex()
+    const reloaded = await getSearchIndex()
+    expect(reloaded).not.toBe(first)
+    expect(reloaded.fingerprint).toBe(first.fingerprint)
+  })
+})
@@ -0,0 +1,68 @@
+import { mkdtempSync } from "fs"
+import os from "os"
+import path from "path"
+import { cleanup } from "@testing-library/react"
+import { afterEach, vi } from "vitest"
+
+import { requestCookies } from "@/tests/request-cookies"
+
+/**
+ * Test Setup
+ *
+ * Stands in for what Next.js and the browser provide at runtime: the font
+ * loader, the app router, request headers, and the browser APIs jsdom leaves
+ * out. Stores write to a fresh temporary data directory per test file.
+ */
+
+process.env.DATA_DIR = mkdtempSync(path.join(os.tmpdir(), "torestech-test-"))
+
+// next/font only works inside the Next.js compiler
+vi.mock("@/app/fonts", () => ({ inter: { variable: "" }, poppins: { variable: "" } }))
+
+vi.mock("next/navigation", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("next/navigation")>()),
+  useRouter: () => ({ push: vi.fn(), replace: vi.fn(), refresh: vi.fn(), back: vi.fn(), prefetch: vi.fn() }),
+  usePathname: () => "/",
+  useSearchParams: () => new URLSearchParams(),
+}))
+
+vi.mock("next/headers", () => ({
+  draftMode: () => ({ isEnabled: false }),
+  cookies: () => ({
+    get: (name: string) => (requestCookies.has(name) ? { name, value: requestCookies.get(name) } : undefined),
+    has: (name: string) => requestCookies.has(name),
+  }),
+  headers: () => new Headers(),
+}))
+
+class StubObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+  takeRecords() {
+    return []
+  }
+}
+
+if (typeof window !== "undefined") {
+  window.matchMedia ??= (query: string) =>
+    ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      addListener: () => {},
+      removeListener: () => {},
+      dispatchEvent: () => false,
+    }) as MediaQueryList
+  window.IntersectionObserver ??= StubObserver as unknown as typeof IntersectionObserver
+  window.ResizeObserver ??= StubObserver as unknown as typeof ResizeObserver
+  window.scrollTo = () => {}
+  Element.prototype.scrollIntoView ??= () => {}
+}
+
+afterEach(() => {
+  cleanup()
+  requestCookies.clear()
+})
@@ -0,0 +1,98 @@
+import { act, render } from "@testing-library/react"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { useCountUp } from "@/hooks/use-count-up"
+
+/**
+ * Count-up Hook
+ *
+ * Animation frames and the clock are faked, and the observer only reports the
+ * element in view when a test says so.
+ */
+
+class MockIntersectionObserver {
+  static instances: MockIntersectionObserver[] = []
+  disconnect = vi.fn()
+
+  constructor(private callback: IntersectionObserverCallback) {
+    MockIntersectionObserver.instances.push(this)
+  }
+
+  observe() {}
+
+  // Report the observed element scrolling into view
+  enter() {
+    this.callback([{ isIntersecting: true } as IntersectionObserverEntry], this as unknown as IntersectionObserver)
+  }
+}
+
+const prefersReducedMotion = (matches: boolean) =>
+  vi.stubGlobal("matchMedia", (query: string) => ({ matches, media: query }) as MediaQueryList)
+
+function Counter({ target }: { target: number }) {
+  const { ref, formatted } = useCountUp(target, { duration: 1000, locale: "en" })
+  return <div ref={ref}>{formatted}</div>
+}
+
+const scrollIntoView = () =>
+  act(() => {
+    MockIntersectionObserver.instances.forEach((observer) => observer.enter())
+  })
+
+const advance = (ms: number) =>
+  act(() => {
+    vi.advanceTimersByTime(ms)
+  })
+
+beforeEach(() => {
+  MockIntersectionObserver.instances = []
+  vi.stubGlobal("IntersectionObserver", MockIntersectionObserver)
+  prefersReducedMotion(false)
+  vi.useFakeTimers({ toFake: ["requestAnimationFrame", "cancelAnimationFrame", "performance"] })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe("useCountUp", () => {
+  it("waits for the element to scroll into view, then lands on the target", () => {
+    const { container } = render(<Counter target={1250} />)
+    advance(2000)
+    expect(container.textContent).toBe("0")
+
+    scrollIntoView()
+    advance(500)
+    const midway = Number(container.textContent?.replace(/,/g, ""))
+    expect(midway).toBeGreaterThan(0)
+    expect(midway).toBeLessThan(1250)
+
+    advance(600)
+    expect(container.textContent).toBe("1,250")
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it("shows the target straight away when the visitor prefers reduced motion", () => {
+    prefersReducedMotion(true)
+    const requestFrame = vi.spyOn(window, "requestAnimationFrame")
+    const { container } = render(<Counter target={98} />)
+
+    scrollIntoView()
+    expect(container.textContent).toBe("98")
+    expect(requestFrame).not.toHaveBeenCalled()
+  })
+
+  it("stops observing and cancels the animation on unmount", () => {
+    const cancelFrame = vi.spyOn(window, "cancelAnimationFrame")
+    const { container, unmount } = render(<Counter target={500} />)
+    scrollIntoView()
+    advance(200)
+    expect(container.textContent).not.toBe("500")
+
+    unmount()
+    expect(MockIntersectionObserver.instances[0].disconnect).toHaveBeenCalled()
+    expect(cancelFrame).toHaveBeenCalled()
+    expect(vi.getTimerCount()).toBe(0)
+  })
+})
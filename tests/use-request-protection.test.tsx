@@ -0,0 +1,65 @@
+import { act, renderHook } from "@testing-library/react"
+import { NextRequest } from "next/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { GET } from "@/app/api/challenge/route"
+import { useRequestProtection } from "@/hooks/use-request-protection"
+import { verifyChallenge } from "@/lib/abuse/challenge"
+import { ABUSE_POLICIES } from "@/lib/abuse/guard"
+
+/**
+ * Request Protection
+ *
+ * The server times a form from when its first challenge was fetched. A form
+ * sent back with an error must be resubmittable straight away with the next
+ * challenge.
+ */
+
+const { minAgeMs } = ABUSE_POLICIES.leads
+const loadedAt = new Date("2026-10-19T09:00:00.000Z").getTime()
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"], now: loadedAt })
+  // The browser's challenge requests go to the real endpoint
+  vi.stubGlobal("fetch", (url: string) => GET(new NextRequest(new URL(url, "http://localhost"))))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+type Protect = ReturnType<typeof useRequestProtection>["protect"]
+
+describe("useRequestProtection", () => {
+  it("lets a form resubmit right after the server refused its first submit", async () => {
+    const { result } = renderHook(() => useRequestProtection({ prefetch: true }))
+    const submit = async (at: number) => {
+      vi.setSystemTime(at)
+      let protection!: Awaited<ReturnType<Protect>>
+      await act(async () => {
+        protection = await result.current.protect()
+      })
+      return protection
+    }
+
+    // The first submit passes the guard; the endpoint then answers 400 on its own fields
+    const first = await submit(loadedAt + minAgeMs)
+    expect(verifyChallenge(first, { minAgeMs })).toBeNull()
+
+    const second = await submit(loadedAt + minAgeMs + 500)
+    expect(second.token).not.toBe(first.token)
+    expect(verifyChallenge(second, { minAgeMs })).toBeNull()
+  })
+
+  it("refuses a form submitted sooner than a person could fill it in", async () => {
+    const { result } = renderHook(() => useRequestProtection({ prefetch: true }))
+
+    vi.setSystemTime(loadedAt + minAgeMs - 500)
+    let protection!: Awaited<ReturnType<Protect>>
+    await act(async () => {
+      protection = await result.current.protect()
+    })
+    expect(verifyChallenge(protection, { minAgeMs })).toBe("submittedTooFast")
+  })
+})